@@ -0,0 +1,102 @@
+import {IllegalArgumentError} from "./Shared";
+
+
+/**
+ * A set of aliases, each of which maps a name to the input that replaces that name when it is used as a command.
+ */
+export class AliasTable {
+    /**
+     * The aliases and associated values.
+     */
+    private readonly _aliases: { [name: string]: string } = {};
+
+
+    /**
+     * Constructs a new set of aliases.
+     *
+     * @param aliases the aliases to load by default
+     */
+    constructor(aliases: { [name: string]: string } = {}) {
+        this.load(aliases);
+    }
+
+
+    /**
+     * Returns a copy of the aliases contained within this table.
+     */
+    get aliases(): { [name: string]: string } {
+        return Object.assign({}, this._aliases);
+    }
+
+
+    /**
+     * Deletes all aliases.
+     */
+    clear(): void {
+        for (const name of Object.getOwnPropertyNames(this._aliases))
+            this.delete(name);
+    }
+
+    /**
+     * Deletes the alias with the given name.
+     *
+     * @param name the name of the alias to delete
+     */
+    delete(name: string): void {
+        delete this._aliases[name];
+    }
+
+    /**
+     * Returns the value of the alias with the given name, or `undefined` if there is no such alias.
+     *
+     * @param name the name of the alias to return
+     */
+    get(name: string): string | undefined {
+        return this.has(name) ? this._aliases[name] : undefined;
+    }
+
+    /**
+     * Returns `true` if and only if there is an alias with the given name.
+     *
+     * @param name the name of the alias to check
+     */
+    has(name: string): boolean {
+        return this._aliases.hasOwnProperty(name);
+    }
+
+    /**
+     * Loads all aliases in the given object into this table.
+     *
+     * @param aliases the aliases to load
+     * @throws if the name of an alias is invalid
+     */
+    load(aliases: { [name: string]: string }): void {
+        for (const name of Object.getOwnPropertyNames(aliases))
+            this.set(name, aliases[name]);
+    }
+
+    /**
+     * Sets the value of the alias with the given name.
+     *
+     * @param name the name of the alias to set
+     * @param value the input that replaces the name when it is used as a command
+     * @throws if the name is invalid
+     */
+    set(name: string, value: string): void {
+        if (!AliasTable.isNameValid(name))
+            throw new IllegalArgumentError(
+                "Alias names can only contain alphanumerical characters, dots, dashes, and underscores.");
+
+        this._aliases[name] = value;
+    }
+
+
+    /**
+     * Returns `true` if and only if the given name has a valid format.
+     *
+     * @param name the name to validate
+     */
+    private static isNameValid(name: string): boolean {
+        return !!name.match(/^[0-9a-z_.-]+$/i);
+    }
+}
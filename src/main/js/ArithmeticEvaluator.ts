@@ -0,0 +1,453 @@
+import {Environment} from "./Environment";
+import {IllegalArgumentError} from "./Shared";
+
+
+/**
+ * Evaluates integer arithmetic expressions such as those in `$((...))` and in the `let` command.
+ *
+ * Expressions follow the syntax and precedence of C, and consist of integer literals, variable names, parentheses, and
+ * the following operators, from highest to lowest precedence:
+ *
+ * <ul>
+ *     <li>postfix `++` and `--`</li>
+ *     <li>prefix `++` and `--`, and unary `+`, `-`, `!`, and `~`</li>
+ *     <li>`**`</li>
+ *     <li>`*`, `/`, and `%`</li>
+ *     <li>`+` and `-`</li>
+ *     <li>`<<` and `>>`</li>
+ *     <li>`<`, `<=`, `>`, and `>=`</li>
+ *     <li>`==` and `!=`</li>
+ *     <li>`&`, then `^`, then `|`</li>
+ *     <li>`&&`, then `||`</li>
+ *     <li>`?:`</li>
+ *     <li>`=`, `*=`, `/=`, `%=`, `+=`, `-=`, `<<=`, `>>=`, `&=`, `^=`, and `|=`</li>
+ *     <li>`,`</li>
+ * </ul>
+ *
+ * Integer literals are decimal, hexadecimal if they start with `0x`, or octal if they start with `0`. A variable that
+ * is not set or that is empty has the value `0`. Comparisons and logical operators evaluate to `1` if they hold and to
+ * `0` otherwise, and `&&`, `||`, and `?:` do not evaluate operands that do not influence the result. Bitwise operators
+ * operate on 32-bit integers.
+ */
+export class ArithmeticEvaluator {
+    /**
+     * The binary operators ordered from lowest to highest precedence, excluding `**`.
+     */
+    private static readonly binaryOperators: string[][] = [
+        ["||"],
+        ["&&"],
+        ["|"],
+        ["^"],
+        ["&"],
+        ["==", "!="],
+        ["<", "<=", ">", ">="],
+        ["<<", ">>"],
+        ["+", "-"],
+        ["*", "/", "%"],
+    ];
+    /**
+     * The assignment operators.
+     */
+    private static readonly assignmentOperators: string[] =
+        ["=", "*=", "/=", "%=", "+=", "-=", "<<=", ">>=", "&=", "^=", "|="];
+
+    /**
+     * The environment containing the variables to read and assign.
+     */
+    private readonly environment: Environment;
+    /**
+     * The tokens of the expression that is being evaluated.
+     */
+    private tokens: string[] = [];
+    /**
+     * The index of the next token to evaluate.
+     */
+    private index: number = 0;
+    /**
+     * The number of operands that are currently being skipped; while this is positive, variables are not assigned and
+     * errors in calculations are ignored.
+     */
+    private skipping: number = 0;
+
+
+    /**
+     * Constructs a new arithmetic evaluator.
+     *
+     * @param environment the environment containing the variables to read and assign
+     */
+    constructor(environment: Environment) {
+        this.environment = environment;
+    }
+
+
+    /**
+     * Evaluates the given expression, assigns the variables that the expression assigns, and returns the result.
+     *
+     * An empty expression evaluates to `0`.
+     *
+     * @param expression the expression to evaluate
+     * @throws if the expression is invalid, if a number is invalid, if a read-only variable is assigned, or if a
+     * division by zero occurs
+     */
+    evaluate(expression: string): number {
+        this.tokens = tokenize(expression);
+        this.index = 0;
+        this.skipping = 0;
+
+        if (this.tokens.length === 0)
+            return 0;
+
+        const value = this.evaluateComma();
+        if (this.peek() !== undefined)
+            throw new IllegalArgumentError(`Unexpected token '${this.peek()}' in arithmetic expression.`);
+
+        return value;
+    }
+
+
+    /**
+     * Evaluates a comma-separated list of expressions and returns the value of the last expression.
+     */
+    private evaluateComma(): number {
+        let value = this.evaluateAssignment();
+        while (this.peek() === ",") {
+            this.next();
+            value = this.evaluateAssignment();
+        }
+
+        return value;
+    }
+
+    /**
+     * Evaluates an assignment, or a conditional expression if there is no assignment.
+     */
+    private evaluateAssignment(): number {
+        const name = this.peek();
+        const operator = this.peek(1);
+        if (!isName(name) || !ArithmeticEvaluator.assignmentOperators.includes(operator ?? ""))
+            return this.evaluateConditional();
+
+        this.next();
+        this.next();
+        let value = this.evaluateAssignment();
+        if (operator !== "=")
+            value = this.calculate(operator!.slice(0, -1), this.getVariable(name!), value);
+
+        this.setVariable(name!, value);
+        return value;
+    }
+
+    /**
+     * Evaluates a conditional expression of the form `condition ? value : alternative`, or a binary expression if
+     * there is no conditional expression.
+     */
+    private evaluateConditional(): number {
+        const condition = this.evaluateBinary(0);
+        if (this.peek() !== "?")
+            return condition;
+
+        this.next();
+        const value = this.skipIf(condition === 0, () => this.evaluateAssignment());
+        this.expect(":");
+        const alternative = this.skipIf(condition !== 0, () => this.evaluateConditional());
+
+        return condition !== 0 ? value : alternative;
+    }
+
+    /**
+     * Evaluates a sequence of binary operations with operators of the given precedence level or higher.
+     *
+     * @param level the index in `binaryOperators` of the operators to evaluate
+     */
+    private evaluateBinary(level: number): number {
+        if (level >= ArithmeticEvaluator.binaryOperators.length)
+            return this.evaluateExponent();
+
+        let value = this.evaluateBinary(level + 1);
+        while (ArithmeticEvaluator.binaryOperators[level].includes(this.peek() ?? "")) {
+            const operator = this.next();
+
+            if (operator === "&&") {
+                const right = this.skipIf(value === 0, () => this.evaluateBinary(level + 1));
+                value = value !== 0 && right !== 0 ? 1 : 0;
+            } else if (operator === "||") {
+                const right = this.skipIf(value !== 0, () => this.evaluateBinary(level + 1));
+                value = value !== 0 || right !== 0 ? 1 : 0;
+            } else {
+                value = this.calculate(operator!, value, this.evaluateBinary(level + 1));
+            }
+        }
+
+        return value;
+    }
+
+    /**
+     * Evaluates an exponentiation, which is right-associative.
+     */
+    private evaluateExponent(): number {
+        const base = this.evaluateUnary();
+        if (this.peek() !== "**")
+            return base;
+
+        this.next();
+        return this.calculate("**", base, this.evaluateExponent());
+    }
+
+    /**
+     * Evaluates a unary operation or a prefix increment or decrement.
+     */
+    private evaluateUnary(): number {
+        const operator = this.peek();
+        switch (operator) {
+            case "+":
+                this.next();
+                return this.evaluateUnary();
+            case "-":
+                this.next();
+                return -this.evaluateUnary();
+            case "!":
+                this.next();
+                return this.evaluateUnary() === 0 ? 1 : 0;
+            case "~":
+                this.next();
+                return ~this.evaluateUnary();
+            case "++":
+            case "--": {
+                this.next();
+                const name = this.next();
+                if (!isName(name))
+                    throw new IllegalArgumentError(`Expected a variable name after '${operator}'.`);
+
+                const value = this.getVariable(name!) + (operator === "++" ? 1 : -1);
+                this.setVariable(name!, value);
+                return value;
+            }
+            default:
+                return this.evaluatePrimary();
+        }
+    }
+
+    /**
+     * Evaluates a number, a variable with an optional postfix increment or decrement, or a parenthesized expression.
+     */
+    private evaluatePrimary(): number {
+        const token = this.next();
+        if (token === undefined)
+            throw new IllegalArgumentError("Unexpected end of arithmetic expression.");
+
+        if (token === "(") {
+            const value = this.evaluateComma();
+            this.expect(")");
+            return value;
+        }
+
+        if (isName(token)) {
+            const value = this.getVariable(token);
+            const operator = this.peek();
+            if (operator === "++" || operator === "--") {
+                this.next();
+                this.setVariable(token, value + (operator === "++" ? 1 : -1));
+            }
+
+            return value;
+        }
+
+        if (token.match(/^[0-9]/))
+            return parseNumber(token);
+
+        throw new IllegalArgumentError(`Unexpected token '${token}' in arithmetic expression.`);
+    }
+
+
+    /**
+     * Applies the given binary operator to the given operands.
+     *
+     * @param operator the binary operator to apply
+     * @param left the left operand
+     * @param right the right operand
+     * @throws if a division by zero occurs or if an exponent is negative
+     */
+    private calculate(operator: string, left: number, right: number): number {
+        switch (operator) {
+            case "*":
+                return left * right;
+            case "/":
+            case "%":
+                if (right === 0) {
+                    if (this.skipping > 0)
+                        return 0;
+                    throw new IllegalArgumentError("Division by zero.");
+                }
+
+                return operator === "/" ? Math.trunc(left / right) : left % right;
+            case "**":
+                if (right < 0) {
+                    if (this.skipping > 0)
+                        return 0;
+                    throw new IllegalArgumentError("Exponent less than 0.");
+                }
+
+                return left ** right;
+            case "+":
+                return left + right;
+            case "-":
+                return left - right;
+            case "<<":
+                return left << right;
+            case ">>":
+                return left >> right;
+            case "<":
+                return left < right ? 1 : 0;
+            case "<=":
+                return left <= right ? 1 : 0;
+            case ">":
+                return left > right ? 1 : 0;
+            case ">=":
+                return left >= right ? 1 : 0;
+            case "==":
+                return left === right ? 1 : 0;
+            case "!=":
+                return left !== right ? 1 : 0;
+            case "&":
+                return left & right;
+            case "^":
+                return left ^ right;
+            case "|":
+                return left | right;
+            default:
+                throw new IllegalArgumentError(`Unknown operator '${operator}'.`);
+        }
+    }
+
+    /**
+     * Returns the value of the variable with the given name.
+     *
+     * @param name the name of the variable to return the value of
+     * @throws if the variable does not contain a valid number
+     */
+    private getVariable(name: string): number {
+        const value = this.environment.getOrDefault(name, "").trim();
+        if (value === "")
+            return 0;
+
+        const isNegative = value.startsWith("-");
+        const number = parseNumber(isNegative ? value.slice(1).trim() : value);
+        return isNegative ? -number : number;
+    }
+
+    /**
+     * Assigns the given value to the variable with the given name, unless the current operand is being skipped.
+     *
+     * @param name the name of the variable to assign
+     * @param value the value to assign
+     * @throws if the variable is read-only
+     */
+    private setVariable(name: string, value: number): void {
+        if (this.skipping === 0)
+            this.environment.safeSet(name, "" + value);
+    }
+
+
+    /**
+     * Evaluates the given operand, without side effects if `isSkipped` is `true`.
+     *
+     * @param isSkipped `true` if and only if the operand does not influence the result
+     * @param operand the function that evaluates the operand
+     */
+    private skipIf(isSkipped: boolean, operand: () => number): number {
+        if (isSkipped)
+            this.skipping++;
+
+        try {
+            return operand();
+        } finally {
+            if (isSkipped)
+                this.skipping--;
+        }
+    }
+
+    /**
+     * Returns the token at the given offset from the next token without consuming it.
+     *
+     * @param offset the offset from the next token
+     */
+    private peek(offset: number = 0): string | undefined {
+        return this.tokens[this.index + offset];
+    }
+
+    /**
+     * Consumes and returns the next token.
+     */
+    private next(): string | undefined {
+        return this.tokens[this.index++];
+    }
+
+    /**
+     * Consumes the next token, and throws an error if it is not the given token.
+     *
+     * @param token the token that is expected next
+     * @throws if the next token is not the given token
+     */
+    private expect(token: string): void {
+        const next = this.next();
+        if (next === undefined)
+            throw new IllegalArgumentError(`Unexpected end of arithmetic expression. Expected '${token}'.`);
+        if (next !== token)
+            throw new IllegalArgumentError(`Unexpected token '${next}' in arithmetic expression. Expected '${token}'.`);
+    }
+}
+
+
+/**
+ * Splits the given arithmetic expression into numbers, names, and operators.
+ *
+ * @param expression the expression to split
+ * @throws if the expression contains a character that is not part of any token
+ */
+function tokenize(expression: string): string[] {
+    const pattern = new RegExp(
+        "\\s*([0-9][0-9a-z]*|[a-z_][a-z0-9_]*|<<=|>>=|\\*\\*|\\+\\+|--|&&|\\|\\||[=!<>]=|<<|>>|[-+*/%&^|]=|" +
+        "[-+*/%&^|!~<>=?:,()])",
+        "iy"
+    );
+
+    const tokens: string[] = [];
+    let index = 0;
+    let match;
+    while ((match = pattern.exec(expression)) !== null) {
+        tokens.push(match[1]);
+        index = pattern.lastIndex;
+    }
+
+    const rest = expression.slice(index).trim();
+    if (rest !== "")
+        throw new IllegalArgumentError(`Unexpected character '${rest[0]}' in arithmetic expression.`);
+
+    return tokens;
+}
+
+/**
+ * Returns the value of the given decimal, hexadecimal, or octal integer literal.
+ *
+ * @param literal the literal to parse
+ * @throws if the literal is not a valid integer
+ */
+function parseNumber(literal: string): number {
+    if (literal.match(/^0x[0-9a-f]+$/i))
+        return parseInt(literal.slice(2), 16);
+    if (literal.match(/^0[0-7]+$/))
+        return parseInt(literal.slice(1), 8);
+    if (literal.match(/^(0|[1-9][0-9]*)$/))
+        return parseInt(literal, 10);
+
+    throw new IllegalArgumentError(`Invalid number '${literal}'.`);
+}
+
+/**
+ * Returns `true` if and only if the given token is a variable name.
+ *
+ * @param token the token to check
+ */
+function isName(token: string | undefined): boolean {
+    return token !== undefined && token.match(/^[a-z_][a-z0-9_]*$/i) !== null;
+}
@@ -1,11 +1,15 @@
+import {AliasTable} from "./AliasTable";
+import {ArithmeticEvaluator} from "./ArithmeticEvaluator";
 import {Environment} from "./Environment";
 import "./Extensions";
 import {Directory, File, FileSystem, Node, Path,} from "./FileSystem";
 import {InputArgs} from "./InputArgs";
-import {InputParser} from "./InputParser";
+import {InputHistory} from "./InputHistory";
+import {Globber, InputParser, Tokenizer} from "./InputParser";
 import {Persistence} from "./Persistence";
-import {escapeHtml, IllegalArgumentError, IllegalStateError, isStandalone} from "./Shared";
-import {OutputStream, StreamSet} from "./Stream";
+import {escapeHtml, formatSize, IllegalArgumentError, IllegalStateError, isStandalone} from "./Shared";
+import {ShellOptions} from "./ShellOptions";
+import {Buffer, InputStream, OutputStream, Stream, StreamSet} from "./Stream";
 import {EscapeCharacters} from "./Terminal";
 import {HashProvider, User, UserList} from "./UserList";
 
@@ -14,6 +18,11 @@ import {HashProvider, User, UserList} from "./UserList";
  * A collection of commands that can be executed.
  */
 export class Commands {
+    /**
+     * The kinds of candidates that `#completeAction` can return.
+     */
+    static readonly completionActions: string[] = ["command", "directory", "file", "user", "variable"];
+
     /**
      * The environment in which commands are executed.
      */
@@ -26,6 +35,33 @@ export class Commands {
      * The file system to interact with.
      */
     private readonly fileSystem: FileSystem;
+    /**
+     * The aliases to expand commands with.
+     */
+    private readonly aliases: AliasTable;
+    /**
+     * The history of the user's inputs.
+     */
+    private readonly inputHistory: InputHistory;
+    /**
+     * The positional parameters of the script that is currently being executed, where the parameter at index `0` is the
+     * name of the script.
+     */
+    private parameters: string[] = ["josh"];
+    /**
+     * The functions that have been defined, indexed by name.
+     */
+    private readonly _functions: { [name: string]: ShellFunction } = {};
+    /**
+     * The completion functions that have been registered, indexed by the name of the command of which they complete
+     * the arguments.
+     */
+    private readonly _completers: { [name: string]: Command.Completer } = {};
+    /**
+     * The absolute path to the file that the terminal should open in an editor, or `undefined` if no editor has been
+     * requested.
+     */
+    private editorRequest: string | undefined = undefined;
 
 
     /**
@@ -34,13 +70,387 @@ export class Commands {
      * @param environment the environment in which commands are executed
      * @param userList the user list describing the user that executes commands
      * @param fileSystem the file system to interact with
+     * @param aliases the aliases to expand commands with
+     * @param inputHistory the history of the user's inputs
      */
-    constructor(environment: Environment, userList: UserList, fileSystem: FileSystem) {
+    constructor(environment: Environment, userList: UserList, fileSystem: FileSystem,
+                aliases: AliasTable = new AliasTable(), inputHistory: InputHistory = new InputHistory()) {
         this.environment = environment;
         this.userList = userList;
         this.fileSystem = fileSystem;
+        this.aliases = aliases;
+        this.inputHistory = inputHistory;
+    }
+
+
+    /**
+     * Returns a copy of the functions that have been defined, indexed by name.
+     */
+    get functions(): { [name: string]: ShellFunction } {
+        return Object.assign({}, this._functions);
+    }
+
+    /**
+     * Returns a copy of the completion functions that have been registered, indexed by the name of the command of which
+     * they complete the arguments.
+     */
+    get completers(): { [name: string]: Command.Completer } {
+        return Object.assign({}, this._completers);
+    }
+
+
+    /**
+     * Deletes the function with the given name, if it exists.
+     *
+     * @param name the name of the function to delete
+     */
+    deleteFunction(name: string): void {
+        delete this._functions[name];
+    }
+
+    /**
+     * Registers the given completion function for the arguments of the command with the given name, replacing the
+     * completion function of the command itself, if any.
+     *
+     * @param name the name of the command of which the completion function completes the arguments
+     * @param completer the completion function to register
+     */
+    setCompleter(name: string, completer: Command.Completer): void {
+        this._completers[name] = completer;
+    }
+
+    /**
+     * Deletes the completion function that has been registered for the command with the given name, if it exists.
+     *
+     * @param name the name of the command to delete the completion function of
+     */
+    deleteCompleter(name: string): void {
+        delete this._completers[name];
+    }
+
+    /**
+     * Requests the terminal to open an editor for the file at the given path once the current input has been
+     * executed, replacing any earlier request.
+     *
+     * @param path the absolute path to the file to edit
+     */
+    requestEditor(path: string): void {
+        this.editorRequest = path;
+    }
+
+    /**
+     * Returns the path to the file for which an editor was requested, or `undefined` if none was requested, and
+     * clears the request.
+     */
+    takeEditorRequest(): string | undefined {
+        const path = this.editorRequest;
+        this.editorRequest = undefined;
+        return path;
+    }
+
+    /**
+     * Returns the candidates for completing the given word, depending on its position in the input.
+     *
+     * The input before the word is split into commands at `;`, newlines, `|`, `&&`, and `||`, and keywords such as
+     * `if` and `do` at the start of a command are skipped. The first word of a command is then completed with the names
+     * of commands, aliases, and functions, or with paths if it contains a `/`. A word starting with `$` or `${` is
+     * completed with the names of variables. Any other word is completed by the command it is an argument of.
+     *
+     * @param left the input before the word to complete
+     * @param word the word to complete
+     * @see #complete
+     */
+    completeInput(left: string, word: string): Command.Completion[] {
+        if (word.startsWith("$")) {
+            const isBraced = word.startsWith("${");
+            return this.completeAction("variable", word.slice(isBraced ? 2 : 1))
+                .map(it => ({value: isBraced ? `\${${it.value}}` : `$${it.value}`}));
+        }
+
+        let tokens: string[];
+        try {
+            tokens = new Tokenizer().tokenize(left);
+        } catch (error) {
+            return this.completeAction("file", word);
+        }
+
+        let command: string[] = [];
+        tokens.forEach(token => {
+            if ([";", "\n", "|", "&&", "||"].includes(token))
+                command = [];
+            else if (command.length !== 0 || !["if", "then", "elif", "else", "while", "do"].includes(token))
+                command.push(token);
+        });
+
+        if (command.length === 0)
+            return this.completeAction(word.includes("/") ? "file" : "command", word);
+        return this.complete(command, word);
+    }
+
+    /**
+     * Returns the candidates for completing the given word as an argument of the command described by the given
+     * tokens.
+     *
+     * The candidates are returned by the completion function that has been registered for the command, or otherwise
+     * by the completion function of the command itself. If there is no completion function, or if it returns
+     * `undefined`, a word starting with `-` is completed with the options of the command, and any other word is
+     * completed with paths.
+     *
+     * The tokens are not expanded, so that completing a word does not change the state of the shell. The completion
+     * function therefore receives the arguments with their quotes removed, but otherwise as they were typed.
+     *
+     * @param tokens the unexpanded tokens of the command before the word to complete, starting with its name
+     * @param word the word to complete
+     */
+    complete(tokens: string[], word: string): Command.Completion[] {
+        let input: InputArgs;
+        try {
+            input = InputParser.create(this.environment, this.fileSystem, undefined, [], this.aliases)
+                .parseUnexpanded(tokens);
+        } catch (error) {
+            return this.completeAction("file", word);
+        }
+
+        const target = this.resolve(input.command);
+        const completer = this._completers.hasOwnProperty(input.command)
+            ? this._completers[input.command]
+            : (target instanceof Command ? target.completer : undefined);
+
+        const completions = completer?.(input, word);
+        if (completions !== undefined)
+            return completions;
+        if (word.startsWith("-"))
+            return target instanceof Command
+                ? target.options.filter(it => it.startsWith(word)).map(it => ({value: it}))
+                : [];
+        return this.completeAction("file", word);
+    }
+
+    /**
+     * Returns the candidates of the given kind that start with the given word.
+     *
+     * <ul>
+     *     <li>`command` completes the names of commands, aliases, and functions</li>
+     *     <li>`directory` completes the paths of directories relative to the current working directory</li>
+     *     <li>`file` completes the paths of files and directories relative to the current working directory</li>
+     *     <li>`user` completes the names of users</li>
+     *     <li>`variable` completes the names of environment variables</li>
+     * </ul>
+     *
+     * @param action the kind of candidates to return, which should be one of `Commands.completionActions`
+     * @param word the word to complete
+     * @throws if the action is unknown
+     */
+    completeAction(action: string, word: string): Command.Completion[] {
+        switch (action) {
+            case "command": {
+                const bin = this.fileSystem.get(new Path("/bin"));
+                const commands = Object.keys(bin instanceof Directory ? bin.nodes : {})
+                    .map(name => {
+                        const command = this.resolve(`/bin/${name}`);
+                        const summary = command instanceof Command ? command.summary : null;
+                        return summary === null ? {value: name} : {value: name, description: summary};
+                    });
+                const aliases = Object.keys(this.aliases.aliases).map(name => ({value: name, description: "alias"}));
+                const functions = Object.keys(this._functions).map(name => ({value: name, description: "function"}));
+
+                return commands.concat(aliases, functions)
+                    .filter(it => it.value.startsWith(word))
+                    .filter((it, i, all) => all.findIndex(that => that.value === it.value) === i)
+                    .sortAlphabetically(it => it.value, true);
+            }
+            case "directory":
+            case "file": {
+                const cwd = this.environment.get("cwd");
+                return new Globber(this.fileSystem, cwd)
+                    .glob(word + InputParser.EscapeChar + "*")
+                    .map(it => this.fileSystem.get(Path.interpret(cwd, it)) instanceof Directory ? it + "/" : it)
+                    .filter(it => action === "file" || it.endsWith("/"))
+                    .map(it => ({value: it}));
+            }
+            case "user":
+                return this.userList.users
+                    .filter(it => it.name.startsWith(word))
+                    .map(it => it.description === "" ? {value: it.name} : {value: it.name, description: it.description})
+                    .sortAlphabetically(it => it.value, true);
+            case "variable":
+                return Object.keys(this.environment.variables)
+                    .filter(it => it.startsWith(word))
+                    .sortAlphabetically(it => it, true)
+                    .map(it => ({value: it}));
+            default:
+                throw new IllegalArgumentError(`Unknown completion action '${action}'.`);
+        }
+    }
+
+    /**
+     * Executes the given and-or list and returns the exit code of the last pipeline that was executed.
+     *
+     * The first pipeline is always executed. Each subsequent pipeline is executed only if the operator preceding it
+     * agrees with the exit code of the last pipeline that was executed; that is, a pipeline preceded by `&&` is
+     * executed only if the last exit code was `ExitCode.OK`, and a pipeline preceded by `||` is executed only if the
+     * last exit code was not `ExitCode.OK`. The `status` environment variable is updated after each pipeline that is
+     * executed.
+     *
+     * @param list the and-or list to execute
+     * @param streams the streams to interact with
+     */
+    executeList(list: InputParser.AndOrList, streams: StreamSet): number {
+        return list.pipelines.reduce((acc, pipeline, i) => {
+            if (i > 0 && (list.operators[i - 1] === "&&") !== (acc === ExitCode.OK))
+                return acc;
+
+            const exitCode = this.executePipeline(pipeline, streams);
+            this.environment.set("status", "" + exitCode);
+            return exitCode;
+        }, ExitCode.OK);
+    }
+
+    /**
+     * Executes the given pipeline and returns the exit code of the last command in the pipeline.
+     *
+     * The commands in the pipeline are expanded and executed in order. The output that a command writes to its output
+     * stream is buffered and is then offered as the input stream of the next command. The first command reads from the
+     * given input stream, and the last command writes to the given output stream.
+     *
+     * @param pipeline the pipeline of commands to execute
+     * @param streams the streams to interact with
+     */
+    executePipeline(pipeline: InputParser.Pipeline, streams: StreamSet): number {
+        let ins: InputStream = streams.ins;
+
+        return pipeline.reduce((_, command, i) => {
+            const stageStreams = streams.copy();
+            stageStreams.ins = ins;
+            if (i < pipeline.length - 1) {
+                const pipe = new Buffer();
+                stageStreams.out = pipe;
+                ins = pipe;
+            }
+
+            return this.executeCommand(command, stageStreams);
+        }, <number> ExitCode.OK);
+    }
+
+    /**
+     * Executes the given series of and-or lists in order, and returns the exit code of the last list, or `ExitCode.OK`
+     * if the series is empty.
+     *
+     * @param lists the series of and-or lists to execute
+     * @param streams the streams to interact with
+     */
+    executeLists(lists: InputParser.AndOrList[], streams: StreamSet): number {
+        return lists.reduce((_, list) => this.executeList(list, streams), <number> ExitCode.OK);
+    }
+
+    /**
+     * Expands and executes the given simple or compound command and returns its exit code.
+     *
+     * @param command the command to execute
+     * @param streams the streams to interact with
+     */
+    private executeCommand(command: InputParser.Command, streams: StreamSet): number {
+        if (command.type === "simple") {
+            const tokens = command.words.map(it => it.text).concat(command.redirects.map(it => it.text));
+
+            let input: InputArgs;
+            try {
+                input = this.createParser(streams).parseCommand(tokens);
+            } catch (error) {
+                if (!(error instanceof Error))
+                    throw Error(`Error while processing expansion error:\n${error}`);
+
+                streams.err.writeLine(`Could not parse input: ${error.message}`);
+                return ExitCode.USAGE;
+            }
+
+            return this.execute(input, streams);
+        }
+
+        switch (command.type) {
+            case "if": {
+                const branch = command.branches
+                    .find(it => this.executeLists(it.condition, streams) === ExitCode.OK);
+
+                if (branch !== undefined)
+                    return this.executeLists(branch.body, streams);
+                if (command.otherwise !== undefined)
+                    return this.executeLists(command.otherwise, streams);
+                return ExitCode.OK;
+            }
+            case "while": {
+                let exitCode: number = ExitCode.OK;
+                while (this.executeLists(command.condition, streams) === ExitCode.OK)
+                    exitCode = this.executeLists(command.body, streams);
+                return exitCode;
+            }
+            case "for": {
+                let words: string[];
+                try {
+                    words = this.createParser(streams).expand(command.words.map(it => it.text));
+                } catch (error) {
+                    if (!(error instanceof Error))
+                        throw Error(`Error while processing expansion error:\n${error}`);
+
+                    streams.err.writeLine(`Could not parse input: ${error.message}`);
+                    return ExitCode.USAGE;
+                }
+
+                let exitCode: number = ExitCode.OK;
+                for (const word of words) {
+                    try {
+                        this.environment.safeSet(command.variable, word);
+                    } catch (error) {
+                        if (!(error instanceof Error))
+                            throw Error(`Error while processing loop variable error:\n${error}`);
+
+                        streams.err.writeLine(`Could not set loop variable: ${error.message}`);
+                        return ExitCode.MISC;
+                    }
+
+                    exitCode = this.executeLists(command.body, streams);
+                }
+                return exitCode;
+            }
+            case "function": {
+                this._functions[command.name] = new ShellFunction(command.body, command.source);
+                return ExitCode.OK;
+            }
+        }
+    }
+
+    /**
+     * Creates a parser that expands commands using the current state of the shell.
+     *
+     * @param streams the streams to interact with during command substitution
+     */
+    private createParser(streams: StreamSet): InputParser {
+        return InputParser.create(
+            this.environment,
+            this.fileSystem,
+            it => this.substitute(it, streams),
+            this.parameters,
+            this.aliases
+        );
     }
 
+    /**
+     * Parses and executes the given input string, and returns the output that it wrote to its output stream.
+     *
+     * This method is used to perform command substitution. Trailing newlines are retained in the returned output.
+     *
+     * @param input the input string to parse and execute
+     * @param streams the streams to interact with; the output stream is replaced with a buffer
+     * @throws if the input string cannot be parsed
+     */
+    private substitute(input: string, streams: StreamSet): string {
+        const output = new Buffer();
+        const localStreams = streams.copy();
+        localStreams.out = output;
+
+        this.executeLists(InputParser.create(this.environment, this.fileSystem).parseCommands(input), localStreams);
+        return output.read();
+    }
 
     /**
      * Parses and executes the given input string and returns the exit code of that command.
@@ -54,13 +464,21 @@ export class Commands {
 
         const localStreams = streams.copy();
         try {
-            localStreams.out = this.toStream(input.redirectTargets[1]) ?? localStreams.out;
-            localStreams.err = this.toStream(input.redirectTargets[2]) ?? localStreams.err;
+            const [inTarget, outTarget, errTarget] = [0, 1, 2].map(it => input.redirectTargets[it]);
+
+            const isSharedTarget = errTarget !== undefined &&
+                errTarget.type === outTarget?.type && errTarget.target === outTarget.target;
+
+            localStreams.ins = this.toStream(inTarget) ?? localStreams.ins;
+            localStreams.out = this.toOutputStream(outTarget, streams) ?? localStreams.out;
+            localStreams.err = isSharedTarget
+                ? localStreams.out
+                : this.toOutputStream(errTarget, streams) ?? localStreams.err;
         } catch (error) {
             if (!(error instanceof Error))
                 throw Error(`Error while processing redirection error:\n${error}`);
 
-            streams.err.writeLine(`Error while redirecting output:\n${error.message}`);
+            streams.err.writeLine(`Error while redirecting:\n${error.message}`);
             return ExitCode.MISC;
         }
 
@@ -84,11 +502,32 @@ export class Commands {
                 localStreams
             );
         } else if (target instanceof Script) {
-            const parser = InputParser.create(this.environment, this.fileSystem);
-            return target.lines
-                .map(line => parser.parseCommands(line))
-                .reduce((acc, input) => acc.concat(input), [])  // .flat()
-                .reduce((acc, code) => acc !== 0 ? acc : this.execute(code, localStreams), 0);
+            let lists: InputParser.AndOrList[];
+            try {
+                lists = InputParser.create(this.environment, this.fileSystem).parseCommands(target.lines.join("\n"));
+            } catch (error) {
+                if (!(error instanceof Error))
+                    throw Error(`Error while processing parsing error:\n${error}`);
+
+                localStreams.err.writeLine(`Could not parse script '${input.command}': ${error.message}`);
+                return ExitCode.USAGE;
+            }
+
+            const parameters = this.parameters;
+            this.parameters = [input.command].concat(this.toParameters(input));
+            try {
+                return lists.reduce((acc, list) => acc !== 0 ? acc : this.executeList(list, localStreams), 0);
+            } finally {
+                this.parameters = parameters;
+            }
+        } else if (target instanceof ShellFunction) {
+            const parameters = this.parameters;
+            this.parameters = [parameters[0]].concat(this.toParameters(input));
+            try {
+                return this.executeLists(target.body, localStreams);
+            } finally {
+                this.parameters = parameters;
+            }
         } else {
             const validation = target.validator.validate(input);
             if (!validation[0]) {
@@ -107,18 +546,21 @@ export class Commands {
      *
      * Targets are resolved as follows:
      * If the target name contains a slash, then resolve target relatively and return the result.
-     * Otherwise, look for the target in /bin. If no such target exists or it is not a file, then resolve the target
-     * relatively but return `undefined` if it is not a directory.
+     * Otherwise, look for a function with the target name. If no such function exists, look for the target in /bin. If
+     * no such target exists or it is not a file, then resolve the target relatively but return `undefined` if it is not
+     * a directory.
      *
      * @param targetName the name of the target to be resolved
-     * @return the `Command`, `Script`, or `Directory` addressed by the target, an `Error` if the target could be found
-     * but could not be parsed, or `undefined` if the target could not be found
+     * @return the `Command`, `Script`, `ShellFunction`, or `Directory` addressed by the target, an `Error` if the
+     * target could be found but could not be parsed, or `undefined` if the target could not be found
      */
-    resolve(targetName: string): Command | Script | Directory | Error | undefined {
+    resolve(targetName: string): Command | Script | ShellFunction | Directory | Error | undefined {
         const cwd = this.environment.get("cwd");
 
         let target: Node | undefined;
-        if (targetName.includes("/")) {
+        if (!targetName.includes("/") && this._functions.hasOwnProperty(targetName)) {
+            return this._functions[targetName];
+        } else if (targetName.includes("/")) {
             target = this.fileSystem.get(Path.interpret(cwd, targetName));
 
             if (!(target instanceof File))
@@ -148,6 +590,55 @@ export class Commands {
         }
     }
 
+    /**
+     * Reads the files that a text filter operates on, and returns the name, contents, and lines of each file that could
+     * be read, together with an exit code that is `ExitCode.OK` if and only if all files could be read.
+     *
+     * If no paths are given, or if a path is `-`, the standard input is read instead, with the name `(standard input)`.
+     * If a path does not refer to a file, an error is written to the standard error stream and the path is skipped.
+     *
+     * @param name the name of the command that reads the files, used in error messages
+     * @param paths the paths to the files to read, relative to the current working directory
+     * @param streams the standard streams
+     * @param isRecursive `true` if and only if the files inside directories should be read, in which case the current
+     * working directory is read if no paths are given
+     */
+    readFiles(name: string, paths: string[], streams: StreamSet,
+              isRecursive: boolean = false): [{ name: string, contents: string, lines: string[] }[], ExitCode] {
+        const files: { name: string, contents: string, lines: string[] }[] = [];
+        const addFile = (fileName: string, contents: string) => files.push({
+            name: fileName,
+            contents: contents,
+            lines: contents === "" ? [] : contents.replace(/\n$/, "").split("\n")
+        });
+
+        const exitCodes = (paths.length !== 0 ? paths : [isRecursive ? "" : "-"]).map(arg => {
+            if (arg === "-") {
+                addFile("(standard input)", streams.ins.read(undefined));
+                return ExitCode.OK;
+            }
+
+            const path = Path.interpret(this.environment.get("cwd"), arg);
+            const node = this.fileSystem.get(path);
+            if (isRecursive && node instanceof Directory) {
+                node.visit(arg.replace(/\/+$/, ""), (it, itPath) => {
+                    if (it instanceof File)
+                        addFile(itPath.replace(/^\//, arg.startsWith("/") ? "/" : ""), it.open("read").read());
+                });
+                return ExitCode.OK;
+            }
+            if (!(node instanceof File)) {
+                streams.err.writeLine(`${name}: '${path}': No such file.`);
+                return ExitCode.FILE_NOT_FOUND;
+            }
+
+            addFile(arg, node.open("read").read());
+            return ExitCode.OK;
+        });
+
+        return [files, exitCodes.reduce((acc, exitCode) => exitCode === ExitCode.OK ? acc : exitCode)];
+    }
+
     /**
      * Interprets the given binary and returns the `Command` it describes.
      *
@@ -160,17 +651,22 @@ export class Commands {
     private interpretBinary(code: string, environment: Environment, userList: UserList,
                             fileSystem: FileSystem): Command {
         const josh = {
+            "aliases": this.aliases,
             "environment": environment,
             "fileSystem": fileSystem,
+            "history": this.inputHistory,
             "interpreter": this,
             "userList": userList,
             "util": {
                 "escapeHtml": escapeHtml,
+                "formatSize": formatSize,
                 "isStandalone": isStandalone
             }
         };
         const namespace = {
+            "ArithmeticEvaluator": ArithmeticEvaluator,
             "Command": Command,
+            "Commands": Commands,
             "Directory": Directory,
             "DocOnlyCommand": DocOnlyCommand,
             "EscapeCharacters": EscapeCharacters,
@@ -181,6 +677,8 @@ export class Commands {
             "InputValidator": InputValidator,
             "Path": Path,
             "Persistence": Persistence,
+            "ShellFunction": ShellFunction,
+            "ShellOptions": ShellOptions,
             "User": User,
             "josh": josh
         };
@@ -188,6 +686,17 @@ export class Commands {
         return Function(...(Object.keys(namespace).concat([code])))(...Object.values(namespace));
     };
 
+    /**
+     * Returns the options and arguments of the given input as a list of positional parameters.
+     *
+     * @param input the input to convert to positional parameters
+     */
+    private toParameters(input: InputArgs): string[] {
+        return Object.entries(input.options)
+            .map(([key, value]) => value === null ? key : `${key}=${value}`)
+            .concat(input.args);
+    }
+
     /**
      * Formats an error message about invalid usage of the given command.
      *
@@ -204,19 +713,54 @@ export class Commands {
     }
 
     /**
-     * Converts a redirect target to an output stream, or `undefined` if the default stream is used.
+     * Converts a redirect target to a stream, or `undefined` if the default stream is used.
+     *
+     * If the shell option `noclobber` is enabled, a target of type `write` cannot be an existing file.
      *
      * @param target the target to convert
-     * @throws if the stream could not be opened
+     * @throws if the stream could not be opened, or if the target is a duplicated stream
      */
-    private toStream(target: InputArgs.RedirectTarget | undefined): OutputStream | undefined {
+    private toStream(target: InputArgs.RedirectTarget | undefined): Stream | undefined {
         if (target === undefined)
             return undefined;
 
         if (target.target === undefined)
             throw new IllegalStateError("Redirect target's target is undefined.");
 
-        return this.fileSystem.open(Path.interpret(this.environment.get("cwd"), target.target), target.type);
+        switch (target.type) {
+            case "here": {
+                const buffer = new Buffer();
+                buffer.write(target.target);
+                return buffer;
+            }
+            case "duplicate":
+                throw new IllegalArgumentError(`Cannot duplicate stream '${target.target}' here.`);
+            case "overwrite":
+                return this.fileSystem.open(Path.interpret(this.environment.get("cwd"), target.target), "write");
+            default: {
+                const path = Path.interpret(this.environment.get("cwd"), target.target);
+                const isClobbering = target.type === "write" && this.fileSystem.has(path);
+                if (isClobbering && ShellOptions.isEnabled(this.environment, "noclobber"))
+                    throw new IllegalArgumentError(
+                        `Cannot overwrite existing file '${path}' because 'noclobber' is enabled. Use '>|' instead.`);
+
+                return this.fileSystem.open(path, target.type);
+            }
+        }
+    }
+
+    /**
+     * Converts a redirect target to an output stream, or `undefined` if the default stream is used.
+     *
+     * @param target the target to convert
+     * @param streams the streams before any redirections were applied, which duplicated streams refer to
+     * @throws if the stream could not be opened
+     */
+    private toOutputStream(target: InputArgs.RedirectTarget | undefined, streams: StreamSet): OutputStream | undefined {
+        if (target?.type !== "duplicate")
+            return this.toStream(target);
+
+        return target.target === "2" ? streams.err : streams.out;
     }
 }
 
@@ -243,6 +787,32 @@ export class Script {
     }
 }
 
+/**
+ * A function that has been defined in the shell and that can be executed like a command.
+ */
+export class ShellFunction {
+    /**
+     * The and-or lists to execute when the function is invoked.
+     */
+    readonly body: InputParser.AndOrList[];
+    /**
+     * The definition of the function as it was written.
+     */
+    readonly source: string;
+
+
+    /**
+     * Constructs a new function.
+     *
+     * @param body the and-or lists to execute when the function is invoked
+     * @param source the definition of the function as it was written
+     */
+    constructor(body: InputParser.AndOrList[], source: string) {
+        this.body = body;
+        this.source = source;
+    }
+}
+
 /**
  * A command that can be executed.
  */
@@ -267,6 +837,11 @@ export class Command {
      * A function that validates input for this command.
      */
     readonly validator: InputValidator;
+    /**
+     * A function that returns the candidates for completing the arguments of this command, or `undefined` if the
+     * arguments should be completed in the default way.
+     */
+    readonly completer: Command.Completer | undefined;
 
 
     /**
@@ -278,17 +853,49 @@ export class Command {
      * @param desc a longer description of what the command does and how its parameters work, or `null` if not
      * applicable
      * @param validator a function that validates input for this command
+     * @param completer a function that returns the candidates for completing the arguments of this command, or
+     * `undefined` if the arguments should be completed in the default way
      */
     constructor(fun: (args: InputArgs, streams: StreamSet) => number, summary: string | null, usage: string | null,
-                desc: string | null, validator: InputValidator) {
+                desc: string | null, validator: InputValidator,
+                completer: Command.Completer | undefined = undefined) {
         this.fun = fun;
         this.summary = summary;
         this.usage = usage;
         this.desc = desc;
         this.validator = validator;
+        this.completer = completer;
+    }
+
+
+    /**
+     * Returns the names of the options that are described in the usage string, in the order in which they are
+     * described.
+     */
+    get options(): string[] {
+        return (this.usage?.match(/<b>--?[a-z0-9][a-z0-9-]*/gi) ?? [])
+            .map(it => it.slice("<b>".length))
+            .filter((it, i, options) => options.indexOf(it) === i);
     }
 }
 
+export module Command {
+    /**
+     * A candidate for completing a word, where `value` is the word to complete to and `description` is an optional
+     * explanation that is shown next to the candidate.
+     *
+     * Both the `value` and the `description` are plain text, and are escaped before they are displayed, so that
+     * descriptions taken from user input, such as the descriptions of users, cannot inject markup.
+     */
+    export type Completion = { value: string, description?: string };
+
+    /**
+     * Returns the candidates for completing the given word, where `input` contains the arguments before the word, or
+     * returns `undefined` if the word should be completed in the default way.
+     */
+    export type Completer = (input: InputArgs, word: string) => Completion[] | undefined;
+}
+
 /**
  * A command that cannot be executed, but of which the documentation can be looked up anyway.
  */
@@ -430,6 +1037,51 @@ const n = "".trimMultiLinesSep + "".trimMultiLinesSep;
  */
 // @formatter:off
 export const commandBinaries: { [key: string]: string } = {
+    "alias": /* language=JavaScript */ `\
+return new Command(
+    (input, streams) => {
+        const format = name => \`alias \${name}='\${josh.aliases.get(name).replace(/'/g, "'\\\\''")}'\`;
+
+        if (input.argc === 0) {
+            Object.keys(josh.aliases.aliases)
+                .sort()
+                .forEach(name => streams.out.writeLine(josh.util.escapeHtml(format(name))));
+            return ExitCode.OK;
+        }
+
+        return input.args
+            .map(arg => {
+                if (!arg.includes("=")) {
+                    if (!josh.aliases.has(arg)) {
+                        streams.err.writeLine(\`alias: Unknown alias '\${arg}'.\`);
+                        return ExitCode.MISC;
+                    }
+
+                    streams.out.writeLine(josh.util.escapeHtml(format(arg)));
+                    return ExitCode.OK;
+                }
+
+                try {
+                    josh.aliases.set(arg.slice(0, arg.indexOf("=")), arg.slice(arg.indexOf("=") + 1));
+                    return ExitCode.OK;
+                } catch (error) {
+                    streams.err.writeLine(\`alias: \${error.message}\`);
+                    return ExitCode.MISC;
+                }
+            })
+            .reduce((acc, exitCode) => exitCode === ExitCode.OK ? acc : exitCode);
+    },
+    \`define or display aliases\`,
+    \`alias [<u>name</u>[=<u>value</u>] <u>...</u>]\`,
+    \`Defines an alias for each <u>name</u> for which a <u>value</u> is given. Afterwards, whenever <u>name</u> is ${n}
+    used as a command, it is replaced with <u>value</u>. For each <u>name</u> for which no <u>value</u> is given, ${n}
+    the definition of that alias is displayed.
+
+    If no arguments are given, the definitions of all aliases are displayed.
+
+    Aliases are stored separately for each user. Use <tt>unalias</tt> to remove an alias.\`.trimMultiLines(),
+    new InputValidator()
+)`,
     "and": /* language=JavaScript */ `\
 return new Command(
     (input, streams) => {
@@ -447,40 +1099,51 @@ return new Command(
     \`Executes <u>command</u> with its associated options and arguments if and only if the status code of the ${n}
     previously-executed command is ${ExitCode.OK}.
 
-    The exit code is retained if it was non-zero, and is changed to that of <u>command</u> otherwise.${n}
-    \`.trimMultiLines(),
+    The exit code is retained if it was non-zero, and is changed to that of <u>command</u> otherwise.
+
+    This command is retained for compatibility. Prefer the <b>&amp;&amp;</b> operator instead, as in ${n}
+    "<u>command</u> <b>&amp;&amp;</b> <u>command</u>".\`.trimMultiLines(),
     new InputValidator({minArgs: 1})
 )`,
     "cat": /* language=JavaScript */ `\
 return new Command(
     (input, streams) => {
-        return input.args
-            .map(arg => Path.interpret(josh.environment.get("cwd"), arg))
-            .map(path => {
-                const node = josh.fileSystem.get(path);
-                if (!(node instanceof File)) {
+        const print = contents => {
+            if (input.hasAnyOption("-e", "--escape-html"))
+                contents = josh.util.escapeHtml(contents);
+            if (contents !== "" && !contents.endsWith("\\n"))
+                contents += "\\n";
+
+            streams.out.write(contents);
+        };
+
+        if (input.argc === 0) {
+            print(streams.ins.read());
+            return ExitCode.OK;
+        }
+
+        return input.args
+            .map(arg => Path.interpret(josh.environment.get("cwd"), arg))
+            .map(path => {
+                const node = josh.fileSystem.get(path);
+                if (!(node instanceof File)) {
                     streams.err.writeLine(\`cat: '\${path}': No such file.\`);
                     return ExitCode.FILE_NOT_FOUND;
                 }
 
-                let contents = node.open("read").read();
-                if (input.hasAnyOption("-e", "--escape-html"))
-                    contents = josh.util.escapeHtml(contents);
-                if (!contents.endsWith("\\n"))
-                    contents += "\\n";
-
-                streams.out.write(contents);
+                print(node.open("read").read());
                 return ExitCode.OK;
             })
             .reduce((acc, exitCode) => exitCode === ExitCode.OK ? acc : exitCode);
     },
     \`concatenate and print files\`,
-    \`cat [<b>-e</b> | <b>--escape-html</b>] <u>file</u> <u>...</u>\`,
-    \`Reads files sequentially, writing them to the standard output.
+    \`cat [<b>-e</b> | <b>--escape-html</b>] [<u>file</u> <u>...</u>]\`,
+    \`Reads files sequentially, writing them to the standard output. If no files are given, the standard input is ${n}
+    read instead.
 
     If the file contains valid HTML, it will be displayed as such by default. If the <b>--escape-html</b> option is ${n}
     given, special HTML characters are escaped and the raw text contents can be inspected.\`.trimMultiLines(),
-    new InputValidator({minArgs: 1})
+    new InputValidator()
 )`,
     "cd": /* language=JavaScript */ `\
 return new Command(
@@ -519,6 +1182,69 @@ return new Command(
     \`clear\`,
     \`Clears all previous terminal output.\`,
     new InputValidator({maxArgs: 0})
+)`,
+    "complete": /* language=JavaScript */ `\
+return new Command(
+    (input, streams) => {
+        if (input.argc === 0) {
+            Object.keys(josh.interpreter.completers)
+                .sort()
+                .forEach(it => streams.out.writeLine(it));
+            return ExitCode.OK;
+        }
+
+        if (input.hasAnyOption("-r", "--remove")) {
+            input.args.forEach(it => josh.interpreter.deleteCompleter(it));
+            return ExitCode.OK;
+        }
+
+        const actions = (input.options["-A"] ?? input.options["--action"] ?? "")
+            .split(",")
+            .filter(it => it !== "");
+        const words = (input.options["-W"] ?? input.options["--words"] ?? "")
+            .split(" ")
+            .filter(it => it !== "");
+
+        const unknownAction = actions.find(it => !Commands.completionActions.includes(it));
+        if (unknownAction !== undefined) {
+            streams.err.writeLine(\`complete: Unknown action '\${unknownAction}'.\`);
+            return ExitCode.USAGE;
+        }
+        if (actions.length === 0 && words.length === 0) {
+            streams.err.writeLine("complete: Expected an action or a list of words.");
+            return ExitCode.USAGE;
+        }
+
+        input.args.forEach(name => josh.interpreter.setCompleter(name, (_, word) =>
+            actions
+                .flatMap(it => josh.interpreter.completeAction(it, word))
+                .concat(words.filter(it => it.startsWith(word)).map(it => ({value: it})))
+        ));
+        return ExitCode.OK;
+    },
+    \`define argument completions\`,
+    \`complete [<b>-A</b>/<b>--action</b>=<u>action</u>] [<b>-W</b>/<b>--words</b>=<u>words</u>] <u>name</u> <u>...</u>
+    complete <b>-r</b>/<b>--remove</b> <u>name</u> <u>...</u>\`.trimMultiLines(),
+    \`Defines how the arguments of each command <u>name</u> are completed when pressing Tab, replacing the ${n}
+    completion that the command itself provides. The arguments are completed with the names described by ${n}
+    <u>action</u>, which is a comma-separated list of the following actions, and with the space-separated ${n}
+    <u>words</u>.
+
+    <b>command</b>    The names of commands, aliases, and functions.
+
+    <b>directory</b>  The paths of directories.
+
+    <b>file</b>       The paths of files and directories.
+
+    <b>user</b>       The names of users.
+
+    <b>variable</b>   The names of environment variables.
+
+    If <b>--remove</b> is given, the completion that was defined for each command <u>name</u> is removed instead.
+
+    If no arguments are given, the commands for which a completion has been defined are displayed.\`.trimMultiLines(),
+    new InputValidator(),
+    (input, word) => word.startsWith("-") ? undefined : josh.interpreter.completeAction("command", word)
 )`,
     "cp": /* language=JavaScript */ `\
 return new Command(
@@ -559,6 +1285,162 @@ return new Command(
     In both forms, <u>source</u> files are not copied if they are directories and the <b>-R</b> option is not given.${n}
     \`.trimMultiLines(),
     new InputValidator({minArgs: 2})
+)`,
+    "cut": /* language=JavaScript */ `\
+return new Command(
+    (input, streams) => {
+        const delimiter = input.options["-d"] ?? input.options["--delimiter"] ??
+            (input.hasAnyOption("-d", "--delimiter") ? null : "\\t");
+        if (delimiter === null) {
+            streams.err.writeLine("cut: Option '-d' requires a delimiter, as in '-d=,'.");
+            return ExitCode.USAGE;
+        }
+        if (delimiter.length !== 1) {
+            streams.err.writeLine("cut: The delimiter must be a single character.");
+            return ExitCode.USAGE;
+        }
+
+        if (!input.hasAnyOption("-f", "--fields")) {
+            streams.err.writeLine("cut: Expected a list of fields.");
+            return ExitCode.USAGE;
+        }
+
+        const list = input.options["-f"] ?? input.options["--fields"] ?? null;
+        if (list === null) {
+            streams.err.writeLine("cut: Option '-f' requires a list of fields, as in '-f=1,3'.");
+            return ExitCode.USAGE;
+        }
+
+        const ranges = list.split(",").map(part => {
+            const match = part.match(/^([0-9]*)(-?)([0-9]*)$/);
+            if (match === null || part === "" || part === "-")
+                return undefined;
+
+            const start = match[1] === "" ? 1 : Number(match[1]);
+            const end = match[2] === "" ? start : (match[3] === "" ? Infinity : Number(match[3]));
+            return start >= 1 && end >= start ? {start: start, end: end} : undefined;
+        });
+        if (ranges.includes(undefined)) {
+            streams.err.writeLine(\`cut: Invalid list of fields '\${list}'.\`);
+            return ExitCode.USAGE;
+        }
+
+        const isSelected = field => ranges.some(it => it.start <= field && field <= it.end);
+        const [files, exitCode] = josh.interpreter.readFiles("cut", input.args, streams);
+        files.flatMap(file => file.lines).forEach(line => {
+            if (!line.includes(delimiter))
+                streams.out.writeLine(line);
+            else
+                streams.out.writeLine(line.split(delimiter).filter((_, i) => isSelected(i + 1)).join(delimiter));
+        });
+        return exitCode;
+    },
+    \`select fields from lines\`,
+    \`cut [<b>-d</b>/<b>--delimiter</b>=<u>delimiter</u>] <b>-f</b>/<b>--fields</b>=<u>list</u> ${n}
+    [<u>file</u> <u>...</u>]\`.trimMultiLines(),
+    \`Splits each line of each <u>file</u> into fields separated by <u>delimiter</u>, and writes the fields in ${n}
+    <u>list</u> to the standard output. If no files are given, the standard input is read instead. The default ${n}
+    <u>delimiter</u> is a tab. Lines that do not contain the <u>delimiter</u> are written as-is.
+
+    The <u>list</u> is a comma-separated list of field numbers and ranges, where the first field has number 1. A ${n}
+    range <b>n-m</b> selects fields <b>n</b> through <b>m</b>, a range <b>n-</b> selects field <b>n</b> and ${n}
+    all fields after it, and a range <b>-m</b> selects all fields up to and including field ${n}
+    <b>m</b>.\`.trimMultiLines(),
+    new InputValidator()
+)`,
+    "df": /* language=JavaScript */ `\
+return new Command(
+    (input, streams) => {
+        const quota = 5 * 1024 * 1024;
+        const used = JSON.stringify(josh.fileSystem.root).length;
+        const format = size => input.hasAnyOption("-h", "--human-readable") ? josh.util.formatSize(size) : \`\${size}\`;
+
+        const rows = [
+            ["Filesystem", "Size", "Used", "Avail", "Use%", "Mounted on"],
+            [
+                "localStorage",
+                format(quota),
+                format(used),
+                format(Math.max(quota - used, 0)),
+                \`\${Math.ceil(used / quota * 100)}%\`,
+                "/"
+            ]
+        ];
+        const widths = rows[0].map((_, i) => Math.max(...rows.map(row => row[i].length)));
+        rows.forEach(row => streams.out.writeLine(
+            row
+                .map((it, i) => i === 0 || i === row.length - 1 ? it.padEnd(widths[i]) : it.padStart(widths[i]))
+                .join("  ")
+                .trimEnd()
+        ));
+        return ExitCode.OK;
+    },
+    \`report file system space usage\`,
+    \`df [<b>-h</b> | <b>--human-readable</b>]\`,
+    \`Writes how much of the storage space of the browser is used by the file system. The file system is stored ${n}
+    in the local storage of the browser, which is assumed to hold 5 MiB. The space used is the length of the ${n}
+    stored file system.
+
+    If the <b>--human-readable</b> option is given, sizes are written in units such as <b>K</b> and ${n}
+    <b>M</b>.\`.trimMultiLines(),
+    new InputValidator({maxArgs: 0})
+)`,
+    "du": /* language=JavaScript */ `\
+return new Command(
+    (input, streams) => {
+        const depth = input.options["-d"] ?? input.options["--max-depth"] ?? "";
+        if (input.hasAnyOption("-d", "--max-depth") && !depth.match(/^[0-9]+$/)) {
+            streams.err.writeLine(\`du: Invalid depth '\${depth}'.\`);
+            return ExitCode.USAGE;
+        }
+
+        const maxDepth = input.hasAnyOption("-s", "--summarize")
+            ? 0
+            : (depth === "" ? Number.MAX_SAFE_INTEGER : Number(depth));
+        const format = size => input.hasAnyOption("-h", "--human-readable") ? josh.util.formatSize(size) : \`\${size}\`;
+        const measure = (node, path, depth) => {
+            let size;
+            if (node instanceof File) {
+                size = node.contents.length;
+            } else {
+                const nodes = node.nodes;
+                size = Object.keys(nodes)
+                    .sortAlphabetically(it => it, true)
+                    .map(name => measure(nodes[name], \`\${path.replace(/\\/$/, "")}/\${name}\`, depth + 1))
+                    .reduce((acc, it) => acc + it, 0);
+            }
+
+            if (depth === 0 || (node instanceof Directory && depth <= maxDepth))
+                streams.out.writeLine(\`\${format(size)}\\t\${path}\`);
+            return size;
+        };
+
+        return (input.argc === 0 ? ["."] : input.args)
+            .map(arg => {
+                const path = Path.interpret(josh.environment.get("cwd"), arg);
+                const node = josh.fileSystem.get(path);
+                if (node === undefined) {
+                    streams.err.writeLine(\`du: '\${path}': No such file or directory.\`);
+                    return ExitCode.FILE_NOT_FOUND;
+                }
+
+                measure(node, arg, 0);
+                return ExitCode.OK;
+            })
+            .reduce((acc, exitCode) => exitCode === ExitCode.OK ? acc : exitCode);
+    },
+    \`estimate file space usage\`,
+    \`du [<b>-s</b> | <b>--summarize</b>] [<b>-h</b> | <b>--human-readable</b>] ${n}
+    [<b>-d</b>/<b>--max-depth</b>=<u>depth</u>] [<u>file</u> <u>...</u>]\`.trimMultiLines(),
+    \`Writes the size in bytes of each <u>file</u> and of each directory inside it to the standard output. If no ${n}
+    files are given, the size of the current working directory is written instead. The size of a directory is ${n}
+    the total size of the files inside it, and the size of a file is the number of characters in it.
+
+    If the <b>--summarize</b> option is given, only the size of each <u>file</u> itself is written. If the ${n}
+    <b>--max-depth</b> option is given, the sizes of directories more than <u>depth</u> directories deep are not ${n}
+    written. If the <b>--human-readable</b> option is given, sizes are written in units such as <b>K</b> and ${n}
+    <b>M</b>.\`.trimMultiLines(),
+    new InputValidator()
 )`,
     "echo": /* language=JavaScript */ `\
 return new Command(
@@ -581,6 +1463,48 @@ return new Command(
 
     Unless the <b>--newline</b> parameter is given, a newline is appended to the end.\`.trimMultiLines(),
     new InputValidator()
+)`,
+    "edit": /* language=JavaScript */ `\
+return new Command(
+    (input, streams) => {
+        const path = Path.interpret(josh.environment.get("cwd"), input.args[0]);
+        const node = josh.fileSystem.get(path);
+        if (node instanceof Directory) {
+            streams.err.writeLine(\`edit: '\${path}' is a directory.\`);
+            return ExitCode.USAGE;
+        }
+        if (node === undefined && !(josh.fileSystem.get(path.parent) instanceof Directory)) {
+            streams.err.writeLine(\`edit: The directory '\${path.parent}' does not exist.\`);
+            return ExitCode.FILE_NOT_FOUND;
+        }
+
+        josh.interpreter.requestEditor(path.toString());
+        return ExitCode.OK;
+    },
+    \`edit a file\`,
+    \`edit <u>file</u>\`,
+    \`Opens <u>file</u> in a full-screen editor, in which each line is preceded by its line number. If ${n}
+    <u>file</u> does not exist, the editor starts out empty, and <u>file</u> is created when it is saved.
+
+    The following keys are available:
+
+    <b>arrow keys</b>         Move the cursor.
+
+    <b>Home</b>, <b>End</b>          Move the cursor to the start or the end of the line.
+
+    <b>PageUp</b>, <b>PageDown</b>   Move the cursor up or down by 20 lines.
+
+    <b>Ctrl+Home</b>, <b>Ctrl+End</b>  Move the cursor to the start or the end of the file.
+
+    <b>Ctrl+S</b>             Save the file.
+
+    <b>Ctrl+F</b>             Search for text after the cursor. Pressing Enter without typing any text searches ${n}
+    for the previous text again.
+
+    <b>Ctrl+X</b>             Close the editor. If the file has unsaved changes, asks whether to save them first.
+
+    Other keys edit the file as usual. While a question is asked, Escape dismisses the question.\`.trimMultiLines(),
+    new InputValidator({minArgs: 1, maxArgs: 1})
 )`,
     "exit": /* language=JavaScript */ `\
 return new Command(
@@ -594,6 +1518,136 @@ return new Command(
 
     Returns status code <u>status</u> if it is defined, and returns 0 otherwise.\`,
     new InputValidator({minArgs: 0, maxArgs: 1})
+)`,
+    "expr": /* language=JavaScript */ `\
+return new Command(
+    (input, streams) => {
+        const args = input.args;
+        let index = 0;
+
+        const isInteger = value => /^-?[0-9]+$/.test(value);
+        const isNull = value => value === "" || (isInteger(value) && parseInt(value) === 0);
+        const toInteger = value => {
+            if (!isInteger(value))
+                throw new Error(\`Non-integer argument '\${value}'.\`);
+            return parseInt(value);
+        };
+        const compare = (left, right) => {
+            if (isInteger(left) && isInteger(right))
+                return parseInt(left) - parseInt(right);
+            return left < right ? -1 : (left > right ? 1 : 0);
+        };
+        const match = (string, pattern) => {
+            const regex = new RegExp("^(?:" + pattern.replace(/\\\\([()])|([()+?{}|])/g, (_, group, literal) =>
+                group ?? "\\\\" + literal) + ")");
+            const result = regex.exec(string);
+            if (pattern.includes("\\\\("))
+                return result?.[1] ?? "";
+            return "" + (result?.[0].length ?? 0);
+        };
+
+        const apply = (operator, left, right) => {
+            switch (operator) {
+                case "|":
+                    return !isNull(left) ? left : (!isNull(right) ? right : "0");
+                case "&":
+                    return !isNull(left) && !isNull(right) ? left : "0";
+                case "=":
+                    return compare(left, right) === 0 ? "1" : "0";
+                case "!=":
+                    return compare(left, right) !== 0 ? "1" : "0";
+                case "<":
+                    return compare(left, right) < 0 ? "1" : "0";
+                case "<=":
+                    return compare(left, right) <= 0 ? "1" : "0";
+                case ">":
+                    return compare(left, right) > 0 ? "1" : "0";
+                case ">=":
+                    return compare(left, right) >= 0 ? "1" : "0";
+                case "+":
+                    return "" + (toInteger(left) + toInteger(right));
+                case "-":
+                    return "" + (toInteger(left) - toInteger(right));
+                case "*":
+                    return "" + (toInteger(left) * toInteger(right));
+                case "/":
+                case "%":
+                    if (toInteger(right) === 0)
+                        throw new Error("Division by zero.");
+                    return "" + (operator === "/"
+                        ? Math.trunc(toInteger(left) / toInteger(right))
+                        : toInteger(left) % toInteger(right));
+                case ":":
+                    return match(left, right);
+            }
+        };
+
+        const operators = [["|"], ["&"], ["=", "!=", "<", "<=", ">", ">="], ["+", "-"], ["*", "/", "%"], [":"]];
+        const evaluate = level => {
+            if (level === operators.length) {
+                const token = args[index++];
+                if (token === undefined)
+                    throw new Error("Unexpected end of expression.");
+                if (token !== "(")
+                    return token;
+
+                const value = evaluate(0);
+                if (args[index++] !== ")")
+                    throw new Error("Missing closing ).");
+                return value;
+            }
+
+            let value = evaluate(level + 1);
+            while (operators[level].includes(args[index])) {
+                const operator = args[index++];
+                value = apply(operator, value, evaluate(level + 1));
+            }
+            return value;
+        };
+
+        try {
+            const result = evaluate(0);
+            if (index < args.length)
+                throw new Error(\`Unexpected argument '\${args[index]}'.\`);
+
+            streams.out.writeLine(result);
+            return isNull(result) ? ExitCode.MISC : ExitCode.OK;
+        } catch (error) {
+            streams.err.writeLine(\`expr: \${error.message}\`);
+            return ExitCode.DATA_ERROR;
+        }
+    },
+    \`evaluate expression\`,
+    \`expr <u>expression</u>\`,
+    \`Evaluates <u>expression</u> and writes the result. Each operand and operator of <u>expression</u> must be ${n}
+    a separate argument. Operators that have a special meaning to the shell, such as <b>*</b>, <b>|</b>, and ${n}
+    <b>&lt;</b>, must be quoted or escaped.
+
+    The following operators are available, from lowest to highest precedence:
+
+    <u>a</u> <b>|</b> <u>b</u>   <u>a</u> if it is neither empty nor zero, otherwise <u>b</u> if it is neither ${n}
+    empty nor zero, otherwise 0.
+
+    <u>a</u> <b>&amp;</b> <u>b</u>   <u>a</u> if neither <u>a</u> nor <u>b</u> is empty or zero, otherwise 0.
+
+    <u>a</u> <b>=</b> <u>b</u>   1 if <u>a</u> equals <u>b</u>, otherwise 0. Likewise for <b>!=</b>, ${n}
+    <b>&lt;</b>, <b>&lt;=</b>, <b>&gt;</b>, and <b>&gt;=</b>. Operands are compared as integers if both are ${n}
+    integers, and as text otherwise.
+
+    <u>a</u> <b>+</b> <u>b</u>   The sum of integers <u>a</u> and <u>b</u>. Likewise for <b>-</b>.
+
+    <u>a</u> <b>*</b> <u>b</u>   The product of integers <u>a</u> and <u>b</u>. Likewise for <b>/</b> and ${n}
+    <b>%</b>, which round towards zero.
+
+    <u>a</u> <b>:</b> <u>b</u>   The number of characters at the start of <u>a</u> that match regular ${n}
+    expression <u>b</u>. If <u>b</u> contains a group <b>\\\\(</b>...<b>\\\\)</b>, the text matched by that ${n}
+    group instead.
+
+    <b>(</b> <u>a</u> <b>)</b>   The value of <u>a</u>.
+
+    The exit code is 0 if the result is neither empty nor zero, 1 if it is, and ${ExitCode.DATA_ERROR} if ${n}
+    <u>expression</u> is invalid.\`.trimMultiLines(),
+    new InputValidator({minArgs: 1})
 )`,
     "false": /* language=JavaScript */ `\
 return new Command(
@@ -602,6 +1656,389 @@ return new Command(
     \`false\`,
     \`Set the <tt>status</tt> environment variable to ${ExitCode.MISC}.\`.trimMultiLines(),
     new InputValidator({minArgs: 0})
+)`,
+    "find": /* language=JavaScript */ `\
+return new Command(
+    (input, streams) => {
+        const words = Object.keys(input.options).length === 0 ? input.args : input.words;
+        const pathCount = words.findIndex(it => it.startsWith("-") || it === "!" || it === "(");
+        const paths = pathCount < 0 ? words : words.slice(0, pathCount);
+        const tokens = pathCount < 0 ? [] : words.slice(pathCount);
+        const cwd = josh.environment.get("cwd");
+
+        const toRegExp = (pattern, flags) => {
+            const source = pattern.replace(/\\[!?[^\\]]+\\]|[-\\/\\\\^$*+?.()|[\\]{}]/g, it => {
+                if (it === "*")
+                    return ".*";
+                if (it === "?")
+                    return ".";
+                if (it.length > 1)
+                    return "[" + it.slice(1, -1).replace(/^!/, "^").replace(/\\\\/g, "\\\\\\\\") + "]";
+                return "\\\\" + it;
+            });
+            return new RegExp(\`^\${source}$\`, flags);
+        };
+
+        let i = 0;
+        let exitCode = ExitCode.OK;
+        let hasAction = false;
+        let isDeleting = false;
+        let minDepth = 0;
+        let maxDepth = Number.MAX_SAFE_INTEGER;
+        const readValue = name => {
+            if (i >= tokens.length)
+                throw new Error(\`Missing argument to '\${name}'.\`);
+            return tokens[i++];
+        };
+        const parseOr = () => {
+            let predicate = parseAnd();
+            while (tokens[i] === "-o" || tokens[i] === "-or") {
+                i++;
+                const [left, right] = [predicate, parseAnd()];
+                predicate = it => left(it) || right(it);
+            }
+            return predicate;
+        };
+        const parseAnd = () => {
+            let predicate = parseNot();
+            while (i < tokens.length && !["-o", "-or", ")"].includes(tokens[i])) {
+                if (tokens[i] === "-a" || tokens[i] === "-and")
+                    i++;
+                const [left, right] = [predicate, parseNot()];
+                predicate = it => left(it) && right(it);
+            }
+            return predicate;
+        };
+        const parseNot = () => {
+            if (tokens[i] !== "!" && tokens[i] !== "-not")
+                return parsePrimary();
+
+            i++;
+            const predicate = parseNot();
+            return it => !predicate(it);
+        };
+        const parsePrimary = () => {
+            const token = tokens[i++];
+            switch (token) {
+                case undefined:
+                    throw new Error("Expected an expression.");
+                case "(": {
+                    const predicate = parseOr();
+                    if (tokens[i++] !== ")")
+                        throw new Error("Expected ')'.");
+                    return predicate;
+                }
+                case "-name":
+                case "-iname": {
+                    const regex = toRegExp(readValue(token), token === "-iname" ? "i" : "");
+                    return it => regex.test(it.name);
+                }
+                case "-path": {
+                    const regex = toRegExp(readValue(token), "");
+                    return it => regex.test(it.path);
+                }
+                case "-type": {
+                    const type = readValue(token);
+                    if (!["f", "d", "l"].includes(type))
+                        throw new Error(\`Unknown type '\${type}'.\`);
+                    const nodeType = {"f": File, "d": Directory}[type];
+                    return it => nodeType !== undefined && it.node instanceof nodeType;
+                }
+                case "-empty":
+                    return it => it.node instanceof File
+                        ? it.node.contents === ""
+                        : Object.keys(it.node.nodes).length === 0;
+                case "-size": {
+                    const size = readValue(token);
+                    const match = size.match(/^([+-]?)([0-9]+)([ckM]?)$/);
+                    if (match === null)
+                        throw new Error(\`Invalid size '\${size}'.\`);
+
+                    const unit = {"": 512, "c": 1, "k": 1024, "M": 1024 * 1024}[match[3]];
+                    return it => {
+                        const units = Math.ceil((it.node instanceof File ? it.node.contents.length : 0) / unit);
+                        if (match[1] === "+")
+                            return units > Number(match[2]);
+                        if (match[1] === "-")
+                            return units < Number(match[2]);
+                        return units === Number(match[2]);
+                    };
+                }
+                case "-maxdepth":
+                case "-mindepth": {
+                    const depth = readValue(token);
+                    if (!depth.match(/^[0-9]+$/))
+                        throw new Error(\`Invalid depth '\${depth}'.\`);
+
+                    if (token === "-maxdepth")
+                        maxDepth = Number(depth);
+                    else
+                        minDepth = Number(depth);
+                    return () => true;
+                }
+                case "-print":
+                    hasAction = true;
+                    return it => {
+                        streams.out.writeLine(it.path);
+                        return true;
+                    };
+                case "-delete":
+                    hasAction = true;
+                    isDeleting = true;
+                    return it => {
+                        if (it.node instanceof Directory && Object.keys(it.node.nodes).length !== 0) {
+                            streams.err.writeLine(\`find: Cannot delete '\${it.path}': Directory is not empty.\`);
+                            exitCode = ExitCode.MISC;
+                            return false;
+                        }
+
+                        josh.fileSystem.remove(Path.interpret(cwd, it.path));
+                        return true;
+                    };
+                case "-exec": {
+                    hasAction = true;
+                    const words = [];
+                    while (tokens[i] !== ";") {
+                        if (i >= tokens.length)
+                            throw new Error("Missing ';' after '-exec'.");
+                        words.push(tokens[i++]);
+                    }
+                    i++;
+                    if (words.length === 0)
+                        throw new Error("Missing argument to '-exec'.");
+
+                    return it => {
+                        const command = words.map(word => word.split("{}").join(it.path));
+                        const parser = InputParser.create(josh.environment, josh.fileSystem);
+                        return josh.interpreter.execute(parser.parseWords(command), streams) === ExitCode.OK;
+                    };
+                }
+                default:
+                    throw new Error(\`Unknown predicate '\${token}'.\`);
+            }
+        };
+
+        let predicate;
+        try {
+            predicate = tokens.length === 0 ? () => true : parseOr();
+            if (i < tokens.length)
+                throw new Error(\`Unexpected '\${tokens[i]}'.\`);
+        } catch (error) {
+            streams.err.writeLine(\`find: \${error.message}\`);
+            return ExitCode.USAGE;
+        }
+
+        (paths.length !== 0 ? paths : ["."]).forEach(arg => {
+            const node = josh.fileSystem.get(Path.interpret(cwd, arg));
+            if (node === undefined) {
+                streams.err.writeLine(\`find: '\${arg}': No such file or directory.\`);
+                exitCode = ExitCode.FILE_NOT_FOUND;
+                return;
+            }
+
+            const base = arg.replace(/\\/+$/, "");
+            const entries = [];
+            const collect = (it, path) => {
+                const depth = path.slice(base.length).split("/").length - 1;
+                if (depth >= minDepth && depth <= maxDepth)
+                    entries.push({node: it, path: path === "" ? "/" : path, name: path.split("/").pop() || "/"});
+            };
+            if (isDeleting)
+                node.visit(base, () => {}, () => {}, collect);
+            else
+                node.visit(base, collect);
+
+            entries.forEach(it => {
+                if (predicate(it) && !hasAction)
+                    streams.out.writeLine(it.path);
+            });
+        });
+        return exitCode;
+    },
+    \`search for files\`,
+    \`find [<u>path</u> <u>...</u>] [<u>expression</u>]\`,
+    \`Visits each <u>path</u> and all files and directories inside it, and evaluates <u>expression</u> for each of ${n}
+    them. If no paths are given, the current directory is visited instead. If the <u>expression</u> does not ${n}
+    contain an action, the paths for which the <u>expression</u> is true are written to the standard output.
+
+    An <u>expression</u> consists of tests, actions, and operators. The following tests are available:
+
+    <b>-name <u>pattern</u></b>    True if the name of the file matches the glob <u>pattern</u>.
+
+    <b>-iname <u>pattern</u></b>   Like <b>-name</b>, but ignores the case of letters.
+
+    <b>-path <u>pattern</u></b>    True if the path of the file matches the glob <u>pattern</u>.
+
+    <b>-type <u>type</u></b>       True if the file is a regular file (<b>f</b>), a directory (<b>d</b>), or a ${n}
+    symbolic link (<b>l</b>). Symbolic links do not exist in josh.
+
+    <b>-size <u>size</u></b>       True if the size of the file is <u>size</u> units, rounded up. The unit is ${n}
+    <b>c</b> for bytes, <b>k</b> for kibibytes, <b>M</b> for mebibytes, or 512 bytes if no unit is given. If ${n}
+    <u>size</u> is preceded by <b>+</b> or <b>-</b>, the size must be more or less than <u>size</u> instead.
+
+    <b>-empty</b>            True if the file is empty, or if the directory contains no files.
+
+    <b>-maxdepth <u>n</u></b>      Always true. Visits no files more than <u>n</u> directories below the <u>path</u>.
+
+    <b>-mindepth <u>n</u></b>      Always true. Visits no files less than <u>n</u> directories below the <u>path</u>.
+
+    The following actions are available:
+
+    <b>-print</b>            Writes the path of the file to the standard output. Always true.
+
+    <b>-delete</b>           Deletes the file or empty directory. True if the file was deleted. Directories are ${n}
+    visited after the files inside them if this action is used.
+
+    <b>-exec <u>command</u> ;</b>  Executes <u>command</u>, in which each <b>{}</b> is replaced with the path of ${n}
+    the file. True if the <u>command</u> succeeds.
+
+    Tests and actions are combined with the operators <b>( <u>expression</u> )</b>, <b>! <u>expression</u></b> or ${n}
+    <b>-not <u>expression</u></b>, <b><u>expression</u> -a <u>expression</u></b> or ${n}
+    <b><u>expression</u> -and <u>expression</u></b>, and <b><u>expression</u> -o <u>expression</u></b> or ${n}
+    <b><u>expression</u> -or <u>expression</u></b>, in order of decreasing precedence. If no operator is given ${n}
+    between two expressions, <b>-and</b> is used. The right side of <b>-and</b> and <b>-or</b> is only evaluated ${n}
+    if it can change the result. Because <b>(</b>, <b>)</b>, <b>!</b>, and <b>;</b> have a special meaning in ${n}
+    the shell, they must be escaped or quoted.\`.trimMultiLines(),
+    new InputValidator()
+)`,
+    "functions": /* language=JavaScript */ `\
+return new Command(
+    (input, streams) => {
+        const functions = josh.interpreter.functions;
+        if (input.argc === 0) {
+            Object.keys(functions)
+                .sort()
+                .forEach(name => streams.out.writeLine(josh.util.escapeHtml(functions[name].source)));
+            return ExitCode.OK;
+        }
+
+        return input.args
+            .map(name => {
+                if (!functions.hasOwnProperty(name)) {
+                    streams.err.writeLine(\`functions: Unknown function '\${name}'.\`);
+                    return ExitCode.MISC;
+                }
+
+                streams.out.writeLine(josh.util.escapeHtml(functions[name].source));
+                return ExitCode.OK;
+            })
+            .reduce((acc, exitCode) => exitCode === ExitCode.OK ? acc : exitCode);
+    },
+    \`display function definitions\`,
+    \`functions [<u>name</u> <u>...</u>]\`,
+    \`Displays the definition of each function <u>name</u>.
+
+    If no names are given, the definitions of all functions are displayed.
+
+    A function is defined by writing <tt>name() { commands; }</tt>. Afterwards, <tt>name</tt> can be invoked like ${n}
+    any other command, with its arguments available as <tt>$1</tt>, <tt>$2</tt>, and so on. Functions take ${n}
+    precedence over commands in <tt>/bin</tt>, and can be removed with <tt>unset -f</tt>.\`.trimMultiLines(),
+    new InputValidator()
+)`,
+    "grep": /* language=JavaScript */ `\
+return new Command(
+    (input, streams) => {
+        let source = input.args[0];
+        if (!input.hasAnyOption("-E", "--extended-regexp"))
+            source = source.replace(/\\\\(.)|([+?|(){}])/g, (match, escaped, special) => {
+                if (special !== undefined)
+                    return "\\\\" + special;
+                return "+?|(){}".includes(escaped) ? escaped : match;
+            });
+
+        let regex;
+        try {
+            regex = new RegExp(source, input.hasAnyOption("-i", "--ignore-case") ? "i" : "");
+        } catch (error) {
+            streams.err.writeLine(\`grep: \${error.message}\`);
+            return ExitCode.USAGE;
+        }
+
+        const isRecursive = input.hasAnyOption("-r", "--recursive");
+        const [files, exitCode] = josh.interpreter.readFiles("grep", input.args.slice(1), streams, isRecursive);
+
+        const isInverted = input.hasAnyOption("-v", "--invert-match");
+        const isNumbered = input.hasAnyOption("-n", "--line-number");
+        const hasPrefix = input.argc > 2 || isRecursive;
+        const number = it => isNumbered ? \`\${it.number}:\` : "";
+        let hasMatch = false;
+        files.forEach(file => {
+            const matches = file.lines
+                .map((line, i) => ({line: line, number: i + 1}))
+                .filter(it => regex.test(it.line) !== isInverted);
+            hasMatch = hasMatch || matches.length !== 0;
+
+            const prefix = hasPrefix ? \`\${file.name}:\` : "";
+            if (input.hasAnyOption("-l", "--files-with-matches")) {
+                if (matches.length !== 0)
+                    streams.out.writeLine(file.name);
+            } else if (input.hasAnyOption("-c", "--count")) {
+                streams.out.writeLine(\`\${prefix}\${matches.length}\`);
+            } else {
+                matches.forEach(it => streams.out.writeLine(\`\${prefix}\${number(it)}\${it.line}\`));
+            }
+        });
+
+        if (exitCode !== ExitCode.OK)
+            return exitCode;
+        return hasMatch ? ExitCode.OK : ExitCode.MISC;
+    },
+    \`print lines that match a pattern\`,
+    \`grep [<b>-i</b> | <b>--ignore-case</b>] [<b>-v</b> | <b>--invert-match</b>] ${n}
+    [<b>-n</b> | <b>--line-number</b>] [<b>-c</b> | <b>--count</b>] [<b>-l</b> | <b>--files-with-matches</b>] ${n}
+    [<b>-r</b> | <b>--recursive</b>] [<b>-E</b> | <b>--extended-regexp</b>] <u>pattern</u> ${n}
+    [<u>file</u> <u>...</u>]\`.trimMultiLines(),
+    \`Searches each <u>file</u> for lines that match the regular expression <u>pattern</u>, and writes those lines ${n}
+    to the standard output. If no files are given, the standard input is searched instead. If more than one ${n}
+    <u>file</u> is given, each line is preceded by the name of its file.
+
+    The <u>pattern</u> is a basic regular expression, in which the characters <b>+?|(){}</b> match themselves ${n}
+    unless they are preceded by a backslash. If <b>--extended-regexp</b> is given, the <u>pattern</u> is an ${n}
+    extended regular expression instead, in which these characters have their special meaning unless they are ${n}
+    preceded by a backslash.
+
+    If <b>--ignore-case</b> is given, the case of letters is ignored. If <b>--invert-match</b> is given, the lines ${n}
+    that do not match are selected instead. If <b>--line-number</b> is given, each line is preceded by its line ${n}
+    number. If <b>--count</b> is given, only the number of selected lines in each <u>file</u> is written. If ${n}
+    <b>--files-with-matches</b> is given, only the names of the files that contain a selected line are written.
+
+    If <b>--recursive</b> is given, the files inside each directory <u>file</u> are searched as well. If no files ${n}
+    are given, the current directory is searched instead.
+
+    The exit code is 0 if any line was selected, and 1 otherwise.\`.trimMultiLines(),
+    new InputValidator({minArgs: 1})
+)`,
+    "head": /* language=JavaScript */ `\
+return new Command(
+    (input, streams) => {
+        const count = input.options["-n"] ?? input.options["--lines"] ??
+            (input.hasAnyOption("-n", "--lines") ? null : "10");
+        if (count === null) {
+            streams.err.writeLine("head: Option '-n' requires a count, as in '-n=5'.");
+            return ExitCode.USAGE;
+        }
+        if (!count.match(/^[0-9]+$/)) {
+            streams.err.writeLine(\`head: Invalid number of lines '\${count}'.\`);
+            return ExitCode.USAGE;
+        }
+
+        const [files, exitCode] = josh.interpreter.readFiles("head", input.args, streams);
+        files.forEach((file, i) => {
+            if (input.argc > 1)
+                streams.out.writeLine(josh.util.escapeHtml(\`\${i === 0 ? "" : "\\n"}==> \${file.name} <==\`));
+
+            file.lines.slice(0, Number(count)).forEach(line => streams.out.writeLine(line));
+        });
+        return exitCode;
+    },
+    \`output the first part of files\`,
+    \`head [<b>-n</b>/<b>--lines</b>=<u>count</u>] [<u>file</u> <u>...</u>]\`,
+    \`Writes the first 10 lines of each <u>file</u> to the standard output. If no files are given, the standard ${n}
+    input is read instead. If more than one <u>file</u> is given, the lines of each <u>file</u> are preceded by a ${n}
+    header with its name.
+
+    If <b>--lines</b> is given, the first <u>count</u> lines are written instead.\`.trimMultiLines(),
+    new InputValidator()
 )`,
     "help": /* language=JavaScript */ `\
 return new Command(
@@ -612,11 +2049,26 @@ return new Command(
                     if (i > 0)
                         streams.out.write("\\n\\n");
 
+                    if (josh.aliases.has(commandName)) {
+                        streams.out.writeLine(
+                            \`<b>Name</b>\\n\${commandName}\\n\\n\` +
+                            \`<b>Alias for</b>\\n\${josh.util.escapeHtml(josh.aliases.get(commandName))}\`
+                        );
+                        return ExitCode.OK;
+                    }
+
                     const command = josh.interpreter.resolve(commandName);
                     if (command === undefined || command instanceof Directory) {
                         streams.err.writeLine(\`help: Unknown command '\${commandName}'.\`);
                         return ExitCode.USAGE;
                     }
+                    if (command instanceof ShellFunction) {
+                        streams.out.writeLine(
+                            \`<b>Name</b>\\n\${commandName}\\n\\n\` +
+                            \`<b>Definition</b>\\n\${josh.util.escapeHtml(command.source)}\`
+                        );
+                        return ExitCode.OK;
+                    }
 
                     let helpString = "<b>Name</b>\\n" + commandName;
                     if (command.summary !== null)
@@ -639,7 +2091,7 @@ return new Command(
 
             const commands = {};
             Object.keys(slashBin.nodes).map(it => {
-                const command = josh.interpreter.resolve(it);
+                const command = josh.interpreter.resolve(\`/bin/\${it}\`);
                 if (command !== undefined) commands[it] = command;
             });
             const commandNames = Object.keys(commands).filter(it => !(commands[it] instanceof DocOnlyCommand));
@@ -652,6 +2104,15 @@ return new Command(
             const commandEntries = commandNames
                 .map((it, i) => \`\${commandLinks[i]}\${commands[it].summary}\`);
 
+            const aliases = josh.aliases.aliases;
+            const aliasNames = Object.keys(aliases).sort();
+            const aliasWidth = Math.max.apply(null, aliasNames.map(it => it.length)) + 4;
+            const aliasEntries = aliasNames
+                .map(it => \`\${it.padEnd(aliasWidth, " ")}\${josh.util.escapeHtml(aliases[it])}\`);
+            const aliasSection = aliasNames.length === 0
+                ? ""
+                : \`\\n\\n<b>List of aliases</b>\\n\${aliasEntries.join("\\n")}\`;
+
             const target = josh.util.isStandalone() ? \`target="_blank"\` : "";
             streams.out.writeLine(
                 \`The source code of this website is ${n}
@@ -660,36 +2121,161 @@ return new Command(
                 steal your data.
 
                 <b>List of commands</b>
-                \${commandEntries.join("\\n")}
+                \${commandEntries.join("\\n")}\${aliasSection}
 
                 Write "help [COMMAND]" or click a command in the list above for more information.\`.trimMultiLines()
             );
             return ExitCode.OK;
         }
     },
-    \`display documentation\`,
-    \`help [<u>command</u> <u>...</u>]\`,
-    \`Displays help documentation for each <u>command</u>.
+    \`display documentation\`,
+    \`help [<u>command</u> <u>...</u>]\`,
+    \`Displays help documentation for each <u>command</u>.
+
+    If no commands are given, a list of all commands is shown.\`.trimMultiLines(),
+    new InputValidator(),
+    (input, word) => josh.interpreter.completeAction("command", word)
+)`,
+    "hier": /* language=JavaScript */ `\
+return new DocOnlyCommand(
+    \`description of the file system hierarchy\`,
+    \`A typical josh system has, among others, the following directories:
+
+    <u>/</u>      This is the root directory. This is where the whole tree starts.
+
+    <u>/bin</u>   Executable programs fundamental to user environments.
+
+    <u>/dev</u>   Contains special files and device files that refer to physical devices.
+
+    <u>/etc</u>   System configuration files and scripts.
+
+    <u>/home</u>  Contains directories for users to store personal files in.
+
+    <u>/root</u>  The home directory of the root user.\`.trimMultiLines()
+)`,
+    "history": /* language=JavaScript */ `\
+return new Command(
+    (input, streams) => {
+        if (input.hasAnyOption("-c", "--clear")) {
+            josh.history.clear();
+            return ExitCode.OK;
+        }
+
+        const args = input.args;
+        const entries = josh.history.entries.reverse();
+        if (input.hasAnyOption("-d", "--delete")) {
+            const position = input.options["-d"] ?? input.options["--delete"] ?? args.shift();
+            if (position === undefined) {
+                streams.err.writeLine("history: Option '-d' requires a position.");
+                return ExitCode.USAGE;
+            }
+            if (args.length !== 0) {
+                streams.err.writeLine(\`history: Unexpected argument '\${args[0]}'.\`);
+                return ExitCode.USAGE;
+            }
+            if (!position.match(/^[0-9]+$/) || Number(position) < 1 || Number(position) > entries.length) {
+                streams.err.writeLine(\`history: Position '\${position}' is out of range.\`);
+                return ExitCode.USAGE;
+            }
+
+            josh.history.remove(entries.length - Number(position));
+            return ExitCode.OK;
+        }
+
+        let term = "";
+        if (input.hasAnyOption("-s", "--search")) {
+            term = input.options["-s"] ?? input.options["--search"] ?? args.shift();
+            if (term === undefined) {
+                streams.err.writeLine("history: Option '-s' requires a term.");
+                return ExitCode.USAGE;
+            }
+        }
+        if (args.length > 1) {
+            streams.err.writeLine(\`history: Unexpected argument '\${args[1]}'.\`);
+            return ExitCode.USAGE;
+        }
+        if (args.length !== 0 && !args[0].match(/^[0-9]+$/)) {
+            streams.err.writeLine(\`history: Invalid count '\${args[0]}'.\`);
+            return ExitCode.USAGE;
+        }
+
+        const matches = entries
+            .map((entry, i) => ({position: i + 1, entry: entry}))
+            .filter(it => it.entry.input.includes(term));
+        const count = args.length === 0 ? matches.length : Number(args[0]);
+
+        const pad = number => number.toString().padStart(2, "0");
+        const formatTime = timestamp => {
+            if (timestamp === undefined)
+                return "".padEnd(19);
+
+            const date = new Date(timestamp);
+            return \`\${date.getFullYear()}-\${pad(date.getMonth() + 1)}-\${pad(date.getDate())} \` +
+                \`\${pad(date.getHours())}:\${pad(date.getMinutes())}:\${pad(date.getSeconds())}\`;
+        };
+
+        matches
+            .slice(Math.max(matches.length - count, 0))
+            .forEach(({position, entry}) => {
+                const number = String(position).padStart(5);
+                const time = formatTime(entry.timestamp);
+                const status = String(entry.status ?? "").padStart(3);
+                streams.out.writeLine(josh.util.escapeHtml(\`\${number}  \${time}  \${status}  \${entry.input}\`));
+            });
+        return ExitCode.OK;
+    },
+    \`display or edit the input history\`,
+    \`history [<b>-s</b>/<b>--search</b> <u>term</u>] [<u>count</u>]
+    history <b>-d</b>/<b>--delete</b> <u>position</u>
+    history <b>-c</b>/<b>--clear</b>\`.trimMultiLines(),
+    \`Displays the history of inputs, starting with the oldest input. Each input is shown with its position, the ${n}
+    time at which it was given, and the exit code with which it completed. If <u>count</u> is given, only the last ${n}
+    <u>count</u> inputs are displayed. If <b>--search</b> is given, only inputs that contain <u>term</u> are ${n}
+    displayed.
 
-    If no commands are given, a list of all commands is shown.\`.trimMultiLines(),
-    new InputValidator()
-)`,
-    "hier": /* language=JavaScript */ `\
-return new DocOnlyCommand(
-    \`description of the file system hierarchy\`,
-    \`A typical josh system has, among others, the following directories:
+    If <b>--delete</b> is given, the input at <u>position</u> is removed from the history instead. If ${n}
+    <b>--clear</b> is given, all inputs are removed from the history instead. The <u>term</u> and <u>position</u> ${n}
+    can also be given as in <b>--search=</b><u>term</u> and <b>--delete=</b><u>position</u>.
 
-    <u>/</u>      This is the root directory. This is where the whole tree starts.
+    Inputs can refer to the history, and these references are expanded before the input is executed:
 
-    <u>/bin</u>   Executable programs fundamental to user environments.
+    <b>!!</b>        The previous input.
 
-    <u>/dev</u>   Contains special files and device files that refer to physical devices.
+    <b>!</b><u>n</u>        The input at position <u>n</u>.
 
-    <u>/etc</u>   System configuration files and scripts.
+    <b>!-</b><u>n</u>       The <u>n</u>th previous input.
 
-    <u>/home</u>  Contains directories for users to store personal files in.
+    <b>!</b><u>prefix</u>   The most recent input that starts with <u>prefix</u>.
 
-    <u>/root</u>  The home directory of the root user.\`.trimMultiLines()
+    <b>^</b><u>old</u><b>^</b><u>new</u>  The previous input in which <u>old</u> is replaced by <u>new</u>.
+
+    If the environment variable <tt>HISTSIZE</tt> is set to a number, at most that many inputs are kept in the ${n}
+    history.\`.trimMultiLines(),
+    new InputValidator({maxArgs: 2})
+)`,
+    "let": /* language=JavaScript */ `\
+return new Command(
+    (input, streams) => {
+        try {
+            const evaluator = new ArithmeticEvaluator(josh.environment);
+            const values = input.args.map(arg => evaluator.evaluate(arg));
+
+            return values[values.length - 1] !== 0 ? ExitCode.OK : ExitCode.MISC;
+        } catch (error) {
+            streams.err.writeLine(\`let: \${error.message}\`);
+            return ExitCode.MISC;
+        }
+    },
+    \`evaluate arithmetic expressions\`,
+    \`let <u>expression</u> <u>...</u>\`,
+    \`Evaluates each arithmetic <u>expression</u> in turn, as in <b>$((</b><u>expression</u><b>))</b>. The exit ${n}
+    code is 0 if the last <u>expression</u> evaluates to a non-zero value, and 1 otherwise.
+
+    An <u>expression</u> consists of integers, variable names, parentheses, and the operators of C, such as ${n}
+    <b>+</b>, <b>*</b>, <b>%</b>, <b>**</b>, <b>&lt;=</b>, <b>&amp;&amp;</b>, <b>?:</b>, <b>=</b>, <b>+=</b>, and ${n}
+    <b>++</b>. Variables that are not set have the value 0. Quote an <u>expression</u> that contains spaces or ${n}
+    characters that have a special meaning to the shell, as in <b>let "i = i * 2"</b>.\`.trimMultiLines(),
+    new InputValidator({minArgs: 1})
 )`,
     "ls": /* language=JavaScript */ `\
 return new Command(
@@ -814,6 +2400,18 @@ return new Command(
     In its second form, all <u>source</u> files are moved into <u>target-directory</u>, which must be a ${n}
     pre-existing directory. The file names of the <u>source</u> files are retained.\`.trimMultiLines(),
     new InputValidator({minArgs: 2})
+)`,
+    "nano": /* language=JavaScript */ `\
+return new Command(
+    (input, streams) => josh.interpreter.execute(
+        InputParser.create(josh.environment, josh.fileSystem).parseWords(["edit"].concat(input.args)),
+        streams
+    ),
+    \`edit a file\`,
+    \`nano <u>file</u>\`,
+    \`Opens <u>file</u> in a full-screen editor, in the same way as <b>edit</b>. Press <b>Ctrl+S</b> to save ${n}
+    the file and <b>Ctrl+X</b> to close the editor. See <b>help edit</b> for the other keys.\`.trimMultiLines(),
+    new InputValidator({minArgs: 1, maxArgs: 1})
 )`,
     "not": /* language=JavaScript */ `\
 return new Command(
@@ -877,7 +2475,10 @@ return new Command(
     \`Executes <u>command</u> with its associated options and arguments if and only if the status code of the ${n}
     previously-executed command is not ${ExitCode.OK}.
 
-    The exit code is retained if it was zero, and is changed to that of <u>command</u> otherwise.\`.trimMultiLines(),
+    The exit code is retained if it was zero, and is changed to that of <u>command</u> otherwise.
+
+    This command is retained for compatibility. Prefer the <b>||</b> operator instead, as in ${n}
+    "<u>command</u> <b>||</b> <u>command</u>".\`.trimMultiLines(),
     new InputValidator({minArgs: 1})
 )`,
     "poweroff": /* language=JavaScript */ `\
@@ -1004,10 +2605,286 @@ return new Command(
     \`Removes each given <u>directory</u>. If more than one <u>directory</u> is given, they are removed in the ${n}
     order they are given in. Non-empty directories will not be removed.\`.trimMultiLines(),
     new InputValidator({minArgs: 1})
+)`,
+    "sed": /* language=JavaScript */ `\
+return new Command(
+    (input, streams) => {
+        const isQuiet = input.hasAnyOption("-n", "--quiet");
+        const isInPlace = input.hasAnyOption("-i", "--in-place");
+        const toRegExp = (source, flags) => {
+            if (!input.hasAnyOption("-E", "--regexp-extended"))
+                source = source.replace(/\\\\(.)|([+?|(){}])/g, (match, escaped, special) => {
+                    if (special !== undefined)
+                        return "\\\\" + special;
+                    return "+?|(){}".includes(escaped) ? escaped : match;
+                });
+
+            return new RegExp(source, flags);
+        };
+
+        const script = input.args[0];
+        let i = 0;
+        const readUntil = delimiter => {
+            let text = "";
+            while (i < script.length && script[i] !== delimiter) {
+                if (script[i] === "\\\\" && i + 1 < script.length) {
+                    text += script[i + 1] === delimiter ? delimiter : script.slice(i, i + 2);
+                    i += 2;
+                } else {
+                    text += script[i++];
+                }
+            }
+            if (i >= script.length)
+                return undefined;
+
+            i++;
+            return text;
+        };
+        const parseAddress = () => {
+            if (script[i] === "$") {
+                i++;
+                return {type: "last"};
+            }
+
+            const number = script.slice(i).match(/^[0-9]+/);
+            if (number !== null) {
+                i += number[0].length;
+                if (Number(number[0]) === 0)
+                    throw new Error("Invalid address '0'.");
+                return {type: "line", line: Number(number[0])};
+            }
+
+            if (script[i] === "/") {
+                i++;
+                const source = readUntil("/");
+                if (source === undefined)
+                    throw new Error("Unterminated address regex.");
+                return {type: "regex", regex: toRegExp(source, "")};
+            }
+
+            return undefined;
+        };
+
+        const commands = [];
+        try {
+            while (i < script.length) {
+                if (script[i].match(/[\\s;]/)) {
+                    i++;
+                    continue;
+                }
+
+                const command = {start: parseAddress(), end: undefined, isInRange: false};
+                if (command.start !== undefined && script[i] === ",") {
+                    i++;
+                    command.end = parseAddress();
+                    if (command.end === undefined)
+                        throw new Error("Expected an address after ','.");
+                }
+                while (script[i] === " ")
+                    i++;
+
+                command.name = script[i++];
+                switch (command.name) {
+                    case "d":
+                    case "p":
+                    case "q":
+                        break;
+                    case "s": {
+                        const delimiter = script[i++];
+                        const isDelimiterValid = delimiter !== undefined && !delimiter.match(/[\\s\\\\]/);
+                        const source = isDelimiterValid ? readUntil(delimiter) : undefined;
+                        command.replacement = source === undefined ? undefined : readUntil(delimiter);
+                        if (command.replacement === undefined)
+                            throw new Error("Unterminated 's' command.");
+
+                        const flags = script.slice(i).match(/^[^\\s;]*/)[0];
+                        i += flags.length;
+                        const unknownFlag = [...flags].find(it => !"gip".includes(it));
+                        if (unknownFlag !== undefined)
+                            throw new Error(\`Unknown flag '\${unknownFlag}' in 's' command.\`);
+
+                        command.regex = toRegExp(source, flags.replace("p", ""));
+                        command.isPrinting = flags.includes("p");
+                        break;
+                    }
+                    case undefined:
+                        throw new Error("Expected a command.");
+                    default:
+                        throw new Error(\`Unknown command '\${command.name}'.\`);
+                }
+
+                while (script[i] === " ")
+                    i++;
+                if (i < script.length && !script[i].match(/[\\n;]/))
+                    throw new Error(\`Unexpected '\${script[i]}' after command '\${command.name}'.\`);
+                commands.push(command);
+            }
+        } catch (error) {
+            streams.err.writeLine(\`sed: \${error.message}\`);
+            return ExitCode.USAGE;
+        }
+
+        const matches = (address, line, number, isLast) => {
+            switch (address.type) {
+                case "last":
+                    return isLast;
+                case "line":
+                    return number === address.line;
+                default:
+                    return address.regex.test(line);
+            }
+        };
+        const isSelected = (command, line, number, isLast) => {
+            if (command.start === undefined)
+                return true;
+            if (command.end === undefined)
+                return matches(command.start, line, number, isLast);
+
+            const isEnd = () => command.end.type === "line"
+                ? number >= command.end.line
+                : matches(command.end, line, number, isLast);
+            if (command.isInRange) {
+                command.isInRange = !isEnd();
+                return true;
+            }
+            if (!matches(command.start, line, number, isLast))
+                return false;
+
+            command.isInRange = command.end.type === "regex" || !isEnd();
+            return true;
+        };
+        const substitute = (command, line) => line.replace(command.regex, (...match) => {
+            const groups = match.slice(1, match.findIndex(it => typeof it === "number"));
+            return command.replacement.replace(/\\\\(.)|&/g, (it, escaped) => {
+                if (escaped === undefined)
+                    return match[0];
+                if (escaped.match(/[1-9]/))
+                    return groups[Number(escaped) - 1] ?? "";
+                return escaped === "n" ? "\\n" : escaped;
+            });
+        });
+
+        let isQuitting = false;
+        const edit = lines => {
+            const output = [];
+            commands.forEach(command => command.isInRange = false);
+            for (let number = 1; number <= lines.length && !isQuitting; number++) {
+                let line = lines[number - 1];
+                let isDeleted = false;
+                for (const command of commands) {
+                    if (!isSelected(command, line, number, number === lines.length))
+                        continue;
+
+                    if (command.name === "d") {
+                        isDeleted = true;
+                        break;
+                    } else if (command.name === "p") {
+                        output.push(line);
+                    } else if (command.name === "q") {
+                        isQuitting = true;
+                        break;
+                    } else {
+                        const result = substitute(command, line);
+                        if (command.isPrinting && result !== line)
+                            output.push(result);
+                        line = result;
+                    }
+                }
+
+                if (!isDeleted && !isQuiet)
+                    output.push(line);
+            }
+            return output;
+        };
+
+        if (isInPlace && input.argc < 2) {
+            streams.err.writeLine("sed: Expected a file to edit in place.");
+            return ExitCode.USAGE;
+        }
+        if (isInPlace && input.args.slice(1).includes("-")) {
+            streams.err.writeLine("sed: Cannot edit the standard input in place.");
+            return ExitCode.USAGE;
+        }
+
+        const [files, exitCode] = josh.interpreter.readFiles("sed", input.args.slice(1), streams);
+        if (isInPlace) {
+            files.forEach(file => {
+                if (isQuitting)
+                    return;
+
+                const output = edit(file.lines);
+                const path = Path.interpret(josh.environment.get("cwd"), file.name);
+                josh.fileSystem.open(path, "write").write(output.map(it => it + "\\n").join(""));
+            });
+        } else {
+            edit(files.flatMap(file => file.lines)).forEach(line => streams.out.writeLine(line));
+        }
+        return exitCode;
+    },
+    \`stream editor\`,
+    \`sed [<b>-n</b> | <b>--quiet</b>] [<b>-i</b> | <b>--in-place</b>] [<b>-E</b> | <b>--regexp-extended</b>] ${n}
+    <u>script</u> [<u>file</u> <u>...</u>]\`.trimMultiLines(),
+    \`Edits the lines of all <u>file</u>s according to <u>script</u>, and writes the result to the standard ${n}
+    output. If no files are given, the standard input is read instead.
+
+    The <u>script</u> is a list of commands separated by semicolons or newlines. Each line is edited by running ${n}
+    each command on it in turn, after which the line is written unless it was deleted.
+
+    The following commands are available:
+
+    <b>s/<u>regex</u>/<u>replacement</u>/<u>flags</u></b>   Replaces the first match of <u>regex</u> with ${n}
+    <u>replacement</u>, in which <b>&amp;</b> denotes the match and <b>\\\\1</b> through <b>\\\\9</b> denote the ${n}
+    capture groups.
+
+    <b>d</b>   Deletes the line and continues with the next line.
+
+    <b>p</b>   Writes the line.
+
+    <b>q</b>   Writes the line and stops.
+
+    The <u>flags</u> of <b>s</b> are zero or more of <b>g</b> to replace all matches instead of only the first, ${n}
+    <b>i</b> to ignore the case of letters, and <b>p</b> to write the line if a replacement was made. Instead of ${n}
+    <b>/</b>, any other character can be used to separate the parts of <b>s</b>.
+
+    A command can be preceded by an address to run the command only on the lines that the address selects. An ${n}
+    address is a line number, <b>$</b> for the last line, or <b>/<u>regex</u>/</b> for the lines that match ${n}
+    <u>regex</u>. Two addresses separated by a comma select the range of lines from the line that the first ${n}
+    address selects up to and including the line that the second address selects.
+
+    Regular expressions are basic regular expressions, as in <b>grep</b>. If <b>--regexp-extended</b> is given, ${n}
+    they are extended regular expressions instead.
+
+    If <b>--quiet</b> is given, lines are only written by the commands <b>p</b> and <b>s</b>. If ${n}
+    <b>--in-place</b> is given, each <u>file</u> is edited separately, and the result is written to that ${n}
+    <u>file</u> instead of to the standard output. The standard input cannot be edited in place.\`.trimMultiLines(),
+    new InputValidator({minArgs: 1})
 )`,
     "set": /* language=JavaScript */ `\
 return new Command(
     (input, streams) => {
+        const isEnablingOption = input.hasAnyOption("-o");
+        if (isEnablingOption || input.args[0] === "+o") {
+            const name = isEnablingOption ? input.args[0] : input.args[1];
+            const isEnabled = option => ShellOptions.isEnabled(josh.environment, option);
+            if (name === undefined) {
+                Object.keys(ShellOptions.defaults)
+                    .forEach(it => streams.out.writeLine(\`\${it}\\t\${isEnabled(it) ? "on" : "off"}\`));
+                return ExitCode.OK;
+            }
+
+            if (name === "emacs") {
+                ShellOptions.set(josh.environment, "vi", !isEnablingOption);
+                return ExitCode.OK;
+            }
+            if (!ShellOptions.has(name)) {
+                streams.err.writeLine(\`set: Unknown option '\${name}'.\`);
+                return ExitCode.USAGE;
+            }
+
+            ShellOptions.set(josh.environment, name, isEnablingOption);
+            return ExitCode.OK;
+        }
+
         try {
             if (input.argc === 0) {
                 Object.keys(josh.environment.variables)
@@ -1026,13 +2903,157 @@ return new Command(
         }
     },
     \`set environment variable\`,
-    \`set [<u>key</u> [<u>value</u>]]\`,
+    \`set [<u>key</u> [<u>value</u>]]
+    set <b>-o</b> | <b>+o</b> [<u>option</u>]\`.trimMultiLines(),
     \`Sets the environment variable <u>key</u> to <u>value</u>. If no <u>value</u> is given, the environment ${n}
     variable is cleared. Read-only variables cannot be set or cleared.
 
     If neither <u>key</u> nor <u>value</u> is given, a list of all environment variables with current values is given.
+
+    If <b>-o</b> is given, the shell <u>option</u> is enabled instead. If <b>+o</b> is given, the shell ${n}
+    <u>option</u> is disabled instead. See the "shopt" command for the available options. The option <b>emacs</b> ${n}
+    is the opposite of <b>vi</b>. If no <u>option</u> is given, all shell options are shown.
     \`.trimMultiLines(),
     new InputValidator({minArgs: 0, maxArgs: 2})
+)`,
+    "shopt": /* language=JavaScript */ `\
+return new Command(
+    (input, streams) => {
+        const isSetting = input.hasAnyOption("-s", "--set");
+        const isUnsetting = input.hasAnyOption("-u", "--unset");
+        if (isSetting && isUnsetting) {
+            streams.err.writeLine("shopt: Cannot set and unset options at the same time.");
+            return ExitCode.USAGE;
+        }
+
+        const names = input.argc === 0 ? Object.keys(ShellOptions.defaults) : input.args;
+        const unknownName = names.find(name => !ShellOptions.has(name));
+        if (unknownName !== undefined) {
+            streams.err.writeLine(\`shopt: Unknown option '\${unknownName}'.\`);
+            return ExitCode.MISC;
+        }
+
+        if (input.argc !== 0 && (isSetting || isUnsetting)) {
+            names.forEach(name => ShellOptions.set(josh.environment, name, isSetting));
+            return ExitCode.OK;
+        }
+
+        const isEnabled = name => ShellOptions.isEnabled(josh.environment, name);
+        names
+            .filter(name => !(isSetting || isUnsetting) || isEnabled(name) === isSetting)
+            .forEach(name => streams.out.writeLine(\`\${name}\\t\${isEnabled(name) ? "on" : "off"}\`));
+
+        return input.argc === 0 || names.every(name => isEnabled(name)) ? ExitCode.OK : ExitCode.MISC;
+    },
+    \`set and unset shell options\`,
+    \`shopt [<b>-s</b> | <b>--set</b> | <b>-u</b> | <b>--unset</b>] [<u>option</u> <u>...</u>]\`,
+    \`Shows whether each shell <u>option</u> is enabled. If any <u>option</u> is disabled, the exit code is ${n}
+    non-zero. If no <u>option</u> is given, all shell options are shown.
+
+    If <b>--set</b> is given, each <u>option</u> is enabled instead. If <b>--unset</b> is given, each <u>option</u> ${n}
+    is disabled instead. If either is given without an <u>option</u>, only the shell options that are enabled or ${n}
+    disabled, respectively, are shown.
+
+    The following shell options are available:
+
+    <b>extglob</b>    Enables extended glob patterns such as <b>!(*.txt)</b> and <b>@(a|b)</b>. Off by default.
+
+    <b>failglob</b>   Fails if a glob pattern does not match any files. On by default.
+
+    <b>globstar</b>   Lets <b>**</b> match any number of directories. Off by default.
+
+    <b>noclobber</b>  Prevents <b>&gt;</b> from overwriting existing files. Use <b>&gt;|</b> to overwrite them ${n}
+    anyway. Off by default.
+
+    <b>nullglob</b>   Removes glob patterns that do not match any files, even if <b>failglob</b> is enabled. Off by ${n}
+    default.
+
+    <b>vi</b>         Edits the input with vi key bindings instead of emacs key bindings. Press Escape to switch to ${n}
+    command mode, and <b>i</b> to switch back to insert mode. Off by default.
+
+    If neither <b>failglob</b> nor <b>nullglob</b> is enabled, a glob pattern that does not match any files is ${n}
+    retained as-is.\`.trimMultiLines(),
+    new InputValidator()
+)`,
+    "sort": /* language=JavaScript */ `\
+return new Command(
+    (input, streams) => {
+        const field = input.options["-k"] ?? input.options["--key"] ?? (input.hasAnyOption("-k", "--key") ? null : "1");
+        if (field === null) {
+            streams.err.writeLine("sort: Option '-k' requires a field, as in '-k=2'.");
+            return ExitCode.USAGE;
+        }
+        if (!field.match(/^[1-9][0-9]*$/)) {
+            streams.err.writeLine(\`sort: Invalid field '\${field}'.\`);
+            return ExitCode.USAGE;
+        }
+
+        const getKey = line => line.trim().split(/\\s+/).slice(Number(field) - 1).join(" ");
+        const compare = (a, b) => a < b ? -1 : (a > b ? 1 : 0);
+        const compareKeys = input.hasAnyOption("-n", "--numeric-sort")
+            ? (a, b) => (parseFloat(a) || 0) - (parseFloat(b) || 0)
+            : compare;
+
+        const [files, exitCode] = josh.interpreter.readFiles("sort", input.args, streams);
+        let lines = files
+            .flatMap(file => file.lines)
+            .sort((a, b) => compareKeys(getKey(a), getKey(b)) || compare(a, b));
+        if (input.hasAnyOption("-r", "--reverse"))
+            lines = lines.reverse();
+        if (input.hasAnyOption("-u", "--unique"))
+            lines = lines.filter((line, i) => i === 0 || compareKeys(getKey(lines[i - 1]), getKey(line)) !== 0);
+
+        lines.forEach(line => streams.out.writeLine(line));
+        return exitCode;
+    },
+    \`sort lines of text\`,
+    \`sort [<b>-r</b> | <b>--reverse</b>] [<b>-n</b> | <b>--numeric-sort</b>] [<b>-u</b> | <b>--unique</b>] ${n}
+    [<b>-k</b>/<b>--key</b>=<u>field</u>] [<u>file</u> <u>...</u>]\`.trimMultiLines(),
+    \`Writes the lines of all <u>file</u>s to the standard output in sorted order. If no files are given, the ${n}
+    standard input is read instead.
+
+    If <b>--key</b> is given, lines are sorted by their whitespace-separated fields starting at field number ${n}
+    <u>field</u>, and lines with equal fields are sorted by their whole contents. If <b>--numeric-sort</b> is ${n}
+    given, lines are sorted by the numerical value at the start of their fields. If <b>--reverse</b> is given, ${n}
+    lines are sorted in reverse order. If <b>--unique</b> is given, only the first of each series of lines with ${n}
+    equal fields is written.\`.trimMultiLines(),
+    new InputValidator()
+)`,
+    "tail": /* language=JavaScript */ `\
+return new Command(
+    (input, streams) => {
+        const count = input.options["-n"] ?? input.options["--lines"] ??
+            (input.hasAnyOption("-n", "--lines") ? null : "10");
+        if (count === null) {
+            streams.err.writeLine("tail: Option '-n' requires a count, as in '-n=5'.");
+            return ExitCode.USAGE;
+        }
+        if (!count.match(/^\\+?[0-9]+$/)) {
+            streams.err.writeLine(\`tail: Invalid number of lines '\${count}'.\`);
+            return ExitCode.USAGE;
+        }
+
+        const [files, exitCode] = josh.interpreter.readFiles("tail", input.args, streams);
+        files.forEach((file, i) => {
+            if (input.argc > 1)
+                streams.out.writeLine(josh.util.escapeHtml(\`\${i === 0 ? "" : "\\n"}==> \${file.name} <==\`));
+
+            const start = count.startsWith("+")
+                ? Math.max(Number(count) - 1, 0)
+                : Math.max(file.lines.length - Number(count), 0);
+            file.lines.slice(start).forEach(line => streams.out.writeLine(line));
+        });
+        return exitCode;
+    },
+    \`output the last part of files\`,
+    \`tail [<b>-n</b>/<b>--lines</b>=[+]<u>count</u>] [<u>file</u> <u>...</u>]\`,
+    \`Writes the last 10 lines of each <u>file</u> to the standard output. If no files are given, the standard ${n}
+    input is read instead. If more than one <u>file</u> is given, the lines of each <u>file</u> are preceded by a ${n}
+    header with its name.
+
+    If <b>--lines</b> is given, the last <u>count</u> lines are written instead. If <u>count</u> is preceded by ${n}
+    <b>+</b>, all lines starting with line number <u>count</u> are written instead.\`.trimMultiLines(),
+    new InputValidator()
 )`,
     "touch": /* language=JavaScript */ `\
 return new Command(
@@ -1055,6 +3076,154 @@ return new Command(
     \`Update the access and modification times of each <u>file</u> to the current time. If a <u>file</u> does not ${n}
     exist, it is created.\`.trimMultiLines(),
     new InputValidator({minArgs: 1})
+)`,
+    "tr": /* language=JavaScript */ `\
+return new Command(
+    (input, streams) => {
+        const expand = set => {
+            const chars = [];
+            for (let i = 0; i < set.length; i++) {
+                let char = set[i];
+                if (char === "\\\\" && i + 1 < set.length) {
+                    i++;
+                    char = {"n": "\\n", "t": "\\t"}[set[i]] ?? set[i];
+                }
+
+                if (set[i + 1] === "-" && i + 2 < set.length) {
+                    const end = set[i + 2];
+                    if (end < char)
+                        return undefined;
+
+                    for (let code = char.charCodeAt(0); code <= end.charCodeAt(0); code++)
+                        chars.push(String.fromCharCode(code));
+                    i += 2;
+                } else {
+                    chars.push(char);
+                }
+            }
+            return chars;
+        };
+
+        const isDeleting = input.hasAnyOption("-d", "--delete");
+        const isSqueezing = input.hasAnyOption("-s", "--squeeze-repeats");
+        if (input.argc === 1 && !isDeleting && !isSqueezing) {
+            streams.err.writeLine("tr: Expected a second set of characters.");
+            return ExitCode.USAGE;
+        }
+
+        const set1 = expand(input.args[0]);
+        const set2 = expand(input.args[1] ?? "");
+        if (set1 === undefined || set2 === undefined) {
+            streams.err.writeLine("tr: The end of a range must not precede its start.");
+            return ExitCode.USAGE;
+        }
+
+        const squeezeSet = input.argc === 1 ? set1 : set2;
+        let output = "";
+        for (const char of streams.ins.read()) {
+            const index = set1.indexOf(char);
+
+            let result = char;
+            if (index >= 0 && isDeleting)
+                result = "";
+            else if (index >= 0 && set2.length !== 0)
+                result = set2[Math.min(index, set2.length - 1)];
+
+            if (isSqueezing && squeezeSet.includes(result) && output.endsWith(result))
+                result = "";
+            output += result;
+        }
+
+        streams.out.write(output);
+        return ExitCode.OK;
+    },
+    \`translate or delete characters\`,
+    \`tr [<b>-d</b> | <b>--delete</b>] [<b>-s</b> | <b>--squeeze-repeats</b>] <u>set1</u> [<u>set2</u>]\`,
+    \`Reads the standard input, replaces each character in <u>set1</u> with the character at the same position in ${n}
+    <u>set2</u>, and writes the result to the standard output. If <u>set2</u> is shorter than <u>set1</u>, its ${n}
+    last character is repeated.
+
+    A set is a list of characters, in which <b>a-z</b> denotes the range of all characters from <b>a</b> up to ${n}
+    and including <b>z</b>, and <b>\\\\n</b> and <b>\\\\t</b> denote a newline and a tab.
+
+    If <b>--delete</b> is given, the characters in <u>set1</u> are deleted instead. If <b>--squeeze-repeats</b> ${n}
+    is given, each series of identical characters in the last given set is replaced by a single ${n}
+    character.\`.trimMultiLines(),
+    new InputValidator({minArgs: 1, maxArgs: 2})
+)`,
+    "tree": /* language=JavaScript */ `\
+return new Command(
+    (input, streams) => {
+        const level = input.options["-L"] ?? input.options["--level"] ?? "";
+        if (input.hasAnyOption("-L", "--level") && !level.match(/^[1-9][0-9]*$/)) {
+            streams.err.writeLine(\`tree: Invalid level '\${level}'.\`);
+            return ExitCode.USAGE;
+        }
+
+        const maxDepth = level === "" ? Number.MAX_SAFE_INTEGER : Number(level);
+        const isShowingAll = input.hasAnyOption("-a", "--all");
+        const isOnlyDirectories = input.hasAnyOption("-d", "--dirs-only");
+        let directoryCount = 0;
+        let fileCount = 0;
+        const render = (directory, path, prefix, depth) => {
+            const nodes = directory.nodes;
+            const names = Object.keys(nodes)
+                .filter(name => isShowingAll || !name.startsWith("."))
+                .filter(name => !isOnlyDirectories || nodes[name] instanceof Directory)
+                .sortAlphabetically(it => it, true)
+                .sort((a, b) => (nodes[b] instanceof Directory ? 1 : 0) - (nodes[a] instanceof Directory ? 1 : 0));
+
+            names.forEach((name, i) => {
+                const node = nodes[name];
+                const isLast = i === names.length - 1;
+                const branch = isLast ? "└── " : "├── ";
+                streams.out.writeLine(prefix + branch + node.nameString(name, path.getChild(name)));
+
+                if (node instanceof Directory) {
+                    directoryCount++;
+                    if (depth < maxDepth)
+                        render(node, path.getChild(name), prefix + (isLast ? "    " : "│   "), depth + 1);
+                } else {
+                    fileCount++;
+                }
+            });
+        };
+
+        const exitCode = (input.argc === 0 ? ["."] : input.args)
+            .map(arg => {
+                const path = Path.interpret(josh.environment.get("cwd"), arg);
+                const node = josh.fileSystem.get(path);
+                if (node === undefined) {
+                    streams.err.writeLine(\`tree: The directory '\${path}' does not exist.\`);
+                    return ExitCode.FILE_NOT_FOUND;
+                }
+                if (!(node instanceof Directory)) {
+                    streams.err.writeLine(\`tree: '\${path}' is not a directory.\`);
+                    return ExitCode.USAGE;
+                }
+
+                streams.out.writeLine(node.nameString(arg, path));
+                render(node, path, "", 1);
+                return ExitCode.OK;
+            })
+            .reduce((acc, exitCode) => exitCode === ExitCode.OK ? acc : exitCode);
+
+        const directories = \`\${directoryCount} \${directoryCount === 1 ? "directory" : "directories"}\`;
+        const files = \`\${fileCount} \${fileCount === 1 ? "file" : "files"}\`;
+        streams.out.writeLine(\`\\n\${isOnlyDirectories ? directories : \`\${directories}, \${files}\`}\`);
+        return exitCode;
+    },
+    \`display directories as a tree\`,
+    \`tree [<b>-a</b> | <b>--all</b>] [<b>-d</b> | <b>--dirs-only</b>] [<b>-L</b>/<b>--level</b>=<u>level</u>] ${n}
+    [<u>directory</u> <u>...</u>]\`.trimMultiLines(),
+    \`Displays the files and directories inside each <u>directory</u> as a tree, followed by the number of ${n}
+    directories and files that were displayed. If no directory is given, the current working directory is shown ${n}
+    instead. Directories are shown before files.
+
+    Files starting with a <u>.</u> are only shown if the <b>--all</b> option is given. If the ${n}
+    <b>--dirs-only</b> option is given, only directories are shown. If the <b>--level</b> option is given, no ${n}
+    files are shown more than <u>level</u> directories deep.\`.trimMultiLines(),
+    new InputValidator()
 )`,
     "true": /* language=JavaScript */ `\
 return new Command(
@@ -1063,6 +3232,104 @@ return new Command(
     \`true\`,
     \`Set the <tt>status</tt> environment variable to ${ExitCode.OK}.\`.trimMultiLines(),
     new InputValidator({minArgs: 0})
+)`,
+    "unalias": /* language=JavaScript */ `\
+return new Command(
+    (input, streams) => {
+        if (input.hasAnyOption("-a")) {
+            josh.aliases.clear();
+            return ExitCode.OK;
+        }
+        if (input.argc === 0) {
+            streams.err.writeLine("unalias: Expected at least 1 argument or the '-a' option.");
+            return ExitCode.USAGE;
+        }
+
+        return input.args
+            .map(name => {
+                if (!josh.aliases.has(name)) {
+                    streams.err.writeLine(\`unalias: Unknown alias '\${name}'.\`);
+                    return ExitCode.MISC;
+                }
+
+                josh.aliases.delete(name);
+                return ExitCode.OK;
+            })
+            .reduce((acc, exitCode) => exitCode === ExitCode.OK ? acc : exitCode);
+    },
+    \`remove aliases\`,
+    \`unalias <b>-a</b> | <u>name</u> <u>...</u>\`,
+    \`Removes each alias <u>name</u>.
+
+    If <b>-a</b> is set, all aliases are removed instead.\`.trimMultiLines(),
+    new InputValidator()
+)`,
+    "uniq": /* language=JavaScript */ `\
+return new Command(
+    (input, streams) => {
+        const [files, exitCode] = josh.interpreter.readFiles("uniq", input.args, streams);
+
+        const groups = [];
+        files.flatMap(file => file.lines).forEach(line => {
+            const last = groups[groups.length - 1];
+            if (last !== undefined && last.line === line)
+                last.count++;
+            else
+                groups.push({line: line, count: 1});
+        });
+
+        const isCounting = input.hasAnyOption("-c", "--count");
+        groups.forEach(it => {
+            const count = isCounting ? \`\${it.count.toString().padStart(7)} \` : "";
+            streams.out.writeLine(count + it.line);
+        });
+        return exitCode;
+    },
+    \`omit repeated lines\`,
+    \`uniq [<b>-c</b> | <b>--count</b>] [<u>file</u>]\`,
+    \`Writes the lines of <u>file</u> to the standard output, writing each series of identical adjacent lines only ${n}
+    once. If no <u>file</u> is given, the standard input is read instead. Identical lines that are not adjacent ${n}
+    are not merged, so the input is usually sorted first.
+
+    If <b>--count</b> is given, each line is preceded by the number of times it occurred.\`.trimMultiLines(),
+    new InputValidator({maxArgs: 1})
+)`,
+    "unset": /* language=JavaScript */ `\
+return new Command(
+    (input, streams) => {
+        return input.args
+            .map(name => {
+                try {
+                    if (input.hasAnyOption("-f", "--function"))
+                        josh.interpreter.deleteFunction(name);
+                    else
+                        josh.environment.safeDelete(name);
+
+                    return ExitCode.OK;
+                } catch (error) {
+                    streams.err.writeLine(\`unset: \${error.message}\`);
+                    return ExitCode.MISC;
+                }
+            })
+            .reduce((acc, exitCode) => exitCode === ExitCode.OK ? acc : exitCode);
+    },
+    \`remove variables or functions\`,
+    \`unset [<b>-f</b> | <b>--function</b>] <u>name</u> <u>...</u>\`,
+    \`Removes each environment variable <u>name</u>. Read-only variables cannot be removed.
+
+    If <b>--function</b> is set, each function <u>name</u> is removed instead.\`.trimMultiLines(),
+    new InputValidator({minArgs: 1}),
+    (input, word) => {
+        if (word.startsWith("-"))
+            return undefined;
+        if (!input.hasAnyOption("-f", "--function"))
+            return josh.interpreter.completeAction("variable", word);
+
+        return Object.keys(josh.interpreter.functions)
+            .filter(it => it.startsWith(word))
+            .sort()
+            .map(it => ({value: it}));
+    }
 )`,
     "useradd": /* language=JavaScript */ `\
 return new Command(
@@ -1125,7 +3392,8 @@ return new Command(
     \`delete user\`,
     \`userdel <u>name</u>\`,
     \`Deletes the user with the given <u>name</u>.\`.trimMultiLines(),
-    new InputValidator({minArgs: 1, maxArgs: 1})
+    new InputValidator({minArgs: 1, maxArgs: 1}),
+    (input, word) => josh.interpreter.completeAction("user", word)
 )`,
     "usermod": /* language=JavaScript */ `\
 return new Command(
@@ -1166,7 +3434,46 @@ return new Command(
         <u>name</u>\`.trimMultiLines(),
     \`Modifies the user with the given <u>name</u>. See the "useradd" command for more information on the fields ${n}
     that can be modified.\`.trimMultiLines(),
-    new InputValidator({minArgs: 1, maxArgs: 1})
+    new InputValidator({minArgs: 1, maxArgs: 1}),
+    (input, word) => word.startsWith("-") ? undefined : josh.interpreter.completeAction("user", word)
+)`,
+    "wc": /* language=JavaScript */ `\
+return new Command(
+    (input, streams) => {
+        const isCountingLines = input.hasAnyOption("-l", "--lines");
+        const isCountingWords = input.hasAnyOption("-w", "--words");
+        const isCountingBytes = input.hasAnyOption("-c", "--bytes");
+        const isCountingAll = !isCountingLines && !isCountingWords && !isCountingBytes;
+        const count = contents => [
+            isCountingAll || isCountingLines ? contents.split("\\n").length - 1 : undefined,
+            isCountingAll || isCountingWords ? contents.split(/\\s+/).filter(it => it !== "").length : undefined,
+            isCountingAll || isCountingBytes ? contents.length : undefined
+        ].filter(it => it !== undefined);
+
+        const [files, exitCode] = josh.interpreter.readFiles("wc", input.args, streams);
+        const rows = files.map(file => ({counts: count(file.contents), name: input.argc === 0 ? "" : file.name}));
+        if (rows.length > 1) {
+            const totals = rows.map(it => it.counts).reduce((acc, counts) => acc.map((it, i) => it + counts[i]));
+            rows.push({counts: totals, name: "total"});
+        }
+
+        const width = Math.max(...rows.flatMap(it => it.counts).map(it => it.toString().length));
+        rows.forEach(row => {
+            const columns = row.counts.map(it => it.toString().padStart(width));
+            streams.out.writeLine(columns.concat(row.name === "" ? [] : [row.name]).join(" "));
+        });
+        return exitCode;
+    },
+    \`count lines, words, and bytes\`,
+    \`wc [<b>-l</b> | <b>--lines</b>] [<b>-w</b> | <b>--words</b>] [<b>-c</b> | <b>--bytes</b>] ${n}
+    [<u>file</u> <u>...</u>]\`.trimMultiLines(),
+    \`Writes the number of newlines, words, and bytes in each <u>file</u> to the standard output. If no files are ${n}
+    given, the standard input is read instead. If more than one <u>file</u> is given, the total of each count is ${n}
+    written as well.
+
+    If any of <b>--lines</b>, <b>--words</b>, and <b>--bytes</b> is given, only the corresponding counts are ${n}
+    written instead.\`.trimMultiLines(),
+    new InputValidator()
 )`,
     "whatis": /* language=JavaScript */ `\
 return new Command(
@@ -1178,6 +3485,10 @@ return new Command(
                     streams.err.writeLine(\`whatis: Unknown command '\${commandName}'.\`);
                     return ExitCode.USAGE;
                 }
+                if (command instanceof ShellFunction) {
+                    streams.out.writeLine("<b>" + commandName + "</b> - shell function");
+                    return ExitCode.OK;
+                }
 
                 streams.out.writeLine("<b>" + commandName + "</b> - " + command.summary);
                 return ExitCode.OK;
@@ -1187,7 +3498,8 @@ return new Command(
     \`display one-line documentation\`,
     \`whatis <u>command</u> <u>...</u>\`,
     \`Displays a one-line summary for each <u>command</u>.\`.trimMultiLines(),
-    new InputValidator({minArgs: 1})
+    new InputValidator({minArgs: 1}),
+    (input, word) => josh.interpreter.completeAction("command", word)
 )`,
     "whoami": /* language=JavaScript */ `\
 return new Command(
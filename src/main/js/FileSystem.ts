@@ -382,22 +382,31 @@ export class Path {
         if (!escape)
             return this.path;
 
-        const escapes = [
-            ["\\;", "&#92;&#92;&#59;"],
-            ["\\'", "&#92;&#92;&#92;&#39;"],
-            ["\\\"", "&#92;&#92;&#92;&#34;"],
-            [" ", "&#92;&#92;&#32;"],
-            ["\\\\", "&#92;&#92;&#92;&#92;"],
-            ["\\~", "&#92;&#92;&#126;"],
-            ["\\$", "&#92;&#92;&#36;"],
-            ["\\>", "&#92;&#92;&#62;"],
-            ["\\?", "&#92;&#92;&#63;"],
-            ["\\*", "&#92;&#92;&#42;"],
-            ["\\{", "&#92;&#92;&#123;"],
-            ["\\}", "&#92;&#92;&#125;"],
-        ];
-
-        return escapes.reduce((path, instr) => path.replace(new RegExp(instr[0], "g"), instr[1]), this.path);
+        const escapes: { [char: string]: string } = {
+            "&": "&#92;&#92;&#38;",
+            ";": "&#92;&#92;&#59;",
+            "|": "&#92;&#92;&#124;",
+            "'": "&#92;&#92;&#92;&#39;",
+            "\"": "&#92;&#92;&#92;&#34;",
+            " ": "&#92;&#92;&#32;",
+            "\\": "&#92;&#92;&#92;&#92;",
+            "~": "&#92;&#92;&#126;",
+            "$": "&#92;&#92;&#36;",
+            "`": "&#92;&#92;&#96;",
+            ">": "&#92;&#92;&#62;",
+            "<": "&#92;&#92;&#60;",
+            "?": "&#92;&#92;&#63;",
+            "*": "&#92;&#92;&#42;",
+            "[": "&#92;&#92;&#91;",
+            "]": "&#92;&#92;&#93;",
+            "(": "&#92;&#92;&#40;",
+            ")": "&#92;&#92;&#41;",
+            "{": "&#92;&#92;&#123;",
+            "}": "&#92;&#92;&#125;",
+            "!": "&#92;&#92;&#33;",
+        };
+
+        return this.path.split("").map(char => escapes[char] ?? char).join("");
     }
 }
 
@@ -573,7 +582,7 @@ export class Directory extends Node {
      * @param path the path to this node
      */
     nameString(name: string, path: Path): string {
-        return `<a class="dir-link" onclick="execute('${path.toString(true)}; and ls -l')">${name}</a>`;
+        return `<a class="dir-link" onclick="execute('${path.toString(true)} &amp;&amp; ls -l')">${name}</a>`;
     }
 
     visit(path: string,
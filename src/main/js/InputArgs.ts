@@ -5,15 +5,22 @@ export module InputArgs {
     export type Options = { [key: string]: string | null };
 
     /**
-     * The intended target of the output of a command.
+     * The intended target of the output of a command, or the intended source of the input of a command.
      *
      * <ul>
-     *     <li>`undefined` means that the output should be written to the standard output</li>
+     *     <li>`undefined` means that the standard stream should be used</li>
      *     <li>`write` means that the output should be written to the file in the given string</li>
+     *     <li>`overwrite` means the same as `write`, except that the file is overwritten even if the `noclobber` shell
+     *     option is enabled</li>
      *     <li>`append` means that the output should be appended to the file in the given string</li>
+     *     <li>`read` means that the input should be read from the file in the given string</li>
+     *     <li>`here` means that the given string itself is the input, as given by a here-document or here-string</li>
+     *     <li>`duplicate` means that the output should be written to the stream with the number in the given string,
+     *     as that stream was before any redirections were applied</li>
      * </ul>
      */
-    export type RedirectTarget = undefined | { type: "write" | "append", target?: string };
+    export type RedirectTarget = undefined
+        | { type: "write" | "overwrite" | "append" | "read" | "here" | "duplicate", target?: string };
 }
 
 /**
@@ -32,6 +39,10 @@ export class InputArgs {
      * The remaining non-option arguments that the user has given.
      */
     private readonly _args: string[];
+    /**
+     * The words after the name of the command, in the order in which the user has given them.
+     */
+    private readonly _words: string[];
     /**
      * The redirect targets.
      */
@@ -45,12 +56,15 @@ export class InputArgs {
      * @param options the set of options and the corresponding values that the user has given
      * @param args the remaining non-option arguments that the user has given
      * @param redirectTargets the redirect targets
+     * @param words the words after the name of the command from which the options and arguments were parsed, or
+     * `undefined` if they are the same as the arguments
      */
     constructor(command: string, options: InputArgs.Options, args: string[],
-                redirectTargets: InputArgs.RedirectTarget[]) {
+                redirectTargets: InputArgs.RedirectTarget[], words: string[] | undefined = undefined) {
         this.command = command;
         this._options = Object.assign({}, options);
         this._args = args.slice();
+        this._words = (words ?? args).slice();
         this.redirectTargets = redirectTargets.map(it => Object.assign({}, it));
     }
 
@@ -83,6 +97,14 @@ export class InputArgs {
         return this._args.slice();
     }
 
+    /**
+     * Returns a copy of the words after the name of the command, from before they were parsed into options and
+     * arguments.
+     */
+    get words(): string[] {
+        return this._words.slice();
+    }
+
     /**
      * Returns the number of arguments.
      */
@@ -10,12 +10,14 @@ import {IllegalArgumentError} from "./Shared";
  * return the last entry again. Adding a new entry to the history resets the read index to `-1`. Calling `next` while
  * the read index is at `-1` will return an empty string without decrementing the read index further. Calling `previous`
  * at the highest possible index will return the first entry without incrementing the read index further.
+ *
+ * Besides its input, each entry records when it was added and with which exit status it completed.
  */
 export class InputHistory {
     /**
      * The list of previous input.
      */
-    private readonly _entries: string[];
+    private readonly _entries: InputHistory.Entry[];
     /**
      * The current index that the history is being read from.
      */
@@ -27,28 +29,29 @@ export class InputHistory {
      *
      * @param history the records currently in the history
      */
-    constructor(history: string[] = []) {
+    constructor(history: InputHistory.Entry[] = []) {
         this._entries = history;
         this.index = -1;
     }
 
 
     /**
-     * Returns a copy of the entries in this history.
+     * Returns a copy of the entries in this history, starting with the newest entry.
      */
-    get entries(): string[] {
-        return this._entries.slice();
+    get entries(): InputHistory.Entry[] {
+        return this._entries.map(it => Object.assign({}, it));
     }
 
 
     /**
      * Adds a new input to the bottom of the history and resets the read index.
      *
-     * @param entry the entry to add
+     * @param input the input to add
+     * @param timestamp the time at which the input was given, in milliseconds since the epoch
      */
-    add(entry: string): void {
-        if (entry.trim() !== "" && entry.trim() !== this._entries[0]?.trim())
-            this._entries.unshift(entry);
+    add(input: string, timestamp: number = Date.now()): void {
+        if (input.trim() !== "" && input.trim() !== this._entries[0]?.input.trim())
+            this._entries.unshift({input: input, timestamp: timestamp});
 
         this.resetIndex();
     }
@@ -61,6 +64,65 @@ export class InputHistory {
         this.resetIndex();
     }
 
+    /**
+     * Returns the given input in which references to entries in this history have been replaced with those entries.
+     *
+     * <ul>
+     *     <li>`!!` refers to the newest entry</li>
+     *     <li>`!n` refers to the `n`th entry, where `1` is the oldest entry</li>
+     *     <li>`!-n` refers to the `n`th newest entry, where `1` is the newest entry</li>
+     *     <li>`!prefix` refers to the newest entry that starts with `prefix`</li>
+     *     <li>`^old^new` at the start of the input refers to the newest entry with `old` replaced by `new`</li>
+     * </ul>
+     *
+     * A `!` is not expanded if it is quoted with a backslash or single quotes, if it is followed by whitespace, `=`, or
+     * `(`, or if it is part of `$!`, `${!`, or a bracket expression such as `[!a]`.
+     *
+     * @param input the input to expand the references in
+     * @throws if a reference does not refer to any entry
+     */
+    expand(input: string): string {
+        const substitution = input.match(/^\^([^^]+)\^([^^]*)(?:\^(.*))?$/);
+        if (substitution !== null) {
+            const [reference, old, replacement, rest] = substitution;
+            const newest = this.findReference("!!");
+            if (!newest.includes(old))
+                throw new IllegalArgumentError(`Substitution '${reference}' failed because '${old}' does not occur.`);
+
+            return newest.replace(old, () => replacement) + (rest ?? "");
+        }
+
+        let expansion = "";
+        let isInSingleQuotes = false;
+        let isInDoubleQuotes = false;
+        for (let i = 0; i < input.length; i++) {
+            const char = input[i];
+
+            if (char === "\\" && !isInSingleQuotes) {
+                expansion += input.slice(i, i + 2);
+                i++;
+                continue;
+            }
+            if (char === "'" && !isInDoubleQuotes)
+                isInSingleQuotes = !isInSingleQuotes;
+            else if (char === "\"" && !isInSingleQuotes)
+                isInDoubleQuotes = !isInDoubleQuotes;
+
+            const reference = char === "!" && !isInSingleQuotes && !isExpansionInhibited(input, i)
+                ? input.slice(i).match(/^!(!|-?[0-9]+|(?!=)[^\s;&()|<>"'`]+)/)?.[0]
+                : undefined;
+            if (reference === undefined) {
+                expansion += char;
+                continue;
+            }
+
+            expansion += this.findReference(reference);
+            i += reference.length - 1;
+        }
+
+        return expansion;
+    }
+
     /**
      * Returns the entry at the given index, or an empty string if the index is negative.
      *
@@ -74,7 +136,7 @@ export class InputHistory {
         if (index === -1)
             return "";
 
-        return this._entries[index];
+        return this._entries[index].input;
     }
 
     /**
@@ -105,10 +167,116 @@ export class InputHistory {
         return this.get(this.index);
     }
 
+    /**
+     * Removes the entry at the given index and resets the read index.
+     *
+     * @param index the index of the entry to remove, where `0` is the newest entry
+     * @throws if the index is out of bounds
+     */
+    remove(index: number): void {
+        if (index < 0 || index >= this._entries.length)
+            throw new IllegalArgumentError(`Index '${index}' is out of bounds.`);
+
+        this._entries.splice(index, 1);
+        this.resetIndex();
+    }
+
     /**
      * Resets the read index without changing any entries.
      */
     resetIndex(): void {
         this.index = -1;
     }
+
+    /**
+     * Returns the index of the first entry that contains the given query, or `-1` if there is no such entry.
+     *
+     * Entries are searched starting at the given index and moving towards older entries if `isReverse` is `true`, or
+     * towards newer entries otherwise. The read index is not changed.
+     *
+     * @param query the text to find in an entry
+     * @param start the index of the first entry to check, where `0` is the newest entry
+     * @param isReverse `true` if and only if older entries should be searched rather than newer entries
+     */
+    search(query: string, start: number, isReverse: boolean = true): number {
+        for (let i = start; i >= 0 && i < this._entries.length; i += isReverse ? 1 : -1)
+            if (this._entries[i].input.includes(query))
+                return i;
+
+        return -1;
+    }
+
+    /**
+     * Sets the exit status of the newest entry, if there is one.
+     *
+     * @param status the exit status with which the newest entry completed
+     */
+    setStatus(status: number): void {
+        if (this._entries.length !== 0)
+            this._entries[0].status = status;
+    }
+
+    /**
+     * Removes the oldest entries until at most the given number of entries remain, and resets the read index.
+     *
+     * @param size the maximum number of entries to keep
+     */
+    truncate(size: number): void {
+        this._entries.splice(Math.max(size, 0));
+        this.resetIndex();
+    }
+
+
+    /**
+     * Returns the input of the entry that the given reference refers to.
+     *
+     * @param reference a reference to an entry, such as `!!`, `!n`, `!-n`, or `!prefix`
+     * @throws if the reference does not refer to any entry
+     */
+    private findReference(reference: string): string {
+        const designator = reference.slice(1);
+
+        let index: number;
+        if (designator === "!")
+            index = 0;
+        else if (designator.match(/^-[0-9]+$/))
+            index = -parseInt(designator) - 1;
+        else if (designator.match(/^[0-9]+$/))
+            index = parseInt(designator) === 0 ? -1 : this._entries.length - parseInt(designator);
+        else
+            index = this._entries.findIndex(it => it.input.startsWith(designator));
+
+        if (index < 0 || index >= this._entries.length)
+            throw new IllegalArgumentError(`Event '${reference}' not found.`);
+
+        return this._entries[index].input;
+    }
+}
+
+
+export module InputHistory {
+    /**
+     * An entry in the history, where `input` is the input that was given, `timestamp` is the time at which the input
+     * was given in milliseconds since the epoch, and `status` is the exit status with which the input completed.
+     *
+     * The timestamp is missing for entries that were stored before timestamps were recorded, and the status is missing
+     * for entries that have not completed.
+     */
+    export type Entry = { input: string, timestamp?: number, status?: number };
+}
+
+
+/**
+ * Returns `true` if and only if the `!` at the given position in the given input should not be expanded even though it
+ * is followed by a reference.
+ *
+ * @param input the input in which the `!` occurs
+ * @param position the position of the `!` in the input
+ */
+function isExpansionInhibited(input: string, position: number): boolean {
+    const before = input.slice(0, position);
+
+    return before.endsWith("$")
+        || before.endsWith("${")
+        || (before.endsWith("[") && input.indexOf("]", position) >= 0);
 }
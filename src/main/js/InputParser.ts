@@ -1,7 +1,10 @@
+import {AliasTable} from "./AliasTable";
+import {ArithmeticEvaluator} from "./ArithmeticEvaluator";
 import {Environment} from "./Environment";
 import {Directory, File, FileSystem, Path} from "./FileSystem";
 import {InputArgs} from "./InputArgs";
-import {IllegalArgumentError} from "./Shared";
+import {IllegalArgumentError, IncompleteInputError, ParseError} from "./Shared";
+import {ShellOptions} from "./ShellOptions";
 
 
 /**
@@ -16,6 +19,14 @@ export class InputParser {
      * The expander to expand tokens with.
      */
     private readonly expander: Expander;
+    /**
+     * The aliases to expand the first token of each command with.
+     */
+    private readonly aliases: AliasTable;
+    /**
+     * The escaped input that is currently being parsed, which is used to describe the position of syntax errors.
+     */
+    private input: string = "";
 
 
     /**
@@ -25,10 +36,12 @@ export class InputParser {
      *
      * @param tokenizer the tokenizer turn the input into tokens with
      * @param expander the expander to expand tokens with
+     * @param aliases the aliases to expand the first token of each command with
      */
-    constructor(tokenizer: Tokenizer, expander: Expander) {
+    constructor(tokenizer: Tokenizer, expander: Expander, aliases: AliasTable = new AliasTable()) {
         this.tokenizer = tokenizer;
         this.expander = expander;
+        this.aliases = aliases;
     }
 
     /**
@@ -36,71 +49,486 @@ export class InputParser {
      *
      * @param environment the environment containing the variables to substitute
      * @param fileSystem the file system describing the valid paths to glob
+     * @param substituter the function that executes commands for command substitution, or `undefined` if command
+     * substitution is not available
+     * @param parameters the positional parameters to substitute, where the parameter at index `0` is the name of the
+     * shell or script
+     * @param aliases the aliases to expand the first token of each command with
      */
-    static create(environment: Environment, fileSystem: FileSystem): InputParser {
+    static create(environment: Environment, fileSystem: FileSystem,
+                  substituter: InputParser.Substituter | undefined = undefined,
+                  parameters: string[] = [],
+                  aliases: AliasTable = new AliasTable()): InputParser {
         return new InputParser(
             new Tokenizer(),
-            new Expander(environment, new Globber(fileSystem, environment.get("cwd")))
+            new Expander(
+                environment,
+                new Globber(fileSystem, environment.get("cwd"), {
+                    extglob: ShellOptions.isEnabled(environment, "extglob"),
+                    globstar: ShellOptions.isEnabled(environment, "globstar")
+                }),
+                substituter,
+                parameters
+            ),
+            aliases
         );
     }
 
 
     /**
-     * Parses the given input string to an array of input arguments to execute.
+     * Parses the given input string to an array of and-or lists to execute.
+     *
+     * The commands in the returned lists are not yet expanded. Instead, each command should be expanded using
+     * `#parseCommand` right before it is executed, so that it can use the effects of the commands executed before it.
      *
      * @param input the string to parse
+     * @throws if the input cannot be tokenized, or if it is not syntactically valid, in which case the error is a
+     * `ParseError` describing the position of the problem, or an `IncompleteInputError` if the input ends inside a
+     * compound command or here-document that can be completed by more input
      */
-    parseCommands(input: string): InputArgs[] {
-        return this.tokenizer
-            .tokenize(escape(input))
-            .reduce((acc, token) => {
-                if (token === ";")
-                    acc.push([]);
-                else
-                    acc[acc.length - 1].push(token);
-
-                return acc;
-            }, <string[][]> [[]])
-            .filter(tokens => tokens.length !== 0)
-            .map(tokens => this.parseCommand(tokens));
+    parseCommands(input: string): InputParser.AndOrList[] {
+        this.input = escape(input);
+        return this.parseLists(this.tokenizer.tokenizeWithPositions(this.input), []);
     }
 
     /**
      * Turns a set of tokens into input arguments to execute.
      *
+     * If the first token is the name of an alias, it is replaced with the tokens of that alias first.
+     *
      * @param tokens the tokens to interpret as a command
+     * @throws if an alias does not expand to a simple command, or if the tokens cannot be expanded
      */
     parseCommand(tokens: string[]): InputArgs {
-        const textTokens = tokens.filter(it => !it.match(/^[0-9]*>/))
-            .reduce((acc, it) => acc.concat(this.expander.expand(it)), <string[]> [])
-            .map(it => unescape(it));
-        const redirectTokens = tokens.map(it => unescape(it));
+        tokens = this.expandAlias(tokens, []);
+
+        const textTokens = this.expand(tokens.filter(it => !isRedirect(it)));
+        const redirectTokens = tokens.filter(it => isRedirect(it));
 
         const command = tokens[0] ?? "";
         const [options, args] = this.parseOpts(textTokens.slice(1));
-        const outTargets = this.getRedirectTargets(redirectTokens);
+        const redirectTargets = this.getRedirectTargets(redirectTokens);
+
+        return new InputArgs(command, options, args, redirectTargets, textTokens.slice(1));
+    }
+
+    /**
+     * Turns a set of words that have already been expanded into input arguments to execute.
+     *
+     * Unlike `#parseCommand`, the words are taken literally, so aliases, expansions, and redirections are not applied.
+     *
+     * @param words the words to interpret as a command
+     * @throws if the options cannot be parsed
+     */
+    parseWords(words: string[]): InputArgs {
+        const [options, args] = this.parseOpts(words.slice(1));
+
+        return new InputArgs(words[0] ?? "", options, args, [], words.slice(1));
+    }
+
+    /**
+     * Turns a set of tokens into input arguments without expanding them, so that inspecting a command has no side
+     * effects.
+     *
+     * If the first token is the name of an alias, it is replaced with the tokens of that alias first. Quotes and
+     * escapes are then removed from the tokens, but parameters, command substitutions, arithmetic expansions, braces,
+     * and globs are retained as they are, and redirections are left out.
+     *
+     * @param tokens the tokens to interpret as a command
+     * @throws if an alias does not expand to a simple command, or if the options cannot be parsed
+     */
+    parseUnexpanded(tokens: string[]): InputArgs {
+        tokens = this.expandAlias(tokens, []);
+
+        return this.parseWords(tokens.filter(it => !isRedirect(it)).map((it, i) => i === 0 ? it : removeQuotes(it)));
+    }
+
+    /**
+     * Expands the given tokens into the words they describe.
+     *
+     * @param tokens the tokens to expand
+     */
+    expand(tokens: string[]): string[] {
+        return tokens
+            .reduce((acc, it) => acc.concat(this.expander.expand(it)), <string[]> [])
+            .map(it => unescape(it));
+    }
+
+
+    /**
+     * Replaces the first of the given tokens with the tokens of the alias it refers to, if any, and returns the result.
+     *
+     * Aliases are expanded recursively, except that an alias is not expanded again within its own expansion.
+     *
+     * @param tokens the tokens of which to expand the first token
+     * @param expanded the names of the aliases that have already been expanded
+     * @throws if the alias does not expand to a simple command
+     */
+    private expandAlias(tokens: string[], expanded: string[]): string[] {
+        const name = tokens[0];
+        if (name === undefined || expanded.includes(name))
+            return tokens;
+
+        const value = this.aliases.get(name);
+        if (value === undefined)
+            return tokens;
+
+        const aliasTokens = this.tokenizer.tokenize(escape(value));
+        if (aliasTokens.some(it => isControlOperator(it)))
+            throw new IllegalArgumentError(`Alias '${name}' does not expand to a simple command.`);
+
+        return this.expandAlias(aliasTokens.concat(tokens.slice(1)), expanded.concat(name));
+    }
+
+    /**
+     * Removes and-or lists from the front of the given tokens until either no tokens remain or the next command starts
+     * with one of the given keywords, and returns the removed lists.
+     *
+     * @param tokens the tokens to remove the and-or lists from
+     * @param keywords the keywords that end the series of and-or lists
+     * @throws if the and-or lists are not syntactically valid
+     */
+    private parseLists(tokens: InputParser.Token[], keywords: string[]): InputParser.AndOrList[] {
+        const lists: InputParser.AndOrList[] = [];
+
+        while (true) {
+            skip(tokens, [";", "\n"]);
+            if (tokens.length === 0 || keywords.includes(tokens[0].text))
+                return lists;
+
+            lists.push(this.parseAndOrList(tokens));
+
+            if (tokens.length !== 0 && !isSeparator(tokens[0].text) && !keywords.includes(tokens[0].text))
+                throw this.createError(`Unexpected '${unescape(tokens[0].text)}'.`, tokens[0]);
+        }
+    }
+
+    /**
+     * Removes an and-or list of pipelines from the front of the given tokens, and returns the removed list.
+     *
+     * @param tokens the tokens to remove the and-or list from, where pipelines are separated by `&&` and `||` tokens
+     * @throws if an operator is missing an operand
+     */
+    private parseAndOrList(tokens: InputParser.Token[]): InputParser.AndOrList {
+        const pipelines = [this.parsePipeline(tokens)];
+        const operators: InputParser.AndOrOperator[] = [];
+
+        while (tokens[0]?.text === "&&" || tokens[0]?.text === "||") {
+            const operator = <InputParser.Token> tokens.shift();
+            skip(tokens, ["\n"]);
+
+            if (tokens.length === 0 || isControlOperator(tokens[0].text))
+                throw this.createError(
+                    `Unexpected '${(tokens[0] ?? operator).text}'. Expected a command on both sides of the operator.`,
+                    tokens[0] ?? operator
+                );
+
+            operators.push(<InputParser.AndOrOperator> operator.text);
+            pipelines.push(this.parsePipeline(tokens));
+        }
+
+        return {pipelines: pipelines, operators: operators};
+    }
+
+    /**
+     * Removes a pipeline of commands from the front of the given tokens, and returns the removed pipeline.
+     *
+     * @param tokens the tokens to remove the pipeline from, where commands are separated by `|` tokens
+     * @throws if the pipeline contains an empty command
+     */
+    private parsePipeline(tokens: InputParser.Token[]): InputParser.Pipeline {
+        const pipeline = [this.parsePipelineCommand(tokens)];
+
+        while (tokens[0]?.text === "|") {
+            const pipe = <InputParser.Token> tokens.shift();
+            skip(tokens, ["\n"]);
+
+            if (tokens.length === 0 || isControlOperator(tokens[0].text))
+                throw this.createError(
+                    "Unexpected '|'. Expected a command on both sides of the pipe.",
+                    tokens[0] ?? pipe
+                );
+
+            pipeline.push(this.parsePipelineCommand(tokens));
+        }
+
+        return pipeline;
+    }
+
+    /**
+     * Removes a single simple or compound command from the front of the given tokens, and returns the removed command.
+     *
+     * @param tokens the tokens to remove the command from
+     * @throws if the command is not syntactically valid
+     */
+    private parsePipelineCommand(tokens: InputParser.Token[]): InputParser.Command {
+        const first = tokens[0].text;
+        if ((first.endsWith("()") && isName(first.slice(0, -2))) || (tokens[1]?.text === "()" && isName(first)))
+            return this.parseFunction(tokens);
+
+        switch (first) {
+            case "if":
+                return this.parseIf(tokens);
+            case "while":
+                return this.parseWhile(tokens);
+            case "for":
+                return this.parseFor(tokens);
+            case "then":
+            case "elif":
+            case "else":
+            case "fi":
+            case "do":
+            case "done":
+                throw this.createError(`Unexpected '${first}'.`, tokens[0]);
+        }
+
+        const words: InputParser.Word[] = [];
+        const redirects: InputParser.Redirect[] = [];
+        while (tokens.length !== 0 && !isControlOperator(tokens[0].text)) {
+            const token = <InputParser.Token> tokens.shift();
+
+            if (isRedirect(token.text))
+                redirects.push(this.parseRedirect(token));
+            else
+                words.push(parseWord(token.text, token.start));
+        }
+
+        if (words.length === 0 && redirects.length === 0) {
+            if (tokens.length === 0)
+                throw this.createError("Unexpected end of input. Expected a command.");
+            else
+                throw this.createError(`Unexpected '${tokens[0].text}'.`, tokens[0]);
+        }
+
+        return {type: "simple", words: words, redirects: redirects};
+    }
+
+    /**
+     * Returns the redirect described by the given token.
+     *
+     * @param token the token that describes a redirect
+     */
+    private parseRedirect(token: InputParser.Token): InputParser.Redirect {
+        const operator = token.text.match(/^([0-9]*|&)(>>|>\||>&|>|<<<|<<|<)/)![0];
+
+        let targetStart = token.start + operator.length;
+        while (this.input[targetStart] === " ")
+            targetStart++;
+
+        const target = token.text.slice(operator.length).split("\n")[0];
+        return {text: token.text, start: token.start, operator: operator, target: parseWord(target, targetStart)};
+    }
+
+    /**
+     * Removes an `if` clause from the front of the given tokens, and returns the removed clause.
+     *
+     * @param tokens the tokens to remove the clause from, starting with the `if` keyword
+     * @throws if the clause is not syntactically valid
+     */
+    private parseIf(tokens: InputParser.Token[]): InputParser.IfClause {
+        tokens.shift();
 
-        return new InputArgs(command, options, args, outTargets);
+        const branches: { condition: InputParser.AndOrList[], body: InputParser.AndOrList[] }[] = [];
+        let keyword: string;
+        do {
+            const [condition] = this.parseBlock(tokens, "if", ["then"]);
+            const [body, next] = this.parseBlock(tokens, "then", ["elif", "else", "fi"]);
+
+            branches.push({condition: condition, body: body});
+            keyword = next;
+        } while (keyword === "elif");
+
+        const otherwise = keyword === "else" ? this.parseBlock(tokens, "else", ["fi"])[0] : undefined;
+
+        return {type: "if", branches: branches, otherwise: otherwise};
+    }
+
+    /**
+     * Removes a `while` loop from the front of the given tokens, and returns the removed loop.
+     *
+     * @param tokens the tokens to remove the loop from, starting with the `while` keyword
+     * @throws if the loop is not syntactically valid
+     */
+    private parseWhile(tokens: InputParser.Token[]): InputParser.WhileClause {
+        tokens.shift();
+
+        const [condition] = this.parseBlock(tokens, "while", ["do"]);
+        const [body] = this.parseBlock(tokens, "do", ["done"]);
+
+        return {type: "while", condition: condition, body: body};
+    }
+
+    /**
+     * Removes a `for` loop from the front of the given tokens, and returns the removed loop.
+     *
+     * If the `in` keyword and its words are omitted, the loop iterates over the positional parameters.
+     *
+     * @param tokens the tokens to remove the loop from, starting with the `for` keyword
+     * @throws if the loop is not syntactically valid
+     */
+    private parseFor(tokens: InputParser.Token[]): InputParser.ForClause {
+        tokens.shift();
+
+        const variable = tokens.shift();
+        if (variable === undefined)
+            throw new IncompleteInputError("Unexpected end of input. Expected a variable name after 'for'.");
+        if (!isName(variable.text))
+            throw this.createError(`Invalid variable name '${unescape(variable.text)}'.`, variable);
+
+        let words: InputParser.Word[];
+        if (tokens[0]?.text === "in") {
+            tokens.shift();
+
+            words = [];
+            while (tokens.length !== 0 && !isSeparator(tokens[0].text)) {
+                if (isControlOperator(tokens[0].text))
+                    throw this.createError(`Unexpected '${tokens[0].text}'.`, tokens[0]);
+
+                const word = <InputParser.Token> tokens.shift();
+                words.push(parseWord(word.text, word.start));
+            }
+        } else {
+            words = [parseWord("\"$@\"", variable.start + variable.text.length)];
+        }
+        skip(tokens, [";", "\n"]);
+
+        const keyword = tokens.shift();
+        if (keyword === undefined)
+            throw new IncompleteInputError("Unexpected end of input. Expected 'do'.");
+        if (keyword.text !== "do")
+            throw this.createError(`Unexpected '${unescape(keyword.text)}'. Expected 'do'.`, keyword);
+
+        const [body] = this.parseBlock(tokens, "do", ["done"]);
+
+        return {type: "for", variable: variable.text, words: words, body: body};
+    }
+
+    /**
+     * Removes a function definition from the front of the given tokens, and returns the removed definition.
+     *
+     * @param tokens the tokens to remove the definition from, starting with the name of the function
+     * @throws if the definition is not syntactically valid
+     */
+    private parseFunction(tokens: InputParser.Token[]): InputParser.FunctionDefinition {
+        const name = (<InputParser.Token> tokens.shift()).text.replace(/\(\)$/, "");
+        if (tokens[0]?.text === "()")
+            tokens.shift();
+        skip(tokens, ["\n"]);
+
+        const group = tokens.shift();
+        if (group === undefined)
+            throw new IncompleteInputError(`Unexpected end of input. Expected '{' after '${name}()'.`);
+        if (group.text.startsWith("{") && !isBraceClosed(this.input, group.start))
+            throw new IncompleteInputError("Unexpected end of input. Missing closing }.");
+        if (!group.text.startsWith("{") || !group.text.endsWith("}"))
+            throw this.createError(`Unexpected '${unescape(group.text)}'. Expected '{' after '${name}()'.`, group);
+
+        const bodyEnd = group.start + group.text.length - 1;
+        const bodyTokens = this.tokenizer.tokenizeWithPositions(this.input.slice(0, bodyEnd), group.start + 1);
+        const body = this.parseLists(bodyTokens, []);
+        if (body.length === 0)
+            throw this.createError(`Unexpected '}'. Expected a command after '{'.`, {text: "}", start: bodyEnd});
+
+        return {type: "function", name: name, body: body, source: `${name}() ${unescape(group.text)}`};
+    }
+
+    /**
+     * Removes a non-empty series of and-or lists followed by one of the given keywords from the front of the given
+     * tokens, and returns the removed lists and the keyword that ended them.
+     *
+     * @param tokens the tokens to remove the and-or lists and keyword from
+     * @param opener the keyword that precedes the and-or lists, used in error messages
+     * @param keywords the keywords that may end the series of and-or lists
+     * @throws if the series is empty or is not ended by one of the given keywords
+     */
+    private parseBlock(tokens: InputParser.Token[], opener: string,
+                       keywords: string[]): [InputParser.AndOrList[], string] {
+        const lists = this.parseLists(tokens, keywords);
+
+        const keyword = tokens.shift();
+        if (keyword === undefined)
+            throw new IncompleteInputError(
+                `Unexpected end of input. Expected ${keywords.map(it => `'${it}'`).join(" or ")}.`);
+        if (lists.length === 0)
+            throw this.createError(`Unexpected '${keyword.text}'. Expected a command after '${opener}'.`, keyword);
+
+        return [lists, keyword.text];
     }
 
+    /**
+     * Returns an error with the given message that describes the position of the given token in the input that is
+     * currently being parsed.
+     *
+     * @param message the message of the error
+     * @param token the token at which the problem is, or `undefined` if the problem is the end of the input
+     */
+    private createError(message: string, token: InputParser.Token | undefined = undefined): ParseError {
+        return createParseError(message, this.input, token?.start ?? this.input.length);
+    }
 
     /**
-     * Returns the redirect target described by the last token that describes a redirect target, or the default redirect
-     * target if no token describes a redirect target.
+     * Returns the redirect targets described by the given tokens, indexed by the stream they redirect.
+     *
+     * The tokens are processed in order, so that a later token overrides an earlier token that redirects the same
+     * stream, and so that a stream that is duplicated receives the target that the duplicated stream has at that
+     * point. The contents of here-strings and of here-documents with an unquoted delimiter are expanded.
      *
-     * @param tokens an array of tokens of which some tokens may describe a redirect target
+     * @param tokens the tokens that each describe a redirect target
+     * @throws if a stream cannot be duplicated, or if the contents of a here-string or here-document cannot be
+     * expanded
      */
     private getRedirectTargets(tokens: string[]): InputArgs.RedirectTarget[] {
         const targets: InputArgs.RedirectTarget[] = [];
 
         tokens.forEach(token => {
-            const stream = token.startsWith(">") ? 1 : parseInt(token.slice(0, token.indexOf(">")));
+            const operatorIndex = token.search(/[<>]/);
+            const prefix = token.slice(0, operatorIndex);
+            const operator = token.slice(operatorIndex).match(/^(>>|>\||>&|>|<<<|<<|<)/)![0];
+            const target = token.slice(operatorIndex + operator.length);
+
+            const stream = prefix === "" || prefix === "&"
+                ? (operator.startsWith("<") ? 0 : 1)
+                : parseInt(prefix);
+            const isDuplicate = operator === ">&" && !!target.match(/^[0-9]+$/);
+            const streams = prefix === "&" || (operator === ">&" && !isDuplicate) ? [1, 2] : [stream];
+
+            if (isDuplicate) {
+                const source = parseInt(target);
+                if ((source !== 1 && source !== 2) || stream === 0)
+                    throw new IllegalArgumentError(`Cannot duplicate stream '${source}' onto stream '${stream}'.`);
+
+                targets[stream] = targets[source] ?? {type: "duplicate", target: target};
+                return;
+            }
 
-            const target = token.slice(token.indexOf(">"));
-            if (target.startsWith(">>"))
-                targets[stream] = {type: "append", target: target.slice(2)};
-            else if (target.startsWith(">"))
-                targets[stream] = {type: "write", target: target.slice(1)};
+            switch (operator) {
+                case ">>":
+                    streams.forEach(it => targets[it] = {type: "append", target: unescape(target)});
+                    break;
+                case ">":
+                case ">&":
+                    streams.forEach(it => targets[it] = {type: "write", target: unescape(target)});
+                    break;
+                case ">|":
+                    streams.forEach(it => targets[it] = {type: "overwrite", target: unescape(target)});
+                    break;
+                case "<":
+                    targets[stream] = {type: "read", target: unescape(target)};
+                    break;
+                case "<<<":
+                    targets[stream] = {type: "here", target: this.expand([target]).join(" ") + "\n"};
+                    break;
+                case "<<": {
+                    const body = target.slice(target.indexOf("\n") + 1);
+                    const isQuoted = !!target.slice(0, target.indexOf("\n")).match(/['"\\]/);
+
+                    targets[stream] = {
+                        type: "here",
+                        target: unescape(isQuoted ? body : this.expander.expandHereDocument(body))
+                    };
+                    break;
+                }
+            }
         });
 
         return targets;
@@ -173,119 +601,312 @@ export class Tokenizer {
      *
      * @param input the string to tokenize
      * @return the tokens
+     * @throws if the input is not syntactically valid
      */
     tokenize(input: string): string[] {
-        const tokens: string[] = [];
+        return this.tokenizeWithPositions(input).map(it => it.text);
+    }
+
+    /**
+     * Separates the input string into a series of tokens in the same way as `#tokenize`, and also returns the offset
+     * in the input at which each token starts.
+     *
+     * @param input the string to tokenize
+     * @param start the offset in the input at which to start tokenizing
+     * @return the tokens and their offsets
+     * @throws if the input is not syntactically valid, in which case the error describes the position of the problem
+     */
+    tokenizeWithPositions(input: string, start: number = 0): InputParser.Token[] {
+        const tokens: InputParser.Token[] = [];
+        const hereDocuments: number[] = [];
 
         let token = "";
+        let tokenStart = start;
+        let quoteStart = start;
+        const curlyBraceStarts: number[] = [];
         let isInSingleQuotes = false;
         let isInDoubleQuotes = false;
-        let isInCurlyBraces = 0;
-        for (let i = 0; i < input.length; i++) {
-            const char = input[i];
-            switch (char) {
-                // Escape character
-                case "\\":
-                    i++;
-                    const nextChar = input[i];
-                    if (nextChar === undefined)
-                        throw new IllegalArgumentError(
-                            "Unexpected end of input. '\\' was used but there was nothing to escape.");
-
-                    token += char + nextChar;
-                    break;
-                // Grouping
-                case "'":
-                    if (!isInDoubleQuotes)
-                        isInSingleQuotes = !isInSingleQuotes;
+        let i = start;
+        try {
+            for (; i < input.length; i++) {
+                if (token === "")
+                    tokenStart = i;
+
+                const char = input[i];
+                switch (char) {
+                    // Escape character
+                    case "\\":
+                        i++;
+                        const nextChar = input[i];
+                        if (nextChar === undefined)
+                            throw createParseError(
+                                "Unexpected end of input. '\\' was used but there was nothing to escape.",
+                                input,
+                                i - 1
+                            );
+
+                        token += char + nextChar;
+                        break;
+                    // Grouping
+                    case "'":
+                        if (!isInDoubleQuotes) {
+                            if (!isInSingleQuotes)
+                                quoteStart = i;
+                            isInSingleQuotes = !isInSingleQuotes;
+                        }
 
-                    token += char;
-                    break;
-                case "\"":
-                    if (!isInSingleQuotes)
-                        isInDoubleQuotes = !isInDoubleQuotes;
+                        token += char;
+                        break;
+                    case "\"":
+                        if (!isInSingleQuotes) {
+                            if (!isInDoubleQuotes)
+                                quoteStart = i;
+                            isInDoubleQuotes = !isInDoubleQuotes;
+                        }
 
-                    token += char;
-                    break;
-                case "{":
-                    if (!isInSingleQuotes && !isInDoubleQuotes)
-                        isInCurlyBraces++;
+                        token += char;
+                        break;
+                    case "{":
+                        if (!isInSingleQuotes && !isInDoubleQuotes &&
+                            (input[i - 1] === "$" || isBraceClosed(input, i)))
+                            curlyBraceStarts.push(i);
 
-                    token += char;
-                    break;
-                case "}":
-                    if (!isInSingleQuotes && !isInDoubleQuotes) {
-                        isInCurlyBraces--;
+                        token += char;
+                        break;
+                    case "}":
+                        if (!isInSingleQuotes && !isInDoubleQuotes) {
+                            if (curlyBraceStarts.length === 0)
+                                throw createParseError("Unexpected closing '}' without corresponding '{'.", input, i);
 
-                        if (isInCurlyBraces < 0)
-                            throw new IllegalArgumentError("Unexpected closing '}' without corresponding '{'.");
-                    }
+                            curlyBraceStarts.pop();
+                        }
 
-                    token += char;
-                    break;
-                // Separators
-                case " ":
-                    if (isInSingleQuotes || isInDoubleQuotes || isInCurlyBraces > 0) {
                         token += char;
-                    } else {
-                        if (token !== "")
-                            tokens.push(token);
+                        break;
+                    case "(": {
+                        const previousChar = token[token.length - 1];
+                        const isExtglob = previousChar !== undefined && "?*+@!".includes(previousChar) &&
+                            token[token.length - 2] !== "\\";
+                        if (isInSingleQuotes || isInDoubleQuotes || !isExtglob) {
+                            token += char;
+                            break;
+                        }
 
-                        token = "";
+                        const end = findClosingParenthesis(input, i);
+                        token += input.slice(i, end + 1);
+                        i = end;
+                        break;
                     }
-                    break;
-                case ";":
-                    if (isInSingleQuotes || isInDoubleQuotes || isInCurlyBraces > 0) {
-                        token += char;
-                    } else {
-                        if (token !== "")
-                            tokens.push(token);
-
-                        if (tokens.length !== 0 && tokens[tokens.length - 1] !== ";")
-                            tokens.push(char);
+                    // Command substitution
+                    case "$": {
+                        if (isInSingleQuotes || input[i + 1] !== "(") {
+                            token += char;
+                            break;
+                        }
 
-                        token = "";
-                    }
-                    break;
-                // Redirection
-                case ">":
-                    if (isInSingleQuotes || isInDoubleQuotes || isInCurlyBraces > 0) {
-                        token += char;
+                        const end = findClosingParenthesis(input, i + 1);
+                        token += input.slice(i, end + 1);
+                        i = end;
                         break;
                     }
+                    case "`": {
+                        if (isInSingleQuotes) {
+                            token += char;
+                            break;
+                        }
 
-                    if (token !== "" && !token.match(/^[0-9]+$/)) {
-                        tokens.push(token);
-                        token = "";
+                        const end = findClosingBacktick(input, i);
+                        token += input.slice(i, end + 1);
+                        i = end;
+                        break;
                     }
+                    // Separators
+                    case " ":
+                    case "\t":
+                        if (isInSingleQuotes || isInDoubleQuotes || curlyBraceStarts.length > 0) {
+                            token += char;
+                        } else {
+                            if (token !== "")
+                                tokens.push({text: token, start: tokenStart});
+
+                            token = "";
+                        }
+                        break;
+                    case "\n":
+                        if (isInSingleQuotes || isInDoubleQuotes || curlyBraceStarts.length > 0) {
+                            token += char;
+                        } else {
+                            if (token !== "")
+                                tokens.push({text: token, start: tokenStart});
+
+                            const newlineStart = i;
+                            i = this.readHereDocuments(input, i, tokens, hereDocuments);
+
+                            if (i < input.length && tokens.length !== 0 && tokens[tokens.length - 1].text !== ";" &&
+                                tokens[tokens.length - 1].text !== "\n")
+                                tokens.push({text: char, start: newlineStart});
+
+                            token = "";
+                        }
+                        break;
+                    case ";":
+                        if (isInSingleQuotes || isInDoubleQuotes || curlyBraceStarts.length > 0) {
+                            token += char;
+                        } else {
+                            if (token !== "")
+                                tokens.push({text: token, start: tokenStart});
+
+                            if (tokens.length !== 0 && tokens[tokens.length - 1].text !== ";")
+                                tokens.push({text: char, start: i});
+
+                            token = "";
+                        }
+                        break;
+                    case "|":
+                        if (isInSingleQuotes || isInDoubleQuotes || curlyBraceStarts.length > 0) {
+                            token += char;
+                        } else {
+                            if (token !== "")
+                                tokens.push({text: token, start: tokenStart});
+
+                            if (input[i + 1] === "|") {
+                                tokens.push({text: "||", start: i});
+                                i++;
+                            } else {
+                                tokens.push({text: char, start: i});
+                            }
+                            token = "";
+                        }
+                        break;
+                    case "&":
+                        const isInGroup = isInSingleQuotes || isInDoubleQuotes || curlyBraceStarts.length > 0;
+                        if (isInGroup || input[i + 1] !== "&") {
+                            token += char;
+                        } else {
+                            if (token !== "")
+                                tokens.push({text: token, start: tokenStart});
+
+                            tokens.push({text: "&&", start: i});
+                            token = "";
+                            i++;
+                        }
+                        break;
+                    // Redirection
+                    case ">":
+                        if (isInSingleQuotes || isInDoubleQuotes || curlyBraceStarts.length > 0) {
+                            token += char;
+                            break;
+                        }
+
+                        if (token !== "" && !token.match(/^([0-9]+|&)$/)) {
+                            tokens.push({text: token, start: tokenStart});
+                            token = "";
+                            tokenStart = i;
+                        }
 
-                    token += ">";
-                    if (input[i + 1] === ">") {
                         token += ">";
-                        i++;
-                    }
-                    while (input[i + 1] === " ")
-                        i++;
+                        if (input[i + 1] === ">" || input[i + 1] === "|" || (input[i + 1] === "&" && token === ">")) {
+                            token += input[i + 1];
+                            i++;
+                        }
+                        while (input[i + 1] === " ")
+                            i++;
 
-                    break;
-                // Miscellaneous character
-                default:
-                    token += char;
-                    break;
+                        break;
+                    case "<":
+                        if (isInSingleQuotes || isInDoubleQuotes || curlyBraceStarts.length > 0) {
+                            token += char;
+                            break;
+                        }
+
+                        if (token !== "" && !token.match(/^[0-9]+$/)) {
+                            tokens.push({text: token, start: tokenStart});
+                            token = "";
+                            tokenStart = i;
+                        }
+
+                        token += "<";
+                        if (input.startsWith("<<", i + 1)) {
+                            token += "<<";
+                            i += 2;
+                        } else if (input[i + 1] === "<") {
+                            token += "<";
+                            i++;
+                            hereDocuments.push(tokens.length);
+                        }
+                        while (input[i + 1] === " ")
+                            i++;
+
+                        break;
+                    // Miscellaneous character
+                    default:
+                        token += char;
+                        break;
+                }
             }
+        } catch (error) {
+            if (error instanceof IllegalArgumentError && !(error instanceof ParseError) &&
+                !(error instanceof IncompleteInputError))
+                throw createParseError(error.message, input, i);
+            throw error;
         }
+
         if (token !== "")
-            tokens.push(token);
+            tokens.push({text: token, start: tokenStart});
 
         if (isInSingleQuotes)
-            throw new IllegalArgumentError("Unexpected end of input. Missing closing '.");
+            throw createParseError("Unexpected end of input. Missing closing '.", input, quoteStart);
         if (isInDoubleQuotes)
-            throw new IllegalArgumentError("Unexpected end of input. Missing closing \".");
-        if (isInCurlyBraces > 0)
-            throw new IllegalArgumentError("Unexpected end of input. Missing closing }.");
+            throw createParseError("Unexpected end of input. Missing closing \".", input, quoteStart);
+        if (curlyBraceStarts.length > 0)
+            throw createParseError(
+                "Unexpected end of input. Missing closing }.", input, curlyBraceStarts[curlyBraceStarts.length - 1]);
+
+        this.readHereDocuments(input, input.length, tokens, hereDocuments);
 
         return tokens;
     }
+
+
+    /**
+     * Reads the bodies of the given pending here-documents from the lines after the given index, and appends each
+     * body to the token of its here-document, separated from the delimiter by a newline.
+     *
+     * @param input the input to read the bodies from
+     * @param index the index of the newline after which the first body starts
+     * @param tokens the tokens read so far
+     * @param hereDocuments the indices of the here-document tokens that do not have a body yet; this array is emptied
+     * @return the index of the newline after the last delimiter, or the length of the input if there is no such newline
+     * @throws if a here-document does not have a delimiter, or if the input ends before a delimiter is found
+     */
+    private readHereDocuments(input: string, index: number, tokens: InputParser.Token[],
+                              hereDocuments: number[]): number {
+        hereDocuments.splice(0).forEach(tokenIndex => {
+            const delimiter = getHereDocumentDelimiter(tokens[tokenIndex].text);
+            if (delimiter === "")
+                throw createParseError(
+                    "Unexpected end of line. Expected a delimiter after '<<'.", input, tokens[tokenIndex].start);
+
+            let body = "";
+            while (true) {
+                if (index >= input.length)
+                    throw new IncompleteInputError(
+                        `Unexpected end of input. Expected here-document delimiter '${delimiter}'.`, true);
+
+                const end = input.indexOf("\n", index + 1) < 0 ? input.length : input.indexOf("\n", index + 1);
+                const line = input.slice(index + 1, end);
+                index = end;
+
+                if (line === delimiter)
+                    break;
+                body += line + "\n";
+            }
+
+            tokens[tokenIndex].text += "\n" + body;
+        });
+
+        return index;
+    }
 }
 
 /**
@@ -300,6 +921,15 @@ export class Expander {
      * The globber to expand glob patterns with.
      */
     private readonly globber: Globber;
+    /**
+     * The function that executes commands for command substitution, or `undefined` if command substitution is not
+     * available.
+     */
+    private readonly substituter: InputParser.Substituter | undefined;
+    /**
+     * The positional parameters to substitute, where the parameter at index `0` is the name of the shell or script.
+     */
+    private readonly parameters: string[];
 
 
     /**
@@ -307,33 +937,170 @@ export class Expander {
      *
      * @param environment the environment containing the variables to substitute
      * @param globber the globber to expand glob patterns with
+     * @param substituter the function that executes commands for command substitution, or `undefined` if command
+     * substitution is not available
+     * @param parameters the positional parameters to substitute, where the parameter at index `0` is the name of the
+     * shell or script
      */
-    constructor(environment: Environment, globber: Globber) {
+    constructor(environment: Environment, globber: Globber,
+                substituter: InputParser.Substituter | undefined = undefined,
+                parameters: string[] = []) {
         this.environment = environment;
         this.globber = globber;
+        this.substituter = substituter;
+        this.parameters = parameters.slice();
     }
 
 
     /**
-     * Expands environment variables and glob patterns in the given token.
+     * Expands braces, environment variables, positional and special parameters, command substitutions, arithmetic
+     * expansions, and glob patterns in the given token.
+     *
+     * Braces are expanded first, after which each resulting word is expanded separately. The output of a command
+     * substitution outside of quotes is split into multiple tokens at whitespace, whereas the output of a command
+     * substitution inside double quotes is retained as-is. The parameter `$@` is split into one token per positional
+     * parameter, even inside double quotes.
      *
      * It is assumed that the given token is valid; for example, its quotes and brackets should match.
      *
      * @param token the valid token to expand
      */
     expand(token: string): string[] {
-        let expandedToken = "";
+        return this.expandBraces(token)
+            .map(word => this.expandWord(word))
+            .reduce((acc, words) => acc.concat(words), []);
+    }
+
+    /**
+     * Expands environment variables, positional and special parameters, and command substitutions in the given body
+     * of a here-document.
+     *
+     * Quotes have no special meaning inside a here-document, and a backslash only escapes `$`, `` ` ``, and `\`.
+     * The result is never split into multiple fields, and glob patterns are not expanded.
+     *
+     * @param body the body of the here-document to expand
+     * @throws if a variable name is missing or if command substitution fails
+     */
+    expandHereDocument(body: string): string {
+        let expandedBody = "";
+
+        for (let i = 0; i < body.length; i++) {
+            const char = body[i];
+            if (char === "\\" && ["$", "`", "\\"].includes(body[i + 1])) {
+                expandedBody += body[i + 1];
+                i++;
+            } else if (char === "$" || char === "`") {
+                const [value, end] = this.expandSubstitution(body, i, true);
+                expandedBody += value;
+                i = end;
+            } else {
+                expandedBody += char;
+            }
+        }
 
+        return this.splitFields(expandedBody).join(" ");
+    }
+
+
+    /**
+     * Expands the first brace expression in the given token, and recursively expands the brace expressions in the
+     * resulting words.
+     *
+     * A brace expression is either a comma-separated list of alternatives such as `{a,b,c}`, or a sequence of
+     * numbers or letters with an optional step such as `{01..20..2}` or `{a..e}`. Each alternative is combined with
+     * the text before and after the brace expression. Curly braces that do not form a brace expression, that are
+     * quoted, or that follow a `$` are retained.
+     *
+     * @param token the token to expand braces in
+     */
+    private expandBraces(token: string): string[] {
         let isInSingleQuotes = false;
         let isInDoubleQuotes = false;
-        let isInCurlyBraces = 0;
         for (let i = 0; i < token.length; i++) {
             const char = token[i];
-            switch (char) {
-                // Escape character
-                case "\\":
-                    i++;
-                    const nextChar = token[i];
+            if (char === "\\") {
+                i++;
+            } else if (char === "'" && !isInDoubleQuotes) {
+                isInSingleQuotes = !isInSingleQuotes;
+            } else if (char === "\"" && !isInSingleQuotes) {
+                isInDoubleQuotes = !isInDoubleQuotes;
+            } else if (isInSingleQuotes) {
+                continue;
+            } else if (char === "$" && token[i + 1] === "(") {
+                i = findClosingParenthesis(token, i + 1);
+            } else if (char === "$" && token[i + 1] === "{") {
+                i = findClosingBrace(token, i + 1);
+            } else if (char === "`") {
+                i = findClosingBacktick(token, i);
+            } else if (char === "{" && !isInDoubleQuotes) {
+                if (!isBraceClosed(token, i))
+                    continue;
+
+                const end = findClosingBrace(token, i);
+                const alternatives = getBraceAlternatives(token.slice(i + 1, end));
+                if (alternatives === undefined)
+                    continue;
+
+                const [prefix, suffix] = [token.slice(0, i), token.slice(end + 1)];
+                return alternatives
+                    .map(alternative => this.expandBraces(prefix + alternative + suffix))
+                    .reduce((acc, words) => acc.concat(words), []);
+            }
+        }
+
+        return [token];
+    }
+
+    /**
+     * Expands environment variables, positional and special parameters, command substitutions, arithmetic
+     * expansions, and glob patterns in the given token, in which braces have already been expanded.
+     *
+     * @param token the valid token to expand
+     */
+    private expandWord(token: string): string[] {
+        const [expandedToken, isSplit] = this.markWord(token);
+
+        return this.splitFields(expandedToken)
+            .filter(field => !isSplit || field !== "")
+            .map(field => {
+                const tokens = this.globber.glob(field);
+                if (tokens.length !== 0)
+                    return tokens;
+
+                if (ShellOptions.isEnabled(this.environment, "nullglob"))
+                    return [];
+                if (ShellOptions.isEnabled(this.environment, "failglob"))
+                    throw new IllegalArgumentError(`Token '${unescape(unmarkGlob(field))}' does not match any files.`);
+
+                return [unmarkGlob(field)];
+            })
+            .reduce((acc, tokens) => acc.concat(tokens), []);
+    }
+
+    /**
+     * Removes quotes and escapes from the given token, expands its environment variables, parameters, command
+     * substitutions, and arithmetic expansions, and marks its glob characters and field separators with escape
+     * characters.
+     *
+     * @param token the valid token to expand
+     * @return the marked expansion of the token, and `true` if and only if empty fields must be removed after
+     * splitting the expansion into fields
+     */
+    private markWord(token: string): [string, boolean] {
+        let expandedToken = "";
+        let isSplit = false;
+
+        const isExtglob = ShellOptions.isEnabled(this.environment, "extglob");
+        let isInSingleQuotes = false;
+        let isInDoubleQuotes = false;
+        let isInExtglob = 0;
+        for (let i = 0; i < token.length; i++) {
+            const char = token[i];
+            switch (char) {
+                // Escape character
+                case "\\":
+                    i++;
+                    const nextChar = token[i];
 
                     if (isInSingleQuotes || isInDoubleQuotes) {
                         if ((isInSingleQuotes && nextChar === "'") || (isInDoubleQuotes && nextChar === "\""))
@@ -347,6 +1114,9 @@ export class Expander {
                         case "\\":
                         case " ":
                         case ";":
+                        case "|":
+                        case "&":
+                        case "`":
                         case "~":
                         case "$":
                         case ">":
@@ -356,6 +1126,15 @@ export class Expander {
                         case "\"":
                         case "{":
                         case "}":
+                        case "<":
+                        case ",":
+                        case "[":
+                        case "]":
+                        case "(":
+                        case ")":
+                        case "!":
+                        case "@":
+                        case "+":
                             expandedToken += nextChar;
                             break;
                         default:
@@ -376,49 +1155,59 @@ export class Expander {
                     else
                         expandedToken += char;
                     break;
-                case "{":
-                    if (!isInSingleQuotes && !isInDoubleQuotes)
-                        isInCurlyBraces++;
-                    else
-                        expandedToken += char;
-                    break;
-                case "}":
-                    if (!isInSingleQuotes && !isInDoubleQuotes)
-                        isInCurlyBraces--;
-                    else
-                        expandedToken += char;
-                    break;
-                // Environment variable
+                // Environment variables, parameters, and command substitution
                 case "$":
+                case "`": {
                     if (isInSingleQuotes) {
                         expandedToken += char;
                         break;
                     }
 
-                    let key = "";
-                    for (; i + 1 < token.length; i++) {
-                        const nextChar = token[i + 1];
-                        if (nextChar.match(/^[0-9a-z_]+$/i))
-                            key += nextChar;
-                        else
-                            break;
-                    }
-                    if (key === "")
-                        throw new IllegalArgumentError("Missing variable name after '$'.");
-
-                    expandedToken += this.environment.getOrDefault(key, "");
+                    const [value, end, isSplitting] = this.expandSubstitution(token, i, isInDoubleQuotes);
+                    expandedToken += value;
+                    isSplit = isSplit || isSplitting;
+                    i = end;
                     break;
+                }
                 // Glob characters
                 case "*":
                 case "?":
+                case "+":
+                case "@":
+                case "!":
+                    if (isInSingleQuotes || isInDoubleQuotes) {
+                        expandedToken += char;
+                    } else if (isExtglob && token[i + 1] === "(") {
+                        expandedToken += InputParser.EscapeChar + char + InputParser.EscapeChar + "(";
+                        isInExtglob++;
+                        i++;
+                    } else if (char === "*" || char === "?") {
+                        expandedToken += InputParser.EscapeChar + char;
+                    } else {
+                        expandedToken += char;
+                    }
+                    break;
+                case "[":
+                case "]":
                     if (isInSingleQuotes || isInDoubleQuotes)
                         expandedToken += char;
                     else
                         expandedToken += InputParser.EscapeChar + char;
                     break;
+                case "|":
+                case ")":
+                    if (isInSingleQuotes || isInDoubleQuotes || isInExtglob === 0) {
+                        expandedToken += char;
+                        break;
+                    }
+
+                    expandedToken += InputParser.EscapeChar + char;
+                    if (char === ")")
+                        isInExtglob--;
+                    break;
                 // Home directory
                 case "~":
-                    if (isInSingleQuotes || isInDoubleQuotes || isInCurlyBraces > 0 || expandedToken !== "")
+                    if (isInSingleQuotes || isInDoubleQuotes || expandedToken !== "")
                         expandedToken += char;
                     else if (token[i + 1] === undefined || token[i + 1] === "/")
                         expandedToken += this.environment.get("home");
@@ -432,14 +1221,332 @@ export class Expander {
             }
         }
 
-        const tokens = this.globber.glob(expandedToken);
-        if (tokens.length === 0)
-            throw new IllegalArgumentError(`Token '${unescape(expandedToken)}' does not match any files.`);
+        return [expandedToken, isSplit];
+    }
 
-        return tokens;
+    /**
+     * Expands the environment variable, parameter, command substitution, or arithmetic expansion that starts at the
+     * given index in the given token.
+     *
+     * @param token the token to expand in
+     * @param start the index of the `$` or `` ` `` that starts the expansion
+     * @param isQuoted `true` if and only if the expansion is inside double quotes
+     * @return the expanded value, the index of the last character of the expansion, and `true` if and only if the
+     * expanded value must be split into fields
+     * @throws if a variable name is missing, if command substitution fails, or if an arithmetic expression is invalid
+     */
+    private expandSubstitution(token: string, start: number, isQuoted: boolean): [string, number, boolean] {
+        if (token[start] === "`") {
+            const end = findClosingBacktick(token, start);
+            const command = token.slice(start + 1, end).replace(/\\([`$\\])/g, "$1");
+            return [this.substitute(command, isQuoted), end, !isQuoted];
+        }
+
+        if (token[start + 1] === "(") {
+            const end = findClosingParenthesis(token, start + 1);
+            if (token[start + 2] === "(" && findClosingParenthesis(token, start + 2) === end - 1) {
+                const expression = unescape(this.expandHereDocument(token.slice(start + 3, end - 1)));
+                return ["" + new ArithmeticEvaluator(this.environment).evaluate(expression), end, false];
+            }
+
+            return [this.substitute(token.slice(start + 2, end), isQuoted), end, !isQuoted];
+        }
+
+        if (token[start + 1] === "{") {
+            const end = findClosingBrace(token, start + 1);
+            const expression = token.slice(start + 2, end);
+            if (expression === "@")
+                return [this.expandParameter("@", isQuoted), end, this.parameters.length <= 1];
+
+            const [value, isSplitting] = this.expandParameterExpression(expression, isQuoted);
+            return [value, end, isSplitting];
+        }
+
+        const parameter = token[start + 1];
+        if (parameter?.match(/^[0-9#@*?]$/)) {
+            // Expand to no fields at all if there are no parameters, even inside double quotes
+            const isEmpty = parameter === "@" && this.parameters.length <= 1;
+            return [this.expandParameter(parameter, isQuoted), start + 1, isEmpty];
+        }
+
+        let end = start;
+        while (token[end + 1]?.match(/^[0-9a-z_]$/i))
+            end++;
+        if (end === start)
+            throw new IllegalArgumentError("Missing variable name after '$'.");
+
+        return [this.environment.getOrDefault(token.slice(start + 1, end + 1), ""), end, false];
+    }
+
+    /**
+     * Returns the value of the given special or positional parameter.
+     *
+     * <ul>
+     *     <li>`0` through `9` are the positional parameters, where `0` is the name of the shell or script</li>
+     *     <li>`#` is the number of positional parameters, excluding `0`</li>
+     *     <li>`@` is each positional parameter, excluding `0`, as a separate field</li>
+     *     <li>`*` is the same as `@` outside of double quotes, and all positional parameters, excluding `0`, joined by
+     *     spaces inside of double quotes</li>
+     *     <li>`?` is the exit code of the last command</li>
+     * </ul>
+     *
+     * @param parameter the name of the parameter to expand
+     * @param isQuoted `true` if and only if the parameter is inside double quotes
+     */
+    private expandParameter(parameter: string, isQuoted: boolean): string {
+        const args = this.parameters.slice(1);
+
+        switch (parameter) {
+            case "#":
+                return "" + args.length;
+            case "@":
+                return args.join(InputParser.EscapeChar + " ");
+            case "*":
+                return args.join(isQuoted ? " " : InputParser.EscapeChar + " ");
+            case "?":
+                return this.environment.getOrDefault("status", "0");
+            default:
+                return this.parameters[parseInt(parameter)] ?? "";
+        }
+    }
+
+    /**
+     * Expands the parameter expression between the curly braces of `${...}`.
+     *
+     * <ul>
+     *     <li>`name` is the value of the variable or parameter `name`</li>
+     *     <li>`#name` is the length of the value of `name`, or the number of positional parameters if `name` is `@`
+     *     or `*`</li>
+     *     <li>`name:-word` is `word` if `name` is unset or empty, and the value of `name` otherwise</li>
+     *     <li>`name:=word` is the same as `name:-word`, but also assigns `word` to `name`</li>
+     *     <li>`name:?word` throws an error with message `word` if `name` is unset or empty</li>
+     *     <li>`name:+word` is empty if `name` is unset or empty, and `word` otherwise</li>
+     *     <li>`name#pattern` and `name##pattern` remove the shortest and longest prefix matching `pattern`, and
+     *     `name%pattern` and `name%%pattern` remove the shortest and longest suffix</li>
+     *     <li>`name/pattern/word` replaces the first match of `pattern` with `word`, `name//pattern/word` replaces
+     *     all matches, and `name/#pattern/word` and `name/%pattern/word` replace a matching prefix and suffix</li>
+     *     <li>`name:offset` and `name:offset:length` are the substring starting at `offset` with at most `length`
+     *     characters, where a negative `offset` counts from the end and a negative `length` is an offset from the
+     *     end</li>
+     *     <li>`name^` and `name^^` convert the first and all characters to uppercase, and `name,` and `name,,`
+     *     convert to lowercase, optionally only for characters matching a pattern</li>
+     * </ul>
+     *
+     * Without the colon, `-`, `=`, `?`, and `+` only consider whether `name` is unset. Each `word` and `pattern` is
+     * expanded first; offsets and lengths are arithmetic expressions.
+     *
+     * @param expression the expression between the curly braces
+     * @param isQuoted `true` if and only if the expression is inside double quotes
+     * @return the expanded value, and `true` if and only if the expanded value must be split into fields
+     * @throws if the expression is invalid, if a variable that cannot be assigned is assigned, or if `:?` or `?` fails
+     */
+    private expandParameterExpression(expression: string, isQuoted: boolean): [string, boolean] {
+        const length = expression.match(/^#([a-z_][a-z0-9_]*|[0-9]+|[#@*?])$/i);
+        if (length !== null) {
+            const name = length[1];
+            if (name === "@" || name === "*")
+                return ["" + Math.max(this.parameters.length - 1, 0), false];
+
+            return ["" + (this.getParameter(name, isQuoted) ?? "").length, false];
+        }
+
+        const name = expression.match(/^([a-z_][a-z0-9_]*|[0-9]+|[#@*?])/i)?.[1];
+        if (name === undefined)
+            throw new IllegalArgumentError(`Bad substitution '\${${expression}}'.`);
+
+        const value = this.getParameter(name, isQuoted);
+        const rest = expression.slice(name.length);
+        if (rest === "")
+            return [value ?? "", false];
+
+        const operator = rest.match(/^(:?[-=?+]|##?|%%?|\/[\/#%]?|:|\^\^?|,,?)/)?.[1];
+        if (operator === undefined)
+            throw new IllegalArgumentError(`Bad substitution '\${${expression}}'.`);
+
+        const word = rest.slice(operator.length);
+        const isUnset = value === undefined || (operator.startsWith(":") && value === "");
+        switch (operator) {
+            case "-":
+            case ":-":
+                return isUnset ? this.expandParameterWord(word, isQuoted) : [value!, false];
+            case "=":
+            case ":=": {
+                if (!isUnset)
+                    return [value!, false];
+                if (!isName(name))
+                    throw new IllegalArgumentError(`Cannot assign to '\$${name}'.`);
+
+                const newValue = unmarkGlob(this.markWord(word)[0]);
+                this.environment.safeSet(name, newValue);
+                return [newValue, false];
+            }
+            case "?":
+            case ":?":
+                if (isUnset) {
+                    const message = word === "" ? "Parameter is not set." : unmarkGlob(this.markWord(word)[0]);
+                    throw new IllegalArgumentError(`${name}: ${message}`);
+                }
+
+                return [value!, false];
+            case "+":
+            case ":+":
+                return isUnset ? ["", false] : this.expandParameterWord(word, isQuoted);
+            case "#":
+            case "##":
+            case "%":
+            case "%%":
+                return [removeAffix(value ?? "", this.toPatternSource(word), operator), false];
+            case "/":
+            case "//":
+            case "/#":
+            case "/%": {
+                const [pattern, replacement] = splitParameterPattern(word);
+                if (pattern === "")
+                    return [value ?? "", false];
+
+                const source = this.toPatternSource(pattern);
+                const regex = new RegExp(
+                    operator === "/#" ? `^(?:${source})` : operator === "/%" ? `(?:${source})$` : source,
+                    operator === "//" ? "g" : ""
+                );
+                const newValue = unmarkGlob(this.markWord(replacement ?? "")[0]);
+                return [(value ?? "").replace(regex, () => newValue), false];
+            }
+            case ":": {
+                const evaluator = new ArithmeticEvaluator(this.environment);
+                const [offsetExpression, lengthExpression] = splitSubstringRange(unmarkGlob(this.markWord(word)[0]));
+                const string = value ?? "";
+
+                let start = evaluator.evaluate(offsetExpression);
+                if (start < 0)
+                    start = Math.max(string.length + start, 0);
+                if (lengthExpression === undefined)
+                    return [string.slice(start), false];
+
+                const end = evaluator.evaluate(lengthExpression);
+                return [string.slice(start, end < 0 ? end : start + end), false];
+            }
+            default: {
+                const regex = new RegExp(`^(?:${word === "" ? "." : this.toPatternSource(word)})$`);
+                const isUpper = operator.startsWith("^");
+                const convert = (char: string) =>
+                    regex.test(char) ? (isUpper ? char.toUpperCase() : char.toLowerCase()) : char;
+
+                const string = value ?? "";
+                if (operator.length === 1)
+                    return [convert(string.slice(0, 1)) + string.slice(1), false];
+                return [string.split("").map(convert).join(""), false];
+            }
+        }
+    }
+
+    /**
+     * Returns the value of the given variable or parameter, or `undefined` if it is not set.
+     *
+     * @param name the name of the variable, or the name of the positional or special parameter
+     * @param isQuoted `true` if and only if the parameter is inside double quotes
+     */
+    private getParameter(name: string, isQuoted: boolean): string | undefined {
+        if (name.match(/^[0-9]+$/))
+            return this.parameters[parseInt(name)];
+        if (name.match(/^[#@*?]$/))
+            return this.expandParameter(name, isQuoted);
+
+        return this.environment.has(name) ? this.environment.get(name) : undefined;
+    }
+
+    /**
+     * Expands the given word of a parameter expression.
+     *
+     * Outside of double quotes, the glob characters and field separators in the word remain marked so that the
+     * expansion is globbed and split.
+     *
+     * @param word the word to expand
+     * @param isQuoted `true` if and only if the parameter expression is inside double quotes
+     * @return the expanded word, and `true` if and only if the expanded word must be split into fields
+     */
+    private expandParameterWord(word: string, isQuoted: boolean): [string, boolean] {
+        const [expandedWord, isSplit] = this.markWord(word);
+
+        return isQuoted ? [unmarkGlob(expandedWord), false] : [expandedWord, isSplit];
+    }
+
+    /**
+     * Expands the given glob pattern of a parameter expression, and returns the source of a regular expression without
+     * anchors that matches the same strings.
+     *
+     * @param pattern the pattern to convert
+     */
+    private toPatternSource(pattern: string): string {
+        return glob2regexSource(this.markWord(pattern)[0], false);
+    }
+
+    /**
+     * Executes the given command and returns its output in a form that can be inserted into an expanded token.
+     *
+     * Trailing newlines are removed from the output. If the output is not quoted, whitespace in the output is replaced
+     * with field separators and glob characters in the output are escaped so that they are globbed.
+     *
+     * @param command the command to execute
+     * @param isQuoted `true` if and only if the command substitution is inside double quotes
+     * @throws if command substitution is not available
+     */
+    private substitute(command: string, isQuoted: boolean): string {
+        if (this.substituter === undefined)
+            throw new IllegalArgumentError("Command substitution is not available here.");
+
+        const output = escape(this.substituter(unescape(command)).replace(/\n+$/, ""));
+        if (isQuoted)
+            return output;
+
+        return output
+            .replace(/[?*]/g, it => InputParser.EscapeChar + it)
+            .replace(/\s+/g, InputParser.EscapeChar + " ");
+    }
+
+    /**
+     * Splits the given expanded token at the field separators inserted by `#substitute`.
+     *
+     * @param token the expanded token to split
+     */
+    private splitFields(token: string): string[] {
+        const fields = [""];
+
+        for (let i = 0; i < token.length; i++) {
+            const char = token[i];
+            if (char !== InputParser.EscapeChar) {
+                fields[fields.length - 1] += char;
+                continue;
+            }
+
+            i++;
+            const nextChar = token[i];
+            if (nextChar === " ")
+                fields.push("");
+            else
+                fields[fields.length - 1] += char + nextChar;
+        }
+
+        return fields;
     }
 }
 
+export module Globber {
+    /**
+     * The options that determine which glob patterns are understood.
+     */
+    export type Options = {
+        /**
+         * `true` if and only if extended glob patterns such as `!(*.txt)` and `@(a|b)` are understood.
+         */
+        extglob?: boolean,
+        /**
+         * `true` if and only if `**` matches any number of directories.
+         */
+        globstar?: boolean
+    };
+}
+
 /**
  * Globs file paths in tokens.
  */
@@ -452,6 +1559,10 @@ export class Globber {
      * The path to the current working directory to which globbing is relative.
      */
     private readonly cwd: Path;
+    /**
+     * The options that determine which glob patterns are understood.
+     */
+    private readonly options: Globber.Options;
 
 
     /**
@@ -459,21 +1570,26 @@ export class Globber {
      *
      * @param fileSystem the file system describing the valid paths to glob
      * @param cwd the path to the current working directory to which globbing is relative
+     * @param options the options that determine which glob patterns are understood
      */
-    constructor(fileSystem: FileSystem, cwd: string) {
+    constructor(fileSystem: FileSystem, cwd: string, options: Globber.Options = {}) {
         this.fileSystem = fileSystem;
         this.cwd = new Path(cwd);
+        this.options = Object.assign({}, options);
     }
 
 
     /**
      * Returns globbed tokens.
      *
+     * If the token is not a glob pattern, the token is returned without the escape characters that mark glob
+     * characters.
+     *
      * @param token the token to glob
      */
     glob(token: string): string[] {
         if (!this.isGlob(token))
-            return [token];
+            return [unmarkGlob(token)];
 
         return token.startsWith("/")
             ? this.glob2("/", token.slice(1), new Path("/"))
@@ -501,6 +1617,8 @@ export class Globber {
             return this.glob2(history + nextPart + "/", remainder, path);
         if (nextPart === "..")
             return this.glob2(history + nextPart + "/", remainder, path.parent);
+        if (this.options.globstar && nextPart === `${InputParser.EscapeChar}*${InputParser.EscapeChar}*`)
+            return this.globStar(history, glob, path, dir);
 
         return Object.keys(dir.nodes)
             .filter(it => it.match(this.glob2regex(nextPart)) && (it.startsWith(".") == nextPart.startsWith(".")))
@@ -526,6 +1644,31 @@ export class Globber {
             .reduce((acc, it) => acc.concat(it), []);
     }
 
+    /**
+     * Recursively traverses the given path according to a glob pattern that starts with `**`, which matches any
+     * number of directories, including none.
+     *
+     * @param history the "de-globbed" pattern until now; must end with a slash in between recursive calls
+     * @param glob the glob pattern that is still to be traversed, starting with `**`
+     * @param path the current location in the file system
+     * @param dir the directory at the current location in the file system
+     */
+    private globStar(history: string, glob: string, path: Path, dir: Directory): string[] {
+        const remainder = glob.includes("/") ? glob.substring(glob.indexOf("/") + 1) : ""; // excluding /
+
+        return Object.keys(dir.nodes)
+            .filter(it => !it.startsWith("."))
+            .map(fileName => {
+                if (!(dir.nodes[fileName] instanceof Directory))
+                    return remainder === "" && !glob.includes("/") ? [history + escape(fileName)] : [];
+
+                const directoryName = `${history}${escape(fileName)}/`;
+                return (remainder === "" ? [glob.includes("/") ? directoryName : directoryName.slice(0, -1)] : [])
+                    .concat(this.glob2(directoryName, glob, path.getChild(fileName)));
+            })
+            .reduce((acc, it) => acc.concat(it), remainder === "" ? [] : this.glob2(history, remainder, path));
+    }
+
 
     /**
      * Returns `true` if and only if the given glob string uses any special glob characters.
@@ -541,7 +1684,9 @@ export class Globber {
 
             i++;
             const nextChar = glob[i];
-            if (nextChar === "?" || nextChar === "*")
+            if (nextChar === "?" || nextChar === "*" || nextChar === "(")
+                return true;
+            if (nextChar === "[" && glob.indexOf(InputParser.EscapeChar + "]", i + 2) >= 0)
                 return true;
         }
 
@@ -554,41 +1699,754 @@ export class Globber {
      * @param glob the glob string to convert
      */
     private glob2regex(glob: string): RegExp {
-        let regex = "";
+        return new RegExp(`^${glob2regexSource(glob)}$`);
+    }
+}
 
-        for (let i = 0; i < glob.length; i++) {
-            const char = glob[i];
-            if (char !== InputParser.EscapeChar) {
-                if ("-\/\\^$*+?.()|[\]{}".includes(char))
-                    regex += "\\" + char;
-                else
-                    regex += char;
-                continue;
+
+export module InputParser {
+    /**
+     * The token used to internally escape characters in the input parser.
+     */
+    export const EscapeChar = "\u001b";
+
+    /**
+     * A token of the input, where `start` is the offset in the input at which the token starts.
+     */
+    export type Token = { text: string, start: number };
+
+    /**
+     * A part of a word, where `text` is the part as it was written and `start` is the offset in the input at which the
+     * part starts.
+     *
+     * <ul>
+     *     <li>`literal` is text without special meaning</li>
+     *     <li>`escape` is a backslash together with the character it escapes</li>
+     *     <li>`single-quoted` is text in between single quotes, including the quotes</li>
+     *     <li>`double-quoted` is text in between double quotes, including the quotes, of which `parts` are the parts
+     *     in between the quotes</li>
+     *     <li>`parameter` is a reference to a variable or parameter, such as `$a`, `$1`, or `${a:-b}`</li>
+     *     <li>`command` is a command substitution, such as `$(a)` or `` `a` ``</li>
+     *     <li>`arithmetic` is an arithmetic expansion, such as `$((1 + 2))`</li>
+     * </ul>
+     */
+    export type WordPart = {
+        type: "literal" | "escape" | "single-quoted" | "parameter" | "command" | "arithmetic",
+        text: string,
+        start: number
+    } | { type: "double-quoted", text: string, start: number, parts: WordPart[] };
+
+    /**
+     * A word that has not been expanded yet, where `text` is the word as it was written, `start` is the offset in the
+     * input at which the word starts, and `parts` are the parts that the word consists of.
+     */
+    export type Word = { text: string, start: number, parts: WordPart[] };
+
+    /**
+     * A redirect of a stream of a command, where `text` is the redirect as it was written without the spaces after
+     * the operator and including the body of a here-document, `start` is the offset in the input at which the redirect
+     * starts, `operator` is the operator including the stream it redirects, and `target` is the word after the
+     * operator.
+     */
+    export type Redirect = { text: string, start: number, operator: string, target: Word };
+
+    /**
+     * A single simple command, of which the words and redirects have not been expanded yet.
+     */
+    export type SimpleCommand = { type: "simple", words: Word[], redirects: Redirect[] };
+
+    /**
+     * A conditional command that executes the body of the first branch of which the condition is successful, or the
+     * `otherwise` body if no condition is successful.
+     */
+    export type IfClause = {
+        type: "if",
+        branches: { condition: AndOrList[], body: AndOrList[] }[],
+        otherwise: AndOrList[] | undefined
+    };
+
+    /**
+     * A loop that executes the body as long as the condition is successful.
+     */
+    export type WhileClause = { type: "while", condition: AndOrList[], body: AndOrList[] };
+
+    /**
+     * A loop that executes the body once for each word that the unexpanded words expand to, while the variable is set
+     * to that word.
+     */
+    export type ForClause = { type: "for", variable: string, words: Word[], body: AndOrList[] };
+
+    /**
+     * A definition of a function with the given name that executes the body when invoked, where `source` is the
+     * definition as it was written.
+     */
+    export type FunctionDefinition = { type: "function", name: string, body: AndOrList[], source: string };
+
+    /**
+     * A single command in a pipeline, which is either a simple command, a compound command, or a function definition.
+     */
+    export type Command = SimpleCommand | IfClause | WhileClause | ForClause | FunctionDefinition;
+
+    /**
+     * A series of commands in which the output of each command is used as the input of the next command.
+     */
+    export type Pipeline = Command[];
+
+    /**
+     * An operator that determines whether the next pipeline in an and-or list is executed.
+     *
+     * <ul>
+     *     <li>`&&` means that the next pipeline is executed only if the previous pipeline was successful</li>
+     *     <li>`||` means that the next pipeline is executed only if the previous pipeline was unsuccessful</li>
+     * </ul>
+     */
+    export type AndOrOperator = "&&" | "||";
+
+    /**
+     * A series of pipelines separated by operators, where the operator at index `i` is in between the pipelines at
+     * indices `i` and `i + 1`.
+     */
+    export type AndOrList = { pipelines: Pipeline[], operators: AndOrOperator[] };
+
+    /**
+     * Executes the given input string and returns the output that it wrote to its output stream.
+     */
+    export type Substituter = (input: string) => string;
+}
+
+/**
+ * Returns `true` if and only if the given token is a valid name for a variable or function.
+ *
+ * @param token the token to check
+ */
+function isName(token: string): boolean {
+    return !!token.match(/^[a-z_][0-9a-z_]*$/i);
+}
+
+/**
+ * Returns `true` if and only if the given token separates and-or lists from each other.
+ *
+ * @param token the token to check
+ */
+function isSeparator(token: string): boolean {
+    return token === ";" || token === "\n";
+}
+
+/**
+ * Returns `true` if and only if the given token separates commands from each other.
+ *
+ * @param token the token to check
+ */
+function isControlOperator(token: string): boolean {
+    return [";", "\n", "|", "&&", "||"].includes(token);
+}
+
+/**
+ * Returns `true` if and only if the given token describes a redirection.
+ *
+ * @param token the token to check
+ */
+function isRedirect(token: string): boolean {
+    return !!token.match(/^([0-9]*|&)[<>]/);
+}
+
+/**
+ * Returns the delimiter of the given here-document token, without quotes and escape characters.
+ *
+ * @param token the here-document token to return the delimiter of
+ */
+function getHereDocumentDelimiter(token: string): string {
+    return token.slice(token.indexOf("<<") + 2).split("\n")[0].replace(/['"\\]/g, "");
+}
+
+/**
+ * Removes tokens from the front of the given tokens for as long as they equal one of the given tokens.
+ *
+ * @param tokens the tokens to remove tokens from
+ * @param skippable the tokens to remove
+ */
+function skip(tokens: InputParser.Token[], skippable: string[]): void {
+    while (tokens.length !== 0 && skippable.includes(tokens[0].text))
+        tokens.shift();
+}
+
+/**
+ * Returns the line and the column, both starting at 1, at which the given offset in the given escaped input is.
+ *
+ * @param input the escaped input to find the position in
+ * @param offset the offset in the input to return the position of
+ */
+function getPosition(input: string, offset: number): [number, number] {
+    const lines = unescape(input.slice(0, offset)).split("\n");
+    return [lines.length, lines[lines.length - 1].length + 1];
+}
+
+/**
+ * Returns an error with the given message that describes the position of the given offset in the given escaped input.
+ *
+ * @param message the message of the error
+ * @param input the escaped input in which the problem is
+ * @param offset the offset in the input at which the problem is
+ */
+function createParseError(message: string, input: string, offset: number): ParseError {
+    const [line, column] = getPosition(input, offset);
+    return new ParseError(message, line, column);
+}
+
+/**
+ * Returns the word that is described by the given text.
+ *
+ * @param text the text of the word as it was written
+ * @param start the offset in the input at which the word starts
+ */
+function parseWord(text: string, start: number): InputParser.Word {
+    return {text: text, start: start, parts: parseWordParts(text, start, false)};
+}
+
+/**
+ * Returns the parts that the given text of a word consists of.
+ *
+ * A part that is not closed extends until the end of the text.
+ *
+ * @param text the text to split into parts
+ * @param start the offset in the input at which the text starts
+ * @param isInDoubleQuotes `true` if and only if the text is in between double quotes, in which case quotes do not
+ * start a new part
+ */
+function parseWordParts(text: string, start: number, isInDoubleQuotes: boolean): InputParser.WordPart[] {
+    const parts: InputParser.WordPart[] = [];
+    const findEnd = (finder: () => number): number => {
+        try {
+            return finder();
+        } catch (error) {
+            return text.length - 1;
+        }
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        let type: InputParser.WordPart["type"];
+        let end: number;
+        if (char === "\\") {
+            type = "escape";
+            end = i + 1;
+        } else if (char === "'" && !isInDoubleQuotes) {
+            type = "single-quoted";
+            end = text.indexOf("'", i + 1) < 0 ? text.length - 1 : text.indexOf("'", i + 1);
+        } else if (char === "\"" && !isInDoubleQuotes) {
+            type = "double-quoted";
+            end = findEnd(() => findClosingDoubleQuote(text, i));
+        } else if (char === "`") {
+            type = "command";
+            end = findEnd(() => findClosingBacktick(text, i));
+        } else if (char === "$" && text[i + 1] === "(") {
+            end = findEnd(() => findClosingParenthesis(text, i + 1));
+            type = text[i + 2] === "(" && findEnd(() => findClosingParenthesis(text, i + 2)) === end - 1
+                ? "arithmetic"
+                : "command";
+        } else if (char === "$" && text[i + 1] === "{") {
+            type = "parameter";
+            end = findEnd(() => findClosingBrace(text, i + 1));
+        } else if (char === "$" && text.slice(i + 1).match(/^([0-9#?@*]|[a-z_])/i)) {
+            type = "parameter";
+            end = i + text.slice(i + 1).match(/^([0-9#?@*]|[a-z_][0-9a-z_]*)/i)![0].length;
+        } else {
+            const previous = parts[parts.length - 1];
+            if (previous?.type === "literal" && previous.start + previous.text.length === start + i)
+                previous.text += char;
+            else
+                parts.push({type: "literal", text: char, start: start + i});
+            continue;
+        }
+
+        const part = text.slice(i, end + 1);
+        if (type === "double-quoted") {
+            const contents = part.length > 1 && part.endsWith("\"") ? part.slice(1, -1) : part.slice(1);
+            const innerParts = parseWordParts(contents, start + i + 1, true);
+            parts.push({type: type, text: part, start: start + i, parts: innerParts});
+        } else {
+            parts.push({type: type, text: part, start: start + i});
+        }
+        i = end;
+    }
+
+    return parts;
+}
+
+/**
+ * Returns the index of the parenthesis that closes the parenthesis at the given index.
+ *
+ * Parentheses inside quotes, backticks, or escape sequences are not considered.
+ *
+ * @param input the string to find the closing parenthesis in
+ * @param start the index of the opening parenthesis
+ * @throws if the opening parenthesis is not closed
+ */
+function findClosingParenthesis(input: string, start: number): number {
+    let depth = 0;
+    let isInSingleQuotes = false;
+    let isInDoubleQuotes = false;
+    for (let i = start; i < input.length; i++) {
+        const char = input[i];
+        if (char === "\\") {
+            i++;
+        } else if (char === "'" && !isInDoubleQuotes) {
+            isInSingleQuotes = !isInSingleQuotes;
+        } else if (char === "\"" && !isInSingleQuotes) {
+            isInDoubleQuotes = !isInDoubleQuotes;
+        } else if (char === "`" && !isInSingleQuotes) {
+            i = findClosingBacktick(input, i);
+        } else if (!isInSingleQuotes && !isInDoubleQuotes) {
+            if (char === "(") {
+                depth++;
+            } else if (char === ")") {
+                depth--;
+                if (depth === 0)
+                    return i;
             }
+        }
+    }
+
+    throw new IllegalArgumentError("Unexpected end of input. Missing closing ).");
+}
 
+/**
+ * Returns the index of the curly brace that closes the curly brace at the given index.
+ *
+ * Curly braces inside quotes, command substitutions, or escape sequences are not considered.
+ *
+ * @param input the string to find the closing curly brace in
+ * @param start the index of the opening curly brace
+ * @throws if the opening curly brace is not closed
+ */
+function findClosingBrace(input: string, start: number): number {
+    let depth = 0;
+    let isInSingleQuotes = false;
+    let isInDoubleQuotes = false;
+    for (let i = start; i < input.length; i++) {
+        const char = input[i];
+        if (char === "\\") {
             i++;
-            const nextChar = glob[i];
-            if (nextChar === undefined)
-                throw new IllegalArgumentError("Unescaped escape character inside input parser.");
+        } else if (char === "'" && !isInDoubleQuotes) {
+            isInSingleQuotes = !isInSingleQuotes;
+        } else if (char === "\"" && !isInSingleQuotes) {
+            isInDoubleQuotes = !isInDoubleQuotes;
+        } else if (isInSingleQuotes) {
+            continue;
+        } else if (char === "$" && input[i + 1] === "(") {
+            i = findClosingParenthesis(input, i + 1);
+        } else if (char === "`") {
+            i = findClosingBacktick(input, i);
+        } else if (!isInDoubleQuotes) {
+            if (char === "{") {
+                depth++;
+            } else if (char === "}") {
+                depth--;
+                if (depth === 0)
+                    return i;
+            }
+        }
+    }
 
-            if (nextChar === "?")
-                regex += ".";
-            else if (nextChar === "*")
-                regex += "[^/]*";
-            else
-                regex += nextChar;
+    throw new IllegalArgumentError("Unexpected end of input. Missing closing }.");
+}
+
+/**
+ * Returns `true` if and only if the curly brace at the given index is closed by another curly brace.
+ *
+ * @param input the string to find the closing curly brace in
+ * @param start the index of the opening curly brace
+ */
+function isBraceClosed(input: string, start: number): boolean {
+    try {
+        findClosingBrace(input, start);
+        return true;
+    } catch (error) {
+        if (!(error instanceof IllegalArgumentError))
+            throw error;
+
+        return false;
+    }
+}
+
+/**
+ * Returns the alternatives described by the contents of a brace expression, or `undefined` if the contents do not
+ * form a brace expression.
+ *
+ * The contents form a brace expression if they contain a comma outside of quotes and nested curly braces, or if they
+ * describe a sequence such as `1..10`, `01..20..2`, or `a..e`.
+ *
+ * @param contents the text between the curly braces
+ */
+function getBraceAlternatives(contents: string): string[] | undefined {
+    const sequence = contents.match(/^(-?[0-9]+|[a-z])\.\.(-?[0-9]+|[a-z])(?:\.\.(-?[0-9]+))?$/i);
+    if (sequence !== null)
+        return getSequence(sequence[1], sequence[2], Math.abs(parseInt(sequence[3] ?? "1")) || 1);
+
+    const alternatives = [""];
+    let depth = 0;
+    let isInSingleQuotes = false;
+    let isInDoubleQuotes = false;
+    for (let i = 0; i < contents.length; i++) {
+        const char = contents[i];
+        if (char === "," && depth === 0 && !isInSingleQuotes && !isInDoubleQuotes) {
+            alternatives.push("");
+            continue;
+        }
+
+        if (char === "\\") {
+            alternatives[alternatives.length - 1] += char + (contents[i + 1] ?? "");
+            i++;
+            continue;
+        } else if (char === "'" && !isInDoubleQuotes) {
+            isInSingleQuotes = !isInSingleQuotes;
+        } else if (char === "\"" && !isInSingleQuotes) {
+            isInDoubleQuotes = !isInDoubleQuotes;
+        } else if (!isInSingleQuotes && (char === "`" || (char === "$" && contents[i + 1] === "("))) {
+            const end = char === "`" ? findClosingBacktick(contents, i) : findClosingParenthesis(contents, i + 1);
+            alternatives[alternatives.length - 1] += contents.slice(i, end + 1);
+            i = end;
+            continue;
+        } else if (!isInSingleQuotes && !isInDoubleQuotes) {
+            if (char === "{")
+                depth++;
+            else if (char === "}")
+                depth--;
         }
 
-        return new RegExp(`^${regex}$`);
+        alternatives[alternatives.length - 1] += char;
     }
+
+    return alternatives.length > 1 ? alternatives : undefined;
 }
 
+/**
+ * Returns the sequence of numbers or letters from the given start to the given end, or `undefined` if the start and
+ * end are not both numbers or both letters.
+ *
+ * If the start or end of a numeric sequence has a leading zero, each number is padded with zeroes to the same width.
+ *
+ * @param start the first number or letter of the sequence
+ * @param end the number or letter at which the sequence ends
+ * @param step the positive difference between subsequent elements of the sequence
+ */
+function getSequence(start: string, end: string, step: number): string[] | undefined {
+    const isNumeric = !!start.match(/[0-9]/);
+    if (isNumeric !== !!end.match(/[0-9]/))
+        return undefined;
+
+    const from = isNumeric ? parseInt(start) : start.charCodeAt(0);
+    const to = isNumeric ? parseInt(end) : end.charCodeAt(0);
+    const width = [start, end].some(it => it.match(/^-?0[0-9]/)) ? Math.max(start.length, end.length) : 0;
+
+    const sequence: string[] = [];
+    for (let value = from; from <= to ? value <= to : value >= to; value += from <= to ? step : -step) {
+        if (!isNumeric)
+            sequence.push(String.fromCharCode(value));
+        else if (value < 0)
+            sequence.push("-" + `${-value}`.padStart(width - 1, "0"));
+        else
+            sequence.push(`${value}`.padStart(width, "0"));
+    }
+    return sequence;
+}
 
-export module InputParser {
-    /**
-     * The token used to internally escape characters in the input parser.
-     */
-    export const EscapeChar = "\u001b";
+/**
+ * Returns the index of the double quote that closes the double quote at the given index.
+ *
+ * Double quotes inside command substitutions or escape sequences are not considered.
+ *
+ * @param input the string to find the closing double quote in
+ * @param start the index of the opening double quote
+ * @throws if the opening double quote is not closed
+ */
+function findClosingDoubleQuote(input: string, start: number): number {
+    for (let i = start + 1; i < input.length; i++) {
+        const char = input[i];
+        if (char === "\\")
+            i++;
+        else if (char === "`")
+            i = findClosingBacktick(input, i);
+        else if (char === "$" && input[i + 1] === "(")
+            i = findClosingParenthesis(input, i + 1);
+        else if (char === "\"")
+            return i;
+    }
+
+    throw new IllegalArgumentError("Unexpected end of input. Missing closing \".");
+}
+
+/**
+ * Returns the index of the backtick that closes the backtick at the given index.
+ *
+ * @param input the string to find the closing backtick in
+ * @param start the index of the opening backtick
+ * @throws if the opening backtick is not closed
+ */
+function findClosingBacktick(input: string, start: number): number {
+    for (let i = start + 1; i < input.length; i++) {
+        if (input[i] === "\\")
+            i++;
+        else if (input[i] === "`")
+            return i;
+    }
+
+    throw new IllegalArgumentError("Unexpected end of input. Missing closing `.");
+}
+
+/**
+ * Returns the index of the escape character that marks the parenthesis that closes the extended glob pattern of which
+ * the opening parenthesis is at the given index.
+ *
+ * @param glob the glob string to find the closing parenthesis in
+ * @param start the index of the opening parenthesis
+ * @throws if the extended glob pattern is not closed
+ */
+function findClosingExtglob(glob: string, start: number): number {
+    let depth = 0;
+    for (let i = start - 1; i < glob.length; i++) {
+        if (glob[i] !== InputParser.EscapeChar)
+            continue;
+
+        i++;
+        if (glob[i] === "(") {
+            depth++;
+        } else if (glob[i] === ")") {
+            depth--;
+            if (depth === 0)
+                return i;
+        }
+    }
+
+    throw new IllegalArgumentError("Unexpected end of input. Missing closing ).");
+}
+
+/**
+ * Splits the contents of an extended glob pattern into its alternatives.
+ *
+ * @param contents the contents of the extended glob pattern, excluding the surrounding parentheses
+ */
+function splitExtglob(contents: string): string[] {
+    const alternatives = [""];
+
+    let depth = 0;
+    for (let i = 0; i < contents.length; i++) {
+        const char = contents[i];
+        if (char !== InputParser.EscapeChar) {
+            alternatives[alternatives.length - 1] += char;
+            continue;
+        }
+
+        i++;
+        const nextChar = contents[i];
+        if (nextChar === "|" && depth === 0) {
+            alternatives.push("");
+            continue;
+        }
+
+        if (nextChar === "(")
+            depth++;
+        else if (nextChar === ")")
+            depth--;
+        alternatives[alternatives.length - 1] += char + nextChar;
+    }
+
+    return alternatives;
+}
+
+/**
+ * Converts a glob string to the source of a regular expression without anchors.
+ *
+ * @param glob the glob string to convert
+ * @param isPathname `true` if and only if `*` and `!(...)` should not match slashes, as in file paths
+ */
+function glob2regexSource(glob: string, isPathname: boolean = true): string {
+    let regex = "";
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char !== InputParser.EscapeChar) {
+            regex += escapeRegex(char);
+            continue;
+        }
+
+        i++;
+        const nextChar = glob[i];
+        if (nextChar === undefined)
+            throw new IllegalArgumentError("Unescaped escape character inside input parser.");
+
+        if (glob.startsWith(InputParser.EscapeChar + "(", i + 1)) {
+            const end = findClosingExtglob(glob, i + 2);
+            const alternatives = splitExtglob(glob.slice(i + 3, end - 1))
+                .map(it => glob2regexSource(it, isPathname))
+                .join("|");
+            i = end;
+
+            if (nextChar === "!") {
+                const rest = glob2regexSource(glob.slice(end + 1), isPathname);
+                return `${regex}(?!(?:${alternatives})${rest}$)${isPathname ? "[^/]*" : ".*"}${rest}`;
+            }
+
+            regex += `(?:${alternatives})${nextChar === "@" ? "" : nextChar}`;
+        } else if (nextChar === "[" && glob.indexOf(InputParser.EscapeChar + "]", i + 2) >= 0) {
+            const end = glob.indexOf(InputParser.EscapeChar + "]", i + 2);
+            const contents = unmarkGlob(glob.slice(i + 1, end));
+            i = end + 1;
+
+            const isNegated = contents.startsWith("!") || contents.startsWith("^");
+            const characters = (isNegated ? contents.slice(1) : contents).replace(/[\\\]\[^]/g, "\\$&");
+            regex += `[${isNegated ? "^" : ""}${characters}]`;
+        } else if (nextChar === "?") {
+            regex += ".";
+        } else if (nextChar === "*") {
+            regex += isPathname ? "[^/]*" : ".*";
+        } else {
+            regex += escapeRegex(nextChar);
+        }
+    }
+
+    return regex;
+}
+
+/**
+ * Removes the shortest or longest prefix or suffix of the given string that matches the given pattern.
+ *
+ * @param string the string to remove a prefix or suffix from
+ * @param source the source of the regular expression that the prefix or suffix must match
+ * @param operator `#` or `##` to remove the shortest or longest prefix, or `%` or `%%` to remove the shortest or
+ * longest suffix
+ */
+function removeAffix(string: string, source: string, operator: string): string {
+    const regex = new RegExp(`^(?:${source})$`);
+    const isLongest = operator.length === 2;
+
+    for (let i = 0; i <= string.length; i++) {
+        const length = isLongest ? string.length - i : i;
+        if (operator.startsWith("#") && regex.test(string.slice(0, length)))
+            return string.slice(length);
+        if (operator.startsWith("%") && regex.test(string.slice(string.length - length)))
+            return string.slice(0, string.length - length);
+    }
+
+    return string;
+}
+
+/**
+ * Splits the word of a `${name/pattern/word}` parameter expression at the first slash that is not quoted or escaped.
+ *
+ * Backslashes that escape a slash outside of quotes are removed from both the pattern and the replacement.
+ *
+ * @param word the text after the `/`, `//`, `/#`, or `/%` operator
+ * @return the pattern, and the replacement or `undefined` if there is no replacement
+ */
+function splitParameterPattern(word: string): [string, string | undefined] {
+    const unescapeSlashes = (part: string): string => {
+        let unescaped = "";
+        let isInSingleQuotes = false;
+        let isInDoubleQuotes = false;
+        for (let i = 0; i < part.length; i++) {
+            const char = part[i];
+            if (char === "\\") {
+                const isEscapedSlash = part[i + 1] === "/" && !isInSingleQuotes && !isInDoubleQuotes;
+                unescaped += isEscapedSlash ? "/" : part.slice(i, i + 2);
+                i++;
+                continue;
+            }
+
+            if (char === "'" && !isInDoubleQuotes)
+                isInSingleQuotes = !isInSingleQuotes;
+            else if (char === "\"" && !isInSingleQuotes)
+                isInDoubleQuotes = !isInDoubleQuotes;
+            unescaped += char;
+        }
+        return unescaped;
+    };
+
+    let isInSingleQuotes = false;
+    let isInDoubleQuotes = false;
+    for (let i = 0; i < word.length; i++) {
+        const char = word[i];
+        if (char === "\\")
+            i++;
+        else if (char === "'" && !isInDoubleQuotes)
+            isInSingleQuotes = !isInSingleQuotes;
+        else if (char === "\"" && !isInSingleQuotes)
+            isInDoubleQuotes = !isInDoubleQuotes;
+        else if (char === "/" && !isInSingleQuotes && !isInDoubleQuotes)
+            return [unescapeSlashes(word.slice(0, i)), unescapeSlashes(word.slice(i + 1))];
+    }
+
+    return [unescapeSlashes(word), undefined];
+}
+
+/**
+ * Splits the range of a `${name:offset:length}` parameter expression into the offset and the length.
+ *
+ * The colon of a ternary operator in the offset is not considered.
+ *
+ * @param range the text after the first colon
+ * @return the offset, and the length or `undefined` if there is no length
+ */
+function splitSubstringRange(range: string): [string, string | undefined] {
+    let ternaries = 0;
+    for (let i = 0; i < range.length; i++) {
+        if (range[i] === "?") {
+            ternaries++;
+        } else if (range[i] === ":") {
+            if (ternaries === 0)
+                return [range.slice(0, i), range.slice(i + 1)];
+            ternaries--;
+        }
+    }
+
+    return [range, undefined];
+}
+
+/**
+ * Escapes all characters in the given string that have a special meaning in regular expressions.
+ *
+ * @param string the string to escape
+ */
+function escapeRegex(string: string): string {
+    return string.replace(/[-\/\\^$*+?.()|[\]{}]/g, "\\$&");
+}
+
+/**
+ * Removes the escape characters that mark glob characters in the given expanded token, but retains escaped escape
+ * characters.
+ *
+ * @param token the token to remove glob markers from
+ */
+function unmarkGlob(token: string): string {
+    return token.replace(
+        new RegExp(`${InputParser.EscapeChar}([^])`, "g"),
+        (match, char) => char === InputParser.EscapeChar ? match : char
+    );
+}
+
+/**
+ * Removes the quotes and escapes from the given token without expanding anything else in it.
+ *
+ * @param token the token to remove quotes and escapes from
+ */
+function removeQuotes(token: string): string {
+    let result = "";
+    let quote: string | undefined = undefined;
+    for (let i = 0; i < token.length; i++) {
+        const char = token[i];
+        if (char === quote)
+            quote = undefined;
+        else if (quote === undefined && (char === "'" || char === "\""))
+            quote = char;
+        else if (char === "\\" && i + 1 < token.length && quote !== "'"
+            && (quote === undefined || "$`\"\\".includes(token[i + 1])))
+            result += token[++i];
+        else
+            result += char;
+    }
+
+    return result;
 }
 
 /**
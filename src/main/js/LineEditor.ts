@@ -0,0 +1,408 @@
+import {InputHistory} from "./InputHistory";
+import {extractWordAfter, extractWordBefore} from "./Shared";
+
+
+/**
+ * Edits the line that the user is typing in response to readline-style key bindings.
+ *
+ * Keys pressed together with `Ctrl` or `Alt` move the caret, kill text, and yank killed text back from a kill ring. If
+ * vi mode is enabled, pressing `Escape` switches to command mode, in which single keys move the caret and edit the
+ * line, until a key such as `i` switches back to insert mode.
+ */
+export class LineEditor {
+    /**
+     * The history that is navigated through in vi command mode.
+     */
+    private readonly inputHistory: InputHistory;
+    /**
+     * The texts that have been killed, starting with the most recently killed text.
+     */
+    private readonly killRing: string[] = [];
+    /**
+     * The index in the kill ring of the text that was yanked most recently.
+     */
+    private yankIndex: number = 0;
+    /**
+     * The range of the line that was inserted by the previous key if that key yanked text, or `undefined` otherwise.
+     */
+    private lastYank: { start: number, end: number } | undefined = undefined;
+    /**
+     * `true` if and only if vi mode is in command mode rather than in insert mode.
+     */
+    private _isViCommandMode: boolean = false;
+    /**
+     * The vi operator that waits for a motion, or `undefined` if there is no such operator.
+     */
+    private pendingOperator: string | undefined = undefined;
+    /**
+     * `true` if and only if the line that is currently being edited is hidden from the user, in which case text that is
+     * killed from it is not added to the kill ring, so that it cannot be yanked into a visible line later.
+     */
+    private isLineHidden: boolean = false;
+
+
+    /**
+     * Constructs a new line editor.
+     *
+     * @param inputHistory the history that is navigated through in vi command mode
+     */
+    constructor(inputHistory: InputHistory) {
+        this.inputHistory = inputHistory;
+    }
+
+
+    /**
+     * Returns `true` if and only if vi mode is in command mode rather than in insert mode.
+     */
+    get isViCommandMode(): boolean {
+        return this._isViCommandMode;
+    }
+
+
+    /**
+     * Returns the line that results from pressing the given key in the given line, or `undefined` if the key is not
+     * bound to an editing command and should be handled as usual.
+     *
+     * @param line the line in which the key is pressed
+     * @param key the key that is pressed
+     * @param isViMode `true` if and only if vi mode is enabled
+     * @param isHidden `true` if and only if the line is hidden from the user, such as when typing a password
+     */
+    edit(line: LineEditor.Line, key: LineEditor.Key, isViMode: boolean = false,
+         isHidden: boolean = false): LineEditor.Line | undefined {
+        if (["Alt", "AltGraph", "Control", "Meta", "OS", "Shift"].includes(key.key))
+            return undefined;
+
+        this.isLineHidden = isHidden;
+
+        const lastYank = this.lastYank;
+        this.lastYank = undefined;
+        if (!isViMode)
+            this.reset();
+
+        if (key.ctrlKey && !key.altKey)
+            return this.editControl(line, key.key.toLowerCase());
+        if (key.altKey && !key.ctrlKey)
+            return this.editAlt(line, key.code, lastYank);
+        if (!isViMode || key.metaKey)
+            return undefined;
+
+        return this._isViCommandMode ? this.editViCommand(line, key.key) : this.editViInsert(line, key.key);
+    }
+
+    /**
+     * Prepares for editing a new line by switching to vi insert mode and forgetting pending operators and yanks.
+     *
+     * The kill ring is retained.
+     */
+    reset(): void {
+        this.lastYank = undefined;
+        this._isViCommandMode = false;
+        this.pendingOperator = undefined;
+    }
+
+
+    /**
+     * Returns the line that results from pressing `Ctrl` and the given key, or `undefined` if the combination is not
+     * bound to an editing command.
+     *
+     * @param line the line in which the key is pressed
+     * @param key the lowercase name of the key that is pressed together with `Ctrl`
+     */
+    private editControl(line: LineEditor.Line, key: string): LineEditor.Line | undefined {
+        const {text, offset} = line;
+
+        switch (key) {
+            case "a":
+                return {text: text, offset: 0};
+            case "e":
+                return {text: text, offset: text.length};
+            case "u":
+                return this.kill(line, 0, offset);
+            case "k":
+                return this.kill(line, offset, text.length);
+            case "w":
+            case "backspace":
+                return this.kill(line, extractWordBefore(text, offset)[0].length, offset);
+            case "y":
+                return this.yank(line, offset);
+            case "t":
+                return transpose(line);
+            case "d":
+                return text === "" ? undefined : {text: text.slice(0, offset) + text.slice(offset + 1), offset: offset};
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Returns the line that results from pressing `Alt` and the given key, or `undefined` if the combination is not
+     * bound to an editing command.
+     *
+     * @param line the line in which the key is pressed
+     * @param code the physical key that is pressed together with `Alt`, which does not depend on the keyboard layout
+     * @param lastYank the range that was inserted by the previous key if that key yanked text
+     */
+    private editAlt(line: LineEditor.Line, code: string,
+                    lastYank: { start: number, end: number } | undefined): LineEditor.Line | undefined {
+        const {text, offset} = line;
+        const [left, word] = extractWordAfter(text, offset);
+
+        switch (code) {
+            case "KeyB":
+                return {text: text, offset: extractWordBefore(text, offset)[0].length};
+            case "KeyF":
+                return {text: text, offset: left.length + word.length};
+            case "KeyD":
+                return this.kill(line, offset, left.length + word.length);
+            case "Backspace":
+                return this.kill(line, extractWordBefore(text, offset)[0].length, offset);
+            case "KeyY":
+                if (lastYank === undefined)
+                    return line;
+
+                this.yankIndex = (this.yankIndex + 1) % this.killRing.length;
+                return this.insertYank(line, lastYank.start, lastYank.end);
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Returns the line that results from pressing the given key in vi insert mode, or `undefined` if the key should be
+     * handled as usual.
+     *
+     * @param line the line in which the key is pressed
+     * @param key the name of the key that is pressed
+     */
+    private editViInsert(line: LineEditor.Line, key: string): LineEditor.Line | undefined {
+        if (key !== "Escape")
+            return undefined;
+
+        this._isViCommandMode = true;
+        return {text: line.text, offset: Math.max(line.offset - 1, 0)};
+    }
+
+    /**
+     * Returns the line that results from pressing the given key in vi command mode, or `undefined` if the key should be
+     * handled as usual.
+     *
+     * Characters that are not bound to a command are ignored rather than inserted.
+     *
+     * @param line the line in which the key is pressed
+     * @param key the name of the key that is pressed
+     */
+    private editViCommand(line: LineEditor.Line, key: string): LineEditor.Line | undefined {
+        const {text, offset} = line;
+
+        if (this.pendingOperator !== undefined) {
+            const operator = this.pendingOperator;
+            this.pendingOperator = undefined;
+            return this.applyViOperator(line, operator, key);
+        }
+
+        switch (key) {
+            case "i":
+                return this.enterViInsertMode(text, offset);
+            case "a":
+                return this.enterViInsertMode(text, Math.min(offset + 1, text.length));
+            case "I":
+                return this.enterViInsertMode(text, 0);
+            case "A":
+                return this.enterViInsertMode(text, text.length);
+            case "x":
+                return this.kill(line, offset, Math.min(offset + 1, text.length));
+            case "X":
+                return this.kill(line, Math.max(offset - 1, 0), offset);
+            case "D":
+                return this.kill(line, offset, text.length);
+            case "C": {
+                const killed = this.kill(line, offset, text.length);
+                return this.enterViInsertMode(killed.text, killed.offset);
+            }
+            case "p":
+            case "P": {
+                const yanked = this.yank(line, key === "p" ? Math.min(offset + 1, text.length) : offset);
+                return {text: yanked.text, offset: Math.max(yanked.offset - 1, 0)};
+            }
+            case "k":
+                return {text: this.inputHistory.previous(), offset: 0};
+            case "j":
+                return {text: this.inputHistory.next(), offset: 0};
+            case "c":
+            case "d":
+            case "y":
+                this.pendingOperator = key;
+                return line;
+        }
+
+        const target = findViMotion(line, key);
+        if (target !== undefined)
+            return {text: text, offset: target};
+
+        return key.length === 1 ? line : undefined;
+    }
+
+    /**
+     * Returns the line that results from applying the given vi operator to the range between the caret and the target
+     * of the given motion.
+     *
+     * Pressing the key of the operator again applies the operator to the whole line.
+     *
+     * @param line the line to apply the operator to
+     * @param operator `c` to change, `d` to delete, or `y` to yank the range
+     * @param key the key that describes the motion
+     */
+    private applyViOperator(line: LineEditor.Line, operator: string, key: string): LineEditor.Line {
+        let start: number;
+        let end: number;
+        if (key === operator) {
+            start = 0;
+            end = line.text.length;
+        } else {
+            const target = findViMotion(line, key);
+            if (target === undefined)
+                return line;
+
+            start = Math.min(line.offset, target);
+            end = Math.min(Math.max(line.offset, target) + (key === "e" ? 1 : 0), line.text.length);
+        }
+
+        switch (operator) {
+            case "c": {
+                const killed = this.kill(line, start, end);
+                return this.enterViInsertMode(killed.text, killed.offset);
+            }
+            case "d":
+                return this.kill(line, start, end);
+            default:
+                this.addKill(line.text.slice(start, end));
+                return {text: line.text, offset: start};
+        }
+    }
+
+    /**
+     * Switches to vi insert mode and returns the given text with the caret at the given offset.
+     *
+     * @param text the text of the line
+     * @param offset the offset of the caret
+     */
+    private enterViInsertMode(text: string, offset: number): LineEditor.Line {
+        this._isViCommandMode = false;
+        return {text: text, offset: offset};
+    }
+
+    /**
+     * Removes the given range from the line, adds the removed text to the kill ring, and returns the resulting line.
+     *
+     * @param line the line to remove the range from
+     * @param start the offset at which the range starts
+     * @param end the offset at which the range ends
+     */
+    private kill(line: LineEditor.Line, start: number, end: number): LineEditor.Line {
+        this.addKill(line.text.slice(start, end));
+        return {text: line.text.slice(0, start) + line.text.slice(end), offset: start};
+    }
+
+    /**
+     * Adds the given text to the front of the kill ring, unless it is empty or the line it was killed from is hidden.
+     *
+     * @param text the text to add to the kill ring
+     */
+    private addKill(text: string): void {
+        if (text !== "" && !this.isLineHidden)
+            this.killRing.unshift(text);
+    }
+
+    /**
+     * Inserts the most recently killed text at the given offset and returns the resulting line.
+     *
+     * @param line the line to insert the text into
+     * @param offset the offset at which to insert the text
+     */
+    private yank(line: LineEditor.Line, offset: number): LineEditor.Line {
+        if (this.killRing.length === 0)
+            return line;
+
+        this.yankIndex = 0;
+        return this.insertYank(line, offset, offset);
+    }
+
+    /**
+     * Replaces the given range with the currently selected text in the kill ring and returns the resulting line.
+     *
+     * @param line the line to insert the text into
+     * @param start the offset at which the range to replace starts
+     * @param end the offset at which the range to replace ends
+     */
+    private insertYank(line: LineEditor.Line, start: number, end: number): LineEditor.Line {
+        const text = this.killRing[this.yankIndex];
+
+        this.lastYank = {start: start, end: start + text.length};
+        return {text: line.text.slice(0, start) + text + line.text.slice(end), offset: start + text.length};
+    }
+}
+
+
+export module LineEditor {
+    /**
+     * A line that is being edited, where `offset` is the position of the caret in the `text`.
+     */
+    export type Line = { text: string, offset: number };
+
+    /**
+     * A key that is pressed, described in the same way as by a `KeyboardEvent`.
+     */
+    export type Key = { key: string, code: string, ctrlKey: boolean, altKey: boolean, metaKey: boolean };
+}
+
+
+/**
+ * Swaps the character before the caret with the character after the caret, or swaps the two characters before the
+ * caret if the caret is at the end of the line, and moves the caret past the swapped characters.
+ *
+ * @param line the line to transpose characters in
+ */
+function transpose(line: LineEditor.Line): LineEditor.Line {
+    const {text, offset} = line;
+    if (text.length < 2 || offset === 0)
+        return line;
+
+    const end = Math.min(offset + 1, text.length);
+    return {text: text.slice(0, end - 2) + text[end - 1] + text[end - 2] + text.slice(end), offset: end};
+}
+
+/**
+ * Returns the offset that the given vi motion moves the caret to, or `undefined` if the key is not a motion.
+ *
+ * @param line the line in which the caret is moved
+ * @param key the key that describes the motion
+ */
+function findViMotion(line: LineEditor.Line, key: string): number | undefined {
+    const {text, offset} = line;
+
+    switch (key) {
+        case "h":
+        case "Backspace":
+            return Math.max(offset - 1, 0);
+        case "l":
+        case " ":
+            return Math.min(offset + 1, text.length);
+        case "0":
+            return 0;
+        case "^":
+            return text.search(/[^ ]|$/);
+        case "$":
+            return text.length;
+        case "w":
+            return offset + text.slice(offset).match(/^[^ /]*[ /]*/)![0].length;
+        case "b":
+            return extractWordBefore(text, offset)[0].length;
+        case "e": {
+            const [left, word] = extractWordAfter(text, Math.min(offset + 1, text.length));
+            return Math.max(left.length + word.length - 1, offset);
+        }
+        default:
+            return undefined;
+    }
+}
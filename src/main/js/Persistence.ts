@@ -1,5 +1,6 @@
 import Cookies from "js-cookie";
 
+import {AliasTable} from "./AliasTable";
 import {Environment} from "./Environment";
 import {Directory, FileSystem, Node} from "./FileSystem";
 import {InputHistory} from "./InputHistory";
@@ -14,6 +15,7 @@ export class Persistence {
      * Removes all persistent storage.
      */
     static reset(): void {
+        localStorage.removeItem("//aliases");
         localStorage.removeItem("//files");
         localStorage.removeItem("//history");
         localStorage.removeItem("//version");
@@ -27,6 +29,41 @@ export class Persistence {
     /// Long-term storage
     ///
 
+    /**
+     * Deserializes the aliases of the given user from persistent storage, or returns an empty set of aliases if the
+     * deserialization failed.
+     *
+     * @param user the name of the user whose aliases to return
+     * @return the deserialized aliases of the given user from persistent storage
+     */
+    static getAliases(user: string): AliasTable {
+        try {
+            return new AliasTable(JSON.parse(localStorage.getItem("//aliases") ?? "{}")[user] ?? {});
+        } catch (error) {
+            console.warn("Failed to deserialize 'aliases' storage.", error);
+            return new AliasTable();
+        }
+    }
+
+    /**
+     * Persists the given aliases as the aliases of the given user.
+     *
+     * @param user the name of the user whose aliases to persist
+     * @param aliases the aliases to persist
+     */
+    static setAliases(user: string, aliases: AliasTable): void {
+        let allAliases: { [user: string]: { [name: string]: string } };
+        try {
+            allAliases = JSON.parse(localStorage.getItem("//aliases") ?? "{}");
+        } catch (error) {
+            console.warn("Failed to deserialize 'aliases' storage.", error);
+            allAliases = {};
+        }
+
+        allAliases[user] = aliases.aliases;
+        localStorage.setItem("//aliases", JSON.stringify(allAliases));
+    }
+
     /**
      * Returns true if and only if a file system is stored in the persistent storage.
      *
@@ -71,11 +108,14 @@ export class Persistence {
     /**
      * Deserializes a history from persistent storage, or returns the default history if the deserialization failed.
      *
+     * Entries that were stored as plain strings are converted to entries without a timestamp and status.
+     *
      * @return the deserialized history from persistent storage
      */
     static getHistory(): InputHistory {
         try {
-            return new InputHistory(JSON.parse(localStorage.getItem("//history") ?? "[]"));
+            const entries: (string | InputHistory.Entry)[] = JSON.parse(localStorage.getItem("//history") ?? "[]");
+            return new InputHistory(entries.map(it => typeof it === "string" ? {input: it} : it));
         } catch (error) {
             console.warn("Failed to deserialize 'history' storage.", error);
             return new InputHistory();
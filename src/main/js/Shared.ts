@@ -60,6 +60,53 @@ export function extractWordBefore(input: string, offset: number, delimiters: str
     return [leftPlusWord.slice(0, wordStart + 1), leftPlusWord.slice(wordStart + 1, leftPlusWord.length), right];
 }
 
+/**
+ * Given an input string, finds the word that starts at the indicated offset, and returns the string before the word,
+ * the word itself, and the string after the word.
+ *
+ * The word is followed by a whitespace or forward slash, and starts at the indicated offset. Whitespace and forward
+ * slashes at the start of the word are included in the word.
+ *
+ * @param input the input string to find the word in
+ * @param offset the left-most position of the word
+ * @param delimiters the delimiters to consider
+ * @return the string before the word, the word itself, and the string after the word
+ */
+export function extractWordAfter(input: string, offset: number, delimiters: string = " /"): [string, string, string] {
+    const wordPlusRight = input.slice(offset);
+
+    let wordEnd = 0;
+    while (wordEnd < wordPlusRight.length && delimiters.includes(wordPlusRight[wordEnd]))
+        wordEnd++;
+    while (wordEnd < wordPlusRight.length && !delimiters.includes(wordPlusRight[wordEnd]))
+        wordEnd++;
+
+    return [input.slice(0, offset), wordPlusRight.slice(0, wordEnd), wordPlusRight.slice(wordEnd)];
+}
+
+/**
+ * Returns the given number of bytes in a human-readable form, such as `512`, `1.5K`, or `12M`.
+ *
+ * Sizes of at least 1024 bytes are rounded up to one decimal if they are less than 10 units, and to a whole number
+ * otherwise.
+ *
+ * @param bytes the number of bytes to format
+ */
+export function formatSize(bytes: number): string {
+    const units = ["K", "M", "G", "T"];
+    if (bytes < 1024)
+        return `${bytes}`;
+
+    let size = bytes / 1024;
+    let unit = 0;
+    while (size >= 1024 && unit < units.length - 1) {
+        size /= 1024;
+        unit++;
+    }
+
+    return size < 10 ? `${(Math.ceil(size * 10) / 10).toFixed(1)}${units[unit]}` : `${Math.ceil(size)}${units[unit]}`;
+}
+
 /**
  * Returns the extension of the given filename, or `""` if it doesn't have one.
  *
@@ -78,7 +125,25 @@ export function isStandalone(): boolean {
 }
 
 /**
- * Moves the caret to the given position in the given node.
+ * Returns the position of the caret in the text of the given node, or `undefined` if the caret is not in the node.
+ *
+ * @param node the node to find the caret in
+ */
+export function getCaretOffset(node: Node): number | undefined {
+    const selection = window.getSelection();
+    if (selection === null || selection.anchorNode === null || !node.contains(selection.anchorNode))
+        return undefined;
+
+    const range = document.createRange();
+    range.selectNodeContents(node);
+    range.setEnd(selection.anchorNode, selection.anchorOffset);
+    return range.toString().length;
+}
+
+/**
+ * Moves the caret to the given position in the text of the given node.
+ *
+ * If the node has child nodes, the caret is placed in the descendant text node that contains the given position.
  *
  * @param node the node to move the caret in; if `null`, nothing happens
  * @param position the position from the left to place the caret at
@@ -87,6 +152,25 @@ export function moveCaretTo(node: Node | null, position: number): void {
     if (node === null)
         return;
 
+    while (node.hasChildNodes()) {
+        let child: Node | undefined = undefined;
+        for (const it of Array.from(node.childNodes)) {
+            const length = (it.textContent ?? "").length;
+            if (position <= length) {
+                child = it;
+                break;
+            }
+
+            position -= length;
+        }
+
+        if (child === undefined) {
+            position = node.childNodes.length;
+            break;
+        }
+        node = child;
+    }
+
     const range = document.createRange();
     range.setStart(node, position);
 
@@ -157,6 +241,61 @@ export class IllegalArgumentError extends Error {
     }
 }
 
+/**
+ * Indicates that the input given by the user is valid so far, but that more input is required to complete it.
+ *
+ * For example, this error is thrown when a here-document has been opened but its delimiter has not been given yet.
+ */
+export class IncompleteInputError extends IllegalArgumentError {
+    /**
+     * `true` if and only if the input ends inside the body of a here-document.
+     */
+    readonly isInHereDocument: boolean;
+
+
+    /**
+     * Constructs a new incomplete input error.
+     *
+     * @param message a message explaining what input is missing
+     * @param isInHereDocument `true` if and only if the input ends inside the body of a here-document
+     */
+    constructor(message: string, isInHereDocument: boolean = false) {
+        super(message);
+
+        this.isInHereDocument = isInHereDocument;
+    }
+}
+
+/**
+ * Indicates that the input given by the user is not syntactically valid, and describes where in the input the problem
+ * is.
+ */
+export class ParseError extends IllegalArgumentError {
+    /**
+     * The line in the input at which the problem is, starting at 1.
+     */
+    readonly line: number;
+    /**
+     * The column in the line at which the problem is, starting at 1.
+     */
+    readonly column: number;
+
+
+    /**
+     * Constructs a new parse error.
+     *
+     * @param message a message explaining why the input is not syntactically valid
+     * @param line the line in the input at which the problem is, starting at 1
+     * @param column the column in the line at which the problem is, starting at 1
+     */
+    constructor(message: string, line: number, column: number) {
+        super(message);
+
+        this.line = line;
+        this.column = column;
+    }
+}
+
 /**
  * Indicates that the program has ended up in a state that it should never end up in.
  *
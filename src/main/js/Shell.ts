@@ -1,12 +1,24 @@
-import {Commands, ExitCode} from "./Commands";
+import {AliasTable} from "./AliasTable";
+import {Command, Commands, ExitCode} from "./Commands";
 import {Environment} from "./Environment";
-import {Directory, FileSystem, Path} from "./FileSystem";
+import {Directory, File, FileSystem, Path} from "./FileSystem";
 import {InputHistory} from "./InputHistory";
-import {Globber, InputParser} from "./InputParser";
+import {InputParser} from "./InputParser";
 import {Persistence} from "./Persistence";
-import {asciiHeaderHtml, ExpectedGoodbyeError, isStandalone} from "./Shared";
+import {
+    asciiHeaderHtml,
+    escapeHtml,
+    ExpectedGoodbyeError,
+    IllegalArgumentError,
+    IncompleteInputError,
+    isStandalone,
+    ParseError
+} from "./Shared";
+import {ShellOptions} from "./ShellOptions";
 import {StreamSet} from "./Stream";
+import {SyntaxHighlighter} from "./SyntaxHighlighter";
 import {EscapeCharacters} from "./Terminal";
+import {TextEditor} from "./TextEditor";
 import {UserList} from "./UserList";
 
 
@@ -34,12 +46,26 @@ export class Shell {
      * The set of commands that can be executed.
      */
     private readonly commands: Commands;
+    /**
+     * The aliases of the current user.
+     */
+    private readonly aliases: AliasTable;
 
     /**
      * The name of the user that the user is currently trying to log in as, or `undefined` if the user is not currently
      * trying to log in.
      */
     private attemptUser: string | undefined;
+    /**
+     * The input that the user has given so far but that requires more input to be complete, or `undefined` if there
+     * is no such input.
+     */
+    private pendingInput: string | undefined;
+    /**
+     * `true` if and only if the pending input ends inside the body of a here-document, so that the next line of input
+     * belongs to that body.
+     */
+    private isInHereDocument: boolean = false;
 
 
     /**
@@ -52,12 +78,21 @@ export class Shell {
         this.fileSystem = Persistence.getFileSystem();
         this.userList = new UserList(this.fileSystem);
         this.environment = Persistence.getEnvironment(this.userList);
-        this.commands = new Commands(this.environment, this.userList, this.fileSystem);
+        this.aliases = Persistence.getAliases(this.environment.get("user"));
+        this.commands = new Commands(this.environment, this.userList, this.fileSystem, this.aliases, this.inputHistory);
 
         this.saveState();
     }
 
 
+    /**
+     * Returns `true` if and only if a user is logged in.
+     */
+    get isLoggedIn(): boolean {
+        return this.environment.get("user") !== "";
+    }
+
+
     /**
      * Returns the header that is displayed when a user logs in.
      */
@@ -88,6 +123,8 @@ export class Shell {
                 ? "login as: "
                 : `Password for ${this.attemptUser}@fwdekker.com: `;
         }
+        if (this.pendingInput !== undefined)
+            return "&gt; ";
 
         const cwd = new Path(this.environment.get("cwd"));
         const home = new Path(this.environment.get("home"));
@@ -119,10 +156,112 @@ export class Shell {
     /**
      * Processes a user's input and returns the associated exit code.
      *
+     * If the input consists of multiple lines, such as when a multi-line entry is recalled from the history, the lines
+     * are processed in turn as if they were given one at a time.
+     *
      * @param streams the standard streams
      */
     execute(streams: StreamSet): void {
-        const inputString = streams.ins.readLine().replace("\n", "");
+        const lines: string[] = [];
+        while (streams.ins.has(1))
+            lines.push(streams.ins.readLine().replace("\n", ""));
+
+        lines.forEach(line => this.executeLine(line, streams));
+    }
+
+    /**
+     * Returns `true` if and only if the shell option with the given name is enabled.
+     *
+     * @param name the name of the option to check
+     * @throws if there is no option with the given name
+     * @see ShellOptions
+     */
+    isOptionEnabled(name: string): boolean {
+        return ShellOptions.isEnabled(this.environment, name);
+    }
+
+    /**
+     * Discards the input that the user has given so far but that requires more input to be complete, if any.
+     */
+    cancelInput(): void {
+        this.pendingInput = undefined;
+        this.isInHereDocument = false;
+    }
+
+    /**
+     * Returns the path to the file that the last input requested to edit, or `undefined` if it did not request an
+     * editor, and clears the request.
+     */
+    takeEditorRequest(): string | undefined {
+        return this.commands.takeEditorRequest();
+    }
+
+    /**
+     * Returns an editor for the file at the given path that saves to the file system.
+     *
+     * If the file does not exist, the editor starts out empty, and the file is created when the editor saves it.
+     *
+     * @param path the absolute path to the file to edit
+     * @see TextEditor
+     */
+    createEditor(path: string): TextEditor {
+        const target = new Path(path);
+        const node = this.fileSystem.get(target);
+
+        return new TextEditor(path, node instanceof File ? node.open("read").read() : "", contents => {
+            this.fileSystem.open(target, "write").write(contents);
+            this.saveState();
+        });
+    }
+
+    /**
+     * Returns the given input as HTML in which the syntax is highlighted.
+     *
+     * Input that cannot be parsed is returned without highlighting.
+     *
+     * @param input the input to highlight
+     * @see SyntaxHighlighter
+     */
+    highlight(input: string): string {
+        if (input.includes(InputParser.EscapeChar))
+            return escapeHtml(input.replace(/&/g, "&amp;"));
+
+        let lists;
+        try {
+            lists = InputParser.create(this.environment, this.fileSystem).parseCommands(input);
+        } catch (error) {
+            return escapeHtml(input.replace(/&/g, "&amp;"));
+        }
+
+        return new SyntaxHighlighter(name => {
+            if (this.aliases.has(name))
+                return true;
+
+            const target = this.commands.resolve(name);
+            return target !== undefined && !(target instanceof Directory) && !(target instanceof Error);
+        }).highlight(input, lists);
+    }
+
+    /**
+     * Returns the suggestions for completing the given word.
+     *
+     * @param left the input before the word to complete
+     * @param word the word to complete
+     * @return the suggestions for the given word
+     * @see Commands#completeInput
+     */
+    autoComplete(left: string, word: string): Command.Completion[] {
+        return this.commands.completeInput(left, word);
+    }
+
+
+    /**
+     * Processes a single line of the user's input.
+     *
+     * @param inputString the line to process
+     * @param streams the standard streams
+     */
+    private executeLine(inputString: string, streams: StreamSet): void {
         if (inputString === "factory-reset") {
             Persistence.reset();
             location.reload();
@@ -145,6 +284,8 @@ export class Shell {
                     this.environment.set("home", attemptUser.home);
                     this.environment.set("cwd", attemptUser.home);
                     this.environment.set("status", "0");
+                    this.aliases.clear();
+                    this.aliases.load(Persistence.getAliases(attemptUser.name).aliases);
                     streams.out.writeLine(this.generateHeader());
                 } else {
                     streams.out.writeLine("Access denied");
@@ -156,25 +297,57 @@ export class Shell {
             return;
         }
 
-        this.inputHistory.add(inputString);
+        let expandedInput: string;
+        try {
+            expandedInput = this.isInHereDocument ? inputString : this.inputHistory.expand(inputString);
+        } catch (error) {
+            if (!(error instanceof IllegalArgumentError))
+                throw error;
+
+            streams.err.writeLine(`Could not expand history: ${escapeHtml(error.message)}`);
+            this.environment.set("status", "" + ExitCode.USAGE);
+            return;
+        }
+        if (expandedInput !== inputString)
+            streams.out.writeLine(escapeHtml(expandedInput));
+
+        const input = this.pendingInput === undefined ? expandedInput : `${this.pendingInput}\n${expandedInput}`;
+        this.pendingInput = undefined;
+        this.isInHereDocument = false;
 
         let inputs;
         try {
-            inputs = InputParser.create(this.environment, this.fileSystem).parseCommands(inputString);
+            inputs = InputParser.create(this.environment, this.fileSystem).parseCommands(input);
         } catch (error) {
+            if (error instanceof IncompleteInputError) {
+                this.pendingInput = input;
+                this.isInHereDocument = error.isInHereDocument;
+                return;
+            }
             if (!(error instanceof Error))
                 throw Error(`Error while processing parsing error:\n${error}`);
 
+            this.addToHistory(input);
+
             streams.err.writeLine(`Could not parse input: ${error.message}`);
+            if (error instanceof ParseError)
+                streams.err.writeLine(this.generateErrorLocation(input, error));
             this.environment.set("status", "" + ExitCode.USAGE);
+            this.inputHistory.setStatus(ExitCode.USAGE);
             return;
         }
 
-        inputs.forEach(input => {
-            const status = this.commands.execute(input, streams);
+        this.addToHistory(input);
+
+        inputs.forEach(list => {
+            const user = this.environment.get("user");
+            const status = this.commands.executeList(list, streams);
             this.environment.set("status", "" + status);
+            this.inputHistory.setStatus(status);
 
             if (this.environment.get("user") === "") {
+                Persistence.setAliases(user, this.aliases);
+                this.aliases.clear();
                 this.inputHistory.clear();
                 this.environment.clear();
                 this.environment.set("user", "");
@@ -184,18 +357,33 @@ export class Shell {
     }
 
     /**
-     * Tries to auto-complete the given parameter.
+     * Adds the given complete input to the history, and removes the oldest entries if the history exceeds the size
+     * given by the `HISTSIZE` variable.
      *
-     * @param parameter the parameter to complete
-     * @return the suggestions for the given parameter
-     */
-    autoComplete(parameter: string): string[] {
-        const cwd = this.environment.get("cwd");
-        return new Globber(this.fileSystem, cwd)
-            .glob(parameter + InputParser.EscapeChar + "*")
-            .map((it) => this.fileSystem.get(Path.interpret(cwd, it)) instanceof Directory ? it + "/" : it);
+     * @param input the input to add to the history, which may span multiple lines
+     */
+    private addToHistory(input: string): void {
+        this.inputHistory.add(input);
+
+        const historySize = this.environment.getOrDefault("HISTSIZE", "");
+        if (historySize.match(/^[0-9]+$/))
+            this.inputHistory.truncate(parseInt(historySize));
     }
 
+    /**
+     * Returns the line of the input at which the given error occurred, followed by a line that points at the column at
+     * which the error occurred.
+     *
+     * @param input the input that could not be parsed
+     * @param error the error that describes where in the input the problem is
+     */
+    private generateErrorLocation(input: string, error: ParseError): string {
+        const line = input.split("\n")[error.line - 1] ?? "";
+        const padding = line.slice(0, error.column - 1).replace(/[^\t]/g, " ");
+
+        const prefix = input.includes("\n") ? `${error.line}: ` : "";
+        return `${escapeHtml(prefix + line)}\n${" ".repeat(prefix.length)}${padding}^`;
+    }
 
     /**
      * Persists the shell's state.
@@ -206,5 +394,7 @@ export class Shell {
         Persistence.setHistory(this.inputHistory);
         Persistence.setEnvironment(this.environment);
         Persistence.setFileSystem(this.fileSystem);
+        if (this.environment.get("user") !== "")
+            Persistence.setAliases(this.environment.get("user"), this.aliases);
     }
 }
@@ -0,0 +1,62 @@
+import {Environment} from "./Environment";
+import {IllegalArgumentError} from "./Shared";
+
+
+/**
+ * Manages the options that change the behavior of the shell.
+ *
+ * Each option is stored as an environment variable of the same name with the value `on` or `off`. If that variable is
+ * not set, the option has its default value.
+ */
+export class ShellOptions {
+    /**
+     * The names of the available options, and whether each option is enabled by default.
+     */
+    static readonly defaults: { [name: string]: boolean } = {
+        "extglob": false,
+        "failglob": true,
+        "globstar": false,
+        "noclobber": false,
+        "nullglob": false,
+        "vi": false,
+    };
+
+
+    /**
+     * Returns `true` if and only if there is an option with the given name.
+     *
+     * @param name the name of the option to check
+     */
+    static has(name: string): boolean {
+        return ShellOptions.defaults.hasOwnProperty(name);
+    }
+
+    /**
+     * Returns `true` if and only if the option with the given name is enabled in the given environment.
+     *
+     * @param environment the environment in which the option is stored
+     * @param name the name of the option to check
+     * @throws if there is no option with the given name
+     */
+    static isEnabled(environment: Environment, name: string): boolean {
+        if (!ShellOptions.has(name))
+            throw new IllegalArgumentError(`Unknown shell option '${name}'.`);
+
+        return environment.getOrDefault(name, ShellOptions.defaults[name] ? "on" : "off") === "on";
+    }
+
+    /**
+     * Enables or disables the option with the given name in the given environment.
+     *
+     * @param environment the environment in which to store the option
+     * @param name the name of the option to enable or disable
+     * @param isEnabled `true` if and only if the option should be enabled
+     * @throws if there is no option with the given name
+     */
+    static set(environment: Environment, name: string, isEnabled: boolean): void {
+        if (!ShellOptions.has(name))
+            throw new IllegalArgumentError(`Unknown shell option '${name}'.`);
+
+        environment.set(name, isEnabled ? "on" : "off");
+    }
+}
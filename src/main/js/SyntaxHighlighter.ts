@@ -0,0 +1,198 @@
+import {InputParser} from "./InputParser";
+import {escapeHtml} from "./Shared";
+
+
+/**
+ * Highlights the syntax of input strings by wrapping the parts of the input in HTML elements with a class that
+ * describes the role of that part.
+ *
+ * <ul>
+ *     <li>`syntax-command` is the name of a command that exists</li>
+ *     <li>`syntax-unknown-command` is the name of a command that does not exist</li>
+ *     <li>`syntax-option` is an argument that starts with a dash</li>
+ *     <li>`syntax-string` is a single-quoted or double-quoted string</li>
+ *     <li>`syntax-variable` is a reference to a variable or parameter</li>
+ *     <li>`syntax-redirect` is a redirect including its target</li>
+ * </ul>
+ */
+export class SyntaxHighlighter {
+    /**
+     * Returns `true` if and only if the given name refers to a command that can be executed.
+     */
+    private readonly isCommand: (name: string) => boolean;
+
+
+    /**
+     * Constructs a new syntax highlighter.
+     *
+     * @param isCommand returns `true` if and only if the given name refers to a command that can be executed
+     */
+    constructor(isCommand: (name: string) => boolean) {
+        this.isCommand = isCommand;
+    }
+
+
+    /**
+     * Returns the given input as HTML in which the syntax is highlighted.
+     *
+     * @param input the input to highlight
+     * @param lists the syntax tree of the input, as returned by `InputParser#parseCommands`
+     */
+    highlight(input: string, lists: InputParser.AndOrList[]): string {
+        return render(input, 0, input.length, this.highlightLists(input, lists));
+    }
+
+
+    /**
+     * Returns the highlights of the commands in the given and-or lists.
+     *
+     * @param input the input that the lists were parsed from
+     * @param lists the lists to highlight
+     */
+    private highlightLists(input: string, lists: InputParser.AndOrList[]): Highlight[] {
+        return lists
+            .flatMap(list => list.pipelines.flat())
+            .flatMap(command => this.highlightCommand(input, command));
+    }
+
+    /**
+     * Returns the highlights of the given simple or compound command.
+     *
+     * @param input the input that the command was parsed from
+     * @param command the command to highlight
+     */
+    private highlightCommand(input: string, command: InputParser.Command): Highlight[] {
+        switch (command.type) {
+            case "simple":
+                return this.highlightSimpleCommand(command);
+            case "if":
+                return command.branches
+                    .flatMap(it => this.highlightLists(input, it.condition.concat(it.body)))
+                    .concat(this.highlightLists(input, command.otherwise ?? []));
+            case "while":
+                return this.highlightLists(input, command.condition.concat(command.body));
+            case "for":
+                return command.words
+                    .filter(it => input.startsWith(it.text, it.start)) // Skip the words that were not written
+                    .flatMap(it => highlightParts(it.parts))
+                    .concat(this.highlightLists(input, command.body));
+            case "function":
+                return this.highlightLists(input, command.body);
+        }
+    }
+
+    /**
+     * Returns the highlights of the words and redirects of the given simple command.
+     *
+     * @param command the command to highlight
+     */
+    private highlightSimpleCommand(command: InputParser.SimpleCommand): Highlight[] {
+        const [name, ...args] = command.words;
+
+        const highlights: Highlight[] = [];
+        if (name !== undefined)
+            highlights.push(...this.highlightCommandName(name));
+        args.forEach(arg => {
+            if (arg.text.startsWith("-"))
+                highlights.push(createHighlight(arg, "syntax-option", highlightParts(arg.parts)));
+            else
+                highlights.push(...highlightParts(arg.parts));
+        });
+        command.redirects.forEach(redirect => highlights.push({
+            start: redirect.start,
+            end: redirect.target.start + redirect.target.text.length,
+            className: "syntax-redirect",
+            children: highlightParts(redirect.target.parts)
+        }));
+
+        return highlights.sort((a, b) => a.start - b.start);
+    }
+
+    /**
+     * Returns the highlights of the given word that is used as the name of a command.
+     *
+     * The name is only checked for existence if it does not have to be expanded.
+     *
+     * @param name the word that is used as the name of a command
+     */
+    private highlightCommandName(name: InputParser.Word): Highlight[] {
+        if (!name.parts.every(it => it.type === "literal"))
+            return highlightParts(name.parts);
+
+        return [createHighlight(name, this.isCommand(name.text) ? "syntax-command" : "syntax-unknown-command", [])];
+    }
+}
+
+
+/**
+ * A part of the input that should be wrapped in an HTML element with the given class, where `start` is the offset of
+ * the first character in the part, `end` is the offset after the last character, and `children` are the highlights
+ * inside this part.
+ */
+type Highlight = { start: number, end: number, className: string, children: Highlight[] };
+
+/**
+ * Returns a highlight that covers the given word or word part.
+ *
+ * @param part the word or word part to cover
+ * @param className the class to highlight the part with
+ * @param children the highlights inside the part
+ */
+function createHighlight(part: InputParser.Word | InputParser.WordPart, className: string,
+                         children: Highlight[]): Highlight {
+    return {start: part.start, end: part.start + part.text.length, className: className, children: children};
+}
+
+/**
+ * Returns the highlights of the strings and variables in the given word parts.
+ *
+ * @param parts the parts to highlight
+ */
+function highlightParts(parts: InputParser.WordPart[]): Highlight[] {
+    return parts.flatMap(part => {
+        switch (part.type) {
+            case "single-quoted":
+                return [createHighlight(part, "syntax-string", [])];
+            case "double-quoted":
+                return [createHighlight(part, "syntax-string", highlightParts(part.parts))];
+            case "parameter":
+                return [createHighlight(part, "syntax-variable", [])];
+            default:
+                return [];
+        }
+    });
+}
+
+/**
+ * Returns the given range of the input as HTML in which the given highlights have been applied.
+ *
+ * @param input the input to render
+ * @param start the offset at which the range starts
+ * @param end the offset at which the range ends
+ * @param highlights the highlights inside the range, sorted by their offsets
+ */
+function render(input: string, start: number, end: number, highlights: Highlight[]): string {
+    let html = "";
+    let offset = start;
+    highlights
+        .filter(it => it.start >= start && it.end <= end)
+        .forEach(it => {
+            if (it.start < offset)
+                return;
+
+            html += escapeText(input.slice(offset, it.start));
+            html += `<span class="${it.className}">${render(input, it.start, it.end, it.children)}</span>`;
+            offset = it.end;
+        });
+
+    return html + escapeText(input.slice(offset, end));
+}
+
+/**
+ * Escapes the given text so that it is displayed as is in HTML.
+ *
+ * @param text the text to escape
+ */
+function escapeText(text: string): string {
+    return escapeHtml(text.replace(/&/g, "&amp;"));
+}
@@ -1,15 +1,18 @@
 import {InputHistory} from "./InputHistory";
+import {LineEditor} from "./LineEditor";
 import {Persistence} from "./Persistence";
 import {
     escapeHtml,
     extractWordBefore,
     findLongestCommonPrefix,
+    getCaretOffset,
     isStandalone,
     moveCaretTo,
     moveCaretToEndOf
 } from "./Shared";
 import {Shell} from "./Shell";
 import {Buffer, StreamSet} from "./Stream";
+import {TextEditor} from "./TextEditor";
 
 
 /**
@@ -41,10 +44,26 @@ export class Terminal {
      * The history of the user's inputs.
      */
     private readonly inputHistory: InputHistory;
+    /**
+     * The editor that handles the key bindings for editing the input.
+     */
+    private readonly lineEditor: LineEditor;
     /**
      * The shell that handles input.
      */
     private readonly shell: Shell;
+    /**
+     * The state of the incremental search through the history, or `undefined` if the user is not searching.
+     */
+    private historySearch: HistorySearch | undefined = undefined;
+    /**
+     * The editor that has taken over the terminal, or `undefined` if the user is not editing a file.
+     */
+    private editor: TextEditor | undefined = undefined;
+    /**
+     * The output that was displayed before the editor took over the terminal.
+     */
+    private outputBeforeEditor: string = "";
 
     /**
      * The standard input stream.
@@ -95,12 +114,16 @@ export class Terminal {
         this.suggestions = suggestions;
 
         this.inputHistory = Persistence.getHistory();
+        this.lineEditor = new LineEditor(this.inputHistory);
         this.shell = new Shell(this.inputHistory);
 
         this.terminal.addEventListener("click", this.onclick.bind(this));
         this.terminal.addEventListener("keypress", this.onkeypress.bind(this));
         this.terminal.addEventListener("keydown", this.onkeydown.bind(this));
-        this.input.addEventListener("input", () => this.suggestionsText = "");
+        this.input.addEventListener("input", () => {
+            this.suggestionsText = "";
+            this.highlightInput();
+        });
 
         this.outputText += this.shell.generateHeader();
         this.prefixText += this.shell.generatePrefix();
@@ -121,10 +144,24 @@ export class Terminal {
      * @param inputText the text to set as the text of the input HTML element
      */
     private set inputText(inputText: string) {
-        this.input.innerText = inputText;
+        if (this.isInputHidden)
+            this.input.innerText = inputText;
+        else
+            this.input.innerHTML = this.shell.highlight(inputText);
         this.suggestionsText = "";
     }
 
+    /**
+     * Returns the offset of the caret in the input, or the length of the input if the input is not focused.
+     */
+    private get caretOffset(): number {
+        const length = this.inputText.length;
+        if (this.input !== document.activeElement)
+            return length;
+
+        return getCaretOffset(this.input) ?? length;
+    }
+
     /**
      * Returns the terminal output that is being displayed.
      */
@@ -186,14 +223,37 @@ export class Terminal {
     }
 
 
+    /**
+     * Highlights the syntax of the input the user has entered, without moving the caret.
+     */
+    private highlightInput(): void {
+        if (this.isInputHidden)
+            return;
+
+        const offset = getCaretOffset(this.input);
+        this.input.innerHTML = this.shell.highlight(this.inputText);
+        if (offset !== undefined)
+            moveCaretTo(this.input, offset);
+    }
+
     /**
      * Moves to the next input line without processing the current input line.
      */
     private ignoreInput(): void {
         this.outputText += `${this.prefixText}${escapeHtml(this.inputText)}\n`;
+        this.shell.cancelInput();
         this.prefixText = this.shell.generatePrefix();
         this.inputText = "";
         this.inputHistory.resetIndex();
+        this.resetLineEditor();
+    }
+
+    /**
+     * Prepares the line editor for editing a new line.
+     */
+    private resetLineEditor(): void {
+        this.lineEditor.reset();
+        this.input.classList.remove("terminal-input-field-vi-command");
     }
 
     /**
@@ -203,6 +263,7 @@ export class Terminal {
      */
     processInput(input: string): void {
         this.inputText = "";
+        this.resetLineEditor();
         this.outputText += `${this.prefixText}${this.isInputHidden ? "" : escapeHtml(input)}\n`;
 
         this.standardInput.writeLine(input);
@@ -240,6 +301,44 @@ export class Terminal {
 
         this.prefixText = this.shell.generatePrefix();
         this.input.scrollIntoView({behavior: "smooth"});
+
+        const editPath = this.shell.takeEditorRequest();
+        if (editPath !== undefined)
+            this.openEditor(editPath);
+    }
+
+    /**
+     * Lets an editor for the file at the given path take over the output and the key handling of the terminal.
+     *
+     * @param path the absolute path to the file to edit
+     */
+    private openEditor(path: string): void {
+        this.editor = this.shell.createEditor(path);
+        this.outputBeforeEditor = this.outputText;
+        this.terminal.classList.add("terminal-editing");
+        this.input.blur();
+
+        this.renderEditor();
+    }
+
+    /**
+     * Displays the file that is being edited in the output.
+     */
+    private renderEditor(): void {
+        this.outputText = this.editor!.render();
+        this.output.querySelector(".editor-cursor")?.scrollIntoView({block: "nearest"});
+    }
+
+    /**
+     * Closes the editor and restores the output that was displayed before the editor took over the terminal.
+     */
+    private closeEditor(): void {
+        this.editor = undefined;
+        this.outputText = this.outputBeforeEditor;
+        this.terminal.classList.remove("terminal-editing");
+
+        this.input.focus();
+        this.input.scrollIntoView({behavior: "smooth"});
     }
 
 
@@ -247,6 +346,10 @@ export class Terminal {
      * Handles click events of the document.
      */
     private onclick(event: MouseEvent): void {
+        // Do not focus on input if user is editing a file
+        if (this.editor !== undefined)
+            return;
+
         // Do not focus on input if user clicked a link
         const target = event.target;
         if (target instanceof HTMLElement && target.nodeName.toLowerCase() === "a")
@@ -262,7 +365,7 @@ export class Terminal {
 
         this.input.focus();
         if (target !== this.prefixDiv) // `focus` moved to start; move to end unless prefix was clicked
-            setTimeout(() => moveCaretToEndOf(this.input.firstChild), 0);
+            setTimeout(() => moveCaretToEndOf(this.input), 0);
     }
 
     /**
@@ -271,13 +374,14 @@ export class Terminal {
      * @param event the event to handle
      */
     private onkeypress(event: KeyboardEvent): void {
+        if (this.editor !== undefined)
+            return;
+
         // If user types anywhere, move caret to end of input, unless user was already focused on input
         if (this.input !== document.activeElement) {
             this.inputText += event.key; // Append to input because event was not executed on input
 
-            const inputChild = this.input.firstChild;
-            if (inputChild !== null)
-                setTimeout(() => moveCaretToEndOf(inputChild), 0);
+            setTimeout(() => moveCaretToEndOf(this.input), 0);
         }
 
         switch (event.key.toLowerCase()) {
@@ -294,6 +398,34 @@ export class Terminal {
      * @param event the event to handle
      */
     private onkeydown(event: KeyboardEvent): void {
+        if (this.editor !== undefined) {
+            this.onEditorKeyDown(event);
+            return;
+        }
+        if (this.historySearch !== undefined && this.onHistorySearchKeyDown(event))
+            return;
+
+        if (this.input === document.activeElement) {
+            const isViMode = this.shell.isOptionEnabled("vi") && !this.isInputHidden;
+            const line = this.lineEditor.edit(
+                {text: this.inputText, offset: this.caretOffset},
+                event,
+                isViMode,
+                this.isInputHidden
+            );
+            this.input.classList.toggle("terminal-input-field-vi-command", this.lineEditor.isViCommandMode);
+
+            if (line !== undefined) {
+                if (line.text !== this.inputText)
+                    this.inputText = line.text;
+                window.setTimeout(() => moveCaretTo(this.input, line.offset), 0);
+
+                event.preventDefault();
+                this.input.scrollIntoView({behavior: "smooth"});
+                return;
+            }
+        }
+
         switch (event.key.toLowerCase()) {
             case "alt":
             case "altgraph":
@@ -307,9 +439,7 @@ export class Terminal {
                 // Display previous entry from history
                 this.inputText = this.inputHistory.previous();
 
-                const inputChild = this.input.firstChild;
-                if (inputChild !== null)
-                    setTimeout(() => moveCaretToEndOf(inputChild), 0);
+                setTimeout(() => moveCaretToEndOf(this.input), 0);
 
                 event.preventDefault();
                 break;
@@ -318,9 +448,7 @@ export class Terminal {
                 // Display next entry in history
                 this.inputText = this.inputHistory.next();
 
-                const inputChild = this.input.firstChild;
-                if (inputChild !== null)
-                    setTimeout(() => moveCaretToEndOf(inputChild), 0);
+                setTimeout(() => moveCaretToEndOf(this.input), 0);
 
                 event.preventDefault();
                 break;
@@ -357,29 +485,162 @@ export class Terminal {
                         event.preventDefault();
                 }
                 break;
-            case "w":
-            case "backspace":
-                this.suggestionsText = "";
-
-                // Remove word before caret
-                if (event.ctrlKey) {
-                    let offset = this.inputText.length;
-                    if (this.input === document.activeElement)
-                        offset = document.getSelection()?.anchorOffset ?? offset;
-
-                    const [newLeft, word, right] = extractWordBefore(this.inputText, offset);
-                    this.inputText = newLeft + right;
-                    window.setTimeout(() => moveCaretTo(this.input.firstChild, offset - word.length), 0);
+            case "d":
+                // Log out if the input is empty
+                if (event.ctrlKey && this.inputText === "" && this.shell.isLoggedIn) {
+                    this.processInput("exit");
+                    event.preventDefault();
+                }
+                break;
+            case "r":
+            case "s":
+                // Search backwards or forwards through history
+                if (event.ctrlKey && !this.isInputHidden) {
+                    this.historySearch = {
+                        query: "",
+                        index: -1,
+                        isReverse: event.key.toLowerCase() === "r",
+                        isFailed: false,
+                        originalInput: this.inputText
+                    };
+                    this.renderHistorySearch();
 
                     event.preventDefault();
                 }
                 break;
+            case "backspace":
+                this.suggestionsText = "";
+                break;
         }
 
         this.input.scrollIntoView({behavior: "smooth"});
     }
 
 
+    /**
+     * Handles key down events while the user is editing a file.
+     *
+     * @param event the event to handle
+     * @see TextEditor
+     */
+    private onEditorKeyDown(event: KeyboardEvent): void {
+        const editor = this.editor!;
+        if (!editor.handleKey(event))
+            return;
+
+        event.preventDefault();
+        if (editor.isClosed)
+            this.closeEditor();
+        else
+            this.renderEditor();
+    }
+
+    /**
+     * Handles key down events while the user is searching through the history.
+     *
+     * Typed characters are added to the query, `Ctrl+R` and `Ctrl+S` move to the next older or newer match, `Enter`
+     * executes the match, `Escape` places the match in the input, and `Ctrl+G` restores the original input. Any other
+     * key places the match in the input and is then handled as usual.
+     *
+     * @param event the event to handle
+     * @return `true` if and only if the event should not be handled any further
+     */
+    private onHistorySearchKeyDown(event: KeyboardEvent): boolean {
+        const search = this.historySearch!;
+        const key = event.key.toLowerCase();
+        const first = search.isReverse ? 0 : this.inputHistory.entries.length - 1;
+
+        if (["alt", "altgraph", "control", "meta", "os", "shift"].includes(key))
+            return true;
+
+        if (event.ctrlKey && (key === "r" || key === "s")) {
+            search.isReverse = key === "r";
+            this.findHistoryMatch(search.index + (search.isReverse ? 1 : -1));
+        } else if (event.ctrlKey && key === "g") {
+            this.endHistorySearch(false);
+        } else if (event.ctrlKey && key === "c") {
+            this.endHistorySearch(false);
+            return false;
+        } else if (key === "backspace" && !event.ctrlKey) {
+            search.query = search.query.slice(0, -1);
+            search.index = -1;
+            this.findHistoryMatch(first);
+        } else if (key === "escape") {
+            this.endHistorySearch(true);
+        } else if (key === "enter") {
+            this.endHistorySearch(true);
+            return true; // Let `onkeypress` process the input
+        } else if (event.key.length === 1 && !event.ctrlKey && !event.altKey && !event.metaKey) {
+            search.query += event.key;
+            this.findHistoryMatch(search.index < 0 ? first : search.index);
+        } else {
+            this.endHistorySearch(true);
+            return false;
+        }
+
+        event.preventDefault();
+        return true;
+    }
+
+    /**
+     * Finds the next entry in the history that matches the current search query and displays it.
+     *
+     * If there is no such entry, the previous match remains displayed and the search is marked as failed.
+     *
+     * @param start the index of the first entry to check
+     */
+    private findHistoryMatch(start: number): void {
+        const search = this.historySearch!;
+
+        const index = search.query === "" ? -1 : this.inputHistory.search(search.query, start, search.isReverse);
+        search.isFailed = search.query !== "" && index < 0;
+        if (index >= 0 || search.query === "")
+            search.index = index;
+
+        this.renderHistorySearch();
+    }
+
+    /**
+     * Displays the state of the current history search in the prefix and input elements.
+     */
+    private renderHistorySearch(): void {
+        const search = this.historySearch!;
+        const escape = (text: string) => escapeHtml(text.replace(/&/g, "&amp;"));
+
+        const type = `${search.isFailed ? "failed " : ""}${search.isReverse ? "reverse-" : ""}i-search`;
+        this.prefixText = `(${type})\`${escape(search.query)}': `;
+
+        const entry = search.index < 0 ? search.originalInput : this.inputHistory.get(search.index);
+        const start = search.index < 0 || search.query === "" ? -1 : entry.indexOf(search.query);
+        if (start < 0) {
+            this.input.innerHTML = escape(entry);
+            moveCaretToEndOf(this.input);
+        } else {
+            const end = start + search.query.length;
+            this.input.innerHTML =
+                escape(entry.slice(0, start)) +
+                `<span class="history-search-match">${escape(entry.slice(start, end))}</span>` +
+                escape(entry.slice(end));
+            moveCaretTo(this.input, start);
+        }
+        this.suggestionsText = "";
+    }
+
+    /**
+     * Stops searching through the history and restores the prefix.
+     *
+     * @param accept `true` if the input should be set to the match, `false` if the input should be restored to what it
+     * was before the search started
+     */
+    private endHistorySearch(accept: boolean): void {
+        const search = this.historySearch!;
+        this.historySearch = undefined;
+
+        this.prefixText = this.shell.generatePrefix();
+        this.inputText = accept && search.index >= 0 ? this.inputHistory.get(search.index) : search.originalInput;
+        moveCaretToEndOf(this.input);
+    }
+
     /**
      * Invokes the auto-completion functionality of this terminal's shell and uses it to inform the user.
      *
@@ -387,26 +648,39 @@ export class Terminal {
      * be altered if there is only one suggestion available
      */
     private autoComplete(autoFill: boolean): void {
-        let offset = this.inputText.length;
-        if (this.input === document.activeElement)
-            offset = document.getSelection()?.anchorOffset ?? offset;
+        const offset = this.caretOffset;
 
         const [left, word, right] = extractWordBefore(this.inputText, offset, " ");
-        const suggestions = this.shell.autoComplete(word);
-        const commonPrefix = findLongestCommonPrefix(suggestions);
+        const suggestions = this.shell.autoComplete(left, word);
+        const commonPrefix = findLongestCommonPrefix(suggestions.map(it => it.value));
 
         if (autoFill && commonPrefix !== undefined && commonPrefix !== word) {
             const newOffset = offset + (commonPrefix.length - word.length);
             this.inputText = left + commonPrefix + right;
-            setTimeout(() => moveCaretTo(this.input.firstChild, newOffset), 0);
+            setTimeout(() => moveCaretTo(this.input, newOffset), 0);
         } else if (!autoFill || suggestions.length > 1) {
-            this.suggestionsText = suggestions
-                .map((it) => it.slice(it.trimRightChar("/").lastIndexOf("/") + 1))
-                .join(" ");
+            const names = suggestions.map(it => it.value.slice(it.value.trimRightChar("/").lastIndexOf("/") + 1));
+
+            if (suggestions.every(it => it.description === undefined)) {
+                this.suggestionsText = names.map(it => escapeHtml(it)).join(" ");
+            } else {
+                const width = Math.max(...names.map(it => it.length)) + 4;
+                this.suggestionsText = names
+                    .map((it, i) => escapeHtml(it.padEnd(width, " ") + (suggestions[i].description ?? "")))
+                    .join("\n");
+            }
         }
     }
 }
 
+/**
+ * The state of an incremental search through the input history, where `query` is the text that is searched for,
+ * `index` is the index of the entry that currently matches or `-1` if nothing has matched yet, `isReverse` is `true` if
+ * and only if older entries are searched, `isFailed` is `true` if and only if no entry matches the query, and
+ * `originalInput` is the input that was entered before the search started.
+ */
+type HistorySearch = { query: string, index: number, isReverse: boolean, isFailed: boolean, originalInput: string };
+
 /**
  * Valid escape characters accepted by the terminal.
  *
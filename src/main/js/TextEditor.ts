@@ -0,0 +1,376 @@
+import {LineEditor} from "./LineEditor";
+import {escapeHtml, IllegalArgumentError} from "./Shared";
+
+
+/**
+ * Edits the contents of a file in response to the keys that the user presses, and renders the file with line numbers.
+ *
+ * The arrow keys, `Home`, `End`, `PageUp`, and `PageDown` move the cursor, and typed characters are inserted at the
+ * cursor. `Ctrl+S` saves the file, `Ctrl+F` searches the file, and `Ctrl+X` closes the editor, asking whether the
+ * changes should be saved first if there are any.
+ */
+export class TextEditor {
+    /**
+     * The number of lines that `PageUp` and `PageDown` move the cursor by.
+     */
+    private static readonly pageSize: number = 20;
+
+    /**
+     * The path to the file that is edited.
+     */
+    private readonly path: string;
+    /**
+     * Saves the given contents to the file that is edited.
+     */
+    private readonly save: (contents: string) => void;
+    /**
+     * The lines of the file that is edited, without newlines.
+     */
+    private readonly lines: string[];
+    /**
+     * The index of the line that the cursor is in.
+     */
+    private row: number = 0;
+    /**
+     * The offset of the cursor in its line.
+     */
+    private column: number = 0;
+    /**
+     * `true` if and only if the lines have changed since they were last saved.
+     */
+    private isModified: boolean = false;
+    /**
+     * The question that the user is answering, or `undefined` if the user is not answering a question.
+     */
+    private prompt: TextEditor.Prompt | undefined = undefined;
+    /**
+     * The message that is displayed below the lines.
+     */
+    private message: string = "";
+    /**
+     * The text that was searched for most recently.
+     */
+    private query: string = "";
+    /**
+     * `true` if and only if the user has closed this editor.
+     */
+    private _isClosed: boolean = false;
+
+
+    /**
+     * Constructs a new text editor.
+     *
+     * @param path the path to the file that is edited
+     * @param contents the contents of the file that is edited
+     * @param save saves the given contents to the file that is edited
+     */
+    constructor(path: string, contents: string, save: (contents: string) => void) {
+        this.path = path;
+        this.save = save;
+        this.lines = contents === "" ? [""] : contents.replace(/\n$/, "").split("\n");
+    }
+
+
+    /**
+     * Returns `true` if and only if the user has closed this editor.
+     */
+    get isClosed(): boolean {
+        return this._isClosed;
+    }
+
+    /**
+     * Returns the contents of the file as they are currently displayed, in which each line ends with a newline.
+     */
+    get contents(): string {
+        if (this.lines.length === 1 && this.lines[0] === "")
+            return "";
+
+        return this.lines.map(it => `${it}\n`).join("");
+    }
+
+    /**
+     * Returns the position of the cursor, where `row` is the index of its line and `column` is its offset in the line.
+     */
+    get cursor(): { row: number, column: number } {
+        return {row: this.row, column: this.column};
+    }
+
+
+    /**
+     * Edits the file in response to pressing the given key, and returns `true` if and only if the key was handled.
+     *
+     * @param key the key that is pressed
+     */
+    handleKey(key: LineEditor.Key): boolean {
+        if (this._isClosed || ["Alt", "AltGraph", "Control", "Meta", "OS", "Shift"].includes(key.key))
+            return false;
+
+        if (this.prompt !== undefined)
+            return this.handlePromptKey(this.prompt, key);
+
+        this.message = "";
+        if (key.ctrlKey && !key.altKey)
+            return this.handleControlKey(key.key);
+        if (key.ctrlKey || key.altKey || key.metaKey)
+            return false;
+
+        const line = this.lines[this.row];
+        switch (key.key) {
+            case "ArrowLeft":
+                if (this.column > 0)
+                    this.column--;
+                else if (this.row > 0)
+                    this.moveTo(this.row - 1, Number.MAX_SAFE_INTEGER);
+                break;
+            case "ArrowRight":
+                if (this.column < line.length)
+                    this.column++;
+                else if (this.row < this.lines.length - 1)
+                    this.moveTo(this.row + 1, 0);
+                break;
+            case "ArrowUp":
+                this.moveTo(this.row - 1, this.column);
+                break;
+            case "ArrowDown":
+                this.moveTo(this.row + 1, this.column);
+                break;
+            case "PageUp":
+                this.moveTo(this.row - TextEditor.pageSize, this.column);
+                break;
+            case "PageDown":
+                this.moveTo(this.row + TextEditor.pageSize, this.column);
+                break;
+            case "Home":
+                this.column = 0;
+                break;
+            case "End":
+                this.column = line.length;
+                break;
+            case "Enter":
+                this.lines.splice(this.row, 1, line.slice(0, this.column), line.slice(this.column));
+                this.moveTo(this.row + 1, 0);
+                this.isModified = true;
+                break;
+            case "Backspace":
+                if (this.column > 0) {
+                    this.lines[this.row] = line.slice(0, this.column - 1) + line.slice(this.column);
+                    this.column--;
+                    this.isModified = true;
+                } else if (this.row > 0) {
+                    const previousLine = this.lines[this.row - 1];
+                    this.lines.splice(this.row - 1, 2, previousLine + line);
+                    this.moveTo(this.row - 1, previousLine.length);
+                    this.isModified = true;
+                }
+                break;
+            case "Delete":
+                if (this.column < line.length) {
+                    this.lines[this.row] = line.slice(0, this.column) + line.slice(this.column + 1);
+                    this.isModified = true;
+                } else if (this.row < this.lines.length - 1) {
+                    this.lines.splice(this.row, 2, line + this.lines[this.row + 1]);
+                    this.isModified = true;
+                }
+                break;
+            case "Tab":
+                this.insert("    ");
+                break;
+            default:
+                if (key.key.length !== 1)
+                    return false;
+
+                this.insert(key.key);
+                break;
+        }
+
+        return true;
+    }
+
+    /**
+     * Returns the file as HTML, in which each line is preceded by its line number and in which the cursor is
+     * highlighted.
+     */
+    render(): string {
+        const width = `${this.lines.length}`.length;
+        const lines = this.lines.map((line, row) => {
+            const number = `<span class="editor-line-number">${`${row + 1}`.padStart(width)}</span> `;
+            if (row !== this.row || this.prompt !== undefined)
+                return number + escapeText(line);
+
+            return number +
+                escapeText(line.slice(0, this.column)) +
+                `<span class="editor-cursor">${escapeText(line[this.column] ?? " ")}</span>` +
+                escapeText(line.slice(this.column + 1));
+        });
+
+        let status = escapeText(this.message);
+        if (this.prompt?.type === "quit")
+            status = escapeText(`Save changes to '${this.path}' before quitting? (y/n, Escape to cancel) `);
+        else if (this.prompt?.type === "search")
+            status = escapeText(`Search${this.query === "" ? "" : ` [${this.query}]`}: ${this.prompt.input}`);
+        if (this.prompt !== undefined)
+            status += `<span class="editor-cursor"> </span>`;
+
+        return [
+            `<span class="editor-header">${escapeText(this.path)}${this.isModified ? " (modified)" : ""}</span>`,
+            ...lines,
+            `<span class="editor-status">${status}</span>`,
+            `<span class="editor-help">^S Save    ^F Search    ^X Exit</span>`
+        ].join("\n");
+    }
+
+
+    /**
+     * Handles the given key pressed together with `Ctrl`, and returns `true` if and only if the key was handled.
+     *
+     * @param key the name of the key that is pressed together with `Ctrl`
+     */
+    private handleControlKey(key: string): boolean {
+        switch (key.toLowerCase()) {
+            case "s":
+                this.write();
+                return true;
+            case "f":
+                this.prompt = {type: "search", input: ""};
+                return true;
+            case "x":
+                if (this.isModified)
+                    this.prompt = {type: "quit", input: ""};
+                else
+                    this._isClosed = true;
+                return true;
+            case "home":
+                this.moveTo(0, 0);
+                return true;
+            case "end":
+                this.moveTo(this.lines.length - 1, Number.MAX_SAFE_INTEGER);
+                return true;
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Handles the given key while the user is answering the given prompt, and returns `true` if and only if the key
+     * was handled.
+     *
+     * `Escape` and `Ctrl+C` dismiss the prompt without answering it.
+     *
+     * @param prompt the prompt that the user is answering
+     * @param key the key that is pressed
+     */
+    private handlePromptKey(prompt: TextEditor.Prompt, key: LineEditor.Key): boolean {
+        if (key.key === "Escape" || (key.ctrlKey && key.key.toLowerCase() === "c")) {
+            this.prompt = undefined;
+            return true;
+        }
+        if (key.ctrlKey || key.altKey || key.metaKey)
+            return false;
+
+        if (prompt.type === "quit") {
+            if (key.key.toLowerCase() === "y") {
+                this.prompt = undefined;
+                this._isClosed = this.write();
+            } else if (key.key.toLowerCase() === "n") {
+                this.prompt = undefined;
+                this._isClosed = true;
+            }
+        } else if (key.key === "Enter") {
+            this.prompt = undefined;
+            this.query = prompt.input === "" ? this.query : prompt.input;
+            this.search(this.query);
+        } else if (key.key === "Backspace") {
+            prompt.input = prompt.input.slice(0, -1);
+        } else if (key.key.length === 1) {
+            prompt.input += key.key;
+        }
+
+        return true;
+    }
+
+    /**
+     * Moves the cursor to the given position, or to the nearest position in the file if the given position does not
+     * exist.
+     *
+     * @param row the index of the line to move the cursor to
+     * @param column the offset in the line to move the cursor to
+     */
+    private moveTo(row: number, column: number): void {
+        this.row = Math.min(Math.max(row, 0), this.lines.length - 1);
+        this.column = Math.min(Math.max(column, 0), this.lines[this.row].length);
+    }
+
+    /**
+     * Inserts the given text at the cursor and moves the cursor past the text.
+     *
+     * @param text the text to insert
+     */
+    private insert(text: string): void {
+        const line = this.lines[this.row];
+
+        this.lines[this.row] = line.slice(0, this.column) + text + line.slice(this.column);
+        this.column += text.length;
+        this.isModified = true;
+    }
+
+    /**
+     * Moves the cursor to the next occurrence of the given text after the cursor, continuing at the start of the file
+     * if the end of the file is reached.
+     *
+     * @param query the text to search for
+     */
+    private search(query: string): void {
+        if (query === "")
+            return;
+
+        for (let i = 0; i <= this.lines.length; i++) {
+            const row = (this.row + i) % this.lines.length;
+            const column = this.lines[row].indexOf(query, i === 0 ? this.column + 1 : 0);
+            if (column >= 0) {
+                this.message = row < this.row || (row === this.row && column <= this.column) ? "Search wrapped." : "";
+                this.moveTo(row, column);
+                return;
+            }
+        }
+
+        this.message = `'${query}' not found.`;
+    }
+
+    /**
+     * Saves the file and returns `true` if and only if the file was saved.
+     */
+    private write(): boolean {
+        try {
+            this.save(this.contents);
+        } catch (error) {
+            if (!(error instanceof IllegalArgumentError))
+                throw error;
+
+            this.message = `Could not save '${this.path}': ${error.message}`;
+            return false;
+        }
+
+        this.isModified = false;
+        this.message = `Saved '${this.path}'.`;
+        return true;
+    }
+}
+
+
+export module TextEditor {
+    /**
+     * A question that the user is answering, where `type` is `quit` if the user is asked whether to save the changes
+     * before quitting or `search` if the user is asked what to search for, and `input` is the answer typed so far.
+     */
+    export type Prompt = { type: "quit" | "search", input: string };
+}
+
+
+/**
+ * Escapes the given text so that it is displayed as is in HTML.
+ *
+ * @param text the text to escape
+ */
+function escapeText(text: string): string {
+    return escapeHtml(text.replace(/&/g, "&amp;"));
+}
@@ -0,0 +1,96 @@
+import {expect} from "chai";
+import "mocha";
+
+import {AliasTable} from "../main/js/AliasTable";
+
+
+describe("alias table", () => {
+    let aliases: AliasTable;
+
+
+    beforeEach(() => {
+        aliases = new AliasTable();
+    });
+
+
+    describe("constructor", () => {
+        it("sets the given default aliases", () => {
+            expect(new AliasTable({ll: "ls -l"}).get("ll")).to.equal("ls -l");
+        });
+    });
+
+    describe("get aliases", () => {
+        it("returns a copy", () => {
+            aliases.set("ll", "old");
+
+            aliases.aliases["ll"] = "new";
+
+            expect(aliases.get("ll")).to.equal("old");
+        });
+    });
+
+    describe("clear", () => {
+        it("removes all aliases", () => {
+            aliases.load({ll: "ls -l", la: "ls -a"});
+
+            aliases.clear();
+
+            expect(aliases.has("ll")).to.be.false;
+            expect(aliases.has("la")).to.be.false;
+        });
+    });
+
+    describe("delete", () => {
+        it("removes the given alias", () => {
+            aliases.set("ll", "ls -l");
+
+            aliases.delete("ll");
+
+            expect(aliases.has("ll")).to.be.false;
+        });
+
+        it("does nothing if the alias does not exist", () => {
+            expect(() => aliases.delete("ll")).to.not.throw();
+        });
+    });
+
+    describe("get", () => {
+        it("returns the value of the alias", () => {
+            aliases.set("ll", "ls -l");
+
+            expect(aliases.get("ll")).to.equal("ls -l");
+        });
+
+        it("returns undefined if the alias does not exist", () => {
+            expect(aliases.get("ll")).to.be.undefined;
+        });
+
+        it("returns undefined for properties of objects", () => {
+            expect(aliases.get("toString")).to.be.undefined;
+        });
+    });
+
+    describe("set", () => {
+        it("overwrites an existing alias", () => {
+            aliases.set("ll", "old");
+
+            aliases.set("ll", "new");
+
+            expect(aliases.get("ll")).to.equal("new");
+        });
+
+        it("accepts dots and dashes in the name", () => {
+            aliases.set("..", "cd ..");
+            aliases.set("l-a", "ls -a");
+
+            expect(aliases.get("..")).to.equal("cd ..");
+            expect(aliases.get("l-a")).to.equal("ls -a");
+        });
+
+        it("throws an exception if the name is invalid", () => {
+            expect(() => aliases.set("l l", "ls -l")).to.throw();
+            expect(() => aliases.set("l/l", "ls -l")).to.throw();
+            expect(() => aliases.set("", "ls -l")).to.throw();
+        });
+    });
+});
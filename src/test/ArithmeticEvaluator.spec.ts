@@ -0,0 +1,182 @@
+import {expect} from "chai";
+import "mocha";
+
+import {ArithmeticEvaluator} from "../main/js/ArithmeticEvaluator";
+import {Environment} from "../main/js/Environment";
+
+
+describe("arithmetic evaluator", () => {
+    let environment: Environment;
+    let evaluator: ArithmeticEvaluator;
+
+
+    beforeEach(() => {
+        environment = new Environment(["cwd"]);
+        evaluator = new ArithmeticEvaluator(environment);
+    });
+
+
+    describe("numbers", () => {
+        it("evaluates an empty expression to zero", () => {
+            expect(evaluator.evaluate("")).to.equal(0);
+            expect(evaluator.evaluate("  ")).to.equal(0);
+        });
+
+        it("evaluates decimal, hexadecimal, and octal numbers", () => {
+            expect(evaluator.evaluate("42")).to.equal(42);
+            expect(evaluator.evaluate("0x1F")).to.equal(31);
+            expect(evaluator.evaluate("017")).to.equal(15);
+        });
+
+        it("throws an error for invalid numbers", () => {
+            expect(() => evaluator.evaluate("09")).to.throw("Invalid number '09'.");
+            expect(() => evaluator.evaluate("1a")).to.throw("Invalid number '1a'.");
+        });
+    });
+
+    describe("operators", () => {
+        it("evaluates arithmetic operators with the usual precedence", () => {
+            expect(evaluator.evaluate("1 + 2 * 3 - 4")).to.equal(3);
+            expect(evaluator.evaluate("(1 + 2) * 3")).to.equal(9);
+        });
+
+        it("rounds division towards zero", () => {
+            expect(evaluator.evaluate("7 / 2")).to.equal(3);
+            expect(evaluator.evaluate("-7 / 2")).to.equal(-3);
+            expect(evaluator.evaluate("-7 % 2")).to.equal(-1);
+        });
+
+        it("evaluates exponentiation right-associatively", () => {
+            expect(evaluator.evaluate("2 ** 3 ** 2")).to.equal(512);
+        });
+
+        it("evaluates unary operators", () => {
+            expect(evaluator.evaluate("-(2 + 3)")).to.equal(-5);
+            expect(evaluator.evaluate("!0 + !5")).to.equal(1);
+            expect(evaluator.evaluate("~5")).to.equal(-6);
+        });
+
+        it("evaluates comparisons to one or zero", () => {
+            expect(evaluator.evaluate("1 < 2")).to.equal(1);
+            expect(evaluator.evaluate("2 <= 1")).to.equal(0);
+            expect(evaluator.evaluate("3 == 3")).to.equal(1);
+            expect(evaluator.evaluate("3 != 3")).to.equal(0);
+        });
+
+        it("evaluates bitwise operators", () => {
+            expect(evaluator.evaluate("6 & 3")).to.equal(2);
+            expect(evaluator.evaluate("6 | 3")).to.equal(7);
+            expect(evaluator.evaluate("6 ^ 3")).to.equal(5);
+            expect(evaluator.evaluate("1 << 4 >> 2")).to.equal(4);
+        });
+
+        it("evaluates logical operators to one or zero", () => {
+            expect(evaluator.evaluate("2 && 3")).to.equal(1);
+            expect(evaluator.evaluate("0 || 0")).to.equal(0);
+        });
+
+        it("evaluates the ternary operator", () => {
+            expect(evaluator.evaluate("1 ? 2 : 3")).to.equal(2);
+            expect(evaluator.evaluate("0 ? 2 : 0 ? 3 : 4")).to.equal(4);
+        });
+
+        it("evaluates to the last of a comma-separated list of expressions", () => {
+            expect(evaluator.evaluate("1, 2, 3")).to.equal(3);
+        });
+
+        it("throws an error when dividing by zero", () => {
+            expect(() => evaluator.evaluate("1 / 0")).to.throw("Division by zero.");
+            expect(() => evaluator.evaluate("1 % 0")).to.throw("Division by zero.");
+        });
+
+        it("throws an error for a negative exponent", () => {
+            expect(() => evaluator.evaluate("2 ** -1")).to.throw();
+        });
+    });
+
+    describe("variables", () => {
+        it("evaluates variables to their value", () => {
+            environment.set("a", "5");
+            environment.set("b", "-2");
+
+            expect(evaluator.evaluate("a * b")).to.equal(-10);
+        });
+
+        it("evaluates unset and empty variables to zero", () => {
+            environment.set("empty", "");
+
+            expect(evaluator.evaluate("unset + empty")).to.equal(0);
+        });
+
+        it("throws an error if a variable is not a number", () => {
+            environment.set("a", "b");
+
+            expect(() => evaluator.evaluate("a + 1")).to.throw();
+        });
+
+        it("assigns variables", () => {
+            expect(evaluator.evaluate("a = 3 + 4")).to.equal(7);
+            expect(environment.get("a")).to.equal("7");
+        });
+
+        it("assigns variables with compound assignment operators", () => {
+            environment.set("a", "6");
+
+            expect(evaluator.evaluate("a *= 2, a -= 1, a <<= 1")).to.equal(22);
+            expect(environment.get("a")).to.equal("22");
+        });
+
+        it("assigns variables right-associatively", () => {
+            evaluator.evaluate("a = b = 3");
+
+            expect(environment.get("a")).to.equal("3");
+            expect(environment.get("b")).to.equal("3");
+        });
+
+        it("increments and decrements variables", () => {
+            environment.set("i", "5");
+
+            expect(evaluator.evaluate("i++")).to.equal(5);
+            expect(evaluator.evaluate("++i")).to.equal(7);
+            expect(evaluator.evaluate("i--")).to.equal(7);
+            expect(evaluator.evaluate("--i")).to.equal(5);
+            expect(environment.get("i")).to.equal("5");
+        });
+
+        it("does not evaluate side effects of operands that do not influence the result", () => {
+            expect(evaluator.evaluate("0 && (a = 1)")).to.equal(0);
+            expect(evaluator.evaluate("1 || (b = 1)")).to.equal(1);
+            expect(evaluator.evaluate("1 ? 2 : (c = 1 / 0)")).to.equal(2);
+
+            expect(environment.has("a")).to.be.false;
+            expect(environment.has("b")).to.be.false;
+            expect(environment.has("c")).to.be.false;
+        });
+
+        it("throws an error when assigning a read-only variable", () => {
+            expect(() => evaluator.evaluate("cwd = 1")).to.throw();
+        });
+    });
+
+    describe("syntax errors", () => {
+        it("throws an error for unknown characters", () => {
+            expect(() => evaluator.evaluate("1 $ 2")).to.throw("Unexpected character '$' in arithmetic expression.");
+        });
+
+        it("throws an error for missing operands", () => {
+            expect(() => evaluator.evaluate("1 +")).to.throw("Unexpected end of arithmetic expression.");
+        });
+
+        it("throws an error for unclosed parentheses", () => {
+            expect(() => evaluator.evaluate("(1 + 2")).to.throw();
+        });
+
+        it("throws an error for trailing tokens", () => {
+            expect(() => evaluator.evaluate("1 2")).to.throw("Unexpected token '2' in arithmetic expression.");
+        });
+
+        it("throws an error when incrementing something other than a variable", () => {
+            expect(() => evaluator.evaluate("++1")).to.throw();
+        });
+    });
+});
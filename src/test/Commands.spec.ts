@@ -2,9 +2,19 @@ import {expect} from "chai";
 import "jsdom-global";
 import "mocha";
 
-import {Command, commandBinaries, Commands, ExitCode, Script} from "../main/js/Commands";
+import {AliasTable} from "../main/js/AliasTable";
+import {
+    Command,
+    commandBinaries,
+    Commands,
+    ExitCode,
+    InputValidator,
+    Script,
+    ShellFunction
+} from "../main/js/Commands";
 import {Environment} from "../main/js/Environment";
 import {Directory, File, FileSystem, Path} from "../main/js/FileSystem";
+import {InputHistory} from "../main/js/InputHistory";
 import {InputParser} from "../main/js/InputParser";
 import {emptyFunction} from "../main/js/Shared";
 import {Buffer, StreamSet} from "../main/js/Stream";
@@ -29,6 +39,8 @@ describe("commands", () => {
     let environment: Environment;
     let fileSystem: FileSystem;
     let userList: UserList;
+    let aliases: AliasTable;
+    let history: InputHistory;
     let commands: Commands;
     let parser: InputParser;
     let streamSet: StreamSet;
@@ -38,7 +50,9 @@ describe("commands", () => {
         environment = new Environment(["cwd"], {"cwd": "/"});
         fileSystem = new FileSystem(new Directory());
         userList = new UserList(fileSystem);
-        commands = new Commands(environment, userList, fileSystem);
+        aliases = new AliasTable();
+        history = new InputHistory();
+        commands = new Commands(environment, userList, fileSystem, aliases, history);
         parser = InputParser.create(environment, fileSystem);
         streamSet = new StreamSet(new Buffer(), new Buffer(), new Buffer());
     });
@@ -46,7 +60,7 @@ describe("commands", () => {
     const loadCommand = (name: string) =>
         fileSystem.add(new Path(`/bin/${name}`), new File(commandBinaries[name]), true);
 
-    const execute = (command: string) => commands.execute(parser.parseCommands(command)[0], streamSet);
+    const execute = (command: string) => commands.executeList(parser.parseCommands(command)[0], streamSet);
 
     const readOut = () => (streamSet.out as Buffer).read();
 
@@ -132,6 +146,47 @@ describe("commands", () => {
                 expect(readFile("/file.txt")).to.equal("flower\n");
             });
 
+            it("supports control flow across multiple lines", () => {
+                loadCommand("true");
+                fileSystem.add(
+                    new Path("/script"),
+                    new File(
+                        "#!/bin/josh\n" +
+                        "for x in pen cap\ndo\n    if true &&\n       true\n    then\n        echo $x\n    fi\ndone"
+                    ),
+                    false
+                );
+
+                expect(execute("/script")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("pen\ncap\n");
+            });
+
+            it("passes arguments to the script as positional parameters", () => {
+                fileSystem.add(
+                    new Path("/script"),
+                    new File("#!/bin/josh\necho $0 $# $2 $1\nfor x; do echo =$x; done"),
+                    false
+                );
+
+                expect(execute("/script -n shore 'far  sky'")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("/script 3 shore -n\n=-n\n=shore\n=far  sky\n");
+            });
+
+            it("restores the positional parameters after the script is done", () => {
+                fileSystem.add(new Path("/script"), new File("#!/bin/josh\necho $1"), false);
+
+                expect(execute("/script shore && echo $0 $#")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("shore\njosh 0\n");
+            });
+
+            it("writes an error if the script cannot be parsed", () => {
+                fileSystem.add(new Path("/script"), new File("#!/bin/josh\necho start\nif true\nthen"), false);
+
+                expect(execute("/script")).to.equal(ExitCode.USAGE);
+                expect(readOut()).to.equal("");
+                expect(readErr()).to.contain("Could not parse script '/script'");
+            });
+
             it("support different output redirection than the one the script is invoked under", () => {
                 fileSystem.add(new Path("/script"), new File("#!/bin/josh\necho sand > /file2.txt\necho hat"), false);
 
@@ -142,6 +197,480 @@ describe("commands", () => {
             });
         });
 
+        describe("pipelines", () => {
+            beforeEach(() => {
+                loadCommand("echo");
+
+                const command = `return new Command(
+                (input, streams) => { streams.out.write(streams.ins.read().toUpperCase()); return Number(input.args[0] ?? 0); },
+                "", "", "",
+                new InputValidator()
+            )`.trimMultiLines();
+                fileSystem.add(new Path("/upper"), new File(command), false);
+            });
+
+
+            it("passes the output of a command to the input of the next command", () => {
+                expect(execute("echo sharp | /upper")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("SHARP\n");
+            });
+
+            it("passes output through each command in a longer pipeline", () => {
+                expect(execute("echo sharp | /upper | /upper")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("SHARP\n");
+            });
+
+            it("reads the input of the first command from the given input stream", () => {
+                (streamSet.ins as Buffer).write("crown\n");
+
+                expect(execute("/upper | /upper")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("CROWN\n");
+            });
+
+            it("returns the exit code of the last command in the pipeline", () => {
+                expect(execute("/upper 3 | /upper 5")).to.equal(5);
+            });
+
+            it("passes the output of a compound command to the next command", () => {
+                expect(execute("for x in sharp; do echo $x; done | /upper")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("SHARP\n");
+            });
+
+            it("does not pass on output that has been redirected elsewhere", () => {
+                expect(execute("echo sharp > /file | /upper")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("");
+                expect(fileSystem.open(new Path("/file"), "read").read()).to.equal("sharp\n");
+            });
+        });
+
+        describe("output redirection", () => {
+            beforeEach(() => {
+                const command = `return new Command(
+                (input, streams) => { streams.out.write("out\\n"); streams.err.write("err\\n"); return ExitCode.OK; },
+                "", "", "",
+                new InputValidator()
+            )`.trimMultiLines();
+                fileSystem.add(new Path("/both"), new File(command), false);
+            });
+
+            const readFile = (pathString: string) => (fileSystem.get(new Path(pathString)) as File).contents;
+
+
+            it("writes both streams to the same file", () => {
+                expect(execute("/both &> /file")).to.equal(ExitCode.OK);
+                expect(readFile("/file")).to.equal("out\nerr\n");
+            });
+
+            it("appends both streams to the same file", () => {
+                fileSystem.add(new Path("/file"), new File("old\n"), false);
+
+                expect(execute("/both &>> /file")).to.equal(ExitCode.OK);
+                expect(readFile("/file")).to.equal("old\nout\nerr\n");
+            });
+
+            it("writes the error stream to the output stream", () => {
+                expect(execute("/both 2>&1")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("out\nerr\n");
+                expect(readErr()).to.equal("");
+            });
+
+            it("writes the output stream to the error stream", () => {
+                expect(execute("/both 1>&2")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("");
+                expect(readErr()).to.equal("out\nerr\n");
+            });
+
+            it("duplicates the error stream onto the redirected output stream", () => {
+                expect(execute("/both > /file 2>&1")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("");
+                expect(readFile("/file")).to.equal("out\nerr\n");
+            });
+
+            it("duplicates the error stream onto the output stream before it is redirected", () => {
+                expect(execute("/both 2>&1 > /file")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("err\n");
+                expect(readFile("/file")).to.equal("out\n");
+            });
+
+            describe("noclobber", () => {
+                beforeEach(() => environment.set("noclobber", "on"));
+
+
+                it("does not overwrite an existing file", () => {
+                    fileSystem.add(new Path("/file"), new File("old\n"), false);
+
+                    expect(execute("/both > /file")).to.equal(ExitCode.MISC);
+                    expect(readErr()).to.contain("Cannot overwrite existing file '/file'");
+                    expect(readFile("/file")).to.equal("old\n");
+                });
+
+                it("creates a file that does not exist yet", () => {
+                    expect(execute("/both > /file")).to.equal(ExitCode.OK);
+                    expect(readFile("/file")).to.equal("out\n");
+                });
+
+                it("appends to an existing file", () => {
+                    fileSystem.add(new Path("/file"), new File("old\n"), false);
+
+                    expect(execute("/both >> /file")).to.equal(ExitCode.OK);
+                    expect(readFile("/file")).to.equal("old\nout\n");
+                });
+
+                it("overwrites an existing file if forced to", () => {
+                    fileSystem.add(new Path("/file"), new File("old\n"), false);
+
+                    expect(execute("/both >| /file")).to.equal(ExitCode.OK);
+                    expect(readFile("/file")).to.equal("out\n");
+                });
+            });
+        });
+
+        describe("input redirection", () => {
+            beforeEach(() => {
+                loadCommand("echo");
+
+                const command = `return new Command(
+                (input, streams) => { streams.out.write(streams.ins.read().toUpperCase()); return ExitCode.OK; },
+                "", "", "",
+                new InputValidator()
+            )`.trimMultiLines();
+                fileSystem.add(new Path("/upper"), new File(command), false);
+            });
+
+
+            it("reads the input from a file", () => {
+                fileSystem.add(new Path("/file"), new File("quiet\n"), false);
+
+                expect(execute("/upper < /file")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("QUIET\n");
+            });
+
+            it("writes an error if the file does not exist", () => {
+                expect(execute("/upper < /file")).to.equal(ExitCode.MISC);
+                expect(readOut()).to.equal("");
+                expect(readErr()).to.contain("Error while redirecting");
+            });
+
+            it("reads the input from a here-string", () => {
+                environment.set("x", "quiet");
+
+                expect(execute("/upper <<< \"$x  road\"")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("QUIET  ROAD\n");
+            });
+
+            it("reads the input from a here-document", () => {
+                environment.set("x", "quiet");
+
+                expect(execute("/upper <<END\n$x 'road'\n  lamp\nEND")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("QUIET 'ROAD'\n  LAMP\n");
+            });
+
+            it("does not expand the here-document if its delimiter is quoted", () => {
+                environment.set("x", "quiet");
+
+                expect(execute("/upper <<'END'\n$x\nEND")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("$X\n");
+            });
+
+            it("passes the input of a pipeline to its first command only", () => {
+                expect(execute("/upper <<< quiet | /upper")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("QUIET\n");
+            });
+
+            it("reads here-documents in scripts", () => {
+                fileSystem.add(
+                    new Path("/script"),
+                    new File("#!/bin/josh\n/upper <<END\nquiet\nEND\necho road"),
+                    false
+                );
+
+                expect(execute("/script")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("QUIET\nroad\n");
+            });
+        });
+
+        describe("command substitution", () => {
+            beforeEach(() => {
+                loadCommand("cat");
+                loadCommand("cd");
+                loadCommand("echo");
+            });
+
+
+            it("passes the output of the substituted command as arguments", () => {
+                expect(execute("echo $(echo trust  dog)")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("trust dog\n");
+            });
+
+            it("passes the output of the substituted command as a single argument inside double quotes", () => {
+                expect(execute(`echo "$(echo -n 'trust  dog')"`)).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("trust  dog\n");
+            });
+
+            it("uses the contents of a file as an argument", () => {
+                fileSystem.add(new Path("/dir"), new Directory(), false);
+                fileSystem.add(new Path("/last"), new File("/dir\n"), false);
+
+                expect(execute("cd $(cat /last)")).to.equal(ExitCode.OK);
+                expect(environment.get("cwd")).to.equal("/dir");
+            });
+
+            it("supports nested command substitution", () => {
+                expect(execute("echo $(echo `echo hollow`)")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("hollow\n");
+            });
+
+            it("writes errors of the substituted command to the error stream", () => {
+                expect(execute("echo $(does-not-exist)")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("\n");
+                expect(readErr()).to.equal("Unknown command 'does-not-exist'.\n");
+            });
+
+            it("does not substitute commands that are not executed", () => {
+                loadCommand("false");
+
+                expect(execute("false && echo $(echo side > /file)")).to.equal(ExitCode.MISC);
+                expect(fileSystem.has(new Path("/file"))).to.be.false;
+            });
+        });
+
+        describe("and-or lists", () => {
+            beforeEach(() => {
+                loadCommand("echo");
+                loadCommand("false");
+                loadCommand("true");
+            });
+
+
+            it("executes the command after && if the previous command succeeded", () => {
+                expect(execute("true && echo dome")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("dome\n");
+            });
+
+            it("does not execute the command after && if the previous command failed", () => {
+                expect(execute("false && echo dome")).to.equal(ExitCode.MISC);
+                expect(readOut()).to.equal("");
+            });
+
+            it("executes the command after || if the previous command failed", () => {
+                expect(execute("false || echo dome")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("dome\n");
+            });
+
+            it("does not execute the command after || if the previous command succeeded", () => {
+                expect(execute("true || echo dome")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("");
+            });
+
+            it("evaluates operators from left to right with equal precedence", () => {
+                expect(execute("true || echo tax && echo rock")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("rock\n");
+
+                expect(execute("false && echo tax || echo rock")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("rock\n");
+            });
+
+            it("passes options and quoted arguments to the command after the operator", () => {
+                expect(execute("true && echo -n 'mild  crown'")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("mild  crown");
+            });
+
+            it("updates the status after each executed pipeline", () => {
+                expect(execute("false || echo $status")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal(`${ExitCode.MISC}\n`);
+                expect(environment.get("status")).to.equal("" + ExitCode.OK);
+            });
+
+            it("does not expand commands that are not executed", () => {
+                expect(execute("true || echo does-not-exist*")).to.equal(ExitCode.OK);
+                expect(readErr()).to.equal("");
+            });
+
+            it("expands each command only after the previous command has been executed", () => {
+                loadCommand("cd");
+                fileSystem.add(new Path("/dir/file"), new File(), true);
+
+                expect(execute("cd /dir && echo f*")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("file\n");
+            });
+
+            it("continues with the next operator if a command cannot be expanded", () => {
+                expect(execute("echo does-not-exist* || echo dome")).to.equal(ExitCode.OK);
+                expect(readErr()).to.contain("does not match any files");
+                expect(readOut()).to.equal("dome\n");
+            });
+        });
+
+        describe("control flow", () => {
+            beforeEach(() => {
+                loadCommand("echo");
+                loadCommand("false");
+                loadCommand("rm");
+                loadCommand("true");
+            });
+
+
+            describe("if", () => {
+                it("executes the body if the condition succeeds", () => {
+                    expect(execute("if true; then echo left; fi")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("left\n");
+                });
+
+                it("does not execute the body if the condition fails", () => {
+                    expect(execute("if false; then echo left; fi")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("");
+                });
+
+                it("executes the body of the first elif of which the condition succeeds", () => {
+                    expect(execute("if false; then echo left; elif true; then echo right; elif true; then echo up; fi"))
+                        .to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("right\n");
+                });
+
+                it("executes the else body if no condition succeeds", () => {
+                    expect(execute("if false; then echo left; else echo right; false; fi")).to.equal(ExitCode.MISC);
+                    expect(readOut()).to.equal("right\n");
+                });
+
+                it("uses the status of the last command in the condition", () => {
+                    expect(execute("if false; true; then echo left; fi")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("left\n");
+                });
+            });
+
+            describe("while", () => {
+                it("executes the body as long as the condition succeeds", () => {
+                    fileSystem.add(new Path("/file1"), new File(), false);
+
+                    expect(execute("while rm /file1; do echo loop; done")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("loop\n");
+                });
+
+                it("does not execute the body if the condition fails immediately", () => {
+                    expect(execute("while false; do echo loop; done")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("");
+                });
+            });
+
+            describe("for", () => {
+                it("executes the body for each word", () => {
+                    expect(execute("for x in wood 'ash tray'; do echo $x; done")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("wood\nash tray\n");
+                });
+
+                it("expands the words before iterating", () => {
+                    fileSystem.add(new Path("/dir/a"), new File(), true);
+                    fileSystem.add(new Path("/dir/b"), new File(), true);
+
+                    expect(execute("for x in /dir/* $(echo c d); do echo $x; done")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("/dir/a\n/dir/b\nc\nd\n");
+                });
+
+                it("retains the value of the variable after the loop", () => {
+                    expect(execute("for x in wood ash; do true; done")).to.equal(ExitCode.OK);
+                    expect(environment.get("x")).to.equal("ash");
+                });
+
+                it("writes an error if the variable is read-only", () => {
+                    expect(execute("for cwd in /dir; do echo $cwd; done")).to.equal(ExitCode.MISC);
+                    expect(readOut()).to.equal("");
+                    expect(readErr()).to.contain("Could not set loop variable");
+                });
+            });
+        });
+
+        describe("aliases", () => {
+            beforeEach(() => loadCommand("echo"));
+
+
+            it("executes the command that the alias refers to", () => {
+                aliases.set("say", "echo -n");
+
+                expect(execute("say calm sea")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("calm sea");
+            });
+
+            it("uses aliases that were defined earlier in the same input", () => {
+                loadCommand("alias");
+
+                expect(execute("alias say='echo -n' && say calm")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("calm");
+            });
+
+            it("writes an error if the alias does not expand to a simple command", () => {
+                aliases.set("say", "echo a; echo b");
+
+                expect(execute("say")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.contain("Alias 'say' does not expand to a simple command.");
+            });
+        });
+
+        describe("functions", () => {
+            beforeEach(() => loadCommand("echo"));
+
+
+            it("defines a function without executing it", () => {
+                expect(execute("greet() { echo hi; }")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("");
+                expect(commands.functions).to.have.own.property("greet");
+            });
+
+            it("executes the body of the function when it is invoked", () => {
+                execute("greet() { echo hi; echo there; }");
+
+                expect(execute("greet")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("hi\nthere\n");
+            });
+
+            it("passes arguments to the function as positional parameters", () => {
+                execute("greet() { echo $# $1 $2; }");
+
+                expect(execute("greet -n ink")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("2 -n ink\n");
+            });
+
+            it("supports a space between the name and the parentheses", () => {
+                execute("greet () { echo hi; }");
+
+                expect(execute("greet")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("hi\n");
+            });
+
+            it("returns the exit code of the last command in the body", () => {
+                loadCommand("false");
+                execute("fail() { echo hi; false; }");
+
+                expect(execute("fail")).to.equal(ExitCode.MISC);
+            });
+
+            it("redirects the output of the function", () => {
+                execute("greet() { echo hi; }");
+
+                expect(execute("greet > /file")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("");
+                expect((fileSystem.get(new Path("/file")) as File).contents).to.equal("hi\n");
+            });
+
+            it("can call other functions", () => {
+                execute("inner() { echo $1; }");
+                execute("outer() { inner $2; }");
+
+                expect(execute("outer ink pen")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("pen\n");
+            });
+
+            it("defines functions over multiple lines in a script", () => {
+                fileSystem.add(
+                    new Path("/script"),
+                    new File("#!/bin/josh\ngreet() {\n    echo $1\n}\ngreet pen"),
+                    false
+                );
+
+                expect(execute("/script")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("pen\n");
+            });
+        });
+
         describe("commands", () => {
             it("executes the target as a command if there is no shebang", () => {
                 const command = `return new Command(
@@ -260,6 +789,24 @@ describe("commands", () => {
             });
         });
 
+        describe("functions", () => {
+            it("resolves a function before a command from /bin", () => {
+                const command = `return new Command("", "Summary", "", "", "")`;
+                fileSystem.add(new Path("/bin/command"), new File(command), true);
+                execute("command() { echo; }");
+
+                expect(commands.resolve("command")).to.be.an.instanceOf(ShellFunction);
+            });
+
+            it("does not resolve a function when using a slash", () => {
+                const command = `return new Command("", "Summary", "", "", "")`;
+                fileSystem.add(new Path("/bin/command"), new File(command), true);
+                execute("command() { echo; }");
+
+                expect((commands.resolve("/bin/command") as Command).summary).to.equal("Summary");
+            });
+        });
+
         it("cannot resolve a command if the file cannot be parsed", () => {
             fileSystem.add(new Path("/command"), new File("invalid"), true);
 
@@ -267,7 +814,206 @@ describe("commands", () => {
         });
     });
 
-    describe("commands", () => {
+    describe("completion", () => {
+        describe("completeInput", () => {
+            beforeEach(() => {
+                loadCommand("echo");
+                loadCommand("ls");
+                fileSystem.add(new Path("/dir"), new Directory(), false);
+                fileSystem.add(new Path("/doc"), new File(), false);
+            });
+
+
+            it("completes the first word with the names of commands", () => {
+                expect(commands.completeInput("", "ec")).to.deep.equal([{value: "echo", description: "display text"}]);
+            });
+
+            it("completes the first word with paths if it contains a slash", () => {
+                expect(commands.completeInput("", "/d")).to.deep.equal([{value: "/dir/"}, {value: "/doc"}]);
+            });
+
+            it("completes the first word after a separator with the names of commands", () => {
+                [";", "\n", "|", "&&", "||"].forEach(separator =>
+                    expect(commands.completeInput(`ls ${separator} `, "ec"))
+                        .to.deep.equal([{value: "echo", description: "display text"}])
+                );
+            });
+
+            it("skips keywords before the first word", () => {
+                ["if ", "if a; then ", "if a; then b; elif ", "if a; then b; else ", "while ", "while a; do "]
+                    .forEach(left =>
+                        expect(commands.completeInput(left, "ec"))
+                            .to.deep.equal([{value: "echo", description: "display text"}])
+                    );
+            });
+
+            it("does not skip keywords after the first word", () => {
+                expect(commands.completeInput("ls do ", "d")).to.deep.equal([{value: "dir/"}, {value: "doc"}]);
+            });
+
+            it("completes a word starting with a dollar sign with the names of variables", () => {
+                environment.set("variable", "value");
+
+                expect(commands.completeInput("echo ", "$varia")).to.deep.equal([{value: "$variable"}]);
+            });
+
+            it("completes a word starting with a dollar sign and a brace with the names of variables", () => {
+                environment.set("variable", "value");
+
+                expect(commands.completeInput("", "${varia")).to.deep.equal([{value: "${variable}"}]);
+            });
+
+            it("completes a word starting with a dash with the options of the command", () => {
+                expect(commands.completeInput("a; ls ", "--"))
+                    .to.deep.equal([{value: "--all"}, {value: "--long"}]);
+            });
+
+            it("completes other words with the command they are an argument of", () => {
+                commands.setCompleter("echo", (_, word) => [{value: word + "1"}]);
+
+                expect(commands.completeInput("ls && echo ", "a")).to.deep.equal([{value: "a1"}]);
+            });
+
+            it("completes paths if the input before the word cannot be tokenized", () => {
+                expect(commands.completeInput("echo 'a ", "d")).to.deep.equal([{value: "dir/"}, {value: "doc"}]);
+            });
+        });
+
+        describe("complete", () => {
+            it("completes with the registered completion function", () => {
+                loadCommand("echo");
+                commands.setCompleter("echo", (_, word) => [{value: word + "1"}]);
+
+                expect(commands.complete(["echo"], "a")).to.deep.equal([{value: "a1"}]);
+            });
+
+            it("passes the arguments before the word to the completion function", () => {
+                loadCommand("echo");
+                commands.setCompleter("echo", input => input.args.map(it => ({value: it})));
+
+                expect(commands.complete(["echo", "-n", "a", "b"], "")).to.deep.equal([{value: "a"}, {value: "b"}]);
+            });
+
+            it("completes with the completion function of the command itself", () => {
+                loadCommand("userdel");
+                userList.add(new User("alice", "pwd"));
+                userList.add(new User("bob", "pwd", "/", "Builder"));
+
+                expect(commands.complete(["userdel"], "b")).to.deep.equal([{value: "bob", description: "Builder"}]);
+            });
+
+            it("completes the options of the command if there is no completion function", () => {
+                loadCommand("ls");
+
+                expect(commands.complete(["ls"], "--")).to.deep.equal([{value: "--all"}, {value: "--long"}]);
+            });
+
+            it("completes paths if there is no completion function", () => {
+                loadCommand("ls");
+                fileSystem.add(new Path("/dir"), new Directory(), false);
+                fileSystem.add(new Path("/doc"), new File(), false);
+
+                expect(commands.complete(["ls"], "d")).to.deep.equal([{value: "dir/"}, {value: "doc"}]);
+            });
+
+            it("completes in the default way if the completion function returns undefined", () => {
+                loadCommand("usermod");
+
+                expect(commands.complete(["usermod"], "--h")).to.deep.equal([{value: "--home"}]);
+            });
+
+            it("expands aliases before finding the completion function", () => {
+                loadCommand("help");
+                loadCommand("ls");
+                aliases.set("h", "help");
+
+                expect(commands.complete(["h"], "l"))
+                    .to.deep.equal([{value: "ls", description: "list directory contents"}]);
+            });
+
+            it("does not expand the arguments before the word", () => {
+                loadCommand("echo");
+                environment.set("x", "1");
+                commands.setCompleter("echo", input => input.args.map(it => ({value: it})));
+
+                expect(commands.complete(["echo", "$((x+=41))", "${y:=assigned}", "'a b'"], ""))
+                    .to.deep.equal([{value: "$((x+=41))"}, {value: "${y:=assigned}"}, {value: "a b"}]);
+                expect(environment.get("x")).to.equal("1");
+                expect(environment.has("y")).to.be.false;
+            });
+        });
+
+        describe("completeAction", () => {
+            it("completes the names of commands, aliases, and functions", () => {
+                loadCommand("echo");
+                aliases.set("ec", "echo");
+                execute("ecf() { echo; }");
+
+                expect(commands.completeAction("command", "ec")).to.deep.equal([
+                    {value: "ec", description: "alias"},
+                    {value: "ecf", description: "function"},
+                    {value: "echo", description: "display text"}
+                ]);
+            });
+
+            it("completes only directories", () => {
+                fileSystem.add(new Path("/dir"), new Directory(), false);
+                fileSystem.add(new Path("/doc"), new File(), false);
+
+                expect(commands.completeAction("directory", "d")).to.deep.equal([{value: "dir/"}]);
+            });
+
+            it("completes the names of variables", () => {
+                environment.set("var1", "a");
+                environment.set("var2", "b");
+
+                expect(commands.completeAction("variable", "var")).to.deep.equal([{value: "var1"}, {value: "var2"}]);
+            });
+
+            it("throws an error for an unknown action", () => {
+                expect(() => commands.completeAction("unknown", "")).to.throw("Unknown completion action 'unknown'.");
+            });
+        });
+    });
+
+    describe("commands", () => {
+        describe("alias", () => {
+            beforeEach(() => loadCommand("alias"));
+
+
+            it("defines the aliases", () => {
+                expect(execute("alias ll='ls -l' la=ls\\ -a")).to.equal(ExitCode.OK);
+                expect(aliases.aliases).to.deep.equal({ll: "ls -l", la: "ls -a"});
+            });
+
+            it("outputs the definitions of all aliases", () => {
+                aliases.load({ll: "ls -l", la: "echo 'a' > b"});
+
+                expect(execute("alias")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal(
+                    "alias la=&#039;echo &#039;\\&#039;&#039;a&#039;\\&#039;&#039; &gt; b&#039;\n" +
+                    "alias ll=&#039;ls -l&#039;\n"
+                );
+            });
+
+            it("outputs the definitions of the given aliases", () => {
+                aliases.load({ll: "ls -l", la: "ls -a"});
+
+                expect(execute("alias ll")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("alias ll=&#039;ls -l&#039;\n");
+            });
+
+            it("outputs an error if an alias does not exist", () => {
+                expect(execute("alias ll")).to.equal(ExitCode.MISC);
+                expect(readErr()).to.equal("alias: Unknown alias 'll'.\n");
+            });
+
+            it("outputs an error if the name is invalid", () => {
+                expect(execute("alias l/l=ls")).to.equal(ExitCode.MISC);
+                expect(readErr()).to.contain("alias: Alias names can only contain");
+            });
+        });
+
         describe("and", () => {
             beforeEach(() => {
                 loadCommand("and");
@@ -341,6 +1087,18 @@ describe("commands", () => {
                 expect(execute("cat /file1 /file2")).to.equal(ExitCode.OK);
                 expect(readOut()).to.equal("contents1\ncontents2\n");
             });
+
+            it("writes the contents of the input stream if no files are given", () => {
+                (streamSet.ins as Buffer).write("contents");
+
+                expect(execute("cat")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("contents\n");
+            });
+
+            it("writes nothing if no files are given and the input stream is empty", () => {
+                expect(execute("cat")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("");
+            });
         });
 
         describe("cd", () => {
@@ -374,6 +1132,53 @@ describe("commands", () => {
             });
         });
 
+        describe("complete", () => {
+            beforeEach(() => {
+                loadCommand("complete");
+                loadCommand("echo");
+            });
+
+
+            it("completes with the given words", () => {
+                expect(execute(`complete -W="apple apricot banana" echo`)).to.equal(ExitCode.OK);
+
+                expect(commands.complete(["echo"], "ap")).to.deep.equal([{value: "apple"}, {value: "apricot"}]);
+            });
+
+            it("completes with the given actions", () => {
+                environment.set("var", "value");
+                userList.add(new User("valerie", "pwd"));
+
+                expect(execute("complete -A=user,variable echo")).to.equal(ExitCode.OK);
+
+                expect(commands.complete(["echo"], "va").map(it => it.value)).to.deep.equal(["valerie", "var"]);
+            });
+
+            it("lists the commands for which a completion has been defined", () => {
+                execute("complete -W=a echo cat");
+
+                expect(execute("complete")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("cat\necho\n");
+            });
+
+            it("removes a completion", () => {
+                execute("complete -W=a echo");
+
+                expect(execute("complete -r echo")).to.equal(ExitCode.OK);
+                expect(commands.completers).to.not.have.property("echo");
+            });
+
+            it("fails if an action is unknown", () => {
+                expect(execute("complete -A=unknown echo")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("complete: Unknown action 'unknown'.\n");
+            });
+
+            it("fails if neither an action nor words are given", () => {
+                expect(execute("complete echo")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("complete: Expected an action or a list of words.\n");
+            });
+        });
+
         describe("cp", () => {
             beforeEach(() => loadCommand("cp"));
 
@@ -431,6 +1236,128 @@ describe("commands", () => {
             });
         });
 
+        describe("cut", () => {
+            beforeEach(() => loadCommand("cut"));
+
+
+            it("fails if no fields are given", () => {
+                expect(execute("cut")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("cut: Expected a list of fields.\n");
+            });
+
+            it("fails if the list of fields is invalid", () => {
+                expect(execute("cut -f=3-1")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("cut: Invalid list of fields '3-1'.\n");
+            });
+
+            it("fails if the list of fields is missing", () => {
+                expect(execute("cut -f 2")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("cut: Option '-f' requires a list of fields, as in '-f=1,3'.\n");
+            });
+
+            it("fails if the delimiter is missing", () => {
+                expect(execute("cut -d ' ' -f=2")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("cut: Option '-d' requires a delimiter, as in '-d=,'.\n");
+            });
+
+            it("fails if the delimiter is not a single character", () => {
+                expect(execute("cut -d=ab -f=1")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("cut: The delimiter must be a single character.\n");
+            });
+
+            it("selects fields separated by tabs by default", () => {
+                (streamSet.ins as Buffer).write("a\tb\tc\n");
+
+                expect(execute("cut -f=2")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("b\n");
+            });
+
+            it("selects lists and ranges of fields", () => {
+                fileSystem.add(new Path("/file"), new File("a:b:c:d:e\n"), false);
+
+                expect(execute("cut -d=: -f=1,3-4 /file")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("a:c:d\n");
+                expect(execute("cut -d=: -f=-2,4- /file")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("a:b:d:e\n");
+            });
+
+            it("writes lines without the delimiter as-is", () => {
+                fileSystem.add(new Path("/file"), new File("a:b\nc\n"), false);
+
+                expect(execute("cut -d=: -f=2 /file")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("b\nc\n");
+            });
+        });
+
+        describe("df", () => {
+            beforeEach(() => loadCommand("df"));
+
+
+            it("writes how much of the storage the file system uses", () => {
+                const used = JSON.stringify(fileSystem.root).length;
+
+                expect(execute("df")).to.equal(ExitCode.OK);
+                expect(readOut()).to.match(new RegExp(`^Filesystem .*\nlocalStorage +5242880 +${used} .* 1% +/\n$`));
+            });
+
+            it("writes human-readable sizes", () => {
+                expect(execute("df -h")).to.equal(ExitCode.OK);
+                expect(readOut()).to.match(/\nlocalStorage +5\.0M /);
+            });
+        });
+
+        describe("du", () => {
+            beforeEach(() => {
+                loadCommand("du");
+                fileSystem.add(new Path("/dir/file"), new File("a".repeat(1000)), true);
+                fileSystem.add(new Path("/dir/sub/file"), new File("a".repeat(2000)), true);
+                fileSystem.add(new Path("/dir/sub/deep/file"), new File("abc"), true);
+            });
+
+
+            it("fails if the file does not exist", () => {
+                expect(execute("du /missing")).to.equal(ExitCode.FILE_NOT_FOUND);
+                expect(readErr()).to.equal("du: '/missing': No such file or directory.\n");
+            });
+
+            it("fails if the depth is invalid", () => {
+                expect(execute("du -d=x /dir")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("du: Invalid depth 'x'.\n");
+            });
+
+            it("writes the sizes of all directories after their contents", () => {
+                expect(execute("du /dir")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("3\t/dir/sub/deep\n2003\t/dir/sub\n3003\t/dir\n");
+            });
+
+            it("writes the size of the current directory if no files are given", () => {
+                environment.set("cwd", "/dir/sub");
+
+                expect(execute("du")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("3\t./deep\n2003\t.\n");
+            });
+
+            it("writes the size of a given file", () => {
+                expect(execute("du /dir/file")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("1000\t/dir/file\n");
+            });
+
+            it("writes only the total size", () => {
+                expect(execute("du -s /dir /dir/sub")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("3003\t/dir\n2003\t/dir/sub\n");
+            });
+
+            it("limits the depth", () => {
+                expect(execute("du -d=1 /dir")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("2003\t/dir/sub\n3003\t/dir\n");
+            });
+
+            it("writes human-readable sizes", () => {
+                expect(execute("du -s -h /dir")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("3.0K\t/dir\n");
+            });
+        });
+
         describe("echo", () => {
             beforeEach(() => loadCommand("echo"));
 
@@ -449,7 +1376,7 @@ describe("commands", () => {
 
             describe("--newline", () => {
                 it("adds a newline to the end by default, even if there is already a newline", () => {
-                    expect(execute("echo a b c \n")).to.equal(ExitCode.OK);
+                    expect(execute("echo \"a b c \n\"")).to.equal(ExitCode.OK);
                     expect(readOut()).to.equal("a b c \n\n");
                 });
 
@@ -460,6 +1387,59 @@ describe("commands", () => {
             });
         });
 
+        describe("edit", () => {
+            beforeEach(() => loadCommand("edit"));
+
+
+            it("fails if the target is a directory", () => {
+                fileSystem.add(new Path("/dir"), new Directory(), false);
+
+                expect(execute("edit /dir")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("edit: '/dir' is a directory.\n");
+            });
+
+            it("fails if the parent directory does not exist", () => {
+                expect(execute("edit /dir/file")).to.equal(ExitCode.FILE_NOT_FOUND);
+                expect(readErr()).to.equal("edit: The directory '/dir' does not exist.\n");
+            });
+
+            it("asks the terminal to edit the file at the absolute path", () => {
+                fileSystem.add(new Path("/dir/file"), new File(), true);
+                environment.set("cwd", "/dir");
+
+                expect(execute("edit file")).to.equal(ExitCode.OK);
+                expect(commands.takeEditorRequest()).to.equal("/dir/file");
+            });
+
+            it("asks the terminal to edit a file that does not exist yet", () => {
+                expect(execute("edit /file")).to.equal(ExitCode.OK);
+                expect(commands.takeEditorRequest()).to.equal("/file");
+                expect(fileSystem.has(new Path("/file"))).to.be.false;
+            });
+
+            it("does not write to the output if the output is redirected", () => {
+                expect(execute("edit /file > /out")).to.equal(ExitCode.OK);
+                expect(commands.takeEditorRequest()).to.equal("/file");
+                expect(readOut()).to.equal("");
+                expect(fileSystem.open(new Path("/out"), "read").read()).to.equal("");
+            });
+
+            it("does not request an editor if the command fails", () => {
+                fileSystem.add(new Path("/dir"), new Directory(), false);
+
+                execute("edit /dir");
+
+                expect(commands.takeEditorRequest()).to.be.undefined;
+            });
+
+            it("clears the request once it has been taken", () => {
+                execute("edit /file");
+                commands.takeEditorRequest();
+
+                expect(commands.takeEditorRequest()).to.be.undefined;
+            });
+        });
+
         describe("exit", () => {
             beforeEach(() => loadCommand("exit"));
 
@@ -484,73 +1464,595 @@ describe("commands", () => {
             });
         });
 
-        describe("false", () => {
-            beforeEach(() => loadCommand("false"));
+        describe("expr", () => {
+            beforeEach(() => loadCommand("expr"));
 
 
-            it("sets the exit code to an erroneous value", () => {
-                expect(execute("false")).to.not.equal(ExitCode.OK);
+            it("evaluates arithmetic with the usual precedence", () => {
+                expect(execute("expr 1 + 2 '*' 3")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("7\n");
             });
-        });
 
-        describe("help", () => {
-            beforeEach(() => loadCommand("help"));
+            it("evaluates parentheses", () => {
+                expect(execute("expr \\( 1 + 2 \\) '*' 3")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("9\n");
+            });
 
+            it("compares integers numerically and other values as text", () => {
+                expect(execute("expr 10 '>' 9")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("1\n");
 
-            it("outputs an error if the command could not be found", () => {
-                expect(execute("help error")).to.equal(ExitCode.USAGE);
-                expect(readErr()).to.equal("help: Unknown command 'error'.\n");
+                expect(execute("expr 10 '>' a")).to.equal(ExitCode.MISC);
+                expect(readOut()).to.equal("0\n");
             });
 
-            it("outputs something if the command could be found", () => {
-                expect(execute("help help")).to.equal(ExitCode.OK);
-                expect(readOut()).to.not.equal("");
-            });
-        });
+            it("evaluates the logical operators", () => {
+                expect(execute("expr '' '|' b")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("b\n");
 
-        describe("hier", () => {
-            beforeEach(() => {
-                loadCommand("help");
-                loadCommand("hier");
+                expect(execute("expr a '&' 0")).to.equal(ExitCode.MISC);
+                expect(readOut()).to.equal("0\n");
             });
 
+            it("matches regular expressions", () => {
+                expect(execute("expr abc123 : '[a-z]*'")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("3\n");
 
-            it("outputs something", () => {
-                expect(execute("help hier")).to.equal(ExitCode.OK);
-                expect(readOut()).to.not.equal("");
+                expect(execute("expr file.txt : '.*\\.\\(.*\\)'")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("txt\n");
             });
-        });
 
-        describe("ls", () => {
-            beforeEach(() => loadCommand("ls"));
+            it("fails if the result is zero", () => {
+                expect(execute("expr 2 - 2")).to.equal(ExitCode.MISC);
+                expect(readOut()).to.equal("0\n");
+            });
 
+            it("fails if an operand is not an integer", () => {
+                expect(execute("expr a + 1")).to.equal(ExitCode.DATA_ERROR);
+                expect(readErr()).to.equal("expr: Non-integer argument 'a'.\n");
+            });
 
-            it("fails if the target does not exist", () => {
-                expect(execute("ls dir")).to.equal(ExitCode.FILE_NOT_FOUND);
-                expect(readErr()).to.equal("ls: The directory '/dir' does not exist.\n");
+            it("fails when dividing by zero", () => {
+                expect(execute("expr 1 / 0")).to.equal(ExitCode.DATA_ERROR);
+                expect(readErr()).to.equal("expr: Division by zero.\n");
             });
 
-            it("fails if the target is a file", () => {
-                fileSystem.add(new Path("file"), new File(), true);
+            it("fails if the expression is incomplete", () => {
+                expect(execute("expr 1 +")).to.equal(ExitCode.DATA_ERROR);
+                expect(readErr()).to.equal("expr: Unexpected end of expression.\n");
+            });
 
-                expect(execute("ls file")).to.equal(ExitCode.USAGE);
-                expect(readErr()).to.equal("ls: '/file' is not a directory.\n");
+            it("fails if there are too many arguments", () => {
+                expect(execute("expr 1 2")).to.equal(ExitCode.DATA_ERROR);
+                expect(readErr()).to.equal("expr: Unexpected argument '2'.\n");
             });
+        });
 
-            it("outputs something otherwise", () => {
-                fileSystem.add(new Path("dir"), new Directory(), true);
+        describe("false", () => {
+            beforeEach(() => loadCommand("false"));
 
-                expect(execute("ls dir")).to.equal(ExitCode.OK);
-                expect(readOut()).to.not.equal("");
+
+            it("sets the exit code to an erroneous value", () => {
+                expect(execute("false")).to.not.equal(ExitCode.OK);
             });
         });
 
-        describe("mkdir", () => {
-            beforeEach(() => loadCommand("mkdir"));
+        describe("find", () => {
+            beforeEach(() => {
+                loadCommand("find");
+                fileSystem.add(new Path("/dir/a.txt"), new File("contents"), true);
+                fileSystem.add(new Path("/dir/B.TXT"), new File(), false);
+                fileSystem.add(new Path("/dir/sub/c.md"), new File("x".repeat(1000)), true);
+                fileSystem.add(new Path("/dir/empty"), new Directory(), false);
+            });
 
 
-            it("fails if the given directory exists", () => {
-                fileSystem.add(new Path("/dir"), new Directory(), false);
+            it("fails if the path does not exist", () => {
+                expect(execute("find /missing")).to.equal(ExitCode.FILE_NOT_FOUND);
+                expect(readErr()).to.equal("find: '/missing': No such file or directory.\n");
+            });
+
+            it("fails if the predicate is unknown", () => {
+                expect(execute("find /dir -foo")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("find: Unknown predicate '-foo'.\n");
+            });
+
+            it("fails if the argument of a predicate is missing", () => {
+                expect(execute("find /dir -name")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("find: Missing argument to '-name'.\n");
+            });
+
+            it("fails if a parenthesis is not closed", () => {
+                expect(execute("find /dir \\( -empty")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("find: Expected ')'.\n");
+            });
+
+            it("writes all paths inside the given path", () => {
+                expect(execute("find /dir")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("/dir\n/dir/a.txt\n/dir/B.TXT\n/dir/sub\n/dir/sub/c.md\n/dir/empty\n");
+            });
+
+            it("writes relative paths inside the current directory if no path is given", () => {
+                environment.set("cwd", "/dir/sub");
+
+                expect(execute("find")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal(".\n./c.md\n");
+            });
+
+            it("visits the current directory if the expression is given without a path", () => {
+                environment.set("cwd", "/dir");
+
+                expect(execute("find -name '*.txt' -type f")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("./a.txt\n");
+            });
+
+            it("visits the current directory if the expression starts with an operator", () => {
+                environment.set("cwd", "/dir/sub");
+
+                expect(execute("find ! -name '*.md'")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal(".\n");
+            });
+
+            it("visits multiple paths", () => {
+                expect(execute("find /dir/sub /dir/a.txt")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("/dir/sub\n/dir/sub/c.md\n/dir/a.txt\n");
+            });
+
+            describe("tests", () => {
+                it("matches names", () => {
+                    expect(execute("find /dir -name '*.txt'")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("/dir/a.txt\n");
+                });
+
+                it("matches names ignoring case", () => {
+                    expect(execute("find /dir -iname '*.txt'")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("/dir/a.txt\n/dir/B.TXT\n");
+                });
+
+                it("matches paths", () => {
+                    expect(execute("find /dir -path '/dir/s*'")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("/dir/sub\n/dir/sub/c.md\n");
+                });
+
+                it("matches types", () => {
+                    expect(execute("find /dir -type d")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("/dir\n/dir/sub\n/dir/empty\n");
+                });
+
+                it("fails if the type is unknown", () => {
+                    expect(execute("find /dir -type x")).to.equal(ExitCode.USAGE);
+                    expect(readErr()).to.equal("find: Unknown type 'x'.\n");
+                });
+
+                it("matches empty files and directories", () => {
+                    expect(execute("find /dir -empty")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("/dir/B.TXT\n/dir/empty\n");
+                });
+
+                it("matches sizes", () => {
+                    expect(execute("find /dir -type f -size +1")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("/dir/sub/c.md\n");
+                    expect(execute("find /dir -type f -size -2k")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("/dir/a.txt\n/dir/B.TXT\n/dir/sub/c.md\n");
+                    expect(execute("find /dir -size 8c")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("/dir/a.txt\n");
+                });
+
+                it("limits the depth", () => {
+                    expect(execute("find /dir -mindepth 1 -maxdepth 1 -type d")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("/dir/sub\n/dir/empty\n");
+                });
+            });
+
+            describe("operators", () => {
+                it("negates expressions", () => {
+                    expect(execute("find /dir/sub ! -name c.md")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("/dir/sub\n");
+                    expect(execute("find /dir/sub -not -type d")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("/dir/sub/c.md\n");
+                });
+
+                it("combines expressions with and", () => {
+                    expect(execute("find /dir -type f -and -empty")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("/dir/B.TXT\n");
+                });
+
+                it("combines expressions with or", () => {
+                    expect(execute("find /dir -name a.txt -o -name c.md")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("/dir/a.txt\n/dir/sub/c.md\n");
+                });
+
+                it("groups expressions with parentheses", () => {
+                    expect(execute("find /dir -type f \\( -name a.txt -or -empty \\)")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("/dir/a.txt\n/dir/B.TXT\n");
+                });
+            });
+
+            describe("actions", () => {
+                it("writes only the paths that are printed explicitly", () => {
+                    expect(execute("find /dir -name a.txt -print -o -name c.md")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("/dir/a.txt\n");
+                });
+
+                it("deletes files and empty directories", () => {
+                    expect(execute("find /dir/sub -delete")).to.equal(ExitCode.OK);
+                    expect(fileSystem.has(new Path("/dir/sub"))).to.be.false;
+                });
+
+                it("does not delete directories that are not empty", () => {
+                    expect(execute("find /dir -name '*.txt' -o -name dir -delete")).to.equal(ExitCode.MISC);
+                    expect(readErr()).to.equal("find: Cannot delete '/dir': Directory is not empty.\n");
+                    expect(fileSystem.has(new Path("/dir"))).to.be.true;
+                });
+
+                it("executes commands", () => {
+                    loadCommand("echo");
+
+                    expect(execute("find /dir -name '*.md' -exec echo found '{}' \\;")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("found /dir/sub/c.md\n");
+                });
+
+                it("executes commands with unquoted braces", () => {
+                    loadCommand("echo");
+
+                    expect(execute("find /dir -name '*.md' -exec echo found {} \\;")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("found /dir/sub/c.md\n");
+                });
+
+                it("does not expand the path in the command", () => {
+                    loadCommand("echo");
+                    fileSystem.add(new Path("/dir/sub/[c].md"), new File(), false);
+
+                    expect(execute("find /dir/sub -name '*].md' -exec echo {} \\;")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("/dir/sub/[c].md\n");
+                });
+
+                it("fails if the command is not terminated", () => {
+                    expect(execute("find /dir -exec echo '{}'")).to.equal(ExitCode.USAGE);
+                    expect(readErr()).to.equal("find: Missing ';' after '-exec'.\n");
+                });
+            });
+        });
+
+        describe("functions", () => {
+            beforeEach(() => loadCommand("functions"));
+
+
+            it("outputs the definitions of all functions", () => {
+                execute("b() { echo <b; }");
+                execute("a() { echo a; }");
+
+                expect(execute("functions")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("a() { echo a; }\nb() { echo &lt;b; }\n");
+            });
+
+            it("outputs the definitions of the given functions", () => {
+                execute("a() { echo a; }");
+                execute("b() { echo b; }");
+
+                expect(execute("functions b")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("b() { echo b; }\n");
+            });
+
+            it("outputs an error if a function does not exist", () => {
+                expect(execute("functions a")).to.equal(ExitCode.MISC);
+                expect(readErr()).to.equal("functions: Unknown function 'a'.\n");
+            });
+        });
+
+        describe("grep", () => {
+            beforeEach(() => {
+                loadCommand("grep");
+                fileSystem.add(new Path("/file1"), new File("apple\nBanana\ncherry\n"), false);
+                fileSystem.add(new Path("/file2"), new File("banana split\n"), false);
+            });
+
+
+            it("fails if the file does not exist", () => {
+                expect(execute("grep a /file")).to.equal(ExitCode.FILE_NOT_FOUND);
+                expect(readErr()).to.equal("grep: '/file': No such file.\n");
+            });
+
+            it("fails if the pattern is invalid", () => {
+                expect(execute("grep -E '(' /file1")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.match(/^grep: /);
+            });
+
+            it("writes the lines that match", () => {
+                expect(execute("grep an /file1")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("Banana\n");
+            });
+
+            it("fails if no lines match", () => {
+                expect(execute("grep xyz /file1")).to.equal(ExitCode.MISC);
+                expect(readOut()).to.equal("");
+            });
+
+            it("searches the input stream if no files are given", () => {
+                (streamSet.ins as Buffer).write("one\ntwo\n");
+
+                expect(execute("grep o")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("one\ntwo\n");
+            });
+
+            it("prefixes lines with the file name if multiple files are given", () => {
+                expect(execute("grep -i banana /file1 /file2")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("/file1:Banana\n/file2:banana split\n");
+            });
+
+            it("inverts the match", () => {
+                expect(execute("grep -v an /file1")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("apple\ncherry\n");
+            });
+
+            it("prefixes lines with their line number", () => {
+                expect(execute("grep -n e /file1")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("1:apple\n3:cherry\n");
+            });
+
+            it("counts the lines that match", () => {
+                expect(execute("grep -c a /file1 /file2")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("/file1:2\n/file2:1\n");
+            });
+
+            it("writes the names of the files that match", () => {
+                expect(execute("grep -l split /file1 /file2")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("/file2\n");
+            });
+
+            it("treats special characters literally in basic regular expressions", () => {
+                (streamSet.ins as Buffer).write("a+b\naab\n");
+
+                expect(execute("grep 'a+b'")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("a+b\n");
+            });
+
+            it("treats escaped special characters as operators in basic regular expressions", () => {
+                (streamSet.ins as Buffer).write("a+b\naab\n");
+
+                expect(execute("grep '^a\\+b'")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("aab\n");
+            });
+
+            it("treats special characters as operators in extended regular expressions", () => {
+                (streamSet.ins as Buffer).write("ab\ncd\nef\n");
+
+                expect(execute("grep -E 'ab|ef'")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("ab\nef\n");
+            });
+
+            it("searches directories recursively", () => {
+                fileSystem.add(new Path("/dir/sub/file"), new File("pear\n"), true);
+
+                expect(execute("grep -r pear /dir")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("/dir/sub/file:pear\n");
+            });
+
+            it("searches the current directory recursively if no files are given", () => {
+                fileSystem.add(new Path("/dir/file"), new File("pear\n"), true);
+                environment.set("cwd", "/dir");
+
+                expect(execute("grep -r pear")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("file:pear\n");
+            });
+        });
+
+        describe("head", () => {
+            beforeEach(() => {
+                loadCommand("head");
+                fileSystem.add(new Path("/file"), new File([...Array(12).keys()].join("\n") + "\n"), false);
+            });
+
+
+            it("fails if the number of lines is missing", () => {
+                expect(execute("head -n 2 /file")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("head: Option '-n' requires a count, as in '-n=5'.\n");
+            });
+
+            it("fails if the number of lines is invalid", () => {
+                expect(execute("head -n=x /file")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("head: Invalid number of lines 'x'.\n");
+            });
+
+            it("writes the first 10 lines", () => {
+                expect(execute("head /file")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("0\n1\n2\n3\n4\n5\n6\n7\n8\n9\n");
+            });
+
+            it("writes the given number of lines", () => {
+                expect(execute("head -n=2 /file")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("0\n1\n");
+            });
+
+            it("reads the input stream if no files are given", () => {
+                (streamSet.ins as Buffer).write("a\nb\n");
+
+                expect(execute("head --lines=1")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("a\n");
+            });
+
+            it("writes headers if multiple files are given", () => {
+                fileSystem.add(new Path("/file2"), new File("a\n"), false);
+
+                expect(execute("head -n=1 /file /file2")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("==&gt; /file &lt;==\n0\n\n==&gt; /file2 &lt;==\na\n");
+            });
+        });
+
+        describe("help", () => {
+            beforeEach(() => loadCommand("help"));
+
+
+            it("outputs an error if the command could not be found", () => {
+                expect(execute("help error")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("help: Unknown command 'error'.\n");
+            });
+
+            it("outputs something if the command could be found", () => {
+                expect(execute("help help")).to.equal(ExitCode.OK);
+                expect(readOut()).to.not.equal("");
+            });
+
+            it("outputs the value of an alias", () => {
+                aliases.set("ll", "ls -l");
+
+                expect(execute("help ll")).to.equal(ExitCode.OK);
+                expect(readOut()).to.contain("<b>Alias for</b>\nls -l");
+            });
+
+            it("outputs the definition of a function", () => {
+                execute("greet() { echo hi; }");
+
+                expect(execute("help greet")).to.equal(ExitCode.OK);
+                expect(readOut()).to.contain("greet() { echo hi; }");
+            });
+        });
+
+        describe("hier", () => {
+            beforeEach(() => {
+                loadCommand("help");
+                loadCommand("hier");
+            });
+
+
+            it("outputs something", () => {
+                expect(execute("help hier")).to.equal(ExitCode.OK);
+                expect(readOut()).to.not.equal("");
+            });
+        });
+
+        describe("history", () => {
+            beforeEach(() => {
+                loadCommand("history");
+
+                history.add("echo a");
+                history.setStatus(0);
+                history.add("cat b");
+                history.setStatus(1);
+                history.add("echo c");
+            });
+
+            const line = (position: number, status: string, input: string) =>
+                `${position.toString().padStart(5)}  [0-9-]{10} [0-9:]{8}  ${status.padStart(3)}  ${input}\n`;
+
+
+            it("outputs all entries starting with the oldest entry", () => {
+                expect(execute("history")).to.equal(ExitCode.OK);
+                const lines = line(1, "0", "echo a") + line(2, "1", "cat b") + line(3, "", "echo c");
+                expect(readOut()).to.match(new RegExp(`^${lines}$`));
+            });
+
+            it("outputs entries without a timestamp", () => {
+                commands = new Commands(environment, userList, fileSystem, aliases, new InputHistory([{input: "old"}]));
+
+                expect(execute("history")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal(`    1  ${" ".repeat(19)}       old\n`);
+            });
+
+            it("outputs only the given number of newest entries", () => {
+                expect(execute("history 2")).to.equal(ExitCode.OK);
+                expect(readOut()).to.match(new RegExp(`^${line(2, "1", "cat b")}${line(3, "", "echo c")}$`));
+            });
+
+            it("outputs only the entries that contain the search term", () => {
+                expect(execute("history -s echo")).to.equal(ExitCode.OK);
+                expect(readOut()).to.match(new RegExp(`^${line(1, "0", "echo a")}${line(3, "", "echo c")}$`));
+            });
+
+            it("outputs only the given number of newest entries that contain the search term", () => {
+                expect(execute("history -s=echo 1")).to.equal(ExitCode.OK);
+                expect(readOut()).to.match(new RegExp(`^${line(3, "", "echo c")}$`));
+            });
+
+            it("outputs an error if the search term is missing", () => {
+                expect(execute("history -s")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("history: Option '-s' requires a term.\n");
+            });
+
+            it("outputs an error if the count is not a number", () => {
+                expect(execute("history a")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("history: Invalid count 'a'.\n");
+            });
+
+            it("deletes the entry at the given position", () => {
+                expect(execute("history -d 2")).to.equal(ExitCode.OK);
+
+                expect(history.entries.map(it => it.input)).to.deep.equal(["echo c", "echo a"]);
+            });
+
+            it("deletes the entry at the position assigned to the option", () => {
+                expect(execute("history --delete=1")).to.equal(ExitCode.OK);
+
+                expect(history.entries.map(it => it.input)).to.deep.equal(["echo c", "cat b"]);
+            });
+
+            it("outputs an error if the position to delete is missing", () => {
+                expect(execute("history -d")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("history: Option '-d' requires a position.\n");
+            });
+
+            it("outputs an error if the position to delete is out of range", () => {
+                expect(execute("history -d 4")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("history: Position '4' is out of range.\n");
+            });
+
+            it("clears the history", () => {
+                expect(execute("history -c")).to.equal(ExitCode.OK);
+
+                expect(history.entries).to.have.length(0);
+            });
+        });
+
+        describe("let", () => {
+            beforeEach(() => loadCommand("let"));
+
+
+            it("evaluates the expressions in order", () => {
+                expect(execute("let a=2 'b = a * 3'")).to.equal(ExitCode.OK);
+                expect(environment.get("a")).to.equal("2");
+                expect(environment.get("b")).to.equal("6");
+            });
+
+            it("fails if the last expression is zero", () => {
+                expect(execute("let 1 0")).to.equal(ExitCode.MISC);
+            });
+
+            it("fails if an expression is invalid", () => {
+                expect(execute("let '1 +'")).to.equal(ExitCode.MISC);
+                expect(readErr()).to.equal("let: Unexpected end of arithmetic expression.\n");
+            });
+        });
+
+        describe("ls", () => {
+            beforeEach(() => loadCommand("ls"));
+
+
+            it("fails if the target does not exist", () => {
+                expect(execute("ls dir")).to.equal(ExitCode.FILE_NOT_FOUND);
+                expect(readErr()).to.equal("ls: The directory '/dir' does not exist.\n");
+            });
+
+            it("fails if the target is a file", () => {
+                fileSystem.add(new Path("file"), new File(), true);
+
+                expect(execute("ls file")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("ls: '/file' is not a directory.\n");
+            });
+
+            it("outputs something otherwise", () => {
+                fileSystem.add(new Path("dir"), new Directory(), true);
+
+                expect(execute("ls dir")).to.equal(ExitCode.OK);
+                expect(readOut()).to.not.equal("");
+            });
+        });
+
+        describe("mkdir", () => {
+            beforeEach(() => loadCommand("mkdir"));
+
+
+            it("fails if the given directory exists", () => {
+                fileSystem.add(new Path("/dir"), new Directory(), false);
 
                 expect(execute("mkdir /dir")).to.equal(ExitCode.MISC);
                 expect(readErr()).to.equal("mkdir: A file or directory already exists at '/dir'.\n");
@@ -571,6 +2073,13 @@ describe("commands", () => {
                 expect(fileSystem.has(new Path("/parent/dir1"))).to.be.true;
                 expect(fileSystem.has(new Path("/dir2"))).to.be.true;
             });
+
+            it("creates the directories given by a brace expression", () => {
+                expect(execute("mkdir -p /project/{src,test,docs}")).to.equal(ExitCode.OK);
+                expect(fileSystem.has(new Path("/project/src"))).to.be.true;
+                expect(fileSystem.has(new Path("/project/test"))).to.be.true;
+                expect(fileSystem.has(new Path("/project/docs"))).to.be.true;
+            });
         });
 
         describe("mv", () => {
@@ -607,302 +2116,932 @@ describe("commands", () => {
                 fileSystem.add(new Path("/src2"), new File("contents2"), false);
                 fileSystem.add(new Path("/dst"), new File(), false);
 
-                expect(execute("mv /src1 /src2 /dst")).to.equal(ExitCode.MISC);
-                expect(readErr()).to.equal("mv: '/dst' is not a directory.\n");
+                expect(execute("mv /src1 /src2 /dst")).to.equal(ExitCode.MISC);
+                expect(readErr()).to.equal("mv: '/dst' is not a directory.\n");
+            });
+
+            it("moves all sources into the target directory", () => {
+                fileSystem.add(new Path("/src1"), new File("contents1"), false);
+                fileSystem.add(new Path("/src2"), new File("contents2"), false);
+                fileSystem.add(new Path("/dst"), new Directory(), false);
+
+                expect(execute("mv /src1 /src2 /dst")).to.equal(ExitCode.OK);
+                expect(fileSystem.has(new Path("/src1"))).to.be.false;
+                expect(fileSystem.has(new Path("/src2"))).to.be.false;
+                expect(fileSystem.open(new Path("/dst/src1"), "read").read()).to.equal("contents1");
+                expect(fileSystem.open(new Path("/dst/src2"), "read").read()).to.equal("contents2");
+            });
+        });
+
+        describe("nano", () => {
+            beforeEach(() => {
+                loadCommand("edit");
+                loadCommand("nano");
+            });
+
+
+            it("asks the terminal to edit the file in the same way as edit", () => {
+                expect(execute("nano /file")).to.equal(ExitCode.OK);
+                expect(commands.takeEditorRequest()).to.equal("/file");
+            });
+
+            it("reports errors in the same way as edit", () => {
+                expect(execute("nano /dir/file")).to.equal(ExitCode.FILE_NOT_FOUND);
+                expect(readErr()).to.equal("edit: The directory '/dir' does not exist.\n");
+            });
+        });
+
+        describe("not", () => {
+            beforeEach(() => {
+                loadCommand("not");
+                loadCommand("rm");
+            });
+
+
+            it("returns 0 if the given command exits unsuccessfully", () => {
+                expect(execute("not rm /file")).to.equal(ExitCode.OK);
+            });
+
+            it("returns 1 if the command exits successfully", () => {
+                fileSystem.add(new Path("/file"), new File(), false);
+
+                expect(execute("not rm /file")).to.equal(1);
+            });
+        });
+
+        describe("open", () => {
+            before(() => {
+                window.matchMedia = window.matchMedia || function() {
+                    return {matches: false, addListener: emptyFunction, removeListener: emptyFunction};
+                };
+            });
+
+            beforeEach(() => loadCommand("open"));
+
+
+            it("fails if the file does not exist", () => {
+                expect(execute("open file.lnk")).to.equal(ExitCode.MISC);
+                expect(readErr()).to.equal("open: File '/file.lnk' does not exist.\n");
+            });
+        });
+
+        describe("or", () => {
+            beforeEach(() => {
+                loadCommand("or");
+                loadCommand("echo");
+            });
+
+
+            it("does nothing if the previous command exited successfully", () => {
+                environment.set("status", "" + ExitCode.OK);
+
+                expect(execute("or echo 'message'")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("");
+            });
+
+            it("executes the command if the previous command did not exit successfully", () => {
+                environment.set("status", "-1");
+
+                expect(execute("or echo 'message'")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("message\n");
+            });
+        });
+
+        describe("poweroff", () => {
+            beforeEach(() => loadCommand("poweroff"));
+
+
+            it("fails if no user is logged in", () => {
+                environment.set("user", "");
+
+                expect(execute("poweroff")).to.equal(ExitCode.MISC);
+                expect(readErr()).to.equal("poweroff: Cannot execute while not logged in.\n");
+            });
+
+            // TODO: Suppress the annoying exception output here
+            it("it outputs something", () => {
+                environment.set("user", "user");
+
+                expect(execute("poweroff")).to.equal(ExitCode.OK);
+                expect(readOut().trim()).to.not.equal("");
+            });
+        });
+
+        describe("pwd", () => {
+            beforeEach(() => loadCommand("pwd"));
+
+
+            it("writes the cwd variable to the output stream", () => {
+                environment.set("cwd", "/dir");
+
+                expect(execute("pwd")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("/dir\n");
+            });
+
+            it("writes an empty string if the cwd variable has no value", () => {
+                environment.set("cwd", "");
+
+                expect(execute("pwd")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("\n");
+            });
+        });
+
+        describe("rm", () => {
+            beforeEach(() => loadCommand("rm"));
+
+
+            it("fails if the target does not exist", () => {
+                expect(execute("rm /file")).to.equal(ExitCode.FILE_NOT_FOUND);
+                expect(readErr()).to.equal("rm: The file '/file' does not exist.\n");
+            });
+
+            it("does nothing if the target does not exist but the force option is given", () => {
+                expect(execute("rm -f /file")).to.equal(ExitCode.OK);
+                expect(readErr()).to.equal("");
+            });
+
+            it("fails if the target is a directory", () => {
+                fileSystem.add(new Path("/dir"), new Directory(), false);
+
+                expect(execute("rm /dir")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("rm: '/dir' is a directory.\n");
+            });
+
+            it("removes an empty directory if the recursive option is given", () => {
+                fileSystem.add(new Path("/dir"), new Directory(), false);
+
+                expect(execute("rm -r /dir")).to.equal(ExitCode.OK);
+                expect(fileSystem.has(new Path("/dir"))).to.be.false;
+            });
+
+            it("removes a non-empty directory if the recursive option is given", () => {
+                fileSystem.add(new Path("/dir/file"), new File(), true);
+
+                expect(execute("rm -r /dir")).to.equal(ExitCode.OK);
+                expect(fileSystem.has(new Path("/dir"))).to.be.false;
+            });
+
+            it("fails if the target is the root even though the recursive option is given", () => {
+                expect(execute("rm -r /")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("rm: Cannot remove root directory.\n");
+            });
+
+            it("removes the root if the recursive and no-preserve-root options are given", () => {
+                fileSystem.add(new Path("/dir"), new Directory(), false);
+
+                expect(execute("rm -r --no-preserve-root /")).to.equal(ExitCode.OK);
+                expect(fileSystem.has(new Path("/dir"))).to.be.false;
+                expect(fileSystem.has(new Path("/"))).to.be.true;
+            });
+
+            it("removes the given file", () => {
+                fileSystem.add(new Path("/file"), new File(), false);
+
+                expect(execute("rm /file")).to.equal(ExitCode.OK);
+                expect(fileSystem.has(new Path("/file"))).to.be.false;
+            });
+
+            it("removes files but not directories if the recursive option is not given", () => {
+                fileSystem.add(new Path("/dir"), new Directory(), false);
+                fileSystem.add(new Path("/file"), new File(), false);
+
+                expect(execute("rm /dir /file")).to.equal(ExitCode.USAGE);
+                expect(fileSystem.has(new Path("/dir"))).to.be.true;
+                expect(fileSystem.has(new Path("/file"))).to.be.false;
+            });
+        });
+
+        describe("rmdir", () => {
+            beforeEach(() => loadCommand("rmdir"));
+
+
+            it("fails if the target does not exist", () => {
+                expect(execute("rmdir /dir")).to.equal(ExitCode.FILE_NOT_FOUND);
+                expect(readErr()).to.equal("rmdir: '/dir' does not exist.\n");
+            });
+
+            it("fails if the target is not a directory", () => {
+                fileSystem.add(new Path("/file"), new File(), false);
+
+                expect(execute("rmdir /file")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("rmdir: '/file' is not a directory.\n");
+            });
+
+            it("fails if the target is not empty", () => {
+                fileSystem.add(new Path("/dir/file"), new File(), true);
+
+                expect(execute("rmdir /dir")).to.equal(ExitCode.MISC);
+                expect(readErr()).to.equal("rmdir: '/dir' is not empty.\n");
+            });
+
+            it("removes the target if it is an empty directory", () => {
+                fileSystem.add(new Path("/dir"), new Directory(), false);
+
+                expect(execute("rmdir /dir")).to.equal(ExitCode.OK);
+                expect(fileSystem.has(new Path("/dir"))).to.be.false;
+            });
+
+            it("removes the targets if they're empty directories", () => {
+                fileSystem.add(new Path("/dir1/dir2"), new Directory(), true);
+
+                expect(execute("rmdir /dir1/dir2 /dir1")).to.equal(ExitCode.OK);
+                expect(fileSystem.has(new Path("/dir1"))).to.be.false;
+            });
+        });
+
+        describe("sed", () => {
+            beforeEach(() => {
+                loadCommand("sed");
+                fileSystem.add(new Path("/file"), new File("one\ntwo\nthree\nfour\n"), false);
+            });
+
+
+            it("fails if the file does not exist", () => {
+                expect(execute("sed p /missing")).to.equal(ExitCode.FILE_NOT_FOUND);
+                expect(readErr()).to.equal("sed: '/missing': No such file.\n");
+            });
+
+            it("fails if the command is unknown", () => {
+                expect(execute("sed x /file")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("sed: Unknown command 'x'.\n");
+            });
+
+            it("fails if the command is missing", () => {
+                expect(execute("sed 1 /file")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("sed: Expected a command.\n");
+            });
+
+            it("fails if a substitution is unterminated", () => {
+                expect(execute("sed s/a/b /file")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("sed: Unterminated 's' command.\n");
+            });
+
+            it("fails if a substitution has an unknown flag", () => {
+                expect(execute("sed s/a/b/x /file")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("sed: Unknown flag 'x' in 's' command.\n");
+            });
+
+            it("fails if an address regex is unterminated", () => {
+                expect(execute("sed /a /file")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("sed: Unterminated address regex.\n");
+            });
+
+            it("fails if a command is followed by other characters", () => {
+                expect(execute("sed 'p x' /file")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("sed: Unexpected 'x' after command 'p'.\n");
+            });
+
+            it("writes the input unchanged if the script is empty", () => {
+                expect(execute("sed '' /file")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("one\ntwo\nthree\nfour\n");
+            });
+
+            it("reads the input stream if no files are given", () => {
+                (streamSet.ins as Buffer).write("abc\n");
+
+                expect(execute("sed s/b/x/")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("axc\n");
+            });
+
+            describe("s", () => {
+                it("replaces the first match", () => {
+                    expect(execute("sed s/o/0/ /file")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("0ne\ntw0\nthree\nf0ur\n");
+                });
+
+                it("replaces all matches", () => {
+                    (streamSet.ins as Buffer).write("aaa\n");
+
+                    expect(execute("sed s/a/b/g")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("bbb\n");
+                });
+
+                it("ignores case", () => {
+                    (streamSet.ins as Buffer).write("ABC\n");
+
+                    expect(execute("sed s/b/x/i")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("AxC\n");
+                });
+
+                it("inserts the match", () => {
+                    expect(execute("sed 's/t.*/[&]/' /file")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("one\n[two]\n[three]\nfour\n");
+                });
+
+                it("inserts capture groups in basic regular expressions", () => {
+                    (streamSet.ins as Buffer).write("john smith\n");
+
+                    expect(execute("sed 's/\\(.*\\) \\(.*\\)/\\2, \\1/'")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("smith, john\n");
+                });
+
+                it("inserts capture groups in extended regular expressions", () => {
+                    (streamSet.ins as Buffer).write("john smith\n");
+
+                    expect(execute("sed -E 's/(.*) (.*)/\\2, \\1/'")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("smith, john\n");
+                });
+
+                it("inserts escaped characters literally", () => {
+                    (streamSet.ins as Buffer).write("a\n");
+
+                    expect(execute("sed 's/a/\\&\\\\/'")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("&\\\n");
+                });
+
+                it("uses a different delimiter", () => {
+                    (streamSet.ins as Buffer).write("/usr/bin\n");
+
+                    expect(execute("sed 's|/usr|/opt|'")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("/opt/bin\n");
+                });
+
+                it("writes lines in which a replacement was made", () => {
+                    expect(execute("sed -n s/e/E/p /file")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("onE\nthrEe\n");
+                });
+            });
+
+            describe("d", () => {
+                it("deletes all lines", () => {
+                    expect(execute("sed d /file")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("");
+                });
+
+                it("skips the remaining commands", () => {
+                    expect(execute("sed '2d;s/^/-/' /file")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("-one\n-three\n-four\n");
+                });
+            });
+
+            describe("p", () => {
+                it("writes lines twice", () => {
+                    expect(execute("sed 1p /file")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("one\none\ntwo\nthree\nfour\n");
+                });
+
+                it("writes lines once if quiet", () => {
+                    expect(execute("sed -n 2p /file")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("two\n");
+                });
+            });
+
+            describe("q", () => {
+                it("writes the line and stops", () => {
+                    expect(execute("sed 2q /file")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("one\ntwo\n");
+                });
+            });
+
+            describe("addresses", () => {
+                it("selects the last line", () => {
+                    expect(execute("sed '$d' /file")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("one\ntwo\nthree\n");
+                });
+
+                it("selects lines that match a regex", () => {
+                    expect(execute("sed -n /^t/p /file")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("two\nthree\n");
+                });
+
+                it("selects a range of line numbers", () => {
+                    expect(execute("sed 2,3d /file")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("one\nfour\n");
+                });
+
+                it("selects a range up to the last line", () => {
+                    expect(execute("sed '3,$d' /file")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("one\ntwo\n");
+                });
+
+                it("selects a range between regexes", () => {
+                    expect(execute("sed -n /two/,/four/p /file")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("two\nthree\nfour\n");
+                });
+
+                it("checks the end regex only after the start of the range", () => {
+                    expect(execute("sed -n /o/,/o/p /file")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("one\ntwo\nfour\n");
+                });
+
+                it("selects a single line if the range ends before it starts", () => {
+                    expect(execute("sed -n 3,1p /file")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("three\n");
+                });
+
+                it("fails if the line number is zero", () => {
+                    expect(execute("sed 0d /file")).to.equal(ExitCode.USAGE);
+                    expect(readErr()).to.equal("sed: Invalid address '0'.\n");
+                });
+            });
+
+            describe("in-place editing", () => {
+                it("fails if no files are given", () => {
+                    expect(execute("sed -i d")).to.equal(ExitCode.USAGE);
+                    expect(readErr()).to.equal("sed: Expected a file to edit in place.\n");
+                });
+
+                it("fails if the standard input is given as a file", () => {
+                    (streamSet.ins as Buffer).write("x\n");
+
+                    expect(execute("sed -i s/x/y/ /file -")).to.equal(ExitCode.USAGE);
+                    expect(readErr()).to.equal("sed: Cannot edit the standard input in place.\n");
+                    expect((fileSystem.get(new Path("/file")) as File).contents).to.equal("one\ntwo\nthree\nfour\n");
+                    expect(fileSystem.has(new Path("/(standard input)"))).to.be.false;
+                });
+
+                it("writes the result to the file", () => {
+                    expect(execute("sed -i 's/o/0/g;/f/d' /file")).to.equal(ExitCode.OK);
+                    expect(readOut()).to.equal("");
+                    expect((fileSystem.get(new Path("/file")) as File).contents).to.equal("0ne\ntw0\nthree\n");
+                });
+
+                it("edits each file separately", () => {
+                    fileSystem.add(new Path("/file2"), new File("a\nb\n"), false);
+
+                    expect(execute("sed -i 1d /file /file2")).to.equal(ExitCode.OK);
+                    expect((fileSystem.get(new Path("/file")) as File).contents).to.equal("two\nthree\nfour\n");
+                    expect((fileSystem.get(new Path("/file2")) as File).contents).to.equal("b\n");
+                });
+            });
+        });
+
+        describe("set", () => {
+            beforeEach(() => loadCommand("set"));
+
+
+            it("creates a variable if it does not exist", () => {
+                expect(execute("set var val")).to.equal(ExitCode.OK);
+                expect(environment.variables["var"]).to.equal("val");
+            });
+
+            it("changes a variable if it exists", () => {
+                environment.set("var", "old");
+
+                expect(execute("set var new")).to.equal(ExitCode.OK);
+                expect(environment.variables["var"]).to.equal("new");
+            });
+
+            it("removes the variable if no value is given", () => {
+                environment.set("var", "val");
+
+                expect(execute("set var")).to.equal(ExitCode.OK);
+                expect(environment.variables["var"]).to.be.undefined;
+            });
+
+            it("cannot change a read-only variable", () => {
+                environment.set("cwd", "old");
+
+                expect(execute("set cwd new")).to.equal(ExitCode.MISC);
+                expect(readErr()).to.equal("set: Cannot set read-only environment variable.\n");
+                expect(environment.variables["cwd"]).to.equal("old");
+            });
+
+            it("cannot remove a read-only variable", () => {
+                environment.set("cwd", "old");
+
+                expect(execute("set cwd")).to.equal(ExitCode.MISC);
+                expect(readErr()).to.equal("set: Cannot set read-only environment variable.\n");
+                expect(environment.variables["cwd"]).to.equal("old");
+            });
+
+            it("enables a shell option", () => {
+                expect(execute("set -o vi")).to.equal(ExitCode.OK);
+                expect(environment.get("vi")).to.equal("on");
+            });
+
+            it("disables a shell option", () => {
+                environment.set("vi", "on");
+
+                expect(execute("set +o vi")).to.equal(ExitCode.OK);
+                expect(environment.get("vi")).to.equal("off");
+            });
+
+            it("disables vi mode when enabling emacs mode", () => {
+                environment.set("vi", "on");
+
+                expect(execute("set -o emacs")).to.equal(ExitCode.OK);
+                expect(environment.get("vi")).to.equal("off");
+            });
+
+            it("shows all shell options", () => {
+                expect(execute("set -o")).to.equal(ExitCode.OK);
+                expect(readOut()).to.contain("nullglob\toff\nvi\toff\n");
+            });
+
+            it("outputs an error if the shell option does not exist", () => {
+                expect(execute("set -o unknown")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("set: Unknown option 'unknown'.\n");
+            });
+        });
+
+        describe("shopt", () => {
+            beforeEach(() => loadCommand("shopt"));
+
+
+            it("shows all shell options", () => {
+                environment.set("globstar", "on");
+
+                expect(execute("shopt")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal(
+                    "extglob\toff\nfailglob\ton\nglobstar\ton\nnoclobber\toff\nnullglob\toff\nvi\toff\n"
+                );
+            });
+
+            it("shows only the enabled shell options", () => {
+                expect(execute("shopt -s")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("failglob\ton\n");
+            });
+
+            it("enables the given shell options", () => {
+                expect(execute("shopt -s extglob globstar")).to.equal(ExitCode.OK);
+                expect(environment.get("extglob")).to.equal("on");
+                expect(environment.get("globstar")).to.equal("on");
+            });
+
+            it("disables the given shell options", () => {
+                expect(execute("shopt --unset failglob")).to.equal(ExitCode.OK);
+                expect(environment.get("failglob")).to.equal("off");
+            });
+
+            it("fails if some of the given shell options are disabled", () => {
+                expect(execute("shopt failglob nullglob")).to.equal(ExitCode.MISC);
+                expect(readOut()).to.equal("failglob\ton\nnullglob\toff\n");
+            });
+
+            it("fails if an option does not exist", () => {
+                expect(execute("shopt -s unknown")).to.equal(ExitCode.MISC);
+                expect(readErr()).to.equal("shopt: Unknown option 'unknown'.\n");
+            });
+
+            it("fails if options are set and unset at the same time", () => {
+                expect(execute("shopt -s -u extglob")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("shopt: Cannot set and unset options at the same time.\n");
+            });
+        });
+
+        describe("sort", () => {
+            beforeEach(() => loadCommand("sort"));
+
+
+            it("fails if the field is missing", () => {
+                expect(execute("sort -k 2")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("sort: Option '-k' requires a field, as in '-k=2'.\n");
+            });
+
+            it("fails if the field is invalid", () => {
+                expect(execute("sort -k=0")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("sort: Invalid field '0'.\n");
+            });
+
+            it("sorts the lines of the input stream", () => {
+                (streamSet.ins as Buffer).write("c\na\nb\n");
+
+                expect(execute("sort")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("a\nb\nc\n");
+            });
+
+            it("sorts the lines of all files together", () => {
+                fileSystem.add(new Path("/file1"), new File("d\nb\n"), false);
+                fileSystem.add(new Path("/file2"), new File("c\na\n"), false);
+
+                expect(execute("sort /file1 /file2")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("a\nb\nc\nd\n");
             });
 
-            it("moves all sources into the target directory", () => {
-                fileSystem.add(new Path("/src1"), new File("contents1"), false);
-                fileSystem.add(new Path("/src2"), new File("contents2"), false);
-                fileSystem.add(new Path("/dst"), new Directory(), false);
+            it("sorts in reverse", () => {
+                (streamSet.ins as Buffer).write("a\nc\nb\n");
 
-                expect(execute("mv /src1 /src2 /dst")).to.equal(ExitCode.OK);
-                expect(fileSystem.has(new Path("/src1"))).to.be.false;
-                expect(fileSystem.has(new Path("/src2"))).to.be.false;
-                expect(fileSystem.open(new Path("/dst/src1"), "read").read()).to.equal("contents1");
-                expect(fileSystem.open(new Path("/dst/src2"), "read").read()).to.equal("contents2");
+                expect(execute("sort -r")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("c\nb\na\n");
             });
-        });
 
-        describe("not", () => {
-            beforeEach(() => {
-                loadCommand("not");
-                loadCommand("rm");
+            it("sorts numerically", () => {
+                (streamSet.ins as Buffer).write("10\n9\n100\n");
+
+                expect(execute("sort -n")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("9\n10\n100\n");
             });
 
+            it("sorts by the given field", () => {
+                (streamSet.ins as Buffer).write("x 3\ny 1\nz 2\n");
 
-            it("returns 0 if the given command exits unsuccessfully", () => {
-                expect(execute("not rm /file")).to.equal(ExitCode.OK);
+                expect(execute("sort -n -k=2")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("y 1\nz 2\nx 3\n");
             });
 
-            it("returns 1 if the command exits successfully", () => {
-                fileSystem.add(new Path("/file"), new File(), false);
+            it("removes duplicate lines", () => {
+                (streamSet.ins as Buffer).write("b\na\nb\na\n");
 
-                expect(execute("not rm /file")).to.equal(1);
+                expect(execute("sort -u")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("a\nb\n");
             });
         });
 
-        describe("open", () => {
-            before(() => {
-                window.matchMedia = window.matchMedia || function() {
-                    return {matches: false, addListener: emptyFunction, removeListener: emptyFunction};
-                };
+        describe("tail", () => {
+            beforeEach(() => {
+                loadCommand("tail");
+                fileSystem.add(new Path("/file"), new File([...Array(12).keys()].join("\n") + "\n"), false);
             });
 
-            beforeEach(() => loadCommand("open"));
-
 
-            it("fails if the file does not exist", () => {
-                expect(execute("open file.lnk")).to.equal(ExitCode.MISC);
-                expect(readErr()).to.equal("open: File '/file.lnk' does not exist.\n");
+            it("fails if the number of lines is missing", () => {
+                expect(execute("tail -n 2 /file")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("tail: Option '-n' requires a count, as in '-n=5'.\n");
             });
-        });
 
-        describe("or", () => {
-            beforeEach(() => {
-                loadCommand("or");
-                loadCommand("echo");
+            it("fails if the number of lines is invalid", () => {
+                expect(execute("tail -n=x /file")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("tail: Invalid number of lines 'x'.\n");
             });
 
+            it("writes the last 10 lines", () => {
+                expect(execute("tail /file")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("2\n3\n4\n5\n6\n7\n8\n9\n10\n11\n");
+            });
 
-            it("does nothing if the previous command exited successfully", () => {
-                environment.set("status", "" + ExitCode.OK);
+            it("writes the given number of lines", () => {
+                expect(execute("tail -n=2 /file")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("10\n11\n");
+            });
 
-                expect(execute("or echo 'message'")).to.equal(ExitCode.OK);
-                expect(readOut()).to.equal("");
+            it("writes the lines starting at the given line number", () => {
+                expect(execute("tail -n=+11 /file")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("10\n11\n");
             });
 
-            it("executes the command if the previous command did not exit successfully", () => {
-                environment.set("status", "-1");
+            it("writes all lines if the file is shorter than the number of lines", () => {
+                (streamSet.ins as Buffer).write("a\nb\n");
 
-                expect(execute("or echo 'message'")).to.equal(ExitCode.OK);
-                expect(readOut()).to.equal("message\n");
+                expect(execute("tail")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("a\nb\n");
             });
         });
 
-        describe("poweroff", () => {
-            beforeEach(() => loadCommand("poweroff"));
+        describe("touch", () => {
+            beforeEach(() => loadCommand("touch"));
 
 
-            it("fails if no user is logged in", () => {
-                environment.set("user", "");
+            it("fails if a directory already exists at the target", () => {
+                fileSystem.add(new Path("/dir"), new Directory(), false);
 
-                expect(execute("poweroff")).to.equal(ExitCode.MISC);
-                expect(readErr()).to.equal("poweroff: Cannot execute while not logged in.\n");
+                expect(execute("touch /dir")).to.equal(ExitCode.MISC);
+                expect(readErr()).to.equal("touch: A file or directory already exists at '/dir'.\n");
             });
 
-            // TODO: Suppress the annoying exception output here
-            it("it outputs something", () => {
-                environment.set("user", "user");
-
-                expect(execute("poweroff")).to.equal(ExitCode.OK);
-                expect(readOut().trim()).to.not.equal("");
+            it("fails if the parent of the target does not exist", () => {
+                expect(execute("touch /parent/file")).to.equal(ExitCode.MISC);
+                expect(readErr()).to.equal("touch: The directory '/parent' does not exist.\n");
             });
-        });
-
-        describe("pwd", () => {
-            beforeEach(() => loadCommand("pwd"));
 
+            it("fails if the parent of the target is a file", () => {
+                fileSystem.add(new Path("/parent"), new File(), false);
 
-            it("writes the cwd variable to the output stream", () => {
-                environment.set("cwd", "/dir");
-
-                expect(execute("pwd")).to.equal(ExitCode.OK);
-                expect(readOut()).to.equal("/dir\n");
+                expect(execute("touch /parent/file")).to.equal(ExitCode.MISC);
+                expect(readErr()).to.equal("touch: '/parent' is not a directory.\n");
             });
 
-            it("writes an empty string if the cwd variable has no value", () => {
-                environment.set("cwd", "");
+            it("creates a file at the target", () => {
+                expect(execute("touch /file")).to.equal(ExitCode.OK);
+                expect(fileSystem.has(new Path("/file"))).to.be.true;
+            });
 
-                expect(execute("pwd")).to.equal(ExitCode.OK);
-                expect(readOut()).to.equal("\n");
+            it("creates files at the target", () => {
+                expect(execute("touch /file1 /file2")).to.equal(ExitCode.OK);
+                expect(fileSystem.has(new Path("/file1"))).to.be.true;
+                expect(fileSystem.has(new Path("/file2"))).to.be.true;
             });
         });
 
-        describe("rm", () => {
-            beforeEach(() => loadCommand("rm"));
+        describe("tr", () => {
+            beforeEach(() => loadCommand("tr"));
 
 
-            it("fails if the target does not exist", () => {
-                expect(execute("rm /file")).to.equal(ExitCode.FILE_NOT_FOUND);
-                expect(readErr()).to.equal("rm: The file '/file' does not exist.\n");
+            it("fails if only one set is given", () => {
+                expect(execute("tr a")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("tr: Expected a second set of characters.\n");
             });
 
-            it("does nothing if the target does not exist but the force option is given", () => {
-                expect(execute("rm -f /file")).to.equal(ExitCode.OK);
-                expect(readErr()).to.equal("");
+            it("fails if a range is reversed", () => {
+                expect(execute("tr z-a x")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("tr: The end of a range must not precede its start.\n");
             });
 
-            it("fails if the target is a directory", () => {
-                fileSystem.add(new Path("/dir"), new Directory(), false);
+            it("translates characters", () => {
+                (streamSet.ins as Buffer).write("hello");
 
-                expect(execute("rm /dir")).to.equal(ExitCode.USAGE);
-                expect(readErr()).to.equal("rm: '/dir' is a directory.\n");
+                expect(execute("tr el ip")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("hippo");
             });
 
-            it("removes an empty directory if the recursive option is given", () => {
-                fileSystem.add(new Path("/dir"), new Directory(), false);
+            it("translates ranges of characters", () => {
+                (streamSet.ins as Buffer).write("hello\n");
 
-                expect(execute("rm -r /dir")).to.equal(ExitCode.OK);
-                expect(fileSystem.has(new Path("/dir"))).to.be.false;
+                expect(execute("tr a-z A-Z")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("HELLO\n");
             });
 
-            it("removes a non-empty directory if the recursive option is given", () => {
-                fileSystem.add(new Path("/dir/file"), new File(), true);
+            it("repeats the last character of the second set", () => {
+                (streamSet.ins as Buffer).write("abcd");
 
-                expect(execute("rm -r /dir")).to.equal(ExitCode.OK);
-                expect(fileSystem.has(new Path("/dir"))).to.be.false;
+                expect(execute("tr a-d xy")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("xyyy");
             });
 
-            it("fails if the target is the root even though the recursive option is given", () => {
-                expect(execute("rm -r /")).to.equal(ExitCode.USAGE);
-                expect(readErr()).to.equal("rm: Cannot remove root directory.\n");
+            it("translates escaped characters", () => {
+                (streamSet.ins as Buffer).write("a b\n");
+
+                expect(execute("tr ' ' '\\n'")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("a\nb\n");
             });
 
-            it("removes the root if the recursive and no-preserve-root options are given", () => {
-                fileSystem.add(new Path("/dir"), new Directory(), false);
+            it("deletes characters", () => {
+                (streamSet.ins as Buffer).write("hello");
 
-                expect(execute("rm -r --no-preserve-root /")).to.equal(ExitCode.OK);
-                expect(fileSystem.has(new Path("/dir"))).to.be.false;
-                expect(fileSystem.has(new Path("/"))).to.be.true;
+                expect(execute("tr -d l")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("heo");
             });
 
-            it("removes the given file", () => {
-                fileSystem.add(new Path("/file"), new File(), false);
+            it("squeezes repeated characters", () => {
+                (streamSet.ins as Buffer).write("aabbcc");
 
-                expect(execute("rm /file")).to.equal(ExitCode.OK);
-                expect(fileSystem.has(new Path("/file"))).to.be.false;
+                expect(execute("tr -s ab")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("abcc");
             });
 
-            it("removes files but not directories if the recursive option is not given", () => {
-                fileSystem.add(new Path("/dir"), new Directory(), false);
-                fileSystem.add(new Path("/file"), new File(), false);
+            it("squeezes repeated characters after translating", () => {
+                (streamSet.ins as Buffer).write("a  b   c");
 
-                expect(execute("rm /dir /file")).to.equal(ExitCode.USAGE);
-                expect(fileSystem.has(new Path("/dir"))).to.be.true;
-                expect(fileSystem.has(new Path("/file"))).to.be.false;
+                expect(execute("tr -s ' ' _")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("a_b_c");
             });
         });
 
-        describe("rmdir", () => {
-            beforeEach(() => loadCommand("rmdir"));
+        describe("tree", () => {
+            const dir = (name: string, path: string) => new Directory().nameString(name, new Path(path));
 
 
-            it("fails if the target does not exist", () => {
-                expect(execute("rmdir /dir")).to.equal(ExitCode.FILE_NOT_FOUND);
-                expect(readErr()).to.equal("rmdir: '/dir' does not exist.\n");
+            beforeEach(() => {
+                loadCommand("tree");
+                fileSystem.add(new Path("/dir/b"), new File(), true);
+                fileSystem.add(new Path("/dir/.hidden"), new File(), false);
+                fileSystem.add(new Path("/dir/z/c"), new File(), true);
+                fileSystem.add(new Path("/dir/z/y/d"), new File(), true);
+                fileSystem.add(new Path("/dir/a"), new Directory(), false);
             });
 
-            it("fails if the target is not a directory", () => {
-                fileSystem.add(new Path("/file"), new File(), false);
 
-                expect(execute("rmdir /file")).to.equal(ExitCode.USAGE);
-                expect(readErr()).to.equal("rmdir: '/file' is not a directory.\n");
+            it("fails if the directory does not exist", () => {
+                expect(execute("tree /missing")).to.equal(ExitCode.FILE_NOT_FOUND);
+                expect(readErr()).to.equal("tree: The directory '/missing' does not exist.\n");
             });
 
-            it("fails if the target is not empty", () => {
-                fileSystem.add(new Path("/dir/file"), new File(), true);
+            it("fails if the target is not a directory", () => {
+                expect(execute("tree /dir/b")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("tree: '/dir/b' is not a directory.\n");
+            });
 
-                expect(execute("rmdir /dir")).to.equal(ExitCode.MISC);
-                expect(readErr()).to.equal("rmdir: '/dir' is not empty.\n");
+            it("fails if the level is invalid", () => {
+                expect(execute("tree -L=0 /dir")).to.equal(ExitCode.USAGE);
+                expect(readErr()).to.equal("tree: Invalid level '0'.\n");
             });
 
-            it("removes the target if it is an empty directory", () => {
-                fileSystem.add(new Path("/dir"), new Directory(), false);
+            it("displays the directory as a tree with directories first", () => {
+                expect(execute("tree /dir")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal(
+                    `${dir("/dir", "/dir")}\n` +
+                    `├── ${dir("a", "/dir/a")}\n` +
+                    `├── ${dir("z", "/dir/z")}\n` +
+                    `│   ├── ${dir("y", "/dir/z/y")}\n` +
+                    `│   │   └── d\n` +
+                    `│   └── c\n` +
+                    `└── b\n` +
+                    `\n3 directories, 3 files\n`
+                );
+            });
 
-                expect(execute("rmdir /dir")).to.equal(ExitCode.OK);
-                expect(fileSystem.has(new Path("/dir"))).to.be.false;
+            it("displays the current directory if no directory is given", () => {
+                environment.set("cwd", "/dir/z/y");
+
+                expect(execute("tree")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal(`${dir(".", "/dir/z/y")}\n└── d\n\n0 directories, 1 file\n`);
             });
 
-            it("removes the targets if they're empty directories", () => {
-                fileSystem.add(new Path("/dir1/dir2"), new Directory(), true);
+            it("displays hidden files", () => {
+                expect(execute("tree -a -L=1 /dir")).to.equal(ExitCode.OK);
+                expect(readOut()).to.contain("├── .hidden\n");
+            });
 
-                expect(execute("rmdir /dir1/dir2 /dir1")).to.equal(ExitCode.OK);
-                expect(fileSystem.has(new Path("/dir1"))).to.be.false;
+            it("displays only directories", () => {
+                expect(execute("tree -d /dir")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal(
+                    `${dir("/dir", "/dir")}\n` +
+                    `├── ${dir("a", "/dir/a")}\n` +
+                    `└── ${dir("z", "/dir/z")}\n` +
+                    `    └── ${dir("y", "/dir/z/y")}\n` +
+                    `\n3 directories\n`
+                );
+            });
+
+            it("limits the depth", () => {
+                expect(execute("tree -L=1 /dir")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal(
+                    `${dir("/dir", "/dir")}\n` +
+                    `├── ${dir("a", "/dir/a")}\n` +
+                    `├── ${dir("z", "/dir/z")}\n` +
+                    `└── b\n` +
+                    `\n2 directories, 1 file\n`
+                );
             });
         });
 
-        describe("set", () => {
-            beforeEach(() => loadCommand("set"));
+        describe("true", () => {
+            beforeEach(() => loadCommand("true"));
 
 
-            it("creates a variable if it does not exist", () => {
-                expect(execute("set var val")).to.equal(ExitCode.OK);
-                expect(environment.variables["var"]).to.equal("val");
+            it("sets the exit code to a successful value", () => {
+                expect(execute("true")).to.equal(ExitCode.OK);
             });
+        });
 
-            it("changes a variable if it exists", () => {
-                environment.set("var", "old");
+        describe("unalias", () => {
+            beforeEach(() => loadCommand("unalias"));
 
-                expect(execute("set var new")).to.equal(ExitCode.OK);
-                expect(environment.variables["var"]).to.equal("new");
-            });
 
-            it("removes the variable if no value is given", () => {
-                environment.set("var", "val");
+            it("removes the given aliases", () => {
+                aliases.load({ll: "ls -l", la: "ls -a", l: "ls"});
 
-                expect(execute("set var")).to.equal(ExitCode.OK);
-                expect(environment.variables["var"]).to.be.undefined;
+                expect(execute("unalias ll la")).to.equal(ExitCode.OK);
+                expect(aliases.aliases).to.deep.equal({l: "ls"});
             });
 
-            it("cannot change a read-only variable", () => {
-                environment.set("cwd", "old");
+            it("removes all aliases", () => {
+                aliases.load({ll: "ls -l", la: "ls -a"});
 
-                expect(execute("set cwd new")).to.equal(ExitCode.MISC);
-                expect(readErr()).to.equal("set: Cannot set read-only environment variable.\n");
-                expect(environment.variables["cwd"]).to.equal("old");
+                expect(execute("unalias -a")).to.equal(ExitCode.OK);
+                expect(aliases.aliases).to.deep.equal({});
             });
 
-            it("cannot remove a read-only variable", () => {
-                environment.set("cwd", "old");
+            it("outputs an error if an alias does not exist", () => {
+                expect(execute("unalias ll")).to.equal(ExitCode.MISC);
+                expect(readErr()).to.equal("unalias: Unknown alias 'll'.\n");
+            });
 
-                expect(execute("set cwd")).to.equal(ExitCode.MISC);
-                expect(readErr()).to.equal("set: Cannot set read-only environment variable.\n");
-                expect(environment.variables["cwd"]).to.equal("old");
+            it("outputs an error if no aliases are given", () => {
+                expect(execute("unalias")).to.equal(ExitCode.USAGE);
             });
         });
 
-        describe("touch", () => {
-            beforeEach(() => loadCommand("touch"));
-
+        describe("uniq", () => {
+            beforeEach(() => loadCommand("uniq"));
 
-            it("fails if a directory already exists at the target", () => {
-                fileSystem.add(new Path("/dir"), new Directory(), false);
 
-                expect(execute("touch /dir")).to.equal(ExitCode.MISC);
-                expect(readErr()).to.equal("touch: A file or directory already exists at '/dir'.\n");
+            it("fails if the file does not exist", () => {
+                expect(execute("uniq /file")).to.equal(ExitCode.FILE_NOT_FOUND);
+                expect(readErr()).to.equal("uniq: '/file': No such file.\n");
             });
 
-            it("fails if the parent of the target does not exist", () => {
-                expect(execute("touch /parent/file")).to.equal(ExitCode.MISC);
-                expect(readErr()).to.equal("touch: The directory '/parent' does not exist.\n");
+            it("merges adjacent identical lines", () => {
+                (streamSet.ins as Buffer).write("a\na\nb\na\n");
+
+                expect(execute("uniq")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("a\nb\na\n");
             });
 
-            it("fails if the parent of the target is a file", () => {
-                fileSystem.add(new Path("/parent"), new File(), false);
+            it("counts adjacent identical lines", () => {
+                fileSystem.add(new Path("/file"), new File("a\na\nb\n"), false);
 
-                expect(execute("touch /parent/file")).to.equal(ExitCode.MISC);
-                expect(readErr()).to.equal("touch: '/parent' is not a directory.\n");
+                expect(execute("uniq -c /file")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("      2 a\n      1 b\n");
             });
+        });
 
-            it("creates a file at the target", () => {
-                expect(execute("touch /file")).to.equal(ExitCode.OK);
-                expect(fileSystem.has(new Path("/file"))).to.be.true;
-            });
+        describe("unset", () => {
+            beforeEach(() => loadCommand("unset"));
 
-            it("creates files at the target", () => {
-                expect(execute("touch /file1 /file2")).to.equal(ExitCode.OK);
-                expect(fileSystem.has(new Path("/file1"))).to.be.true;
-                expect(fileSystem.has(new Path("/file2"))).to.be.true;
+
+            it("removes the variables", () => {
+                environment.set("a", "b");
+                environment.set("c", "d");
+
+                expect(execute("unset a c")).to.equal(ExitCode.OK);
+                expect(environment.has("a")).to.be.false;
+                expect(environment.has("c")).to.be.false;
             });
-        });
 
-        describe("true", () => {
-            beforeEach(() => loadCommand("true"));
+            it("cannot remove a read-only variable", () => {
+                expect(execute("unset cwd")).to.equal(ExitCode.MISC);
+                expect(readErr()).to.equal("unset: Cannot set read-only environment variable.\n");
+                expect(environment.has("cwd")).to.be.true;
+            });
 
+            it("removes the functions", () => {
+                environment.set("a", "b");
+                execute("a() { echo; }");
 
-            it("sets the exit code to a successful value", () => {
-                expect(execute("true")).to.equal(ExitCode.OK);
+                expect(execute("unset -f a")).to.equal(ExitCode.OK);
+                expect(commands.functions).to.not.have.own.property("a");
+                expect(environment.has("a")).to.be.true;
             });
         });
 
@@ -981,7 +3120,7 @@ describe("commands", () => {
                 const user = new User("user", "password", "/home");
                 userList.add(user);
 
-                expect(execute("usermod -h=/ho|me user")).to.equal(ExitCode.MISC);
+                expect(execute("usermod -h=/ho\\|me user")).to.equal(ExitCode.MISC);
                 expect(readErr()).to.equal("usermod: Home must not contain pipe ('|') or newline character.\n");
             });
 
@@ -1018,6 +3157,38 @@ describe("commands", () => {
             });
         });
 
+        describe("wc", () => {
+            beforeEach(() => loadCommand("wc"));
+
+
+            it("fails if the file does not exist", () => {
+                expect(execute("wc /file")).to.equal(ExitCode.FILE_NOT_FOUND);
+                expect(readErr()).to.equal("wc: '/file': No such file.\n");
+            });
+
+            it("counts the lines, words, and bytes of the input stream", () => {
+                (streamSet.ins as Buffer).write("one two\nthree\n");
+
+                expect(execute("wc")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal(" 2  3 14\n");
+            });
+
+            it("counts the lines, words, and bytes of files and their total", () => {
+                fileSystem.add(new Path("/file1"), new File("a\n"), false);
+                fileSystem.add(new Path("/file2"), new File("b c\n"), false);
+
+                expect(execute("wc /file1 /file2")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("1 1 2 /file1\n1 2 4 /file2\n2 3 6 total\n");
+            });
+
+            it("writes only the requested counts", () => {
+                (streamSet.ins as Buffer).write("one two\nthree\n");
+
+                expect(execute("wc -l -w")).to.equal(ExitCode.OK);
+                expect(readOut()).to.equal("2 3\n");
+            });
+        });
+
         describe("whatis", () => {
             beforeEach(() => loadCommand("whatis"));
 
@@ -1054,3 +3225,37 @@ describe("commands", () => {
         });
     });
 });
+
+describe("command", () => {
+    describe("options", () => {
+        /**
+         * Returns a command with the given usage string.
+         *
+         * @param usage the usage string of the command
+         */
+        const createCommand = (usage: string | null) =>
+            new Command(() => ExitCode.OK, null, usage, null, new InputValidator());
+
+
+        it("returns the options described in the usage string", () => {
+            expect(createCommand("ls [<b>-a</b> | <b>--all</b>] [<u>directory</u>]").options)
+                .to.deep.equal(["-a", "--all"]);
+        });
+
+        it("returns the name of an option that takes a value", () => {
+            expect(createCommand("cmd [<b>--name=</b><u>value</u>]").options).to.deep.equal(["--name"]);
+        });
+
+        it("returns each option once", () => {
+            expect(createCommand("cmd <b>-a</b>\ncmd <b>-a</b> <b>-b</b>").options).to.deep.equal(["-a", "-b"]);
+        });
+
+        it("ignores bold text that is not an option", () => {
+            expect(createCommand("<b>cmd</b> [<b>--</b>] <b>-</b>").options).to.be.empty;
+        });
+
+        it("returns no options if there is no usage string", () => {
+            expect(createCommand(null).options).to.be.empty;
+        });
+    });
+});
@@ -93,6 +93,25 @@ describe("input args", () => {
         });
     });
 
+    describe("words", () => {
+        it("returns the given words", () => {
+            expect(new InputArgs("command", {"-a": null}, ["b"], [], ["-a", "b"]).words).to.deep.equal(["-a", "b"]);
+        });
+
+        it("returns the arguments if no words are given", () => {
+            expect(new InputArgs("command", {}, ["a", "b"], []).words).to.deep.equal(["a", "b"]);
+        });
+
+        it("returns a copy of the given words", () => {
+            const words = ["old"];
+
+            const input = new InputArgs("command", {}, ["old"], [], words);
+            words[0] = "new";
+
+            expect(input.words[0]).to.equal("old");
+        });
+    });
+
     describe("redirect targets", () => {
         it("returns undefined if no output stream is set", () => {
             const inputArgs = new InputArgs("command", {}, [], []);
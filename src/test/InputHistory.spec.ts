@@ -17,9 +17,9 @@ describe("input history", () => {
         it("returns a copy of the entries", () => {
             history.add("old");
 
-            history.entries[0] = "new";
+            history.entries[0].input = "new";
 
-            expect(history.entries[0]).to.equal("old");
+            expect(history.entries[0].input).to.equal("old");
         });
     });
 
@@ -47,7 +47,13 @@ describe("input history", () => {
         it("adds entries including leading and trailing whitespace", () => {
             history.add(" command ");
 
-            expect(history.entries[0]).to.equal(" command ");
+            expect(history.entries[0].input).to.equal(" command ");
+        });
+
+        it("adds entries with the given timestamp and without a status", () => {
+            history.add("command", 42);
+
+            expect(history.entries[0]).to.deep.equal({input: "command", timestamp: 42});
         });
 
         it("resets the index", () => {
@@ -83,6 +89,76 @@ describe("input history", () => {
         });
     });
 
+    describe("expand", () => {
+        beforeEach(() => {
+            history.add("echo foo");
+            history.add("ls -l");
+            history.add("echo bar");
+        });
+
+
+        it("does not change input without references", () => {
+            expect(history.expand("cat file")).to.equal("cat file");
+        });
+
+        it("expands '!!' to the newest entry", () => {
+            expect(history.expand("sudo !!")).to.equal("sudo echo bar");
+        });
+
+        it("expands '!n' to the nth entry counting from the oldest entry", () => {
+            expect(history.expand("!1")).to.equal("echo foo");
+        });
+
+        it("expands '!-n' to the nth newest entry", () => {
+            expect(history.expand("!-2")).to.equal("ls -l");
+        });
+
+        it("expands '!prefix' to the newest entry starting with the prefix", () => {
+            expect(history.expand("!ec; !l")).to.equal("echo bar; ls -l");
+        });
+
+        it("expands references in double quotes", () => {
+            expect(history.expand(`echo "!!"`)).to.equal(`echo "echo bar"`);
+        });
+
+        it("does not expand references in single quotes", () => {
+            expect(history.expand("echo '!!'")).to.equal("echo '!!'");
+        });
+
+        it("does not expand escaped references", () => {
+            expect(history.expand("echo \\!!")).to.equal("echo \\!!");
+        });
+
+        it("does not expand '!' followed by whitespace, '=', or '('", () => {
+            expect(history.expand("! a != b !(c)")).to.equal("! a != b !(c)");
+        });
+
+        it("does not expand '$!', '${!', or bracket expressions", () => {
+            expect(history.expand("echo $! ${!a} [!e]*")).to.equal("echo $! ${!a} [!e]*");
+        });
+
+        it("throws an error if a reference does not refer to an entry", () => {
+            expect(() => history.expand("!cat")).to.throw();
+            expect(() => history.expand("!4")).to.throw();
+            expect(() => history.expand("!0")).to.throw();
+            expect(() => history.expand("!-4")).to.throw();
+        });
+
+        it("substitutes '^old^new' in the newest entry", () => {
+            expect(history.expand("^bar^baz")).to.equal("echo baz");
+        });
+
+        it("substitutes only the first occurrence", () => {
+            history.add("echo bar bar");
+
+            expect(history.expand("^bar^baz^ qux")).to.equal("echo baz bar qux");
+        });
+
+        it("throws an error if the substituted text does not occur in the newest entry", () => {
+            expect(() => history.expand("^foo^baz")).to.throw();
+        });
+    });
+
     describe("get", () => {
         it("throws an error if the index is below -1", () => {
             expect(() => history.get(-2)).to.throw();
@@ -183,7 +259,110 @@ describe("input history", () => {
         });
     });
 
+    describe("remove", () => {
+        it("removes the entry at the given index", () => {
+            history.add("command1");
+            history.add("command2");
+            history.add("command3");
+
+            history.remove(1);
+
+            expect(history.entries.map(it => it.input)).to.deep.equal(["command3", "command1"]);
+        });
+
+        it("throws an error if the index is out of bounds", () => {
+            history.add("command1");
+
+            expect(() => history.remove(-1)).to.throw();
+            expect(() => history.remove(1)).to.throw();
+        });
+    });
+
     describe("resetIndex", () => {
         // Covered indirectly in `add`
     });
+
+    describe("search", () => {
+        beforeEach(() => {
+            history.add("echo foo");
+            history.add("ls");
+            history.add("echo bar");
+        });
+
+
+        it("returns the index of the newest entry that contains the query", () => {
+            expect(history.search("echo", 0)).to.equal(0);
+        });
+
+        it("skips entries newer than the start index", () => {
+            expect(history.search("echo", 1)).to.equal(2);
+        });
+
+        it("returns the index of the nearest newer entry when searching forwards", () => {
+            expect(history.search("echo", 1, false)).to.equal(0);
+        });
+
+        it("matches every entry if the query is empty", () => {
+            expect(history.search("", 1)).to.equal(1);
+        });
+
+        it("returns -1 if no entry contains the query", () => {
+            expect(history.search("cat", 0)).to.equal(-1);
+        });
+
+        it("returns -1 if the start index is out of bounds", () => {
+            expect(history.search("echo", 3)).to.equal(-1);
+            expect(history.search("echo", -1, false)).to.equal(-1);
+        });
+
+        it("does not change the read index", () => {
+            history.search("echo", 1);
+
+            expect(history.previous()).to.equal("echo bar");
+        });
+    });
+
+    describe("setStatus", () => {
+        it("sets the status of the newest entry", () => {
+            history.add("command1");
+            history.add("command2");
+
+            history.setStatus(3);
+
+            expect(history.entries.map(it => it.status)).to.deep.equal([3, undefined]);
+        });
+
+        it("does nothing if the history is empty", () => {
+            history.setStatus(3);
+
+            expect(history.entries).to.have.length(0);
+        });
+    });
+
+    describe("truncate", () => {
+        beforeEach(() => {
+            history.add("command1");
+            history.add("command2");
+            history.add("command3");
+        });
+
+
+        it("removes the oldest entries", () => {
+            history.truncate(2);
+
+            expect(history.entries.map(it => it.input)).to.deep.equal(["command3", "command2"]);
+        });
+
+        it("removes all entries if the size is zero", () => {
+            history.truncate(0);
+
+            expect(history.entries).to.have.length(0);
+        });
+
+        it("does nothing if the size is larger than the history", () => {
+            history.truncate(5);
+
+            expect(history.entries).to.have.length(3);
+        });
+    });
 });
@@ -1,9 +1,12 @@
 import {expect} from "chai";
 import "mocha";
 
+import {AliasTable} from "../main/js/AliasTable";
 import {Environment} from "../main/js/Environment";
 import {Directory, File, FileSystem, Node, Path} from "../main/js/FileSystem";
+import {InputArgs} from "../main/js/InputArgs";
 import {Expander, Globber, InputParser, Tokenizer} from "../main/js/InputParser";
+import {IncompleteInputError, ParseError} from "../main/js/Shared";
 
 
 /**
@@ -17,11 +20,34 @@ const escape = InputParser.EscapeChar;
  * Note that escaped escape symbols are not recognized by this simple tokenizer.
  */
 const dummyTokenizer = new class extends Tokenizer {
-    tokenize(input: string): string[] {
-        return input.split(/(?<!\\)\s/);
+    tokenizeWithPositions(input: string, start: number = 0): InputParser.Token[] {
+        let offset = start;
+        return input.slice(start).split(/(?<!\\)\s/).map(it => {
+            const token = {text: it, start: offset};
+            offset += it.length + 1;
+            return token;
+        });
     }
 };
 
+/**
+ * Replaces each simple command in the given syntax tree with its tokens, and each word with its text, so that trees
+ * can be compared without considering positions.
+ *
+ * @param node the syntax tree to simplify
+ */
+const simplify = (node: any): any => {
+    if (Array.isArray(node))
+        return node.map(simplify);
+    if (node?.type === "simple")
+        return node.words.concat(node.redirects).map((it: InputParser.Word | InputParser.Redirect) => it.text);
+    if (node?.parts !== undefined)
+        return node.text;
+    if (typeof node === "object" && node !== null)
+        return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, simplify(value)]));
+    return node;
+};
+
 /**
  * A dummy implementation of the globber that simply returns the given token.
  */
@@ -57,51 +83,481 @@ describe("input parser", () => {
 
     beforeEach(() => parser = new InputParser(dummyTokenizer, dummyExpander));
 
+    /**
+     * Parses the given input and simplifies the resulting syntax tree.
+     *
+     * @param input the input to parse
+     * @see simplify
+     */
+    const parse = (input: string): any => simplify(parser.parseCommands(input));
+
+    /**
+     * Parses the given input and expands each command in it.
+     *
+     * @param input the input to parse and expand
+     */
+    const parseAll = (input: string): InputArgs[] =>
+        parse(input)
+            .reduce((acc: string[][], list: any) => acc.concat(...list.pipelines), [])
+            .map((tokens: string[]) => parser.parseCommand(tokens));
+
 
     describe("command", () => {
         it("returns the first token as the command", () => {
-            expect(parser.parseCommands("command arg1 arg2")[0].command).to.equal("command");
+            expect(parseAll("command arg1 arg2")[0].command).to.equal("command");
         });
 
         describe("multiple commands", () => {
             it("returns the respective commands", () => {
-                const inputArgs = parser.parseCommands("a ; b");
+                const inputArgs = parseAll("a ; b");
 
                 expect(inputArgs[0].command).to.equal("a");
                 expect(inputArgs[1].command).to.equal("b");
             });
         });
+
+        describe("pipelines", () => {
+            it("returns the commands of the pipeline in order", () => {
+                const lists = parse("a | b c | d");
+
+                expect(lists).to.have.length(1);
+                expect(lists[0].pipelines).to.deep.equal([[["a"], ["b", "c"], ["d"]]]);
+            });
+
+            it("returns separate pipelines for commands separated by semicolons", () => {
+                const lists = parse("a | b ; c");
+
+                expect(lists[0].pipelines).to.deep.equal([[["a"], ["b"]]]);
+                expect(lists[1].pipelines).to.deep.equal([[["c"]]]);
+            });
+
+            it("throws an error if a pipe has no command on its left", () => {
+                expect(() => parser.parseCommands("| a")).to.throw();
+            });
+
+            it("throws an error if a pipe has no command on its right", () => {
+                expect(() => parser.parseCommands("a |")).to.throw();
+            });
+
+            it("throws an error if there is no command between pipes", () => {
+                expect(() => parser.parseCommands("a | | b")).to.throw();
+            });
+        });
+
+        describe("and-or lists", () => {
+            it("returns the pipelines and the operators in between them", () => {
+                const lists = parse("a && b | c || d");
+
+                expect(lists).to.have.length(1);
+                expect(lists[0].pipelines).to.deep.equal([[["a"]], [["b"], ["c"]], [["d"]]]);
+                expect(lists[0].operators).to.deep.equal(["&&", "||"]);
+            });
+
+            it("returns a list without operators for a single pipeline", () => {
+                const lists = parse("a | b");
+
+                expect(lists[0].pipelines).to.deep.equal([[["a"], ["b"]]]);
+                expect(lists[0].operators).to.deep.equal([]);
+            });
+
+            it("returns separate lists for commands separated by semicolons", () => {
+                const lists = parse("a && b ; c || d");
+
+                expect(lists).to.have.length(2);
+                expect(lists[0].operators).to.deep.equal(["&&"]);
+                expect(lists[1].operators).to.deep.equal(["||"]);
+            });
+
+            it("throws an error if an operator has no command on its left", () => {
+                expect(() => parser.parseCommands("&& a")).to.throw("Unexpected '&&'.");
+            });
+
+            it("throws an error if an operator has no command on its right", () => {
+                expect(() => parser.parseCommands("a ||")).to.throw("Unexpected '||'.");
+            });
+
+            it("throws an error if there is no command between operators", () => {
+                expect(() => parser.parseCommands("a && || b")).to.throw("Unexpected '||'.");
+            });
+
+            it("does not expand the commands", () => {
+                expect(parse("a $b")[0].pipelines).to.deep.equal([[["a", "$b"]]]);
+            });
+        });
+
+        describe("if clauses", () => {
+            /**
+             * Parses the given input and returns the single command in it.
+             *
+             * @param input the input to parse
+             */
+            const parseSingle = (input: string): any => parse(input)[0].pipelines[0][0];
+
+
+            it("returns the condition and the body", () => {
+                expect(parseSingle("if a ; then b ; fi")).to.deep.equal({
+                    type: "if",
+                    branches: [{condition: parse("a"), body: parse("b")}],
+                    otherwise: undefined
+                });
+            });
+
+            it("returns a branch for each elif", () => {
+                const clause =
+                    <InputParser.IfClause> parseSingle("if a ; then b ; elif c ; then d ; elif e ; then f ; fi");
+
+                expect(clause.branches).to.have.length(3);
+                expect(clause.branches[2].condition).to.deep.equal(parse("e"));
+                expect(clause.branches[2].body).to.deep.equal(parse("f"));
+            });
+
+            it("returns the else body", () => {
+                const clause = <InputParser.IfClause> parseSingle("if a ; then b ; else c ; d ; fi");
+
+                expect(clause.otherwise).to.deep.equal(parse("c ; d"));
+            });
+
+            it("supports nested clauses", () => {
+                const clause = <InputParser.IfClause> parseSingle("if a ; then if b ; then c ; fi ; fi");
+
+                expect(clause.branches[0].body[0].pipelines[0][0]).to.deep.equal(parseSingle("if b ; then c ; fi"));
+            });
+
+            it("considers keywords that are not at the start of a command to be arguments", () => {
+                const clause = <InputParser.IfClause> parseSingle("if echo then ; then echo fi ; fi");
+
+                expect(clause.branches[0].condition).to.deep.equal(parse("echo then"));
+                expect(clause.branches[0].body).to.deep.equal(parse("echo fi"));
+            });
+
+            it("can be used in a pipeline", () => {
+                const pipeline = parse("if a ; then b ; fi | c")[0].pipelines[0];
+
+                expect(pipeline).to.have.length(2);
+                expect(pipeline[1]).to.deep.equal(["c"]);
+            });
+
+            it("throws an incomplete input error if the clause is not closed", () => {
+                expect(() => parser.parseCommands("if a"))
+                    .to.throw(IncompleteInputError, "Expected 'then'.");
+                expect(() => parser.parseCommands("if a ; then b"))
+                    .to.throw(IncompleteInputError, "Expected 'elif' or 'else' or 'fi'.");
+            });
+
+            it("indicates that the input does not end inside a here-document", () => {
+                expect(() => parser.parseCommands("if a ; then b <<EOF\nc\nEOF"))
+                    .to.throw(IncompleteInputError).with.property("isInHereDocument", false);
+            });
+
+            it("throws an error if the condition is empty", () => {
+                expect(() => parser.parseCommands("if then b ; fi")).to.throw("Unexpected 'then'.");
+            });
+
+            it("throws an error if the body is empty", () => {
+                expect(() => parser.parseCommands("if a ; then fi")).to.throw("Unexpected 'fi'.");
+            });
+
+            it("throws an error if a keyword is used outside of a clause", () => {
+                expect(() => parser.parseCommands("fi")).to.throw("Unexpected 'fi'.");
+            });
+
+            it("throws an error if a word follows the clause", () => {
+                expect(() => parser.parseCommands("if a ; then b ; fi c")).to.throw("Unexpected 'c'.");
+            });
+        });
+
+        describe("while loops", () => {
+            it("returns the condition and the body", () => {
+                expect(parse("while a ; do b ; c ; done")[0].pipelines[0][0]).to.deep.equal({
+                    type: "while",
+                    condition: parse("a"),
+                    body: parse("b ; c")
+                });
+            });
+
+            it("throws an incomplete input error if the loop is not closed", () => {
+                expect(() => parser.parseCommands("while a")).to.throw(IncompleteInputError, "Expected 'do'.");
+                expect(() => parser.parseCommands("while a ; do b")).to.throw(IncompleteInputError, "Expected 'done'.");
+            });
+
+            it("throws an error if there is no do", () => {
+                expect(() => parser.parseCommands("while a ; done")).to.throw();
+            });
+        });
+
+        describe("for loops", () => {
+            it("returns the variable, the unexpanded words, and the body", () => {
+                expect(parse("for x in a $b c ; do d ; done")[0].pipelines[0][0]).to.deep.equal({
+                    type: "for",
+                    variable: "x",
+                    words: ["a", "$b", "c"],
+                    body: parse("d")
+                });
+            });
+
+            it("accepts an empty list of words", () => {
+                expect(parse("for x in ; do d ; done")[0].pipelines[0][0])
+                    .to.have.property("words").that.is.empty;
+            });
+
+            it("throws an error if the variable name is invalid", () => {
+                expect(() => parser.parseCommands("for x-y in a ; do b ; done")).to.throw("Invalid variable name");
+            });
+
+            it("iterates over the positional parameters if 'in' is omitted", () => {
+                expect(parse("for x ; do d ; done")[0].pipelines[0][0])
+                    .to.have.property("words").that.deep.equals([`"$@"`]);
+            });
+
+            it("throws an error if words are given without 'in'", () => {
+                expect(() => parser.parseCommands("for x a ; do b ; done")).to.throw("Unexpected 'a'. Expected 'do'.");
+            });
+
+            it("throws an error if 'do' is missing", () => {
+                expect(() => parser.parseCommands("for x in a ; b ; done")).to.throw("Expected 'do'");
+            });
+
+            it("throws an incomplete input error if the loop is not closed", () => {
+                expect(() => parser.parseCommands("for")).to.throw(IncompleteInputError, "Expected a variable name");
+                expect(() => parser.parseCommands("for x in a")).to.throw(IncompleteInputError, "Expected 'do'.");
+                expect(() => parser.parseCommands("for x in a ; do b"))
+                    .to.throw(IncompleteInputError, "Expected 'done'.");
+            });
+        });
+
+        describe("function definitions", () => {
+            beforeEach(() => parser = new InputParser(new Tokenizer(), dummyExpander));
+
+
+            it("returns the name, the parsed body, and the source", () => {
+                expect(parse("greet() { echo $1; b; }")[0].pipelines[0][0]).to.deep.equal({
+                    type: "function",
+                    name: "greet",
+                    body: parse("echo $1; b"),
+                    source: "greet() { echo $1; b; }"
+                });
+            });
+
+            it("accepts a space between the name and the parentheses", () => {
+                expect(parse("greet () { a; }")[0].pipelines[0][0]).to.have.property("name", "greet");
+            });
+
+            it("accepts a body over multiple lines", () => {
+                expect(parse("greet()\n{\n  a\n  b\n}")[0].pipelines[0][0])
+                    .to.have.property("body").that.deep.equals(parse("a ; b"));
+            });
+
+            it("throws an error if the body is missing", () => {
+                expect(() => parser.parseCommands("greet() a")).to.throw(ParseError, "Expected '{'");
+            });
+
+            it("throws an incomplete input error if the body is not given or not closed", () => {
+                expect(() => parser.parseCommands("greet()")).to.throw(IncompleteInputError, "Expected '{'");
+                expect(() => parser.parseCommands("greet() { a")).to.throw(IncompleteInputError, "Missing closing }.");
+            });
+
+            it("throws an error if the body is empty", () => {
+                expect(() => parser.parseCommands("greet() { }")).to.throw("Unexpected '}'.");
+            });
+
+            it("throws an error if the body is invalid", () => {
+                expect(() => parser.parseCommands("greet() { a | ; }")).to.throw("Unexpected '|'.");
+            });
+        });
+    });
+
+    describe("syntax tree", () => {
+        beforeEach(() => parser = new InputParser(new Tokenizer(), dummyExpander));
+
+        /**
+         * Parses the given input and returns the single simple command in it.
+         *
+         * @param input the input to parse
+         */
+        const parseSimple = (input: string): InputParser.SimpleCommand =>
+            <InputParser.SimpleCommand> parser.parseCommands(input)[0].pipelines[0][0];
+
+
+        it("returns the offset of each word", () => {
+            expect(parseSimple("a  bc").words.map(it => it.start)).to.deep.equal([0, 3]);
+        });
+
+        it("separates redirects from words", () => {
+            const command = parseSimple("a >b c");
+
+            expect(command.words.map(it => it.text)).to.deep.equal(["a", "c"]);
+            expect(command.redirects).to.have.length(1);
+            expect(command.redirects[0]).to.include({text: ">b", start: 2, operator: ">"});
+            expect(command.redirects[0].target).to.include({text: "b", start: 3});
+        });
+
+        it("returns the target of a redirect after spaces", () => {
+            const redirect = parseSimple("a 2>>  b").redirects[0];
+
+            expect(redirect.operator).to.equal("2>>");
+            expect(redirect.target).to.include({text: "b", start: 7});
+        });
+
+        it("returns the parts of a word", () => {
+            expect(parseSimple(`a'b'\\c$d\${e}$(f)\`g\`$((1))`).words[0].parts).to.deep.equal([
+                {type: "literal", text: "a", start: 0},
+                {type: "single-quoted", text: "'b'", start: 1},
+                {type: "escape", text: "\\c", start: 4},
+                {type: "parameter", text: "$d", start: 6},
+                {type: "parameter", text: "\${e}", start: 8},
+                {type: "command", text: "$(f)", start: 12},
+                {type: "command", text: "`g`", start: 16},
+                {type: "arithmetic", text: "$((1))", start: 19}
+            ]);
+        });
+
+        it("returns the parts in between double quotes", () => {
+            expect(parseSimple(`"a'$b"`).words[0].parts).to.deep.equal([{
+                type: "double-quoted",
+                text: `"a'$b"`,
+                start: 0,
+                parts: [{type: "literal", text: "a'", start: 1}, {type: "parameter", text: "$b", start: 3}]
+            }]);
+        });
+
+        it("returns the offsets of the words of a for loop", () => {
+            const loop = <InputParser.ForClause> parser.parseCommands("for x in a b ; do c ; done")[0].pipelines[0][0];
+
+            expect(loop.words.map(it => it.start)).to.deep.equal([9, 11]);
+        });
+
+        it("returns the offsets of commands in the body of a function", () => {
+            const definition = <InputParser.FunctionDefinition> parser.parseCommands("f() { a ; }")[0].pipelines[0][0];
+            const command = <InputParser.SimpleCommand> definition.body[0].pipelines[0][0];
+
+            expect(command.words[0].start).to.equal(6);
+        });
+
+        describe("error positions", () => {
+            /**
+             * Returns the error that is thrown when parsing the given input.
+             *
+             * @param input the input to parse
+             */
+            const parseError = (input: string): ParseError => {
+                try {
+                    parser.parseCommands(input);
+                } catch (error) {
+                    if (error instanceof ParseError)
+                        return error;
+                }
+
+                throw new Error("Expected a parse error.");
+            };
+
+
+            it("describes the position of an unexpected token", () => {
+                expect(parseError("a | | b")).to.include({line: 1, column: 5});
+            });
+
+            it("describes the position of an unexpected token on a later line", () => {
+                expect(parseError("a\nb &&\n  fi")).to.include({line: 3, column: 3});
+            });
+
+            it("describes the position of an unexpected keyword", () => {
+                expect(parseError("if a ; then fi")).to.include({line: 1, column: 13});
+            });
+
+            it("describes the position of an unclosed quote", () => {
+                expect(parseError("echo 'a")).to.include({line: 1, column: 6});
+            });
+
+            it("describes the position of a problem inside the body of a function", () => {
+                expect(parseError("f() {\n  a | ;\n}")).to.include({line: 2, column: 7});
+            });
+        });
+    });
+
+    describe("aliases", () => {
+        let aliases: AliasTable;
+
+
+        beforeEach(() => {
+            aliases = new AliasTable({
+                ll: "ls -l",
+                la: "ll -a",
+                ls: "ls --color",
+                quoted: "echo 'a  b'",
+                pipe: "a | b"
+            });
+            parser = new InputParser(new Tokenizer(), dummyExpander, aliases);
+        });
+
+
+        it("replaces the first token with the alias", () => {
+            const inputArgs = parser.parseCommand(["ll", "dir"]);
+
+            expect(inputArgs.command).to.equal("ls");
+            expect(inputArgs.options).to.have.own.property("-l");
+            expect(inputArgs.args).to.deep.equal(["dir"]);
+        });
+
+        it("does not replace tokens other than the first", () => {
+            expect(parser.parseCommand(["echo", "ll"]).args).to.deep.equal(["ll"]);
+        });
+
+        it("does not replace quoted tokens", () => {
+            expect(parser.parseCommand(["'ll'"]).command).to.equal("'ll'");
+        });
+
+        it("expands aliases recursively", () => {
+            expect(parser.parseCommand(["la"]).options).to.have.all.keys("--color", "-l", "-a");
+        });
+
+        it("does not expand an alias within its own expansion", () => {
+            const inputArgs = parser.parseCommand(["ls"]);
+
+            expect(inputArgs.command).to.equal("ls");
+            expect(inputArgs.options).to.have.all.keys("--color");
+        });
+
+        it("expands quotes in the alias", () => {
+            expect(parser.parseCommand(["quoted"]).args).to.deep.equal(["a  b"]);
+        });
+
+        it("throws an error if the alias contains multiple commands", () => {
+            expect(() => parser.parseCommand(["pipe"])).to.throw("Alias 'pipe' does not expand to a simple command.");
+        });
     });
 
     describe("options", () => {
+        it("retains the words from which the options and arguments were parsed", () => {
+            expect(parseAll("command -name x")[0].words).to.deep.equal(["-name", "x"]);
+        });
+
         describe("short options", () => {
             describe("simple cases", () => {
                 it("assigns the given value to a short option", () => {
-                    expect(parser.parseCommands("command -o=value")[0].options).to.have.own.property("-o", "value");
+                    expect(parseAll("command -o=value")[0].options).to.have.own.property("-o", "value");
                 });
 
                 it("assigns an empty string to a short option", () => {
-                    expect(parser.parseCommands("command -o= -p")[0].options).to.have.own.property("-o", "");
+                    expect(parseAll("command -o= -p")[0].options).to.have.own.property("-o", "");
                 });
 
                 it("throws an error if a value is assigned to a group of short options", () => {
-                    expect(() => parser.parseCommands("command -opq=arg -r")[0]).to.throw();
+                    expect(() => parseAll("command -opq=arg -r")).to.throw();
                 });
             });
 
             describe("value-less", () => {
                 it("assigns null to a value-less short option", () => {
-                    expect(parser.parseCommands("command -o")[0].options).to.have.own.property("-o", null);
+                    expect(parseAll("command -o")[0].options).to.have.own.property("-o", null);
                 });
 
                 it("assigns null to each value-less short option", () => {
-                    const options = parser.parseCommands("command -o -p")[0].options;
+                    const options = parseAll("command -o -p")[0].options;
                     expect(options).to.have.own.property("-o", null);
                     expect(options).to.have.own.property("-p", null);
                 });
 
                 it("assigns null to each value-less short option in a group", () => {
-                    const options = parser.parseCommands("command -op")[0].options;
+                    const options = parseAll("command -op")[0].options;
                     expect(options).to.have.own.property("-o", null);
                     expect(options).to.have.own.property("-p", null);
                 });
@@ -109,26 +565,26 @@ describe("input parser", () => {
 
             describe("numbers", () => {
                 it("stops parsing options if a short option-like negative number is given", () => {
-                    expect(parser.parseCommands(`command -2 -p`)[0].options).to.not.have.own.property("-p");
+                    expect(parseAll(`command -2 -p`)[0].options).to.not.have.own.property("-p");
                 });
 
                 it("continues parsing options if the value of a short option is a number", () => {
-                    expect(parser.parseCommands(`command -a=2 -p`)[0].options).to.have.own.property("-a", "2");
+                    expect(parseAll(`command -a=2 -p`)[0].options).to.have.own.property("-a", "2");
                 });
             });
 
             describe("invalid names", () => {
                 it("stops parsing options if a short option name contains a space", () => {
-                    expect(parser.parseCommands(`command -opt\\ ion -p`)[0].options).to.not.have.own.property("-p");
+                    expect(parseAll(`command -opt\\ ion -p`)[0].options).to.not.have.own.property("-p");
                 });
 
                 it("considers an assignment to an empty short option to be an argument", () => {
-                    expect(parser.parseCommands("command -=value -p")[0].options).to.not.have.own.property("-p");
+                    expect(parseAll("command -=value -p")[0].options).to.not.have.own.property("-p");
                 });
             });
 
             it("considers a short option surrounded by quotes as just any other option", () => {
-                const options = parser.parseCommands(`command -o "-p"`)[0].options;
+                const options = parseAll(`command -o "-p"`)[0].options;
                 expect(options).to.have.own.property("-o", null);
                 expect(options).to.have.own.property("-p", null);
             });
@@ -137,21 +593,21 @@ describe("input parser", () => {
         describe("long options", () => {
             describe("simple", () => {
                 it("assigns the given value to a long option", () => {
-                    expect(parser.parseCommands("command --option=value")[0].options).to.have.own.property("--option", "value");
+                    expect(parseAll("command --option=value")[0].options).to.have.own.property("--option", "value");
                 });
 
                 it("assigns the given value containing a space to a long option", () => {
-                    expect(parser.parseCommands(`command --option=val\\ ue`)[0].options).to.have.own.property("--option", "val ue");
+                    expect(parseAll(`command --option=val\\ ue`)[0].options).to.have.own.property("--option", "val ue");
                 });
             });
 
             describe("value-less", () => {
                 it("assigns null to a value-less long option", () => {
-                    expect(parser.parseCommands("command --option")[0].options).to.have.own.property("--option", null);
+                    expect(parseAll("command --option")[0].options).to.have.own.property("--option", null);
                 });
 
                 it("assigns null to each value-less long option", () => {
-                    const options = parser.parseCommands("command --optionA --optionB")[0].options;
+                    const options = parseAll("command --optionA --optionB")[0].options;
                     expect(options).to.have.own.property("--optionA", null);
                     expect(options).to.have.own.property("--optionB", null);
                 });
@@ -159,31 +615,31 @@ describe("input parser", () => {
 
             describe("numbers", () => {
                 it("stops parsing options if a long option-like double negative number is given", () => {
-                    expect(parser.parseCommands(`command --23 -p`)[0].options).to.not.have.own.property("-p");
+                    expect(parseAll(`command --23 -p`)[0].options).to.not.have.own.property("-p");
                 });
 
                 it("continues parsing options if the value of a long option is a number", () => {
-                    expect(parser.parseCommands(`command --a=2 -p`)[0].options).to.have.own.property("--a", "2");
+                    expect(parseAll(`command --a=2 -p`)[0].options).to.have.own.property("--a", "2");
                 });
             });
 
             describe("invalid names", () => {
                 it("stops parsing options if a long option name contains a space", () => {
-                    expect(parser.parseCommands(`command "--opt ion" -p`)[0].options).to.not.have.own.property("-p");
+                    expect(parseAll(`command "--opt ion" -p`)[0].options).to.not.have.own.property("-p");
                 });
 
                 it("stops parsing options if a long option-like negative number is given", () => {
-                    expect(parser.parseCommands(`command --2 -p`)[0].options).to.not.have.own.property("-p");
+                    expect(parseAll(`command --2 -p`)[0].options).to.not.have.own.property("-p");
                 });
 
                 it("considers an assignment to an empty long option to be an argument", () => {
-                    const options = parser.parseCommands("command --=value -p")[0].options;
+                    const options = parseAll("command --=value -p")[0].options;
                     expect(options).to.not.have.own.property("-p");
                 });
             });
 
             it("considers a long option surrounded by quotes as any other option", () => {
-                const options = parser.parseCommands(`command -o "--p"`)[0].options;
+                const options = parseAll(`command -o "--p"`)[0].options;
                 expect(options).to.have.own.property("-o", null);
                 expect(options).to.have.own.property("--p", null);
             });
@@ -191,7 +647,7 @@ describe("input parser", () => {
 
         describe("shared cases", () => {
             it("distinguishes between short and long options", () => {
-                const options = parser.parseCommands("command -s --long")[0].options;
+                const options = parseAll("command -s --long")[0].options;
 
                 expect(options).to.not.have.own.property("s", null);
                 expect(options).to.have.own.property("-s", null);
@@ -203,21 +659,21 @@ describe("input parser", () => {
             });
 
             it("stops parsing options after the first non-option", () => {
-                expect(parser.parseCommands("command -o=value arg -p")[0].options).to.not.have.own.property("-p");
+                expect(parseAll("command -o=value arg -p")[0].options).to.not.have.own.property("-p");
             });
 
             it("stops parsing options after --", () => {
-                expect(parser.parseCommands("command -- -p")[0].options).to.not.have.own.property("-p");
+                expect(parseAll("command -- -p")[0].options).to.not.have.own.property("-p");
             });
 
             it("allows option values with an equals sign", () => {
-                expect(parser.parseCommands("command -a=b=c")[0].options["-a"]).to.equal("b=c");
+                expect(parseAll("command -a=b=c")[0].options["-a"]).to.equal("b=c");
             });
         });
 
         describe("multiple commands", () => {
             it("keeps the commands' options separate", () => {
-                const inputArgs = parser.parseCommands("a --abc -- -e ; b -e --d=f");
+                const inputArgs = parseAll("a --abc -- -e ; b -e --d=f");
 
                 expect(inputArgs[0].options).to.have.own.property("--abc", null);
                 expect(inputArgs[0].options).to.not.have.own.property("-e", null);
@@ -229,32 +685,32 @@ describe("input parser", () => {
 
     describe("args", () => {
         it("has no arguments if only the command is given", () => {
-            expect(parser.parseCommands("command")[0].args).to.have.length(0);
+            expect(parseAll("command")[0].args).to.have.length(0);
         });
 
         it("has no arguments if only options are given", () => {
-            expect(parser.parseCommands("command -o=value -p")[0].args).to.have.length(0);
+            expect(parseAll("command -o=value -p")[0].args).to.have.length(0);
         });
 
         it("has all simple arguments", () => {
-            expect(parser.parseCommands("command a b c")[0].args).to.have.members(["a", "b", "c"]);
+            expect(parseAll("command a b c")[0].args).to.have.members(["a", "b", "c"]);
         });
 
         it("has arguments containing spaces", () => {
-            expect(parser.parseCommands(`command a\\ b\\ c`)[0].args).to.have.members(["a b c"]);
+            expect(parseAll(`command a\\ b\\ c`)[0].args).to.have.members(["a b c"]);
         });
 
         it("has arguments containing dashes", () => {
-            expect(parser.parseCommands("command -o -- -p")[0].args).to.have.members(["-p"]);
+            expect(parseAll("command -o -- -p")[0].args).to.have.members(["-p"]);
         });
 
         it("interprets options as arguments after --", () => {
-            expect(parser.parseCommands("command -o -- -p")[0].args).to.have.members(["-p"]);
+            expect(parseAll("command -o -- -p")[0].args).to.have.members(["-p"]);
         });
 
         describe("multiple commands", () => {
             it("keeps the commands' arguments separate", () => {
-                const inputArgs = parser.parseCommands("command a b ; command d e f");
+                const inputArgs = parseAll("command a b ; command d e f");
 
                 expect(inputArgs[0].args).to.have.deep.members(["a", "b"]);
                 expect(inputArgs[1].args).to.have.deep.members(["d", "e", "f"]);
@@ -262,33 +718,168 @@ describe("input parser", () => {
         });
     });
 
+    describe("words", () => {
+        it("parses the options and arguments of the words", () => {
+            const inputArgs = parser.parseWords(["command", "-o", "a", "b"]);
+
+            expect(inputArgs.command).to.equal("command");
+            expect(inputArgs.options).to.deep.equal({"-o": null});
+            expect(inputArgs.args).to.deep.equal(["a", "b"]);
+            expect(inputArgs.words).to.deep.equal(["-o", "a", "b"]);
+        });
+
+        it("does not expand or redirect the words", () => {
+            const inputArgs = parser.parseWords(["command", "$a*", "'b'", ">c"]);
+
+            expect(inputArgs.args).to.deep.equal(["$a*", "'b'", ">c"]);
+            expect(inputArgs.redirectTargets).to.be.empty;
+        });
+    });
+
+    describe("unexpanded", () => {
+        let environment: Environment;
+        let aliases: AliasTable;
+
+
+        beforeEach(() => {
+            environment = new Environment(["cwd"], {"cwd": "/"});
+            aliases = new AliasTable({l: "ls -a"});
+            parser = InputParser.create(environment, new FileSystem(), undefined, [], aliases);
+        });
+
+
+        it("expands aliases", () => {
+            const inputArgs = parser.parseUnexpanded(["l", "b"]);
+
+            expect(inputArgs.command).to.equal("ls");
+            expect(inputArgs.options).to.deep.equal({"-a": null});
+            expect(inputArgs.args).to.deep.equal(["b"]);
+        });
+
+        it("removes quotes and escapes", () => {
+            expect(parser.parseUnexpanded(["command", "'a b'", "\"c\\\"d\\e\"", "f\\ g"]).args)
+                .to.deep.equal(["a b", "c\"d\\e", "f g"]);
+        });
+
+        it("does not expand the tokens", () => {
+            environment.set("a", "1");
+
+            const inputArgs = parser.parseUnexpanded(["command", "$a", "${b:=2}", "$((a+=1))", "{c,d}", "*"]);
+
+            expect(inputArgs.args).to.deep.equal(["$a", "${b:=2}", "$((a+=1))", "{c,d}", "*"]);
+            expect(environment.get("a")).to.equal("1");
+            expect(environment.has("b")).to.be.false;
+        });
+
+        it("leaves out redirections", () => {
+            const inputArgs = parser.parseUnexpanded(["command", "a", ">b"]);
+
+            expect(inputArgs.args).to.deep.equal(["a"]);
+            expect(inputArgs.redirectTargets).to.be.empty;
+        });
+    });
+
     describe("redirect targets", () => {
         it("assigns a number-less target to index 1", () => {
-            expect(parser.parseCommands("command >file")[0].redirectTargets[1])
+            expect(parseAll("command >file")[0].redirectTargets[1])
                 .to.deep.equal({type: "write", target: "file"});
-            expect(parser.parseCommands("command >>file")[0].redirectTargets[1])
+            expect(parseAll("command >>file")[0].redirectTargets[1])
                 .to.deep.equal({type: "append", target: "file"});
         });
 
         it("assigns the target to the preceding number", () => {
-            expect(parser.parseCommands("command 3>file")[0].redirectTargets[3])
+            expect(parseAll("command 3>file")[0].redirectTargets[3])
                 .to.deep.equal({type: "write", target: "file"});
-            expect(parser.parseCommands("command 3>>file")[0].redirectTargets[3])
+            expect(parseAll("command 3>>file")[0].redirectTargets[3])
                 .to.deep.equal({type: "append", target: "file"});
         });
 
         it("uses the last target that is defined", () => {
-            expect(parser.parseCommands("command 3>old 3>>new")[0].redirectTargets[3])
+            expect(parseAll("command 3>old 3>>new")[0].redirectTargets[3])
                 .to.deep.equal({type: "append", target: "new"});
         });
 
         it("does not include redirect targets in the arguments", () => {
-            expect(parser.parseCommands("command arg1 3>file arg2")[0].args).to.have.members(["arg1", "arg2"]);
+            expect(parseAll("command arg1 3>file arg2")[0].args).to.have.members(["arg1", "arg2"]);
+        });
+
+        it("assigns an overwriting target", () => {
+            expect(parseAll("command >|file")[0].redirectTargets[1])
+                .to.deep.equal({type: "overwrite", target: "file"});
+        });
+
+        it("assigns the same target to both output streams", () => {
+            expect(parseAll("command &>file")[0].redirectTargets)
+                .to.deep.equal([undefined, {type: "write", target: "file"}, {type: "write", target: "file"}]);
+            expect(parseAll("command &>>file")[0].redirectTargets)
+                .to.deep.equal([undefined, {type: "append", target: "file"}, {type: "append", target: "file"}]);
+            expect(parseAll("command >&file")[0].redirectTargets)
+                .to.deep.equal([undefined, {type: "write", target: "file"}, {type: "write", target: "file"}]);
+        });
+
+        describe("duplication", () => {
+            it("duplicates a stream that has not been redirected", () => {
+                expect(parseAll("command 2>&1")[0].redirectTargets[2])
+                    .to.deep.equal({type: "duplicate", target: "1"});
+                expect(parseAll("command >&2")[0].redirectTargets[1])
+                    .to.deep.equal({type: "duplicate", target: "2"});
+            });
+
+            it("duplicates the target of a stream that has been redirected before", () => {
+                expect(parseAll("command >file 2>&1")[0].redirectTargets)
+                    .to.deep.equal([undefined, {type: "write", target: "file"}, {type: "write", target: "file"}]);
+            });
+
+            it("does not duplicate the target of a stream that is redirected afterwards", () => {
+                expect(parseAll("command 2>&1 >file")[0].redirectTargets)
+                    .to.deep.equal([undefined, {type: "write", target: "file"}, {type: "duplicate", target: "1"}]);
+            });
+
+            it("throws an error if the stream cannot be duplicated", () => {
+                expect(() => parseAll("command 2>&3")).to.throw();
+                expect(() => parseAll("command 0>&1")).to.throw();
+            });
+        });
+
+        describe("input", () => {
+            beforeEach(() => parser = new InputParser(new Tokenizer(), dummyExpander));
+
+
+            it("assigns a number-less input target to index 0", () => {
+                expect(parseAll("command <file")[0].redirectTargets[0])
+                    .to.deep.equal({type: "read", target: "file"});
+            });
+
+            it("assigns the contents of a here-string with a newline", () => {
+                expect(parseAll("command <<< 'a  b'")[0].redirectTargets[0])
+                    .to.deep.equal({type: "here", target: "a  b\n"});
+            });
+
+            it("assigns the body of a here-document", () => {
+                expect(parseAll("command <<EOF\na\n b\nEOF")[0].redirectTargets[0])
+                    .to.deep.equal({type: "here", target: "a\n b\n"});
+            });
+
+            it("expands the body of a here-document with an unquoted delimiter", () => {
+                expect(parseAll("command <<EOF\n'$a' b\nEOF")[0].redirectTargets[0])
+                    .to.deep.equal({type: "here", target: "'' b\n"});
+            });
+
+            it("does not expand the body of a here-document with a quoted delimiter", () => {
+                expect(parseAll("command <<'EOF'\n$a\nEOF")[0].redirectTargets[0])
+                    .to.deep.equal({type: "here", target: "$a\n"});
+                expect(parseAll("command <<\\EOF\n$a\nEOF")[0].redirectTargets[0])
+                    .to.deep.equal({type: "here", target: "$a\n"});
+            });
+
+            it("does not include input redirect targets in the arguments", () => {
+                expect(parseAll("command arg1 <file arg2 <<<word")[0].args).to.have.members(["arg1", "arg2"]);
+            });
         });
 
         describe("multiple commands", () => {
             it("keeps the commands' redirect targets separate", () => {
-                const inputArgs = parser.parseCommands("command a b >out 2>>err ; command 3>magic");
+                const inputArgs = parseAll("command a b >out 2>>err ; command 3>magic");
 
                 expect(inputArgs[0].redirectTargets).to.deep.equal([
                     undefined,
@@ -352,262 +943,876 @@ describe("tokenizer", () => {
                 expect(tokenizer.tokenize(";ab;;;;;c")).to.have.deep.members(["ab", ";", "c"]);
             });
         });
-    });
 
-    describe("grouping", () => {
-        describe("quotes", () => {
-            it("throws an error if quotes are not closed", () => {
-                expect(() => tokenizer.tokenize("a'b")).to.throw();
-                expect(() => tokenizer.tokenize("a\"b")).to.throw();
+        describe("tab", () => {
+            it("separates tokens", () => {
+                expect(tokenizer.tokenize("a\tb")).to.deep.equal(["a", "b"]);
             });
+        });
 
-            it("does not throw an error if a quote opened inside other quotes is not closed", () => {
-                expect(tokenizer.tokenize(`a"b'c"d`)).to.have.deep.members([`a"b'c"d`]);
-                expect(tokenizer.tokenize(`a'b"c'd`)).to.have.deep.members([`a'b"c'd`]);
+        describe("newline", () => {
+            it("separates tokens and adds a new token containing only the newline", () => {
+                expect(tokenizer.tokenize("a\nb")).to.deep.equal(["a", "\n", "b"]);
+                expect(tokenizer.tokenize("a \n b")).to.deep.equal(["a", "\n", "b"]);
             });
 
-            it("includes whitespace if within quotes", () => {
-                expect(tokenizer.tokenize("a' 'b")).to.have.deep.members(["a' 'b"]);
-                expect(tokenizer.tokenize("a\" \"b")).to.have.deep.members(["a\" \"b"]);
+            it("does not separate tokens inside groups", () => {
+                expect(tokenizer.tokenize(`a'\n'b`)).to.deep.equal([`a'\n'b`]);
+                expect(tokenizer.tokenize(`a"\n"b`)).to.deep.equal([`a"\n"b`]);
+                expect(tokenizer.tokenize(`a{\n}b`)).to.deep.equal([`a{\n}b`]);
             });
 
-            it("adds the redirect character literally if inside quotes", () => {
-                expect(tokenizer.tokenize("a'>'b")).to.have.deep.members(["a'>'b"]);
-                expect(tokenizer.tokenize("a\">\"b")).to.have.deep.members(["a\">\"b"]);
+            it("does not push empty tokens in between consecutive newlines and semicolons", () => {
+                expect(tokenizer.tokenize("\nab\n\n;\nc\n")).to.deep.equal(["ab", "\n", ";", "c", "\n"]);
             });
         });
 
-        describe("curly braces", () => {
-            it("throws an error if curly braces are not closed", () => {
-                expect(() => tokenizer.tokenize("a{ba")).to.throw();
+        describe("pipe", () => {
+            it("separates tokens and adds a new token containing only the pipe", () => {
+                expect(tokenizer.tokenize("a|b")).to.deep.equal(["a", "|", "b"]);
+                expect(tokenizer.tokenize("a| b")).to.deep.equal(["a", "|", "b"]);
+                expect(tokenizer.tokenize("a |b")).to.deep.equal(["a", "|", "b"]);
+                expect(tokenizer.tokenize("a | b")).to.deep.equal(["a", "|", "b"]);
             });
 
-            it("throws an error if nested curly braces are not closed", () => {
-                expect(() => tokenizer.tokenize("a{{b}a")).to.throw();
+            it("does not separate tokens inside groups", () => {
+                expect(tokenizer.tokenize(`a'|'b`)).to.deep.equal([`a'|'b`]);
+                expect(tokenizer.tokenize(`a"|"b`)).to.deep.equal([`a"|"b`]);
+                expect(tokenizer.tokenize(`a{|}b`)).to.deep.equal([`a{|}b`]);
             });
 
-            it("throws an error if curly braces are not opened", () => {
-                expect(() => tokenizer.tokenize("a}ba")).to.throw();
+            it("does not separate tokens at an escaped pipe", () => {
+                expect(tokenizer.tokenize("a\\|b")).to.deep.equal(["a\\|b"]);
+            });
+        });
+
+        describe("and-or operators", () => {
+            it("separates tokens and adds a new token containing only the operator", () => {
+                expect(tokenizer.tokenize("a&&b")).to.deep.equal(["a", "&&", "b"]);
+                expect(tokenizer.tokenize("a && b")).to.deep.equal(["a", "&&", "b"]);
+                expect(tokenizer.tokenize("a||b")).to.deep.equal(["a", "||", "b"]);
+                expect(tokenizer.tokenize("a || b")).to.deep.equal(["a", "||", "b"]);
+            });
+
+            it("distinguishes between a pipe and an or-operator", () => {
+                expect(tokenizer.tokenize("a ||| b")).to.deep.equal(["a", "||", "|", "b"]);
             });
 
-            it("does not throw an error if a curly brace opened inside quotes is not closed", () => {
-                expect(tokenizer.tokenize(`a'{'b`)).to.have.deep.members([`a'{'b`]);
-                expect(tokenizer.tokenize(`a"{"b`)).to.have.deep.members([`a"{"b`]);
+            it("does not separate tokens at a single ampersand", () => {
+                expect(tokenizer.tokenize("a&b")).to.deep.equal(["a&b"]);
+            });
+
+            it("does not separate tokens inside groups", () => {
+                expect(tokenizer.tokenize(`a'&&'b`)).to.deep.equal([`a'&&'b`]);
+                expect(tokenizer.tokenize(`a"||"b`)).to.deep.equal([`a"||"b`]);
+                expect(tokenizer.tokenize(`a{&&}b`)).to.deep.equal([`a{&&}b`]);
+            });
+
+            it("does not separate tokens at escaped operators", () => {
+                expect(tokenizer.tokenize("a\\&&&b")).to.deep.equal(["a\\&", "&&", "b"]);
+                expect(tokenizer.tokenize("a\\&\\&b")).to.deep.equal(["a\\&\\&b"]);
+            });
+        });
+    });
+
+    describe("grouping", () => {
+        describe("quotes", () => {
+            it("throws an error if quotes are not closed", () => {
+                expect(() => tokenizer.tokenize("a'b")).to.throw();
+                expect(() => tokenizer.tokenize("a\"b")).to.throw();
+            });
+
+            it("does not throw an error if a quote opened inside other quotes is not closed", () => {
+                expect(tokenizer.tokenize(`a"b'c"d`)).to.have.deep.members([`a"b'c"d`]);
+                expect(tokenizer.tokenize(`a'b"c'd`)).to.have.deep.members([`a'b"c'd`]);
+            });
+
+            it("includes whitespace if within quotes", () => {
+                expect(tokenizer.tokenize("a' 'b")).to.have.deep.members(["a' 'b"]);
+                expect(tokenizer.tokenize("a\" \"b")).to.have.deep.members(["a\" \"b"]);
+            });
+
+            it("adds the redirect character literally if inside quotes", () => {
+                expect(tokenizer.tokenize("a'>'b")).to.have.deep.members(["a'>'b"]);
+                expect(tokenizer.tokenize("a\">\"b")).to.have.deep.members(["a\">\"b"]);
+            });
+        });
+
+        describe("curly braces", () => {
+            it("adds a curly brace that is not closed literally", () => {
+                expect(tokenizer.tokenize("a{b a")).to.deep.equal(["a{b", "a"]);
+            });
+
+            it("adds a curly brace that is not closed literally if nested curly braces are closed", () => {
+                expect(tokenizer.tokenize("a{{b c}a d")).to.deep.equal(["a{{b c}a", "d"]);
+            });
+
+            it("throws an error if the curly braces of a parameter expression are not closed", () => {
+                expect(() => tokenizer.tokenize("a${ba")).to.throw();
+            });
+
+            it("throws an error if curly braces are not opened", () => {
+                expect(() => tokenizer.tokenize("a}ba")).to.throw();
+            });
+
+            it("does not throw an error if a curly brace opened inside quotes is not closed", () => {
+                expect(tokenizer.tokenize(`a'{'b`)).to.have.deep.members([`a'{'b`]);
+                expect(tokenizer.tokenize(`a"{"b`)).to.have.deep.members([`a"{"b`]);
+            });
+
+            it("does not close curly braces inside quotes", () => {
+                expect(tokenizer.tokenize(`a{'}' b`)).to.deep.equal([`a{'}'`, "b"]);
+                expect(tokenizer.tokenize(`a{"}" b`)).to.deep.equal([`a{"}"`, "b"]);
+            });
+
+            it("includes whitespace if within curly braces", () => {
+                expect(tokenizer.tokenize("a{ }b")).to.have.deep.members(["a{ }b"]);
+            });
+
+            it("does not separate tokens inside a parameter expression", () => {
+                expect(tokenizer.tokenize("a ${b:-c d|e} f")).to.deep.equal(["a", "${b:-c d|e}", "f"]);
+            });
+
+            it("adds the redirect character literally if inside curly braces", () => {
+                expect(tokenizer.tokenize("a{>}b")).to.have.deep.members(["a{>}b"]);
+            });
+        });
+    });
+
+    describe("redirection", () => {
+        describe("delimiter detection", () => {
+            it("includes a single redirect symbol in a single token", () => {
+                expect(tokenizer.tokenize("a>b")).to.have.deep.members(["a", ">b"]);
+                expect(tokenizer.tokenize("a> b")).to.have.deep.members(["a", ">b"]);
+                expect(tokenizer.tokenize("a >b")).to.have.deep.members(["a", ">b"]);
+                expect(tokenizer.tokenize("a > b")).to.have.deep.members(["a", ">b"]);
+            });
+
+            it("includes two redirect symbols in a single token", () => {
+                expect(tokenizer.tokenize("a>>b")).to.have.deep.members(["a", ">>b"]);
+                expect(tokenizer.tokenize("a>> b")).to.have.deep.members(["a", ">>b"]);
+                expect(tokenizer.tokenize("a >>b")).to.have.deep.members(["a", ">>b"]);
+                expect(tokenizer.tokenize("a >> b")).to.have.deep.members(["a", ">>b"]);
+            });
+
+            it("creates two tokens if three redirect symbols are given without a space", () => {
+                expect(tokenizer.tokenize("a>>>b")).to.have.deep.members(["a", ">>", ">b"]);
+                expect(tokenizer.tokenize("a>>> b")).to.have.deep.members(["a", ">>", ">b"]);
+                expect(tokenizer.tokenize("a >>>b")).to.have.deep.members(["a", ">>", ">b"]);
+                expect(tokenizer.tokenize("a >>> b")).to.have.deep.members(["a", ">>", ">b"]);
+            });
+
+            it("creates two tokens for two redirect symbols separated by a space", () => {
+                expect(tokenizer.tokenize("a> >b")).to.have.deep.members(["a", ">", ">b"]);
+                expect(tokenizer.tokenize("a> > b")).to.have.deep.members(["a", ">", ">b"]);
+                expect(tokenizer.tokenize("a > >b")).to.have.deep.members(["a", ">", ">b"]);
+                expect(tokenizer.tokenize("a > > b")).to.have.deep.members(["a", ">", ">b"]);
+            });
+        });
+
+        describe("stream identifiers", () => {
+            it("includes the preceding identifier", () => {
+                expect(tokenizer.tokenize("a 42>b")).to.have.deep.members(["a", "42>b"]);
+                expect(tokenizer.tokenize("a 42> b")).to.have.deep.members(["a", "42>b"]);
+
+                expect(tokenizer.tokenize("a 42>>b")).to.have.deep.members(["a", "42>>b"]);
+                expect(tokenizer.tokenize("a 42>> b")).to.have.deep.members(["a", "42>>b"]);
+            });
+
+            it("does not include the identifier if it is followed by a space", () => {
+                expect(tokenizer.tokenize("a 42 >b")).to.have.deep.members(["a", "42", ">b"]);
+                expect(tokenizer.tokenize("a 42 > b")).to.have.deep.members(["a", "42", ">b"]);
+
+                expect(tokenizer.tokenize("a 42 >>b")).to.have.deep.members(["a", "42", ">>b"]);
+                expect(tokenizer.tokenize("a 42 >> b")).to.have.deep.members(["a", "42", ">>b"]);
+            });
+
+            it("does not include the identifier if it is not preceded by a space", () => {
+                expect(tokenizer.tokenize("a42>b")).to.have.deep.members(["a42", ">b"]);
+                expect(tokenizer.tokenize("a42> b")).to.have.deep.members(["a42", ">b"]);
+
+                expect(tokenizer.tokenize("a42>>b")).to.have.deep.members(["a42", ">>b"]);
+                expect(tokenizer.tokenize("a42>> b")).to.have.deep.members(["a42", ">>b"]);
+            });
+        });
+    });
+
+    describe("output redirection", () => {
+        it("includes a pipe after the redirect symbol in the token", () => {
+            expect(tokenizer.tokenize("a >| b | c")).to.deep.equal(["a", ">|b", "|", "c"]);
+        });
+
+        it("includes a preceding ampersand in the token", () => {
+            expect(tokenizer.tokenize("a &>b")).to.deep.equal(["a", "&>b"]);
+            expect(tokenizer.tokenize("a &>> b")).to.deep.equal(["a", "&>>b"]);
+        });
+
+        it("includes a following ampersand and stream identifier in the token", () => {
+            expect(tokenizer.tokenize("a 2>&1")).to.deep.equal(["a", "2>&1"]);
+            expect(tokenizer.tokenize("a >& 2")).to.deep.equal(["a", ">&2"]);
+        });
+    });
+
+    describe("extended glob patterns", () => {
+        it("does not separate tokens inside an extended glob pattern", () => {
+            expect(tokenizer.tokenize("a @(b|c d) e")).to.deep.equal(["a", "@(b|c d)", "e"]);
+            expect(tokenizer.tokenize("a !(*.txt)")).to.deep.equal(["a", "!(*.txt)"]);
+        });
+
+        it("separates tokens at a pipe after an escaped pattern character", () => {
+            expect(tokenizer.tokenize("a \\@(b | c)")).to.deep.equal(["a", "\\@(b", "|", "c)"]);
+        });
+    });
+
+    describe("input redirection", () => {
+        it("includes a single redirect symbol in a single token", () => {
+            expect(tokenizer.tokenize("a<b")).to.deep.equal(["a", "<b"]);
+            expect(tokenizer.tokenize("a < b")).to.deep.equal(["a", "<b"]);
+            expect(tokenizer.tokenize("a 0< b")).to.deep.equal(["a", "0<b"]);
+        });
+
+        it("includes three redirect symbols in a single token", () => {
+            expect(tokenizer.tokenize("a<<<b")).to.deep.equal(["a", "<<<b"]);
+            expect(tokenizer.tokenize("a <<< 'b c'")).to.deep.equal(["a", "<<<'b c'"]);
+        });
+
+        describe("here-documents", () => {
+            it("appends the lines up to the delimiter to the token", () => {
+                expect(tokenizer.tokenize("a <<EOF\nb\n c\nEOF")).to.deep.equal(["a", "<<EOF\nb\n c\n"]);
+            });
+
+            it("continues tokenizing after the delimiter", () => {
+                expect(tokenizer.tokenize("a <<EOF | d\nb\nEOF\ne"))
+                    .to.deep.equal(["a", "<<EOF\nb\n", "|", "d", "\n", "e"]);
+            });
+
+            it("does not tokenize the body", () => {
+                expect(tokenizer.tokenize("a <<EOF\n'b; {c\nEOF")).to.deep.equal(["a", "<<EOF\n'b; {c\n"]);
+            });
+
+            it("reads the bodies of multiple here-documents in order", () => {
+                expect(tokenizer.tokenize("a <<X <<'Y'\nb\nX\nc\nY"))
+                    .to.deep.equal(["a", "<<X\nb\n", "<<'Y'\nc\n"]);
+            });
+
+            it("only ends the body at a line that equals the delimiter exactly", () => {
+                expect(tokenizer.tokenize("a <<EOF\n EOF\nEOFF\nEOF")).to.deep.equal(["a", "<<EOF\n EOF\nEOFF\n"]);
+            });
+
+            it("throws an incomplete input error if the delimiter is not found", () => {
+                expect(() => tokenizer.tokenize("a <<EOF")).to.throw(IncompleteInputError);
+                expect(() => tokenizer.tokenize("a <<EOF\nb")).to.throw(IncompleteInputError);
+            });
+
+            it("indicates that the input ends inside the body of the here-document", () => {
+                expect(() => tokenizer.tokenize("a <<EOF\nb")).to.throw(IncompleteInputError)
+                    .with.property("isInHereDocument", true);
+            });
+
+            it("throws an error if the delimiter is missing", () => {
+                expect(() => tokenizer.tokenize("a <<\nb")).to.throw("Expected a delimiter after '<<'.");
+            });
+        });
+    });
+
+    describe("command substitution", () => {
+        it("does not separate tokens inside a command substitution", () => {
+            expect(tokenizer.tokenize("a $(b c; d | e) f")).to.deep.equal(["a", "$(b c; d | e)", "f"]);
+        });
+
+        it("does not separate tokens inside backticks", () => {
+            expect(tokenizer.tokenize("a `b c; d` f")).to.deep.equal(["a", "`b c; d`", "f"]);
+        });
+
+        it("includes surrounding characters in the token", () => {
+            expect(tokenizer.tokenize("a$(b c)d")).to.deep.equal(["a$(b c)d"]);
+        });
+
+        it("finds the matching parenthesis of nested command substitutions", () => {
+            expect(tokenizer.tokenize("$(a $(b c) d) e")).to.deep.equal(["$(a $(b c) d)", "e"]);
+        });
+
+        it("ignores parentheses inside quotes in a command substitution", () => {
+            expect(tokenizer.tokenize(`$(a ")" ')') b`)).to.deep.equal([`$(a ")" ')')`, "b"]);
+        });
+
+        it("does not substitute inside single quotes", () => {
+            expect(tokenizer.tokenize("'$(a' b")).to.deep.equal(["'$(a'", "b"]);
+        });
+
+        it("throws an error if a command substitution is not closed", () => {
+            expect(() => tokenizer.tokenize("$(a b")).to.throw();
+            expect(() => tokenizer.tokenize("`a b")).to.throw();
+        });
+    });
+
+    describe("backslash", () => {
+        it("includes any escaped character in the token", () => {
+            expect(tokenizer.tokenize(`'\\p'"\\""\\ `)).to.have.deep.members([`'\\p'"\\""\\ `]);
+        });
+
+        it("does not separate at an escaped whitespace", () => {
+            expect(tokenizer.tokenize("a\\ b")).to.have.deep.members(["a\\ b"]);
+        });
+
+        it("retains an escaped trailing whitespace", () => {
+            expect(tokenizer.tokenize("ab\\ ")).to.have.deep.members(["ab\\ "]);
+        });
+
+        it("throws an error if an escape occurs but no character follows", () => {
+            expect(() => tokenizer.tokenize("ab\\")).to.throw();
+        });
+    });
+
+    describe("positions", () => {
+        it("returns the offset at which each token starts", () => {
+            expect(tokenizer.tokenizeWithPositions("a  bc;d")).to.deep.equal([
+                {text: "a", start: 0},
+                {text: "bc", start: 3},
+                {text: ";", start: 5},
+                {text: "d", start: 6}
+            ]);
+        });
+
+        it("returns the offset at which a redirect starts", () => {
+            expect(tokenizer.tokenizeWithPositions("a b>c 2> d")).to.deep.equal([
+                {text: "a", start: 0},
+                {text: "b", start: 2},
+                {text: ">c", start: 3},
+                {text: "2>d", start: 6}
+            ]);
+        });
+
+        it("starts tokenizing at the given offset", () => {
+            expect(tokenizer.tokenizeWithPositions("ab cd", 3)).to.deep.equal([{text: "cd", start: 3}]);
+        });
+
+        it("throws an error describing the position of an unclosed quote", () => {
+            expect(() => tokenizer.tokenize("a\nb 'c"))
+                .to.throw(ParseError).with.property("line", 2);
+            expect(() => tokenizer.tokenize("a\nb 'c"))
+                .to.throw(ParseError).with.property("column", 3);
+        });
+
+        it("throws an error describing the position of an unexpected closing brace", () => {
+            expect(() => tokenizer.tokenize("ab}")).to.throw(ParseError).with.property("column", 3);
+        });
+    });
+});
+
+describe("expander", () => {
+    let environment: Environment;
+    let expander: Expander;
+
+
+    beforeEach(() => {
+        environment = new Environment();
+        expander = new Expander(environment, dummyGlobber);
+    });
+
+
+    describe("backslash", () => {
+        describe("outside quotes", () => {
+            it("escapes the escape character", () => {
+                expect(expander.expand("\\\\")).to.have.deep.members(["\\"]);
+            });
+
+            it("escapes separators", () => {
+                expect(expander.expand("\\ ")).to.have.deep.members([" "]);
+                expect(expander.expand("\\;")).to.have.deep.members([";"]);
+            });
+
+            it("escapes the pipe and ampersand characters", () => {
+                expect(expander.expand("\\|")).to.have.deep.members(["|"]);
+                expect(expander.expand("\\&")).to.have.deep.members(["&"]);
+            });
+
+            it("escapes the home directory character", () => {
+                expect(expander.expand("\\~")).to.have.deep.members(["~"]);
+            });
+
+            it("escape the environment variable character", () => {
+                expect(expander.expand("\\$")).to.have.deep.members(["$"]);
+            });
+
+            it("escapes redirection characters", () => {
+                expect(expander.expand("\\>")).to.have.deep.members([">"]);
+            });
+
+            it("escapes glob characters", () => {
+                expect(expander.expand("\\?")).to.have.deep.members(["?"]);
+                expect(expander.expand("\\*")).to.have.deep.members(["*"]);
+            });
+
+            it("escapes grouping characters", () => {
+                expect(expander.expand("\\'")).to.have.deep.members(["'"]);
+                expect(expander.expand("\\\"")).to.have.deep.members(["\""]);
+                expect(expander.expand("\\{")).to.have.deep.members(["{"]);
+                expect(expander.expand("\\}")).to.have.deep.members(["}"]);
+            });
+
+            it("does not escape other characters", () => {
+                expect(expander.expand("\\a\\b\\_")).to.have.deep.members(["\\a\\b\\_"]);
+            });
+        });
+
+        describe("inside quotes", () => {
+            it("does not retain the backslash if the current quote style is escaped", () => {
+                expect(expander.expand(`'\\''`)).to.have.deep.members([`'`]);
+                expect(expander.expand(`"\\""`)).to.have.deep.members([`"`]);
+            });
+
+            it("retains the backslash for any other character", () => {
+                expect(expander.expand(`'\\a\\n\\$\\"'`)).to.have.deep.members([`\\a\\n\\$\\"`]);
+                expect(expander.expand(`"\\a\\n\\$\\'"`)).to.have.deep.members([`\\a\\n\\$\\'`]);
+            });
+        });
+    });
+
+    describe("grouping", () => {
+        it("retains quotes placed inside the other quote", () => {
+            expect(expander.expand(`"'"`)).to.have.deep.members([`'`]);
+            expect(expander.expand(`'"'`)).to.have.deep.members([`"`]);
+        });
+
+        it("retains curly braces in quotes", () => {
+            expect(expander.expand(`'{}'`)).to.have.deep.members(["{}"]);
+            expect(expander.expand(`"{}"`)).to.have.deep.members(["{}"]);
+        });
+
+        it("retains curly braces outside of quotes", () => {
+            expect(expander.expand(`{'{'}`)).to.have.deep.members(["{{}"]);
+            expect(expander.expand(`{"{"}`)).to.have.deep.members(["{{}"]);
+        });
+
+        it("retains nested curly braces outside of quotes", () => {
+            expect(expander.expand(`{''{'{'}}`)).to.have.deep.members(["{{{}}"]);
+            expect(expander.expand(`{""{"{"}}`)).to.have.deep.members(["{{{}}"]);
+        });
+    });
+
+    describe("brace expansion", () => {
+        it("expands a list of alternatives", () => {
+            expect(expander.expand("{a,b,c}")).to.deep.equal(["a", "b", "c"]);
+        });
+
+        it("combines the alternatives with the prefix and suffix", () => {
+            expect(expander.expand("x/{a,b}.y")).to.deep.equal(["x/a.y", "x/b.y"]);
+        });
+
+        it("includes empty alternatives", () => {
+            expect(expander.expand("a{,.bak}")).to.deep.equal(["a", "a.bak"]);
+        });
+
+        it("expands multiple lists", () => {
+            expect(expander.expand("{a,b}{c,d}")).to.deep.equal(["ac", "ad", "bc", "bd"]);
+        });
+
+        it("expands nested lists", () => {
+            expect(expander.expand("{a,b{c,d}e}")).to.deep.equal(["a", "bce", "bde"]);
+        });
+
+        it("expands lists nested in curly braces that do not form a list", () => {
+            expect(expander.expand("{x{a,b}}")).to.deep.equal(["{xa}", "{xb}"]);
+        });
+
+        it("retains empty curly braces", () => {
+            expect(expander.expand("{}")).to.deep.equal(["{}"]);
+            expect(expander.expand("x{}y")).to.deep.equal(["x{}y"]);
+        });
+
+        it("retains curly braces that do not form a brace expression", () => {
+            expect(expander.expand("{a}")).to.deep.equal(["{a}"]);
+        });
+
+        it("retains curly braces that are not closed", () => {
+            expect(expander.expand("a{b")).to.deep.equal(["a{b"]);
+            expect(expander.expand("{a,b")).to.deep.equal(["{a,b"]);
+        });
+
+        it("expands numeric ranges", () => {
+            expect(expander.expand("{1..4}")).to.deep.equal(["1", "2", "3", "4"]);
+            expect(expander.expand("{3..-1}")).to.deep.equal(["3", "2", "1", "0", "-1"]);
+        });
+
+        it("expands numeric ranges with a step", () => {
+            expect(expander.expand("{1..10..3}")).to.deep.equal(["1", "4", "7", "10"]);
+            expect(expander.expand("{10..1..-4}")).to.deep.equal(["10", "6", "2"]);
+        });
+
+        it("pads numeric ranges with leading zeroes", () => {
+            expect(expander.expand("{01..10..3}")).to.deep.equal(["01", "04", "07", "10"]);
+            expect(expander.expand("{-01..1}")).to.deep.equal(["-01", "000", "001"]);
+        });
+
+        it("expands letter ranges", () => {
+            expect(expander.expand("{a..c}")).to.deep.equal(["a", "b", "c"]);
+            expect(expander.expand("{e..a..2}")).to.deep.equal(["e", "c", "a"]);
+        });
+
+        it("does not expand ranges of both numbers and letters", () => {
+            expect(expander.expand("{1..c}")).to.deep.equal(["{1..c}"]);
+        });
+
+        it("does not expand quoted or escaped brace expressions", () => {
+            expect(expander.expand("'{a,b}'")).to.deep.equal(["{a,b}"]);
+            expect(expander.expand("\"{a,b}\"")).to.deep.equal(["{a,b}"]);
+            expect(expander.expand("\\{a,b\\}")).to.deep.equal(["{a,b}"]);
+        });
+
+        it("does not split at quoted commas", () => {
+            expect(expander.expand("{'a,b',c}")).to.deep.equal(["a,b", "c"]);
+        });
+
+        it("expands other expansions in each alternative separately", () => {
+            environment.set("a", "b");
+
+            expect(expander.expand("{$a,'$a'}")).to.deep.equal(["b", "$a"]);
+        });
+    });
+
+    describe("environment variables", () => {
+        beforeEach(() => {
+            environment.set("a", "b");
+            environment.set("aa", "c");
+            environment.set("r", ">");
+            environment.set("cwd", "/");
+        });
+
+
+        it("substitutes a known environment variable with its value", () => {
+            expect(expander.expand("$a")).to.have.deep.members(["b"]);
+        });
+
+        it("substitutes an unknown environment variable with nothing", () => {
+            expect(expander.expand("a$b")).to.have.deep.members(["a"]);
+        });
+
+        it("substitutes consecutive known environment variables with their values", () => {
+            expect(expander.expand("$a$aa$a")).to.have.deep.members(["bcb"]);
+        });
+
+        it("throws an error for nameless environment variables", () => {
+            expect(() => expander.expand("$")).to.throw();
+        });
+
+        it("does not substitute environment variables in the middle of a single-quoted string", () => {
+            expect(expander.expand("a'$a'c")).to.have.deep.members(["a$ac"]);
+        });
+
+        it("substitutes environment variables in the middle of a double-quoted string", () => {
+            expect(expander.expand(`a"$a"c`)).to.have.deep.members(["abc"]);
+        });
+
+        it("substitutes environment variables in the middle of curly braces", () => {
+            expect(expander.expand("a{$a}c")).to.have.deep.members(["a{b}c"]);
+        });
+    });
+
+    describe("parameters", () => {
+        beforeEach(() => {
+            environment.set("status", "3");
+            expander = new Expander(environment, dummyGlobber, undefined, ["/script", "a", "b c", "d"]);
+        });
+
+
+        it("substitutes positional parameters", () => {
+            expect(expander.expand("$0")).to.deep.equal(["/script"]);
+            expect(expander.expand("$1")).to.deep.equal(["a"]);
+            expect(expander.expand("$2")).to.deep.equal(["b c"]);
+        });
+
+        it("substitutes a missing positional parameter with nothing", () => {
+            expect(expander.expand("x$9")).to.deep.equal(["x"]);
+        });
+
+        it("uses only a single digit for a positional parameter", () => {
+            expect(expander.expand("$10")).to.deep.equal(["a0"]);
+        });
+
+        it("substitutes the number of parameters", () => {
+            expect(expander.expand("$#")).to.deep.equal(["3"]);
+        });
+
+        it("substitutes the status", () => {
+            expect(expander.expand("$?")).to.deep.equal(["3"]);
+        });
+
+        it("substitutes each parameter as a separate token", () => {
+            expect(expander.expand("$@")).to.deep.equal(["a", "b c", "d"]);
+            expect(expander.expand("$*")).to.deep.equal(["a", "b c", "d"]);
+        });
+
+        it("substitutes each parameter as a separate token inside double quotes", () => {
+            expect(expander.expand(`"x$@y"`)).to.deep.equal(["xa", "b c", "dy"]);
+        });
+
+        it("substitutes all parameters as a single token with $* inside double quotes", () => {
+            expect(expander.expand(`"$*"`)).to.deep.equal(["a b c d"]);
+        });
+
+        it("substitutes no tokens at all if there are no parameters", () => {
+            expander = new Expander(environment, dummyGlobber, undefined, ["/script"]);
+
+            expect(expander.expand(`"$@"`)).to.deep.equal([]);
+            expect(expander.expand("$#")).to.deep.equal(["0"]);
+        });
+
+        it("does not substitute parameters inside single quotes", () => {
+            expect(expander.expand(`'$1'`)).to.deep.equal(["$1"]);
+        });
+    });
+
+    describe("parameter expressions", () => {
+        beforeEach(() => {
+            environment.set("path", "/dir/file.tar.gz");
+            environment.set("empty", "");
+            environment.set("word", "hello world");
+            environment.set("cwd", "/");
+            environment.set("number", "3");
+            expander = new Expander(environment, dummyGlobber, undefined, ["/script", "a", "bcd"]);
+        });
+
+
+        it("substitutes variables and parameters", () => {
+            expect(expander.expand("${path}x")).to.have.deep.members(["/dir/file.tar.gzx"]);
+            expect(expander.expand("${2}")).to.have.deep.members(["bcd"]);
+            expect(expander.expand("${#}")).to.have.deep.members(["2"]);
+        });
+
+        it("substitutes the length of the value", () => {
+            expect(expander.expand("${#word}")).to.have.deep.members(["11"]);
+            expect(expander.expand("${#unset}")).to.have.deep.members(["0"]);
+            expect(expander.expand("${#@}")).to.have.deep.members(["2"]);
+        });
+
+        describe("default values", () => {
+            it("substitutes the default value if the variable is unset or empty", () => {
+                expect(expander.expand("${unset:-a}")).to.have.deep.members(["a"]);
+                expect(expander.expand("${empty:-a}")).to.have.deep.members(["a"]);
+                expect(expander.expand("${number:-a}")).to.have.deep.members(["3"]);
             });
 
-            it("throws an error if curly braces are closed inside quotes", () => {
-                expect(() => tokenizer.tokenize(`a{'}'b`)).to.throw();
-                expect(() => tokenizer.tokenize(`a{"}"b`)).to.throw();
+            it("substitutes the default value only if the variable is unset without a colon", () => {
+                expect(expander.expand("${unset-a}")).to.have.deep.members(["a"]);
+                expect(expander.expand("x${empty-a}")).to.have.deep.members(["x"]);
             });
 
-            it("includes whitespace if within curly braces", () => {
-                expect(tokenizer.tokenize("a{ }b")).to.have.deep.members(["a{ }b"]);
+            it("expands the default value", () => {
+                expect(expander.expand("${unset:-$number}")).to.have.deep.members(["3"]);
+                expect(expander.expand("${unset:-${word}}")).to.have.deep.members(["hello world"]);
+                expect(expander.expand("${unset:-'a b'}")).to.have.deep.members(["a b"]);
             });
 
-            it("adds the redirect character literally if inside curly braces", () => {
-                expect(tokenizer.tokenize("a{>}b")).to.have.deep.members(["a{>}b"]);
+            it("globs the default value outside of double quotes only", () => {
+                expect(expander.expand("${unset:-a*}")).to.have.deep.members([`a${escape}*`]);
+                expect(expander.expand("\"${unset:-a*}\"")).to.have.deep.members(["a*"]);
             });
-        });
-    });
 
-    describe("redirection", () => {
-        describe("delimiter detection", () => {
-            it("includes a single redirect symbol in a single token", () => {
-                expect(tokenizer.tokenize("a>b")).to.have.deep.members(["a", ">b"]);
-                expect(tokenizer.tokenize("a> b")).to.have.deep.members(["a", ">b"]);
-                expect(tokenizer.tokenize("a >b")).to.have.deep.members(["a", ">b"]);
-                expect(tokenizer.tokenize("a > b")).to.have.deep.members(["a", ">b"]);
+            it("assigns the default value", () => {
+                expect(expander.expand("${unset:=a}")).to.have.deep.members(["a"]);
+                expect(environment.get("unset")).to.equal("a");
             });
 
-            it("includes two redirect symbols in a single token", () => {
-                expect(tokenizer.tokenize("a>>b")).to.have.deep.members(["a", ">>b"]);
-                expect(tokenizer.tokenize("a>> b")).to.have.deep.members(["a", ">>b"]);
-                expect(tokenizer.tokenize("a >>b")).to.have.deep.members(["a", ">>b"]);
-                expect(tokenizer.tokenize("a >> b")).to.have.deep.members(["a", ">>b"]);
+            it("throws an error when assigning a parameter", () => {
+                expect(() => expander.expand("${3:=a}")).to.throw();
             });
 
-            it("creates two tokens if three redirect symbols are given without a space", () => {
-                expect(tokenizer.tokenize("a>>>b")).to.have.deep.members(["a", ">>", ">b"]);
-                expect(tokenizer.tokenize("a>>> b")).to.have.deep.members(["a", ">>", ">b"]);
-                expect(tokenizer.tokenize("a >>>b")).to.have.deep.members(["a", ">>", ">b"]);
-                expect(tokenizer.tokenize("a >>> b")).to.have.deep.members(["a", ">>", ">b"]);
+            it("throws an error if the variable is unset", () => {
+                expect(() => expander.expand("${unset:?Missing.}")).to.throw("unset: Missing.");
+                expect(() => expander.expand("${empty:?}")).to.throw("empty: Parameter is not set.");
+                expect(expander.expand("${number:?}")).to.have.deep.members(["3"]);
             });
 
-            it("creates two tokens for two redirect symbols separated by a space", () => {
-                expect(tokenizer.tokenize("a> >b")).to.have.deep.members(["a", ">", ">b"]);
-                expect(tokenizer.tokenize("a> > b")).to.have.deep.members(["a", ">", ">b"]);
-                expect(tokenizer.tokenize("a > >b")).to.have.deep.members(["a", ">", ">b"]);
-                expect(tokenizer.tokenize("a > > b")).to.have.deep.members(["a", ">", ">b"]);
+            it("substitutes the alternative value if the variable is set", () => {
+                expect(expander.expand("${number:+a}")).to.have.deep.members(["a"]);
+                expect(expander.expand("x${empty:+a}")).to.have.deep.members(["x"]);
+                expect(expander.expand("${empty+a}")).to.have.deep.members(["a"]);
             });
         });
 
-        describe("stream identifiers", () => {
-            it("includes the preceding identifier", () => {
-                expect(tokenizer.tokenize("a 42>b")).to.have.deep.members(["a", "42>b"]);
-                expect(tokenizer.tokenize("a 42> b")).to.have.deep.members(["a", "42>b"]);
+        describe("removing prefixes and suffixes", () => {
+            it("removes the shortest prefix", () => {
+                expect(expander.expand("${path#*/}")).to.have.deep.members(["dir/file.tar.gz"]);
+            });
 
-                expect(tokenizer.tokenize("a 42>>b")).to.have.deep.members(["a", "42>>b"]);
-                expect(tokenizer.tokenize("a 42>> b")).to.have.deep.members(["a", "42>>b"]);
+            it("removes the longest prefix", () => {
+                expect(expander.expand("${path##*/}")).to.have.deep.members(["file.tar.gz"]);
             });
 
-            it("does not include the identifier if it is followed by a space", () => {
-                expect(tokenizer.tokenize("a 42 >b")).to.have.deep.members(["a", "42", ">b"]);
-                expect(tokenizer.tokenize("a 42 > b")).to.have.deep.members(["a", "42", ">b"]);
+            it("removes the shortest suffix", () => {
+                expect(expander.expand("${path%.*}")).to.have.deep.members(["/dir/file.tar"]);
+            });
 
-                expect(tokenizer.tokenize("a 42 >>b")).to.have.deep.members(["a", "42", ">>b"]);
-                expect(tokenizer.tokenize("a 42 >> b")).to.have.deep.members(["a", "42", ">>b"]);
+            it("removes the longest suffix", () => {
+                expect(expander.expand("${path%%.*}")).to.have.deep.members(["/dir/file"]);
             });
 
-            it("does not include the identifier if it is not preceded by a space", () => {
-                expect(tokenizer.tokenize("a42>b")).to.have.deep.members(["a42", ">b"]);
-                expect(tokenizer.tokenize("a42> b")).to.have.deep.members(["a42", ">b"]);
+            it("matches quoted glob characters literally", () => {
+                environment.set("stars", "**a");
 
-                expect(tokenizer.tokenize("a42>>b")).to.have.deep.members(["a42", ">>b"]);
-                expect(tokenizer.tokenize("a42>> b")).to.have.deep.members(["a42", ">>b"]);
+                expect(expander.expand("${stars#'*'}")).to.have.deep.members(["*a"]);
             });
-        });
-    });
-
-    describe("backslash", () => {
-        it("includes any escaped character in the token", () => {
-            expect(tokenizer.tokenize(`'\\p'"\\""\\ `)).to.have.deep.members([`'\\p'"\\""\\ `]);
-        });
 
-        it("does not separate at an escaped whitespace", () => {
-            expect(tokenizer.tokenize("a\\ b")).to.have.deep.members(["a\\ b"]);
+            it("does nothing if the pattern does not match", () => {
+                expect(expander.expand("${path#x}")).to.have.deep.members(["/dir/file.tar.gz"]);
+            });
         });
 
-        it("retains an escaped trailing whitespace", () => {
-            expect(tokenizer.tokenize("ab\\ ")).to.have.deep.members(["ab\\ "]);
-        });
+        describe("substitution", () => {
+            it("replaces the first match", () => {
+                expect(expander.expand("${word/o/0}")).to.have.deep.members(["hell0 world"]);
+            });
 
-        it("throws an error if an escape occurs but no character follows", () => {
-            expect(() => tokenizer.tokenize("ab\\")).to.throw();
-        });
-    });
-});
+            it("replaces all matches", () => {
+                expect(expander.expand("${word//o/0}")).to.have.deep.members(["hell0 w0rld"]);
+            });
 
-describe("expander", () => {
-    let environment: Environment;
-    let expander: Expander;
+            it("replaces a prefix or a suffix", () => {
+                expect(expander.expand("${word/#h/H}")).to.have.deep.members(["Hello world"]);
+                expect(expander.expand("${word/#w/W}")).to.have.deep.members(["hello world"]);
+                expect(expander.expand("${word/%d/D}")).to.have.deep.members(["hello worlD"]);
+            });
 
+            it("replaces the longest match of a glob pattern", () => {
+                expect(expander.expand("${word/l*o/_}")).to.have.deep.members(["he_rld"]);
+            });
 
-    beforeEach(() => {
-        environment = new Environment();
-        expander = new Expander(environment, dummyGlobber);
-    });
+            it("removes the match if there is no replacement", () => {
+                expect(expander.expand("${word/ world}")).to.have.deep.members(["hello"]);
+            });
 
+            it("does not interpret special characters in the replacement", () => {
+                expect(expander.expand("${word/o/'$&'}")).to.have.deep.members(["hell$& world"]);
+            });
 
-    describe("backslash", () => {
-        describe("outside quotes", () => {
-            it("escapes the escape character", () => {
-                expect(expander.expand("\\\\")).to.have.deep.members(["\\"]);
+            it("matches escaped slashes in the pattern", () => {
+                expect(expander.expand("${path//\\//:}")).to.have.deep.members([":dir:file.tar.gz"]);
             });
 
-            it("escapes separators", () => {
-                expect(expander.expand("\\ ")).to.have.deep.members([" "]);
-                expect(expander.expand("\\;")).to.have.deep.members([";"]);
+            it("inserts escaped slashes in the replacement", () => {
+                expect(expander.expand("${word/ /\\/}")).to.have.deep.members(["hello/world"]);
             });
+        });
 
-            it("escapes the home directory character", () => {
-                expect(expander.expand("\\~")).to.have.deep.members(["~"]);
+        describe("substrings", () => {
+            it("returns the substring starting at the offset", () => {
+                expect(expander.expand("${word:6}")).to.have.deep.members(["world"]);
             });
 
-            it("escape the environment variable character", () => {
-                expect(expander.expand("\\$")).to.have.deep.members(["$"]);
+            it("returns the substring with at most the given length", () => {
+                expect(expander.expand("${word:1:3}")).to.have.deep.members(["ell"]);
+                expect(expander.expand("${word:9:5}")).to.have.deep.members(["ld"]);
             });
 
-            it("escapes redirection characters", () => {
-                expect(expander.expand("\\>")).to.have.deep.members([">"]);
+            it("counts negative offsets and lengths from the end", () => {
+                expect(expander.expand("${word: -5}")).to.have.deep.members(["world"]);
+                expect(expander.expand("${word:1:-6}")).to.have.deep.members(["ello"]);
             });
 
-            it("escapes glob characters", () => {
-                expect(expander.expand("\\?")).to.have.deep.members(["?"]);
-                expect(expander.expand("\\*")).to.have.deep.members(["*"]);
+            it("evaluates arithmetic expressions", () => {
+                expect(expander.expand("${word:number + 1:number - 1}")).to.have.deep.members(["o "]);
             });
+        });
 
-            it("escapes grouping characters", () => {
-                expect(expander.expand("\\'")).to.have.deep.members(["'"]);
-                expect(expander.expand("\\\"")).to.have.deep.members(["\""]);
-                expect(expander.expand("\\{")).to.have.deep.members(["{"]);
-                expect(expander.expand("\\}")).to.have.deep.members(["}"]);
+        describe("case modification", () => {
+            it("converts the first character to uppercase", () => {
+                expect(expander.expand("${word^}")).to.have.deep.members(["Hello world"]);
             });
 
-            it("does not escape other characters", () => {
-                expect(expander.expand("\\a\\b\\_")).to.have.deep.members(["\\a\\b\\_"]);
+            it("converts all characters to uppercase", () => {
+                expect(expander.expand("${word^^}")).to.have.deep.members(["HELLO WORLD"]);
             });
-        });
 
-        describe("inside quotes", () => {
-            it("does not retain the backslash if the current quote style is escaped", () => {
-                expect(expander.expand(`'\\''`)).to.have.deep.members([`'`]);
-                expect(expander.expand(`"\\""`)).to.have.deep.members([`"`]);
+            it("converts characters to lowercase", () => {
+                environment.set("upper", "HELLO");
+
+                expect(expander.expand("${upper,}")).to.have.deep.members(["hELLO"]);
+                expect(expander.expand("${upper,,}")).to.have.deep.members(["hello"]);
             });
 
-            it("retains the backslash for any other character", () => {
-                expect(expander.expand(`'\\a\\n\\$\\"'`)).to.have.deep.members([`\\a\\n\\$\\"`]);
-                expect(expander.expand(`"\\a\\n\\$\\'"`)).to.have.deep.members([`\\a\\n\\$\\'`]);
+            it("converts only the characters that match the pattern", () => {
+                expect(expander.expand("${word^^[lo]}")).to.have.deep.members(["heLLO wOrLd"]);
             });
         });
+
+        it("throws an error for invalid expressions", () => {
+            expect(() => expander.expand("${}")).to.throw("Bad substitution '${}'.");
+            expect(() => expander.expand("${word!}")).to.throw("Bad substitution '${word!}'.");
+        });
+
+        it("does not expand braces inside the expression", () => {
+            expect(expander.expand("${unset:-a,b}")).to.have.deep.members(["a,b"]);
+        });
     });
 
-    describe("grouping", () => {
-        it("retains quotes placed inside the other quote", () => {
-            expect(expander.expand(`"'"`)).to.have.deep.members([`'`]);
-            expect(expander.expand(`'"'`)).to.have.deep.members([`"`]);
+    describe("command substitution", () => {
+        let substitutions: string[];
+
+
+        beforeEach(() => {
+            substitutions = [];
+            expander = new Expander(environment, dummyGlobber, input => {
+                substitutions.push(input);
+                return {"a": "b\n", "spaced": " b  c\n\n", "glob": "b*"}[input] ?? "";
+            });
         });
 
-        it("retains curly braces in quotes", () => {
-            expect(expander.expand(`'{}'`)).to.have.deep.members(["{}"]);
-            expect(expander.expand(`"{}"`)).to.have.deep.members(["{}"]);
+
+        it("substitutes the output of a command", () => {
+            expect(expander.expand("$(a)")).to.deep.equal(["b"]);
+            expect(substitutions).to.deep.equal(["a"]);
         });
 
-        it("removes curly braces outside of quotes", () => {
-            expect(expander.expand(`{'{'}`)).to.have.deep.members(["{"]);
-            expect(expander.expand(`{"{"}`)).to.have.deep.members(["{"]);
+        it("substitutes the output of a command in backticks", () => {
+            expect(expander.expand("`a`")).to.deep.equal(["b"]);
+            expect(substitutions).to.deep.equal(["a"]);
         });
 
-        it("removes nested curly braces outside of quotes", () => {
-            expect(expander.expand(`{''{'{'}}`)).to.have.deep.members(["{"]);
-            expect(expander.expand(`{""{"{"}}`)).to.have.deep.members(["{"]);
+        it("unescapes backticks inside backticks", () => {
+            expander.expand("`\\`a\\``");
+
+            expect(substitutions).to.deep.equal(["`a`"]);
         });
-    });
 
-    describe("environment variables", () => {
-        beforeEach(() => {
-            environment.set("a", "b");
-            environment.set("aa", "c");
-            environment.set("r", ">");
-            environment.set("cwd", "/");
+        it("retains surrounding characters", () => {
+            expect(expander.expand("x$(a)y")).to.deep.equal(["xby"]);
         });
 
+        it("splits the output into multiple tokens outside quotes", () => {
+            expect(expander.expand("$(spaced)")).to.deep.equal(["b", "c"]);
+        });
 
-        it("substitutes a known environment variable with its value", () => {
-            expect(expander.expand("$a")).to.have.deep.members(["b"]);
+        it("does not split the output inside double quotes", () => {
+            expect(expander.expand(`"$(spaced)"`)).to.deep.equal([" b  c"]);
         });
 
-        it("substitutes an unknown environment variable with nothing", () => {
-            expect(expander.expand("a$b")).to.have.deep.members(["a"]);
+        it("does not substitute inside single quotes", () => {
+            expect(expander.expand("'$(a)'")).to.deep.equal(["$(a)"]);
+            expect(substitutions).to.be.empty;
         });
 
-        it("substitutes consecutive known environment variables with their values", () => {
-            expect(expander.expand("$a$aa$a")).to.have.deep.members(["bcb"]);
+        it("does not substitute an escaped command substitution", () => {
+            expect(expander.expand("\\`a\\`")).to.deep.equal(["`a`"]);
+            expect(substitutions).to.be.empty;
         });
 
-        it("throws an error for nameless environment variables", () => {
-            expect(() => expander.expand("$")).to.throw();
+        it("globs the output outside quotes", () => {
+            expect(expander.expand("$(glob)")).to.deep.equal([`b${escape}*`]);
         });
 
-        it("does not substitute environment variables in the middle of a single-quoted string", () => {
-            expect(expander.expand("a'$a'c")).to.have.deep.members(["a$ac"]);
+        it("does not glob the output inside double quotes", () => {
+            expect(expander.expand(`"$(glob)"`)).to.deep.equal(["b*"]);
         });
 
-        it("substitutes environment variables in the middle of a double-quoted string", () => {
-            expect(expander.expand(`a"$a"c`)).to.have.deep.members(["abc"]);
+        it("removes tokens that are empty after splitting", () => {
+            expect(expander.expand("$(empty)")).to.deep.equal([]);
         });
 
-        it("substitutes environment variables in the middle of curly braces", () => {
-            expect(expander.expand("a{$a}c")).to.have.deep.members(["abc"]);
+        it("throws an error if command substitution is not available", () => {
+            expander = new Expander(environment, dummyGlobber);
+
+            expect(() => expander.expand("$(a)")).to.throw();
         });
     });
 
@@ -642,6 +1847,111 @@ describe("expander", () => {
 
             expect(() => expander.expand("arg")).to.throw();
         });
+
+        it("escapes the brackets of character classes", () => {
+            expect(expander.expand("[a-c]")).to.have.deep.members([`${escape}[a-c${escape}]`]);
+            expect(expander.expand("'[a-c]'")).to.have.deep.members(["[a-c]"]);
+        });
+
+        it("escapes extended glob patterns only if extglob is enabled", () => {
+            expect(expander.expand("@(a|b)")).to.have.deep.members(["@(a|b)"]);
+
+            environment.set("extglob", "on");
+
+            expect(expander.expand("@(a|b)")).to.have.deep.members([`${escape}@${escape}(a${escape}|b${escape})`]);
+            expect(expander.expand("'@(a|b)'")).to.have.deep.members(["@(a|b)"]);
+        });
+
+        describe("unmatched patterns", () => {
+            beforeEach(() => {
+                const globber = new class extends Globber {
+                    constructor() {
+                        super(new FileSystem(new Directory()), "");
+                    }
+
+
+                    glob(): string[] {
+                        return [];
+                    }
+                };
+                expander = new Expander(environment, globber);
+            });
+
+
+            it("retains the pattern if failglob and nullglob are disabled", () => {
+                environment.set("failglob", "off");
+
+                expect(expander.expand("a*")).to.have.deep.members(["a*"]);
+            });
+
+            it("removes the pattern if nullglob is enabled", () => {
+                environment.set("nullglob", "on");
+
+                expect(expander.expand("a*")).to.have.deep.members([]);
+            });
+        });
+    });
+
+    describe("arithmetic expansion", () => {
+        it("substitutes the value of the expression", () => {
+            expect(expander.expand("$((1 + 2 * 3))")).to.have.deep.members(["7"]);
+        });
+
+        it("does not split or glob the expression", () => {
+            expect(expander.expand("a$((2*3))b")).to.have.deep.members(["a6b"]);
+        });
+
+        it("substitutes variables inside the expression", () => {
+            environment.set("a", "4");
+
+            expect(expander.expand("$((a * 2)),$(($a * 2))")).to.have.deep.members(["8,8"]);
+        });
+
+        it("assigns variables", () => {
+            environment.set("i", "4");
+
+            expect(expander.expand("$((i++))")).to.have.deep.members(["4"]);
+            expect(environment.get("i")).to.equal("5");
+        });
+
+        it("expands inside double quotes but not inside single quotes", () => {
+            expect(expander.expand("\"$((1 + 1))\"")).to.have.deep.members(["2"]);
+            expect(expander.expand("'$((1 + 1))'")).to.have.deep.members(["$((1 + 1))"]);
+        });
+
+        it("does not confuse nested command substitutions with arithmetic expansion", () => {
+            expander = new Expander(environment, dummyGlobber, input => input === "(a) b" ? "c" : "");
+
+            expect(expander.expand("$((a) b)")).to.have.deep.members(["c"]);
+        });
+
+        it("throws an error if the expression is invalid", () => {
+            expect(() => expander.expand("$((1 +))")).to.throw();
+        });
+    });
+
+    describe("here-documents", () => {
+        beforeEach(() => {
+            environment.set("a", "b  c");
+            expander = new Expander(environment, dummyGlobber, () => "d*", ["josh", "e", "f"]);
+        });
+
+
+        it("expands variables, parameters, and command substitutions", () => {
+            expect(expander.expandHereDocument("$a $1 $(g) `g`\n")).to.equal("b  c e d* d*\n");
+        });
+
+        it("joins the positional parameters with spaces", () => {
+            expect(expander.expandHereDocument("$@\n")).to.equal("e f\n");
+        });
+
+        it("retains quotes", () => {
+            expect(expander.expandHereDocument("'$a' \"$a\"\n")).to.equal("'b  c' \"b  c\"\n");
+        });
+
+        it("only removes backslashes before special characters", () => {
+            expect(expander.expandHereDocument("\\$a \\` \\\\ \\n\n")).to.equal("$a ` \\ \\n\n");
+        });
     });
 
     describe("home directory", () => {
@@ -671,7 +1981,7 @@ describe("expander", () => {
         it("does not substitute the home directory for ~ if surrounded by parentheses or braces", () => {
             expect(expander.expand("'~'")).to.have.deep.members(["~"]);
             expect(expander.expand(`"~"`)).to.have.deep.members(["~"]);
-            expect(expander.expand("{~}")).to.have.deep.members(["~"]);
+            expect(expander.expand("{~}")).to.have.deep.members(["{~}"]);
         });
     });
 });
@@ -907,6 +2217,134 @@ describe("globber", () => {
         });
     });
 
+    describe("character classes", () => {
+        it("matches any of the given characters", () => {
+            const globber = createGlobber({"/a": new File(), "/b": new File(), "/c": new File()});
+
+            expect(globber.glob(`${escape}[ac${escape}]`)).to.have.deep.members(["a", "c"]);
+        });
+
+        it("matches ranges of characters", () => {
+            const globber = createGlobber({"/a1": new File(), "/a5": new File(), "/ab": new File()});
+
+            expect(globber.glob(`a${escape}[0-4${escape}]`)).to.have.deep.members(["a1"]);
+        });
+
+        it("matches characters that are not given if negated", () => {
+            const globber = createGlobber({"/a": new File(), "/b": new File(), "/c": new File()});
+
+            expect(globber.glob(`${escape}[!ac${escape}]`)).to.have.deep.members(["b"]);
+            expect(globber.glob(`${escape}[^ac${escape}]`)).to.have.deep.members(["b"]);
+        });
+
+        it("matches glob and regex characters literally", () => {
+            const globber = createGlobber({"/*": new File(), "/]": new File(), "/a": new File()});
+
+            expect(globber.glob(`${escape}[${escape}*\\${escape}]`)).to.have.deep.members(["*"]);
+        });
+
+        it("matches an unclosed bracket literally", () => {
+            const globber = createGlobber({"/[a": new File(), "/ab": new File()});
+
+            expect(globber.glob(`${escape}[a${escape}*`)).to.have.deep.members(["[a"]);
+            expect(globber.glob(`${escape}[a`)).to.have.deep.members(["[a"]);
+        });
+    });
+
+    describe("**", () => {
+        const nodes = {
+            "/a.txt": new File(),
+            "/dir/b.txt": new File(),
+            "/dir/c.md": new File(),
+            "/dir/sub/d.txt": new File(),
+            "/dir/.hidden/e.txt": new File(),
+        };
+
+
+        it("behaves like * if globstar is disabled", () => {
+            expect(createGlobber(nodes).glob(`${escape}*${escape}*/${escape}*.txt`))
+                .to.have.deep.members(["dir/b.txt"]);
+        });
+
+        describe("globstar", () => {
+            const createGlobstarGlobber = () => {
+                const fs = new FileSystem(new Directory());
+                for (const path of Object.getOwnPropertyNames(nodes))
+                    fs.add(new Path(path), (nodes as { [path: string]: Node })[path].copy(), true);
+
+                return new Globber(fs, "/", {globstar: true});
+            };
+
+
+            it("matches files in any number of directories", () => {
+                expect(createGlobstarGlobber().glob(`${escape}*${escape}*/${escape}*.txt`))
+                    .to.have.deep.members(["a.txt", "dir/b.txt", "dir/sub/d.txt"]);
+            });
+
+            it("matches files in any number of directories inside a directory", () => {
+                expect(createGlobstarGlobber().glob(`dir/${escape}*${escape}*/${escape}*.txt`))
+                    .to.have.deep.members(["dir/b.txt", "dir/sub/d.txt"]);
+            });
+
+            it("matches all files and directories if it is the last part", () => {
+                expect(createGlobstarGlobber().glob(`dir/${escape}*${escape}*`))
+                    .to.have.deep.members(["dir/b.txt", "dir/c.md", "dir/sub", "dir/sub/d.txt"]);
+            });
+
+            it("matches all directories if it is followed by a slash", () => {
+                expect(createGlobstarGlobber().glob(`${escape}*${escape}*/`))
+                    .to.have.deep.members(["dir/", "dir/sub/"]);
+            });
+        });
+    });
+
+    describe("extended glob patterns", () => {
+        const createExtglobGlobber = () => {
+            const fs = new FileSystem(new Directory());
+            for (const name of ["a", "b", "ab", "abab", "a.txt", "b.txt", "b.md"])
+                fs.add(new Path(`/${name}`), new File(), false);
+
+            return new Globber(fs, "/", {extglob: true});
+        };
+
+        /**
+         * Returns the given extended glob pattern with all special characters marked with escape characters.
+         *
+         * @param pattern the pattern to mark special characters in
+         */
+        const mark = (pattern: string) => pattern.replace(/[?*+@!()|]/g, it => escape + it);
+
+
+        it("matches exactly one of the alternatives with @", () => {
+            expect(createExtglobGlobber().glob(mark("@(a|b)"))).to.have.deep.members(["a", "b"]);
+        });
+
+        it("matches at most one of the alternatives with ?", () => {
+            expect(createExtglobGlobber().glob(mark("a?(b)"))).to.have.deep.members(["a", "ab"]);
+        });
+
+        it("matches any number of the alternatives with *", () => {
+            expect(createExtglobGlobber().glob(mark("*(ab)"))).to.have.deep.members(["ab", "abab"]);
+        });
+
+        it("matches at least one of the alternatives with +", () => {
+            expect(createExtglobGlobber().glob(mark("+(a|b)"))).to.have.deep.members(["a", "b", "ab", "abab"]);
+        });
+
+        it("matches anything but the alternatives with !", () => {
+            expect(createExtglobGlobber().glob(mark("!(*.txt)")))
+                .to.have.deep.members(["a", "b", "ab", "abab", "b.md"]);
+        });
+
+        it("matches anything but the alternatives followed by the rest of the pattern with !", () => {
+            expect(createExtglobGlobber().glob(mark("!(a).txt"))).to.have.deep.members(["b.txt"]);
+        });
+
+        it("matches nested patterns", () => {
+            expect(createExtglobGlobber().glob(mark("@(b.@(md|txt))"))).to.have.deep.members(["b.txt", "b.md"]);
+        });
+    });
+
     describe("shared cases", () => {
         describe("no matches", () => {
             it("returns an empty array if no matches are found", () => {
@@ -0,0 +1,259 @@
+import {expect} from "chai";
+import "mocha";
+
+import {InputHistory} from "../main/js/InputHistory";
+import {LineEditor} from "../main/js/LineEditor";
+
+
+describe("line editor", () => {
+    let history: InputHistory;
+    let editor: LineEditor;
+
+
+    beforeEach(() => {
+        history = new InputHistory();
+        editor = new LineEditor(history);
+    });
+
+
+    const key = (name: string, {ctrlKey = false, altKey = false} = {}): LineEditor.Key => {
+        const code = name.length === 1 ? `Key${name.toUpperCase()}` : name;
+        return {key: name, code: code, ctrlKey: ctrlKey, altKey: altKey, metaKey: false};
+    };
+    const ctrl = (name: string) => key(name, {ctrlKey: true});
+    const alt = (name: string) => key(name, {altKey: true});
+    const line = (text: string, offset: number = text.length): LineEditor.Line => ({text: text, offset: offset});
+
+    /**
+     * Presses the given keys in turn in the given line, and returns the resulting line.
+     */
+    const press = (start: LineEditor.Line, keys: LineEditor.Key[], isViMode: boolean = false): LineEditor.Line =>
+        keys.reduce((acc, it) => editor.edit(acc, it, isViMode) ?? acc, start);
+
+
+    describe("edit", () => {
+        it("does not handle keys that are not bound", () => {
+            expect(editor.edit(line("abc"), key("a"))).to.be.undefined;
+            expect(editor.edit(line("abc"), ctrl("c"))).to.be.undefined;
+            expect(editor.edit(line("abc"), key("Tab"))).to.be.undefined;
+        });
+
+        it("does not handle modifier keys", () => {
+            expect(editor.edit(line("abc"), key("Control", {ctrlKey: true}))).to.be.undefined;
+        });
+
+
+        describe("emacs bindings", () => {
+            it("moves to the start of the line", () => {
+                expect(editor.edit(line("abc"), ctrl("a"))).to.deep.equal(line("abc", 0));
+            });
+
+            it("moves to the end of the line", () => {
+                expect(editor.edit(line("abc", 1), ctrl("e"))).to.deep.equal(line("abc", 3));
+            });
+
+            it("kills the text before the caret", () => {
+                expect(editor.edit(line("abc def", 4), ctrl("u"))).to.deep.equal(line("def", 0));
+            });
+
+            it("kills the text after the caret", () => {
+                expect(editor.edit(line("abc def", 4), ctrl("k"))).to.deep.equal(line("abc ", 4));
+            });
+
+            it("kills the word before the caret", () => {
+                expect(editor.edit(line("abc def ghi", 8), ctrl("w"))).to.deep.equal(line("abc ghi", 4));
+                expect(editor.edit(line("abc def ghi", 8), ctrl("Backspace"))).to.deep.equal(line("abc ghi", 4));
+                expect(editor.edit(line("abc def ghi", 8), alt("Backspace"))).to.deep.equal(line("abc ghi", 4));
+            });
+
+            it("kills the word after the caret", () => {
+                expect(editor.edit(line("abc def ghi", 3), alt("d"))).to.deep.equal(line("abc ghi", 3));
+            });
+
+            it("moves backward by a word", () => {
+                expect(editor.edit(line("abc def ghi", 9), alt("b"))).to.deep.equal(line("abc def ghi", 8));
+                expect(editor.edit(line("abc def ghi", 8), alt("b"))).to.deep.equal(line("abc def ghi", 4));
+            });
+
+            it("moves forward by a word", () => {
+                expect(editor.edit(line("abc def ghi", 1), alt("f"))).to.deep.equal(line("abc def ghi", 3));
+                expect(editor.edit(line("abc def ghi", 3), alt("f"))).to.deep.equal(line("abc def ghi", 7));
+            });
+
+            it("transposes the characters around the caret", () => {
+                expect(editor.edit(line("abc", 1), ctrl("t"))).to.deep.equal(line("bac", 2));
+            });
+
+            it("transposes the two characters before the caret at the end of the line", () => {
+                expect(editor.edit(line("abc"), ctrl("t"))).to.deep.equal(line("acb", 3));
+            });
+
+            it("does not transpose at the start of the line", () => {
+                expect(editor.edit(line("abc", 0), ctrl("t"))).to.deep.equal(line("abc", 0));
+            });
+
+            it("deletes the character after the caret", () => {
+                expect(editor.edit(line("abc", 1), ctrl("d"))).to.deep.equal(line("ac", 1));
+            });
+
+            it("does not handle deleting in an empty line", () => {
+                expect(editor.edit(line(""), ctrl("d"))).to.be.undefined;
+            });
+        });
+
+        describe("kill ring", () => {
+            it("yanks the most recently killed text", () => {
+                expect(press(line("abc def"), [ctrl("w"), ctrl("a"), ctrl("y")])).to.deep.equal(line("defabc ", 3));
+            });
+
+            it("does nothing when yanking if nothing has been killed", () => {
+                expect(editor.edit(line("abc"), ctrl("y"))).to.deep.equal(line("abc"));
+            });
+
+            it("replaces the yanked text with older killed text", () => {
+                const killed = press(line("a b c"), [ctrl("w"), ctrl("w"), ctrl("w")]);
+
+                expect(press(killed, [ctrl("y"), alt("y")])).to.deep.equal(line("b "));
+                expect(press(killed, [ctrl("y"), alt("y"), alt("y")])).to.deep.equal(line("c"));
+            });
+
+            it("does not replace text that was not yanked by the previous key", () => {
+                const killed = press(line("a b"), [ctrl("w"), ctrl("w")]);
+
+                expect(press(killed, [ctrl("y"), ctrl("a"), alt("y")])).to.deep.equal(line("a ", 0));
+            });
+
+            it("retains the killed text when reset", () => {
+                const killed = press(line("abc"), [ctrl("u")]);
+                editor.reset();
+
+                expect(editor.edit(killed, ctrl("y"))).to.deep.equal(line("abc"));
+            });
+
+            it("kills text from a hidden line without adding it to the kill ring", () => {
+                expect(editor.edit(line("secret"), ctrl("u"), false, true)).to.deep.equal(line("", 0));
+                expect(editor.edit(line("abc", 0), ctrl("k"), false, true)).to.deep.equal(line("", 0));
+
+                expect(editor.edit(line(""), ctrl("y"))).to.deep.equal(line(""));
+            });
+
+            it("retains the killed text of visible lines when editing a hidden line", () => {
+                const killed = press(line("abc"), [ctrl("u")]);
+                editor.edit(line("secret"), ctrl("w"), false, true);
+
+                expect(editor.edit(killed, ctrl("y"))).to.deep.equal(line("abc"));
+            });
+        });
+
+        describe("vi bindings", () => {
+            const esc = key("Escape");
+
+
+            it("does not handle characters in insert mode", () => {
+                expect(editor.edit(line("abc"), key("x"), true)).to.be.undefined;
+            });
+
+            it("switches to command mode and moves back a character when pressing escape", () => {
+                expect(editor.edit(line("abc"), esc, true)).to.deep.equal(line("abc", 2));
+                expect(editor.isViCommandMode).to.be.true;
+            });
+
+            it("ignores unbound characters in command mode", () => {
+                expect(press(line("abc"), [esc, key("z")], true)).to.deep.equal(line("abc", 2));
+            });
+
+            it("does not handle enter in command mode", () => {
+                editor.edit(line("abc"), esc, true);
+
+                expect(editor.edit(line("abc"), key("Enter"), true)).to.be.undefined;
+            });
+
+            it("returns to insert mode", () => {
+                expect(press(line("abc"), [esc, key("I")], true)).to.deep.equal(line("abc", 0));
+                expect(editor.isViCommandMode).to.be.false;
+            });
+
+            it("returns to insert mode after the caret", () => {
+                expect(press(line("abc", 1), [esc, key("a")], true)).to.deep.equal(line("abc", 1));
+            });
+
+            it("moves the caret with motions", () => {
+                const start = press(line("abc def ghi"), [esc, key("0")], true);
+
+                expect(press(start, [key("w")], true)).to.deep.equal(line("abc def ghi", 4));
+                expect(press(start, [key("e")], true)).to.deep.equal(line("abc def ghi", 2));
+                expect(press(start, [key("e"), key("e")], true)).to.deep.equal(line("abc def ghi", 6));
+                expect(press(start, [key("$"), key("b")], true)).to.deep.equal(line("abc def ghi", 8));
+                expect(press(start, [key("l"), key("l"), key("h")], true)).to.deep.equal(line("abc def ghi", 1));
+            });
+
+            it("deletes characters", () => {
+                const start = press(line("abc"), [esc], true);
+
+                expect(press(start, [key("x")], true)).to.deep.equal(line("ab", 2));
+                expect(press(start, [key("X")], true)).to.deep.equal(line("ac", 1));
+            });
+
+            it("deletes to the end of the line", () => {
+                const keys = [esc, key("0"), key("w"), key("D")];
+
+                expect(press(line("abc def"), keys, true)).to.deep.equal(line("abc ", 4));
+            });
+
+            it("deletes over a motion", () => {
+                const start = press(line("abc def"), [esc, key("0")], true);
+
+                expect(press(start, [key("d"), key("w")], true)).to.deep.equal(line("def", 0));
+                expect(press(start, [key("d"), key("e")], true)).to.deep.equal(line(" def", 0));
+            });
+
+            it("deletes the whole line", () => {
+                expect(press(line("abc def"), [esc, key("d"), key("d")], true)).to.deep.equal(line("", 0));
+            });
+
+            it("changes over a motion", () => {
+                const keys = [esc, key("b"), key("c"), key("$")];
+
+                expect(press(line("abc def"), keys, true)).to.deep.equal(line("abc ", 4));
+                expect(editor.isViCommandMode).to.be.false;
+            });
+
+            it("puts killed text after the caret", () => {
+                const keys = [esc, key("0"), key("d"), key("w"), key("$"), key("p")];
+
+                expect(press(line("abc def"), keys, true)).to.deep.equal(line("defabc ", 6));
+            });
+
+            it("puts yanked text before the caret", () => {
+                const keys = [esc, key("0"), key("y"), key("w"), key("P")];
+
+                expect(press(line("abc def"), keys, true)).to.deep.equal(line("abc abc def", 3));
+            });
+
+            it("navigates through the history", () => {
+                history.add("old");
+                history.add("new");
+
+                expect(press(line(""), [esc, key("k"), key("k")], true)).to.deep.equal(line("old", 0));
+                expect(press(line(""), [key("j")], true)).to.deep.equal(line("new", 0));
+            });
+
+            it("returns to insert mode when vi mode is disabled", () => {
+                editor.edit(line("abc"), esc, true);
+
+                expect(editor.edit(line("abc"), key("x"), false)).to.be.undefined;
+                expect(editor.isViCommandMode).to.be.false;
+            });
+        });
+    });
+
+    describe("reset", () => {
+        it("returns to insert mode", () => {
+            editor.edit(line("abc"), key("Escape"), true);
+
+            editor.reset();
+
+            expect(editor.isViCommandMode).to.be.false;
+        });
+    });
+});
@@ -1,8 +1,11 @@
 import {expect} from "chai";
 import "mocha";
 
+import {Environment} from "../main/js/Environment";
 import "../main/js/Extensions";
-import {Path} from "../main/js/FileSystem";
+import {Directory, FileSystem, Path} from "../main/js/FileSystem";
+import {InputHistory} from "../main/js/InputHistory";
+import {InputParser} from "../main/js/InputParser";
 
 
 describe("paths", () => {
@@ -221,4 +224,26 @@ describe("paths", () => {
                 .to.equal(new Path("/dir1/dir2/dir3/file").toString());
         });
     });
+
+    describe("toString", () => {
+        it("returns the path", () => {
+            expect(new Path("/dir/file").toString()).to.equal("/dir/file");
+        });
+
+        it("escapes special characters so that the path can be used in a command in an HTML attribute", () => {
+            const environment = new Environment(["cwd"], {"cwd": "/"});
+            const parser = InputParser.create(environment, new FileSystem(new Directory()));
+
+            ["/a b", "/a[1]", "/x!y", "/a<b", "/(c)", "/a&b;c|d>e", "/'\"\\`", "/~$f*?{g,h}"].forEach(name => {
+                const input = new Path(name).toString(true)
+                    .replace(/&#([0-9]+);/g, (_, code) => String.fromCharCode(Number(code)))
+                    .replace(/\\(.)/g, "$1");
+                const lists = parser.parseCommands(new InputHistory().expand(`cat ${input}`));
+                const command = <InputParser.SimpleCommand> lists[0].pipelines[0][0];
+
+                expect(command.redirects).to.be.empty;
+                expect(parser.parseCommand(command.words.map(it => it.text)).args).to.deep.equal([name]);
+            });
+        });
+    });
 });
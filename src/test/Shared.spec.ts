@@ -1,7 +1,7 @@
 import {expect} from "chai";
 import "mocha";
 
-import {escapeHtml, extractWordBefore, getFileExtension} from "../main/js/Shared";
+import {escapeHtml, extractWordAfter, extractWordBefore, formatSize, getFileExtension} from "../main/js/Shared";
 
 
 describe("shared functions", () => {
@@ -56,6 +56,60 @@ describe("shared functions", () => {
         });
     });
 
+    describe("extractWordAfter", () => {
+        it("returns the word", () => {
+            const parts = extractWordAfter("a b c", 2);
+            expect(parts).to.deep.equal(["a ", "b", " c"]);
+        });
+
+        it("returns the word including leading whitespace", () => {
+            const parts = extractWordAfter("a   b c", 1);
+            expect(parts).to.deep.equal(["a", "   b", " c"]);
+        });
+
+        it("returns the word including leading whitespace and forward slashes", () => {
+            const parts = extractWordAfter("a / /b/c", 1);
+            expect(parts).to.deep.equal(["a", " / /b", "/c"]);
+        });
+
+        it("returns the word if there is no following delimiter", () => {
+            const parts = extractWordAfter("a bc", 2);
+            expect(parts).to.deep.equal(["a ", "bc", ""]);
+        });
+
+        it("returns an empty word at the end of the input", () => {
+            const parts = extractWordAfter("a b", 3);
+            expect(parts).to.deep.equal(["a b", "", ""]);
+        });
+
+        it("returns the word based on custom delimiters", () => {
+            const parts = extractWordAfter("a|b c|d", 1, "|");
+            expect(parts).to.deep.equal(["a", "|b c", "|d"]);
+        });
+    });
+
+    describe("formatSize", () => {
+        it("returns small sizes in bytes", () => {
+            expect(formatSize(0)).to.equal("0");
+            expect(formatSize(1023)).to.equal("1023");
+        });
+
+        it("rounds sizes of less than 10 units up to one decimal", () => {
+            expect(formatSize(1024)).to.equal("1.0K");
+            expect(formatSize(1025)).to.equal("1.1K");
+            expect(formatSize(1.5 * 1024 * 1024)).to.equal("1.5M");
+        });
+
+        it("rounds sizes of at least 10 units up to a whole number", () => {
+            expect(formatSize(10 * 1024)).to.equal("10K");
+            expect(formatSize(10.2 * 1024)).to.equal("11K");
+        });
+
+        it("uses the largest unit", () => {
+            expect(formatSize(2048 * 1024 ** 4)).to.equal("2048T");
+        });
+    });
+
     describe("getFileExtension", () => {
         it("returns the extension of a file", () => {
             expect(getFileExtension("file.ext")).to.equal("ext");
@@ -0,0 +1,60 @@
+import {expect} from "chai";
+import "mocha";
+
+import {Environment} from "../main/js/Environment";
+import {ShellOptions} from "../main/js/ShellOptions";
+
+
+describe("shell options", () => {
+    let environment: Environment;
+
+
+    beforeEach(() => {
+        environment = new Environment();
+    });
+
+
+    describe("has", () => {
+        it("returns true for existing options", () => {
+            expect(ShellOptions.has("globstar")).to.be.true;
+        });
+
+        it("returns false for unknown options", () => {
+            expect(ShellOptions.has("unknown")).to.be.false;
+            expect(ShellOptions.has("toString")).to.be.false;
+        });
+    });
+
+    describe("isEnabled", () => {
+        it("returns the default if the option has not been set", () => {
+            expect(ShellOptions.isEnabled(environment, "failglob")).to.be.true;
+            expect(ShellOptions.isEnabled(environment, "nullglob")).to.be.false;
+        });
+
+        it("returns the value stored in the environment", () => {
+            environment.set("failglob", "off");
+            environment.set("nullglob", "on");
+
+            expect(ShellOptions.isEnabled(environment, "failglob")).to.be.false;
+            expect(ShellOptions.isEnabled(environment, "nullglob")).to.be.true;
+        });
+
+        it("throws an error for unknown options", () => {
+            expect(() => ShellOptions.isEnabled(environment, "unknown")).to.throw();
+        });
+    });
+
+    describe("set", () => {
+        it("stores the option in the environment", () => {
+            ShellOptions.set(environment, "extglob", true);
+            ShellOptions.set(environment, "failglob", false);
+
+            expect(environment.get("extglob")).to.equal("on");
+            expect(environment.get("failglob")).to.equal("off");
+        });
+
+        it("throws an error for unknown options", () => {
+            expect(() => ShellOptions.set(environment, "unknown", true)).to.throw();
+        });
+    });
+});
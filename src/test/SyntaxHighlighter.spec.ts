@@ -0,0 +1,104 @@
+import {expect} from "chai";
+import "mocha";
+
+import {Environment} from "../main/js/Environment";
+import {FileSystem} from "../main/js/FileSystem";
+import {InputParser} from "../main/js/InputParser";
+import {SyntaxHighlighter} from "../main/js/SyntaxHighlighter";
+
+
+describe("syntax highlighter", () => {
+    let highlighter: SyntaxHighlighter;
+
+
+    beforeEach(() => {
+        highlighter = new SyntaxHighlighter(name => ["echo", "ls"].includes(name));
+    });
+
+
+    /**
+     * Parses and highlights the given input.
+     *
+     * @param input the input to highlight
+     */
+    const highlight = (input: string): string => {
+        const parser = InputParser.create(new Environment([], {cwd: "/"}), new FileSystem());
+        return highlighter.highlight(input, parser.parseCommands(input));
+    };
+
+
+    describe("commands", () => {
+        it("highlights a command that exists", () => {
+            expect(highlight("echo a")).to.equal(`<span class="syntax-command">echo</span> a`);
+        });
+
+        it("highlights a command that does not exist", () => {
+            expect(highlight("ehco a")).to.equal(`<span class="syntax-unknown-command">ehco</span> a`);
+        });
+
+        it("highlights each command in pipelines and lists", () => {
+            expect(highlight("echo | ls && x")).to.equal(
+                `<span class="syntax-command">echo</span> | <span class="syntax-command">ls</span> &amp;&amp; ` +
+                `<span class="syntax-unknown-command">x</span>`
+            );
+        });
+
+        it("does not check command names that have to be expanded", () => {
+            expect(highlight("$a b")).to.equal(`<span class="syntax-variable">$a</span> b`);
+        });
+
+        it("highlights the commands inside compound commands but not the keywords", () => {
+            expect(highlight("if echo ; then x ; fi")).to.equal(
+                `if <span class="syntax-command">echo</span> ; then <span class="syntax-unknown-command">x</span> ; fi`
+            );
+        });
+
+        it("highlights the commands inside function definitions", () => {
+            expect(highlight("f() { ls ; }")).to.equal(`f() { <span class="syntax-command">ls</span> ; }`);
+        });
+
+        it("does not highlight the implicit words of a for loop", () => {
+            expect(highlight("for x ; do ls ; done"))
+                .to.equal(`for x ; do <span class="syntax-command">ls</span> ; done`);
+        });
+    });
+
+    describe("arguments", () => {
+        it("highlights options", () => {
+            expect(highlight("ls -a --b=c d")).to.equal(
+                `<span class="syntax-command">ls</span> <span class="syntax-option">-a</span> ` +
+                `<span class="syntax-option">--b=c</span> d`
+            );
+        });
+
+        it("highlights strings and the variables inside them", () => {
+            expect(highlight(`echo 'a $b' "c $d"`)).to.equal(
+                `<span class="syntax-command">echo</span> <span class="syntax-string">&#039;a $b&#039;</span> ` +
+                `<span class="syntax-string">&quot;c <span class="syntax-variable">$d</span>&quot;</span>`
+            );
+        });
+
+        it("highlights variables", () => {
+            expect(highlight("echo a$b ${c:-d}")).to.equal(
+                `<span class="syntax-command">echo</span> a<span class="syntax-variable">$b</span> ` +
+                `<span class="syntax-variable">\${c:-d}</span>`
+            );
+        });
+
+        it("highlights redirects including their targets", () => {
+            expect(highlight("echo a 2> $b")).to.equal(
+                `<span class="syntax-command">echo</span> a ` +
+                `<span class="syntax-redirect">2&gt; <span class="syntax-variable">$b</span></span>`
+            );
+        });
+    });
+
+    describe("escaping", () => {
+        it("escapes special HTML characters", () => {
+            expect(highlight(`echo "<a>" &b`)).to.equal(
+                `<span class="syntax-command">echo</span> ` +
+                `<span class="syntax-string">&quot;&lt;a&gt;&quot;</span> &amp;b`
+            );
+        });
+    });
+});
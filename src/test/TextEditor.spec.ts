@@ -0,0 +1,303 @@
+import {expect} from "chai";
+import "mocha";
+
+import {LineEditor} from "../main/js/LineEditor";
+import {IllegalArgumentError} from "../main/js/Shared";
+import {TextEditor} from "../main/js/TextEditor";
+
+
+describe("text editor", () => {
+    let saved: string[];
+    let editor: TextEditor;
+
+
+    beforeEach(() => {
+        saved = [];
+        editor = new TextEditor("/file", "abc\ndef\n", contents => saved.push(contents));
+    });
+
+
+    const key = (name: string, {ctrlKey = false} = {}): LineEditor.Key =>
+        ({key: name, code: "", ctrlKey: ctrlKey, altKey: false, metaKey: false});
+    const ctrl = (name: string) => key(name, {ctrlKey: true});
+
+    /**
+     * Presses the given keys in turn.
+     */
+    const press = (...keys: (string | LineEditor.Key)[]): void =>
+        keys.forEach(it => editor.handleKey(typeof it === "string" ? key(it) : it));
+
+    /**
+     * Types the given text one character at a time.
+     */
+    const type = (text: string): void => press(...text.split(""));
+
+
+    describe("constructor", () => {
+        it("starts with a single empty line if the contents are empty", () => {
+            editor = new TextEditor("/file", "", () => {});
+
+            expect(editor.contents).to.equal("");
+            expect(editor.render()).to.contain(`<span class="editor-line-number">1</span> `);
+        });
+
+        it("adds a newline to the last line if it has none", () => {
+            editor = new TextEditor("/file", "abc", () => {});
+
+            expect(editor.contents).to.equal("abc\n");
+        });
+    });
+
+    describe("handleKey", () => {
+        it("does not handle modifier keys", () => {
+            expect(editor.handleKey(key("Shift"))).to.be.false;
+        });
+
+        it("does not handle unbound control keys", () => {
+            expect(editor.handleKey(ctrl("c"))).to.be.false;
+        });
+
+
+        describe("movement", () => {
+            it("moves the cursor with the arrow keys", () => {
+                press("ArrowRight", "ArrowRight", "ArrowDown", "ArrowLeft");
+
+                expect(editor.cursor).to.deep.equal({row: 1, column: 1});
+            });
+
+            it("moves to the end of the previous line", () => {
+                press("ArrowDown", "ArrowLeft");
+
+                expect(editor.cursor).to.deep.equal({row: 0, column: 3});
+            });
+
+            it("moves to the start of the next line", () => {
+                press("End", "ArrowRight");
+
+                expect(editor.cursor).to.deep.equal({row: 1, column: 0});
+            });
+
+            it("does not move outside the file", () => {
+                press("ArrowUp", "ArrowLeft");
+                expect(editor.cursor).to.deep.equal({row: 0, column: 0});
+
+                press("PageDown", "End", "ArrowRight");
+                expect(editor.cursor).to.deep.equal({row: 1, column: 3});
+            });
+
+            it("moves to the start and end of the file", () => {
+                press(ctrl("End"));
+                expect(editor.cursor).to.deep.equal({row: 1, column: 3});
+
+                press(ctrl("Home"));
+                expect(editor.cursor).to.deep.equal({row: 0, column: 0});
+            });
+        });
+
+        describe("editing", () => {
+            it("inserts characters at the cursor", () => {
+                press("ArrowRight");
+                type("xy");
+
+                expect(editor.contents).to.equal("axybc\ndef\n");
+                expect(editor.cursor).to.deep.equal({row: 0, column: 3});
+            });
+
+            it("splits lines", () => {
+                press("ArrowRight", "Enter");
+
+                expect(editor.contents).to.equal("a\nbc\ndef\n");
+                expect(editor.cursor).to.deep.equal({row: 1, column: 0});
+            });
+
+            it("deletes the character before the cursor", () => {
+                press("End", "Backspace");
+
+                expect(editor.contents).to.equal("ab\ndef\n");
+            });
+
+            it("joins lines when deleting at the start of a line", () => {
+                press("ArrowDown", "Backspace");
+
+                expect(editor.contents).to.equal("abcdef\n");
+                expect(editor.cursor).to.deep.equal({row: 0, column: 3});
+            });
+
+            it("deletes the character after the cursor", () => {
+                press("Delete");
+
+                expect(editor.contents).to.equal("bc\ndef\n");
+            });
+
+            it("joins lines when deleting at the end of a line", () => {
+                press("End", "Delete");
+
+                expect(editor.contents).to.equal("abcdef\n");
+            });
+
+            it("inserts spaces for tabs", () => {
+                press("Tab");
+
+                expect(editor.contents).to.equal("    abc\ndef\n");
+            });
+        });
+
+        describe("saving", () => {
+            it("saves the contents", () => {
+                type("x");
+                press(ctrl("s"));
+
+                expect(saved).to.deep.equal(["xabc\ndef\n"]);
+                expect(editor.render()).to.contain("Saved &#039;/file&#039;.");
+            });
+
+            it("displays an error if the contents could not be saved", () => {
+                editor = new TextEditor("/file", "", () => {
+                    throw new IllegalArgumentError("Oops.");
+                });
+
+                press(ctrl("s"));
+
+                expect(editor.render()).to.contain("Could not save &#039;/file&#039;: Oops.");
+            });
+        });
+
+        describe("searching", () => {
+            beforeEach(() => {
+                editor = new TextEditor("/file", "abc\nabc\nxyz\n", () => {});
+            });
+
+
+            it("moves to the next occurrence", () => {
+                press(ctrl("f"));
+                type("b");
+                press("Enter");
+
+                expect(editor.cursor).to.deep.equal({row: 0, column: 1});
+            });
+
+            it("searches for the previous text again", () => {
+                press(ctrl("f"));
+                type("b");
+                press("Enter", ctrl("f"), "Enter");
+
+                expect(editor.cursor).to.deep.equal({row: 1, column: 1});
+            });
+
+            it("continues at the start of the file", () => {
+                press("ArrowDown", "ArrowDown", ctrl("f"));
+                type("c");
+                press("Enter");
+
+                expect(editor.cursor).to.deep.equal({row: 0, column: 2});
+                expect(editor.render()).to.contain("Search wrapped.");
+            });
+
+            it("displays a message if the text is not found", () => {
+                press(ctrl("f"));
+                type("q");
+                press("Enter");
+
+                expect(editor.cursor).to.deep.equal({row: 0, column: 0});
+                expect(editor.render()).to.contain("&#039;q&#039; not found.");
+            });
+
+            it("does not edit the file while typing the text", () => {
+                press(ctrl("f"));
+                type("b");
+                press("Escape");
+
+                expect(editor.contents).to.equal("abc\nabc\nxyz\n");
+                expect(editor.cursor).to.deep.equal({row: 0, column: 0});
+            });
+        });
+
+        describe("quitting", () => {
+            it("closes the editor if there are no changes", () => {
+                press(ctrl("x"));
+
+                expect(editor.isClosed).to.be.true;
+            });
+
+            it("asks whether to save changes before closing", () => {
+                type("x");
+                press(ctrl("x"));
+
+                expect(editor.isClosed).to.be.false;
+                expect(editor.render()).to.contain("Save changes to &#039;/file&#039; before quitting?");
+            });
+
+            it("saves the changes and closes", () => {
+                type("x");
+                press(ctrl("x"), "y");
+
+                expect(saved).to.deep.equal(["xabc\ndef\n"]);
+                expect(editor.isClosed).to.be.true;
+            });
+
+            it("discards the changes and closes", () => {
+                type("x");
+                press(ctrl("x"), "n");
+
+                expect(saved).to.be.empty;
+                expect(editor.isClosed).to.be.true;
+            });
+
+            it("continues editing if the question is dismissed", () => {
+                type("x");
+                press(ctrl("x"), "Escape");
+                type("y");
+
+                expect(editor.isClosed).to.be.false;
+                expect(editor.contents).to.equal("xyabc\ndef\n");
+            });
+
+            it("does not close the editor with the key that closes the browser", () => {
+                expect(editor.handleKey(ctrl("q"))).to.be.false;
+                expect(editor.isClosed).to.be.false;
+            });
+
+            it("does not handle keys once closed", () => {
+                press(ctrl("x"));
+
+                expect(editor.handleKey(key("x"))).to.be.false;
+            });
+        });
+    });
+
+    describe("render", () => {
+        it("displays the path and whether the file was modified", () => {
+            expect(editor.render()).to.match(/^<span class="editor-header">\/file<\/span>\n/);
+
+            type("x");
+
+            expect(editor.render()).to.match(/^<span class="editor-header">\/file \(modified\)<\/span>\n/);
+        });
+
+        it("pads line numbers to the same width", () => {
+            editor = new TextEditor("/file", "line\n".repeat(10), () => {});
+
+            expect(editor.render()).to.contain(`<span class="editor-line-number"> 1</span> `);
+            expect(editor.render()).to.contain(`<span class="editor-line-number">10</span> line`);
+        });
+
+        it("highlights the character at the cursor", () => {
+            press("ArrowRight");
+
+            expect(editor.render()).to.contain(`a<span class="editor-cursor">b</span>c\n`);
+        });
+
+        it("highlights the end of the line if the cursor is there", () => {
+            press("End");
+
+            expect(editor.render()).to.contain(`abc<span class="editor-cursor"> </span>\n`);
+        });
+
+        it("escapes HTML", () => {
+            editor = new TextEditor("/file", "<b>&amp;</b>\n", () => {});
+            press("End");
+
+            expect(editor.render()).to.contain("&lt;b&gt;&amp;amp;&lt;/b&gt;");
+        });
+    });
+});